@@ -8,6 +8,7 @@ import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { PolicyAcceptanceModal } from "@/components/PolicyAcceptanceModal";
 import Index from "./pages/Index";
 import SlabDesign from "./pages/SlabDesign";
+import FlatSlabDesign from "./pages/FlatSlabDesign";
 import ContinuousBeamDesign from "./pages/ContinuousBeamDesign";
 import Auth from "./pages/Auth";
 import AdminDashboard from "./pages/AdminDashboard";
@@ -36,6 +37,11 @@ const App = () => (
                 <SlabDesign />
               </ProtectedRoute>
             } />
+            <Route path="/flat-slab" element={
+              <ProtectedRoute>
+                <FlatSlabDesign />
+              </ProtectedRoute>
+            } />
             <Route path="/continuous-beam" element={
               <ProtectedRoute>
                 <ContinuousBeamDesign />
@@ -1,59 +1,170 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Calculator, RotateCcw } from "lucide-react";
-import type { BeamInput } from "@/lib/beamCalculations";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator, RotateCcw, Plus, Trash2 } from "lucide-react";
+import { getLoadPositionError, type BeamCheckInput, type BeamInput, type BeamLoad, type BeamLoadType, type BeamSupportCondition, type ProvidedBars } from "@/lib/beamCalculations";
+import type { SectionType } from "@/lib/flangedSection";
+import { defaultDeflectionSettings } from "@/lib/calculatedDeflection";
+import { DeflectionSettingsFields } from "@/components/DeflectionSettingsFields";
+import { DurabilityFields } from "@/components/DurabilityFields";
+import { getNominalCover, type ExposureCondition, type FireResistancePeriod } from "@/lib/durability";
 
 interface BeamInputFormProps {
   onCalculate: (input: BeamInput) => void;
+  onCheck: (input: BeamCheckInput) => void;
+  onPreview?: (input: BeamInput | BeamCheckInput, mode: CalculationMode) => void; // on every change, for live drawings
 }
 
+export type CalculationMode = 'design' | 'check';
+
+type ProvidedReinforcement = Pick<BeamCheckInput, 'bottomBars' | 'topBars' | 'linkLegs' | 'linkSpacing'>;
+
+const defaultReinforcement: ProvidedReinforcement = {
+  bottomBars: { count: 3, diameter: 20 },
+  topBars: { count: 2, diameter: 16 },
+  linkLegs: 2,
+  linkSpacing: 200,
+};
+
+const defaultLoad: BeamLoad = {
+  type: 'point',
+  position: 3,
+  length: 2,
+  deadLoad: 20,
+  liveLoad: 10,
+  deadLoadEnd: 20,
+  liveLoadEnd: 10,
+};
+
 const defaultValues: BeamInput = {
+  supportCondition: 'simply-supported',
   span: 6,
   deadLoad: 15,
   liveLoad: 10,
+  torsionalMoment: 0,
+  loads: [],
   fcu: 30,
   fy: 460,
+  sectionType: 'rectangular',
   width: 300,
   overallDepth: 500,
+  flangeThickness: 150,
+  flangeWidthLimit: 0,
   cover: 35,
   linkDiameter: 10,
   mainBarDiameter: 20,
+  aggregateSize: 20,
+  deflectionSettings: defaultDeflectionSettings,
+  exposure: 'mild',
+  fireResistance: 1,
 };
 
-export function BeamInputForm({ onCalculate }: BeamInputFormProps) {
+export function BeamInputForm({ onCalculate, onCheck, onPreview }: BeamInputFormProps) {
   const [values, setValues] = useState<BeamInput>(defaultValues);
+  const [mode, setMode] = useState<CalculationMode>('design');
+  const [reinforcement, setReinforcement] = useState<ProvidedReinforcement>(defaultReinforcement);
+
+  useEffect(() => {
+    onPreview?.(mode === 'check' ? { ...values, ...reinforcement } : values, mode);
+  }, [values, mode, reinforcement, onPreview]);
+
+  // Cover follows Tables 3.3 & 3.4 whenever the exposure, fire period, grade or support changes
+  const withNominalCover = (next: BeamInput): BeamInput => ({
+    ...next,
+    cover: getNominalCover(next.exposure, next.fireResistance, 'beam', next.supportCondition === 'continuous', next.fcu),
+  });
 
   const handleChange = (field: keyof BeamInput, value: string) => {
     const numValue = parseFloat(value) || 0;
-    setValues((prev) => ({ ...prev, [field]: numValue }));
+    setValues((prev) => field === 'fcu' ? withNominalCover({ ...prev, fcu: numValue }) : { ...prev, [field]: numValue });
+  };
+
+  const handleSupportChange = (value: BeamSupportCondition) => {
+    setValues((prev) => withNominalCover({ ...prev, supportCondition: value }));
+  };
+
+  const handleDurabilityChange = (exposure: ExposureCondition, fireResistance: FireResistancePeriod) => {
+    setValues((prev) => withNominalCover({ ...prev, exposure, fireResistance }));
+  };
+
+  const handleSectionChange = (value: SectionType) => {
+    setValues((prev) => ({ ...prev, sectionType: value }));
+  };
+
+  const handleLoadChange = (index: number, field: Exclude<keyof BeamLoad, 'type'>, value: string) => {
+    const loads = [...values.loads];
+    loads[index] = { ...loads[index], [field]: parseFloat(value) || 0 };
+    setValues((prev) => ({ ...prev, loads }));
+  };
+
+  const handleLoadTypeChange = (index: number, type: BeamLoadType) => {
+    const loads = [...values.loads];
+    loads[index] = { ...loads[index], type };
+    setValues((prev) => ({ ...prev, loads }));
+  };
+
+  const addLoad = () => {
+    setValues((prev) => ({ ...prev, loads: [...prev.loads, { ...defaultLoad, position: prev.span / 2 }] }));
+  };
+
+  const removeLoad = (index: number) => {
+    setValues((prev) => ({ ...prev, loads: prev.loads.filter((_, i) => i !== index) }));
+  };
+
+  const handleBarsChange = (face: 'bottomBars' | 'topBars', field: keyof ProvidedBars, value: string) => {
+    setReinforcement((prev) => ({ ...prev, [face]: { ...prev[face], [field]: parseFloat(value) || 0 } }));
+  };
+
+  const handleLinkChange = (field: 'linkLegs' | 'linkSpacing', value: string) => {
+    setReinforcement((prev) => ({ ...prev, [field]: parseFloat(value) || 0 }));
   };
 
   const handleReset = () => {
     setValues(defaultValues);
+    setReinforcement(defaultReinforcement);
   };
 
+  const loadErrors = values.loads.map(load => getLoadPositionError(load, values.span));
+  const hasLoadError = loadErrors.some(Boolean);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onCalculate(values);
+    if (hasLoadError) return;
+    if (mode === 'check') {
+      onCheck({ ...values, ...reinforcement });
+    } else {
+      onCalculate(values);
+    }
   };
 
-  // Calculate effective depth for display
-  const effectiveDepth = values.overallDepth - values.cover - values.linkDiameter - values.mainBarDiameter / 2;
+  // Calculate effective depth for display (bottom bars govern in check mode)
+  const tensionBarDiameter = mode === 'check' ? reinforcement.bottomBars.diameter : values.mainBarDiameter;
+  const effectiveDepth = values.overallDepth - values.cover - values.linkDiameter - tensionBarDiameter / 2;
+
+  const isFlanged = values.sectionType !== 'rectangular';
 
-  const inputFields: { key: keyof BeamInput; label: string; unit: string; min?: number }[] = [
+  const inputFields: { key: Exclude<keyof BeamInput, 'supportCondition' | 'loads' | 'sectionType' | 'deflectionSettings' | 'exposure' | 'fireResistance'>; label: string; unit: string; min?: number }[] = [
     { key: "span", label: "Span Length", unit: "m", min: 0.5 },
-    { key: "deadLoad", label: "Dead Load (Gk)", unit: "kN/m", min: 0 },
-    { key: "liveLoad", label: "Live Load (Qk)", unit: "kN/m", min: 0 },
+    { key: "deadLoad", label: "Dead Load UDL (Gk)", unit: "kN/m", min: 0 },
+    { key: "liveLoad", label: "Live Load UDL (Qk)", unit: "kN/m", min: 0 },
+    { key: "torsionalMoment", label: "Torsional Moment (T, ultimate)", unit: "kNm", min: 0 },
     { key: "fcu", label: "Concrete Grade (fcu)", unit: "N/mm²", min: 20 },
     { key: "fy", label: "Steel Grade (fy)", unit: "N/mm²", min: 250 },
-    { key: "width", label: "Beam Width (b)", unit: "mm", min: 150 },
+    { key: "width", label: isFlanged ? "Web Width (bw)" : "Beam Width (b)", unit: "mm", min: 150 },
     { key: "overallDepth", label: "Overall Depth (h)", unit: "mm", min: 200 },
+    ...(isFlanged ? [
+      { key: "flangeThickness" as const, label: "Flange Thickness (hf)", unit: "mm", min: 50 },
+      { key: "flangeWidthLimit" as const, label: "Actual Flange Width (0 = none)", unit: "mm", min: 0 },
+    ] : []),
     { key: "cover", label: "Concrete Cover", unit: "mm", min: 20 },
     { key: "linkDiameter", label: "Link Diameter (φlink)", unit: "mm", min: 6 },
-    { key: "mainBarDiameter", label: "Main Bar Diameter (φ)", unit: "mm", min: 10 },
+    ...(mode === 'design' ? [
+      { key: "mainBarDiameter" as const, label: "Main Bar Diameter (φ)", unit: "mm", min: 10 },
+    ] : []),
+    { key: "aggregateSize", label: "Max Aggregate Size (hagg)", unit: "mm", min: 10 },
   ];
 
   return (
@@ -68,6 +179,73 @@ export function BeamInputForm({ onCalculate }: BeamInputFormProps) {
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Calculation Mode */}
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Calculation Mode</Label>
+            <Select 
+              value={mode} 
+              onValueChange={(v) => setMode(v as CalculationMode)}
+            >
+              <SelectTrigger className="bg-muted/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="design">Design (required reinforcement)</SelectItem>
+                <SelectItem value="check">Check (capacity of given section)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Support Condition */}
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Support Condition</Label>
+            <Select 
+              value={values.supportCondition} 
+              onValueChange={(v) => handleSupportChange(v as BeamSupportCondition)}
+            >
+              <SelectTrigger className="bg-muted/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="simply-supported">Simply Supported</SelectItem>
+                <SelectItem value="cantilever">Cantilever</SelectItem>
+                <SelectItem value="propped-cantilever">Propped Cantilever</SelectItem>
+                <SelectItem value="continuous">Continuous (Fixed Both Ends)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Section Type */}
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Section Type</Label>
+            <Select 
+              value={values.sectionType} 
+              onValueChange={(v) => handleSectionChange(v as SectionType)}
+            >
+              <SelectTrigger className="bg-muted/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="rectangular">Rectangular</SelectItem>
+                <SelectItem value="T">T-beam (flange both sides)</SelectItem>
+                <SelectItem value="L">L-beam (flange one side)</SelectItem>
+              </SelectContent>
+            </Select>
+            {isFlanged && (
+              <p className="text-xs text-muted-foreground">
+                Flange acts in compression for sagging moments only (BS8110 Cl. 3.4.1.5)
+              </p>
+            )}
+          </div>
+
+          <DurabilityFields
+            exposure={values.exposure}
+            fireResistance={values.fireResistance}
+            cover={values.cover}
+            requiredCover={getNominalCover(values.exposure, values.fireResistance, 'beam', values.supportCondition === 'continuous', values.fcu)}
+            onChange={handleDurabilityChange}
+          />
+
           <div className="grid grid-cols-2 gap-4">
             {inputFields.map(({ key, label, unit, min }) => (
               <div key={key} className="space-y-2">
@@ -92,6 +270,165 @@ export function BeamInputForm({ onCalculate }: BeamInputFormProps) {
             ))}
           </div>
 
+          {/* Additional Loads */}
+          <div className="rounded-lg border border-primary/30 bg-primary/5 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="font-semibold text-sm text-primary">Additional Loads</span>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={addLoad}
+                className="h-7 px-2 text-xs"
+              >
+                <Plus className="mr-1 h-3 w-3" />
+                Add Load
+              </Button>
+            </div>
+
+            {values.loads.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Point loads, partial UDLs and trapezoidal loads are added to the full-span UDL above.
+              </p>
+            )}
+
+            {values.loads.map((load, index) => (
+              <div key={index} className="bg-background/50 rounded-lg p-3 space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-semibold text-muted-foreground">Load {index + 1}</span>
+                  <Select 
+                    value={load.type} 
+                    onValueChange={(v) => handleLoadTypeChange(index, v as BeamLoadType)}
+                  >
+                    <SelectTrigger className="h-7 text-xs bg-muted/50 border-border/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="point">Point Load</SelectItem>
+                      <SelectItem value="partial-udl">Partial UDL</SelectItem>
+                      <SelectItem value="trapezoidal">Triangular / Trapezoidal</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeLoad(index)}
+                    className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  {([
+                    { key: 'position', label: load.type === 'point' ? 'Position (x)' : 'Start (x)', unit: 'm', show: true },
+                    { key: 'length', label: 'Loaded Length', unit: 'm', show: load.type !== 'point' },
+                    { key: 'deadLoad', label: load.type === 'trapezoidal' ? 'Gk (start)' : 'Gk', unit: load.type === 'point' ? 'kN' : 'kN/m', show: true },
+                    { key: 'liveLoad', label: load.type === 'trapezoidal' ? 'Qk (start)' : 'Qk', unit: load.type === 'point' ? 'kN' : 'kN/m', show: true },
+                    { key: 'deadLoadEnd', label: 'Gk (end)', unit: 'kN/m', show: load.type === 'trapezoidal' },
+                    { key: 'liveLoadEnd', label: 'Qk (end)', unit: 'kN/m', show: load.type === 'trapezoidal' },
+                  ] as { key: Exclude<keyof BeamLoad, 'type'>; label: string; unit: string; show: boolean }[])
+                    .filter(field => field.show)
+                    .map(field => (
+                      <div key={field.key} className="space-y-1">
+                        <Label className="text-xs text-muted-foreground">{field.label}</Label>
+                        <div className="relative">
+                          <Input
+                            type="number"
+                            step="any"
+                            min="0"
+                            value={load[field.key]}
+                            onChange={(e) => handleLoadChange(index, field.key, e.target.value)}
+                            className="pr-12 font-mono text-sm bg-muted/50 border-border/50"
+                          />
+                          <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">{field.unit}</span>
+                        </div>
+                      </div>
+                    ))}
+                </div>
+                {loadErrors[index] && (
+                  <div className="rounded-md bg-destructive/10 border border-destructive/30 p-2 text-xs text-destructive">
+                    ✕ {loadErrors[index]}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Provided Reinforcement (check mode) */}
+          {mode === 'check' && (
+            <div className="rounded-lg border border-primary/30 bg-primary/5 p-4 space-y-3">
+              <span className="font-semibold text-sm text-primary">Provided Reinforcement</span>
+              {([
+                { face: 'bottomBars', label: 'Bottom Bars' },
+                { face: 'topBars', label: 'Top Bars' },
+              ] as { face: 'bottomBars' | 'topBars'; label: string }[]).map(({ face, label }) => (
+                <div key={face} className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">{label} (No.)</Label>
+                    <Input
+                      type="number"
+                      step="1"
+                      min="0"
+                      value={reinforcement[face].count}
+                      onChange={(e) => handleBarsChange(face, 'count', e.target.value)}
+                      className="font-mono text-sm bg-muted/50 border-border/50"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">{label} (φ)</Label>
+                    <div className="relative">
+                      <Input
+                        type="number"
+                        step="any"
+                        min="6"
+                        value={reinforcement[face].diameter}
+                        onChange={(e) => handleBarsChange(face, 'diameter', e.target.value)}
+                        className="pr-12 font-mono text-sm bg-muted/50 border-border/50"
+                      />
+                      <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">mm</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Link Legs</Label>
+                  <Input
+                    type="number"
+                    step="1"
+                    min="2"
+                    value={reinforcement.linkLegs}
+                    onChange={(e) => handleLinkChange('linkLegs', e.target.value)}
+                    className="font-mono text-sm bg-muted/50 border-border/50"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Link Spacing (sv)</Label>
+                  <div className="relative">
+                    <Input
+                      type="number"
+                      step="any"
+                      min="50"
+                      value={reinforcement.linkSpacing}
+                      onChange={(e) => handleLinkChange('linkSpacing', e.target.value)}
+                      className="pr-12 font-mono text-sm bg-muted/50 border-border/50"
+                    />
+                    <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">mm</span>
+                  </div>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Links use the link diameter above. The face in tension under the governing moment is taken as the tension steel.
+              </p>
+            </div>
+          )}
+
+          <DeflectionSettingsFields
+            settings={values.deflectionSettings}
+            onChange={(deflectionSettings) => setValues((prev) => ({ ...prev, deflectionSettings }))}
+          />
+
           {/* Calculated Effective Depth Display */}
           <div className="p-3 rounded-lg bg-primary/5 border border-primary/20">
             <div className="flex justify-between items-center">
@@ -106,10 +443,11 @@ export function BeamInputForm({ onCalculate }: BeamInputFormProps) {
           <div className="flex gap-3 pt-2">
             <Button
               type="submit"
-              className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground font-medium"
+              disabled={hasLoadError}
+              className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground font-medium disabled:opacity-50"
             >
               <Calculator className="mr-2 h-4 w-4" />
-              Calculate Design
+              {mode === 'check' ? 'Check Section' : 'Calculate Design'}
             </Button>
             <Button
               type="button"
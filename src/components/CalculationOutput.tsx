@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Copy, CheckCircle2, XCircle, FileText } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { DesignAdvisory } from "./DesignAdvisory";
+import { MemberDiagrams } from "./MemberDiagrams";
 import {
   Table,
   TableBody,
@@ -12,6 +13,9 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import type { BeamResult } from "@/lib/beamCalculations";
+import { sectionTypeLabels } from "@/lib/flangedSection";
+import { exposureLabels } from "@/lib/durability";
+import { diagramText } from "@/lib/diagrams";
 
 interface CalculationOutputProps {
   result: BeamResult | null;
@@ -93,48 +97,106 @@ export function CalculationOutput({ result }: CalculationOutputProps) {
     const lines: string[] = [];
     
     lines.push("=".repeat(60));
-    lines.push("SIMPLY SUPPORTED BEAM DESIGN TO BS 8110-1:1997");
+    lines.push(`${s.supportLabel.toUpperCase()} BEAM ${s.capacityCheck ? 'CAPACITY CHECK' : 'DESIGN'} TO BS 8110-1:1997`);
     lines.push("=".repeat(60));
     lines.push("");
     
+    if (result.diagram) {
+      lines.push("DIAGRAMS — BENDING MOMENT, SHEAR FORCE & DEFLECTION");
+      lines.push(...diagramText(result.diagram));
+      lines.push("");
+    }
+
     lines.push("SECTION A — LOADING");
     lines.push(`Dead Load: Gk = ${s.deadLoad} kN/m`);
     lines.push(`Live Load: Qk = ${s.liveLoad} kN/m`);
     lines.push(`Ultimate Load: w = 1.4(${s.deadLoad}) + 1.6(${s.liveLoad}) = ${s.ultimateLoad.toFixed(2)} kN/m`);
+    if (s.loadSummary.length > 1) {
+      lines.push("Load Summary:");
+      s.loadSummary.forEach(row => {
+        lines.push(`  ${row.description} @ ${row.position}: Gk = ${row.deadLoad}, Qk = ${row.liveLoad}, Ult = ${row.ultimate}`);
+      });
+      lines.push(`  Total ultimate load = ${s.totalUltimateLoad.toFixed(2)} kN`);
+    }
     lines.push("");
     
     lines.push("SECTION B — DESIGN MOMENT & SHEAR");
-    lines.push(`Ultimate Moment: M = wL²/8 = ${s.ultimateMoment.toFixed(2)} kNm`);
-    lines.push(`Ultimate Shear: V = wL/2 = ${s.shearForce.toFixed(2)} kN`);
+    lines.push(`Ultimate Moment: ${s.momentFormula} → M = ${s.ultimateMoment.toFixed(2)} kNm at x = ${s.momentPosition.toFixed(2)} m (tension ${s.tensionFace})`);
+    lines.push(`Ultimate Shear: ${s.shearFormula} → V = ${s.shearForce.toFixed(2)} kN at x = ${s.shearPosition.toFixed(2)} m`);
     lines.push("");
     
     lines.push("SECTION C — SECTION CLASSIFICATION");
     lines.push(`K = ${s.kValue.toFixed(4)}, K' = ${s.kPrime}`);
     lines.push(`Section is ${s.isDoublyReinforced ? 'DOUBLY' : 'SINGLY'} REINFORCED`);
+    lines.push(`Durability & fire: ${exposureLabels[s.durability.exposure]} exposure, ${s.durability.fireResistance} h → nominal cover ${s.durability.nominalCover} mm (provided ${s.durability.cover} mm), max w/c ${s.durability.maxWaterCement.toFixed(2)}, min cement ${s.durability.minCementContent} kg/m³`);
+    lines.push(`Durability & fire status: ${s.durability.status === 'unsafe' ? 'FAIL' : 'PASS'}`);
     lines.push("");
     
-    lines.push("SECTION D — BENDING DESIGN");
-    lines.push(`Lever Arm: z = ${s.leverArm.toFixed(1)} mm`);
-    lines.push(`Tension Steel: As = ${s.tensionSteel.toFixed(0)} mm²`);
-    if (s.compressionSteel > 0) {
-      lines.push(`Compression Steel: As' = ${s.compressionSteel.toFixed(0)} mm²`);
+    if (s.capacityCheck) {
+      lines.push("SECTION D — BENDING CAPACITY");
+      lines.push(`Provided: ${s.barSuggestion}${s.compressionBarSuggestion ? `, compression ${s.compressionBarSuggestion}` : ''}`);
+      lines.push(`Neutral axis: x = ${s.capacityCheck.neutralAxisDepth.toFixed(1)} mm, z = ${s.leverArm.toFixed(1)} mm`);
+      lines.push(`Mu = ${s.capacityCheck.momentCapacity.toFixed(2)} kNm, M/Mu = ${s.capacityCheck.momentUtilisation.toFixed(2)}`);
+      if (s.capacityCheck.oppositeFace) {
+        const opposite = s.capacityCheck.oppositeFace;
+        lines.push(`${opposite.face === 'bottom' ? 'Bottom' : 'Top'} bars: M = ${opposite.moment.toFixed(2)} kNm, Mu = ${opposite.momentCapacity.toFixed(2)} kNm, M/Mu = ${opposite.momentUtilisation.toFixed(2)}`);
+      }
+      lines.push("");
+      lines.push("SECTION E — SHEAR CAPACITY");
+      lines.push(`vc = ${s.vc.toFixed(2)} N/mm², vs = ${s.capacityCheck.linkShearStress.toFixed(2)} N/mm² (T${s.linkSize}@${s.linkSpacing}mm c/c)`);
+      lines.push(`Vu = ${s.capacityCheck.shearCapacity.toFixed(2)} kN, Vd/Vu = ${s.capacityCheck.shearUtilisation.toFixed(2)}`);
+      lines.push("");
+    } else {
+      lines.push("SECTION D — BENDING DESIGN");
+      lines.push(`Lever Arm: z = ${s.leverArm.toFixed(1)} mm`);
+      lines.push(`Tension Steel: As = ${s.tensionSteel.toFixed(0)} mm²`);
+      if (s.compressionSteel > 0) {
+        lines.push(`Compression Steel: As' = ${s.compressionSteel.toFixed(0)} mm²`);
+      }
+      lines.push(`Provide: ${s.barSuggestion}`);
+      if (s.oppositeFace) {
+        lines.push(`${s.oppositeFace.face === 'bottom' ? 'Bottom' : 'Top'} Tension Steel: M = ${s.oppositeFace.moment.toFixed(2)} kNm, K = ${s.oppositeFace.kValue.toFixed(4)}, As = ${s.oppositeFace.tensionSteel.toFixed(0)} mm² → ${s.oppositeFace.bars.description}`);
+      }
+      lines.push("");
+    
+      lines.push("SECTION E — SHEAR DESIGN");
+      lines.push(`v = ${s.shearStress.toFixed(2)} N/mm², vc = ${s.vc.toFixed(2)} N/mm²`);
+      lines.push(`Provide: T${s.linkSize}@${s.linkSpacing}mm c/c`);
+      lines.push("");
     }
-    lines.push(`Provide: ${s.barSuggestion}`);
-    lines.push("");
     
-    lines.push("SECTION E — SHEAR DESIGN");
-    lines.push(`v = ${s.shearStress.toFixed(2)} N/mm², vc = ${s.vc.toFixed(2)} N/mm²`);
-    lines.push(`Provide: T${s.linkSize}@${s.linkSpacing}mm c/c`);
+    if (s.torsion) {
+      lines.push("TORSION — BS 8110-2 Section 2.4");
+      lines.push(`vt = ${s.torsion.torsionalStress.toFixed(2)} N/mm², vt,min = ${s.torsion.vtMin.toFixed(2)} N/mm², vtu = ${s.torsion.vtu.toFixed(2)} N/mm²`);
+      if (s.torsion.longitudinalBars) {
+        lines.push(`Longitudinal torsion steel: ${s.torsion.longitudinalBars.description}`);
+      }
+      lines.push("");
+    }
+
+    lines.push(`Bar spacing (Cl. 3.12.11): ${s.detailingStatus === 'safe' ? 'PASS' : 'FAIL'}`);
+    if (s.sideBars) {
+      lines.push(`Side bars: T${s.sideBars.diameter}@${s.sideBars.spacing}mm each face`);
+    }
     lines.push("");
-    
+
     lines.push("SECTION F — DEFLECTION CHECK");
     lines.push(`Actual L/d = ${s.actualSpanDepthRatio.toFixed(1)}`);
     lines.push(`Allowable L/d = ${s.allowableSpanDepthRatio.toFixed(1)}`);
     lines.push(`Status: ${s.deflectionStatus === 'safe' ? 'PASS' : 'FAIL'}`);
+    if (s.calculatedDeflection) {
+      lines.push(`Calculated deflection (BS 8110-2 Cl. 3.7): total ${s.calculatedDeflection.totalDeflection.toFixed(1)} mm ≤ ${s.calculatedDeflection.totalLimit.toFixed(1)} mm, post-construction ${s.calculatedDeflection.postConstructionDeflection.toFixed(1)} mm ≤ ${s.calculatedDeflection.postConstructionLimit.toFixed(1)} mm`);
+      lines.push(`Status: ${s.calculatedDeflection.status === 'safe' ? 'PASS' : 'FAIL'}`);
+    }
+    lines.push("");
+
+    lines.push("SECTION G — ANCHORAGE & CURTAILMENT");
+    lines.push(`T${s.anchorage.diameter}: anchorage ${s.anchorage.tensionAnchorage.toFixed(0)} mm, tension lap ${s.anchorage.tensionLap.toFixed(0)} mm, compression lap ${s.anchorage.compressionLap.toFixed(0)} mm`);
+    s.curtailment.forEach(point => lines.push(point.description));
     lines.push("");
     
     lines.push("=".repeat(60));
-    lines.push(`DESIGN ${s.designValid ? 'ADEQUATE' : 'INADEQUATE'}`);
+    lines.push(`${s.capacityCheck ? 'SECTION' : 'DESIGN'} ${s.designValid ? 'ADEQUATE' : 'INADEQUATE'}`);
     lines.push("All calculations comply with BS 8110-1:1997");
     
     navigator.clipboard.writeText(lines.join("\n"));
@@ -191,10 +253,10 @@ export function CalculationOutput({ result }: CalculationOutputProps) {
             <span className={`font-bold text-lg ${
               s.designValid ? "text-success" : "text-destructive"
             }`}>
-              {s.designValid ? "DESIGN ADEQUATE" : "DESIGN INADEQUATE"}
+              {`${s.capacityCheck ? 'SECTION' : 'DESIGN'} ${s.designValid ? 'ADEQUATE' : 'INADEQUATE'}`}
             </span>
             <span className="ml-auto text-sm font-mono bg-background/50 px-3 py-1 rounded">
-              {s.isDoublyReinforced ? "Doubly Reinforced" : "Singly Reinforced"} Beam
+              {s.supportLabel} • {s.isDoublyReinforced ? "Doubly Reinforced" : "Singly Reinforced"} Beam
             </span>
           </div>
         </div>
@@ -208,6 +270,13 @@ export function CalculationOutput({ result }: CalculationOutputProps) {
           />
         )}
 
+        {/* ==================== DIAGRAMS ==================== */}
+        {result.diagram && (
+          <div className="bg-muted/20 border border-border/50 rounded-lg p-4">
+            <MemberDiagrams diagram={result.diagram} />
+          </div>
+        )}
+
         {/* ==================== SECTION A — LOADING ==================== */}
         <SectionHeader 
           section="A" 
@@ -226,6 +295,38 @@ export function CalculationOutput({ result }: CalculationOutputProps) {
             substitution={`w = 1.4 × ${s.deadLoad} + 1.6 × ${s.liveLoad}`}
             result={`w = ${s.ultimateLoad.toFixed(2)} kN/m`}
           />
+
+          {s.loadSummary.length > 1 && (
+            <div className="space-y-2">
+              <p className="font-semibold text-sm text-muted-foreground">Load Summary:</p>
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead className="font-bold">Load</TableHead>
+                    <TableHead className="font-bold">Position</TableHead>
+                    <TableHead className="font-bold">Gk</TableHead>
+                    <TableHead className="font-bold">Qk</TableHead>
+                    <TableHead className="text-right font-bold">1.4Gk + 1.6Qk</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {s.loadSummary.map(row => (
+                    <TableRow key={row.description}>
+                      <TableCell className="font-mono text-xs">{row.description}</TableCell>
+                      <TableCell className="font-mono text-xs">{row.position}</TableCell>
+                      <TableCell className="font-mono text-xs">{row.deadLoad}</TableCell>
+                      <TableCell className="font-mono text-xs">{row.liveLoad}</TableCell>
+                      <TableCell className="text-right font-mono text-xs text-primary">{row.ultimate}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-muted/20">
+                    <TableCell className="font-mono text-xs font-semibold" colSpan={4}>Total ultimate load</TableCell>
+                    <TableCell className="text-right font-mono text-xs font-semibold">{s.totalUltimateLoad.toFixed(2)} kN</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
         </div>
 
         {/* ==================== SECTION B — DESIGN MOMENT & SHEAR ==================== */}
@@ -248,18 +349,18 @@ export function CalculationOutput({ result }: CalculationOutputProps) {
           <div className="space-y-3">
             <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">2. Ultimate Moment</p>
             <FormulaBlock 
-              formula="M = wL²/8 (simply supported, UDL)"
-              substitution={`M = ${s.ultimateLoad.toFixed(2)} × ${s.span}² / 8`}
-              result={`M = ${s.ultimateMoment.toFixed(2)} kNm`}
+              formula={`${s.momentFormula} (${s.supportLabel.toLowerCase()})`}
+              substitution={`M(sagging) = ${s.saggingMoment.toFixed(2)} kNm, M(hogging) = ${s.hoggingMoment.toFixed(2)} kNm`}
+              result={`M = ${s.ultimateMoment.toFixed(2)} kNm at x = ${s.momentPosition.toFixed(2)} m (tension in ${s.tensionFace} face)`}
             />
           </div>
 
           <div className="space-y-3">
             <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">3. Ultimate Shear</p>
             <FormulaBlock 
-              formula="V = wL/2"
-              substitution={`V = ${s.ultimateLoad.toFixed(2)} × ${s.span} / 2`}
-              result={`V = ${s.shearForce.toFixed(2)} kN`}
+              formula={s.shearFormula}
+              substitution={`Total ultimate load = ${s.totalUltimateLoad.toFixed(2)} kN, L = ${s.span} m`}
+              result={`V = ${s.shearForce.toFixed(2)} kN at x = ${s.shearPosition.toFixed(2)} m`}
             />
           </div>
         </div>
@@ -272,9 +373,16 @@ export function CalculationOutput({ result }: CalculationOutputProps) {
         />
         
         <div className="ml-4 space-y-3">
+          {s.effectiveFlangeWidth !== undefined && (
+            <FormulaBlock 
+              formula={`${sectionTypeLabels[s.sectionType]}: b = bw + lz/${s.sectionType === 'T' ? 5 : 10}`}
+              substitution={`bw = ${s.width} mm, hf = ${s.flangeThickness} mm`}
+              result={`b = ${s.effectiveFlangeWidth.toFixed(0)} mm → Neutral axis ${s.neutralAxisInFlange ? 'within flange' : 'in web (Cl. 3.4.4.5)'}`}
+            />
+          )}
           <FormulaBlock 
             formula="K = M / (bd²fcu)"
-            substitution={`K = ${(s.ultimateMoment * 1e6).toFixed(0)} / (${s.width} × ${s.effectiveDepth.toFixed(0)}² × ${s.fcu})`}
+            substitution={`K = ${(s.ultimateMoment * 1e6).toFixed(0)} / (${(s.effectiveFlangeWidth ?? s.width).toFixed(0)} × ${s.effectiveDepth.toFixed(0)}² × ${s.fcu})`}
             result={`K = ${s.kValue.toFixed(4)}`}
           />
           
@@ -289,107 +397,260 @@ export function CalculationOutput({ result }: CalculationOutputProps) {
               }
             </p>
           </div>
-        </div>
 
-        {/* ==================== SECTION D — BENDING DESIGN ==================== */}
-        <SectionHeader 
-          section="D" 
-          title="BENDING DESIGN" 
-          reference="Reference: BS 8110-1 Cl. 3.4.4" 
-        />
-        
-        <div className="ml-4 space-y-4">
           <div className="space-y-3">
-            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">1. Lever Arm</p>
+            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Durability &amp; Fire (Tables 3.3 – 3.5)</p>
             <FormulaBlock 
-              formula="z = d × [0.5 + √(0.25 - K/0.9)]"
-              substitution={`z = ${s.effectiveDepth.toFixed(0)} × [0.5 + √(0.25 - ${s.kValue.toFixed(4)}/0.9)]`}
-              result={`z = ${s.leverArm.toFixed(1)} mm (max 0.95d = ${(0.95 * s.effectiveDepth).toFixed(0)} mm)`}
+              formula="Nominal cover = max(Table 3.3 durability, Table 3.4 fire)"
+              substitution={`${exposureLabels[s.durability.exposure]} exposure: ${s.durability.durabilityCover !== undefined ? `${s.durability.durabilityCover} mm` : `min. C${s.durability.minimumGrade}`}, ${s.durability.fireResistance} h fire: ${s.durability.fireCover} mm; max w/c = ${s.durability.maxWaterCement.toFixed(2)}, min cement = ${s.durability.minCementContent} kg/m³`}
+              result={`Nominal cover required = ${s.durability.nominalCover} mm`}
+            />
+            <CheckResult 
+              passed={s.durability.cover >= s.durability.nominalCover}
+              label="Nominal cover required"
+              value={`${s.durability.nominalCover} mm`}
+              limit={`${s.durability.cover} mm provided`}
+            />
+            <CheckResult 
+              passed={s.durability.dimension === undefined || s.durability.dimension >= s.durability.minimumDimension}
+              label="Minimum width for fire"
+              value={`${s.durability.minimumDimension} mm`}
+              limit={`${s.durability.dimension} mm provided`}
             />
           </div>
+        </div>
 
-          <div className="space-y-3">
-            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">2. Tension Steel</p>
-            <FormulaBlock 
-              formula="As = M / (0.95 × fy × z)"
-              substitution={`As = ${(s.ultimateMoment * 1e6).toFixed(0)} / (0.87 × ${s.fy} × ${s.leverArm.toFixed(1)})`}
-              result={`As = ${s.tensionSteel.toFixed(0)} mm²`}
+        {s.capacityCheck ? (
+          <>
+            {/* ==================== SECTION D — BENDING CAPACITY ==================== */}
+            <SectionHeader 
+              section="D" 
+              title="BENDING CAPACITY" 
+              reference="Reference: BS 8110-1 Cl. 3.4.4" 
             />
-          </div>
+            
+            <div className="ml-4 space-y-4">
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">1. Reinforcement Provided</p>
+                <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm">
+                  <p>Tension ({s.tensionFace}): {s.barSuggestion}</p>
+                  {s.compressionBarSuggestion && <p className="mt-1">Compression: {s.compressionBarSuggestion}</p>}
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">2. Neutral Axis Depth</p>
+                <FormulaBlock 
+                  formula="0.87fy·As = 0.405fcu·b·x (+ 0.87fy·As')"
+                  substitution={`x/d = ${(s.capacityCheck.neutralAxisDepth / s.effectiveDepth).toFixed(3)} (limit 0.5)`}
+                  result={`x = ${s.capacityCheck.neutralAxisDepth.toFixed(1)} mm, z = ${s.leverArm.toFixed(1)} mm`}
+                />
+              </div>
 
-          {s.compressionSteel > 0 && (
-            <div className="space-y-3">
-              <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">3. Compression Steel</p>
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">3. Moment of Resistance</p>
+                <FormulaBlock 
+                  formula="Mu = Fc·z + 0.87fy·As'(d - d')"
+                  result={`Mu = ${s.capacityCheck.momentCapacity.toFixed(2)} kNm`}
+                />
+                <CheckResult 
+                  passed={s.capacityCheck.momentUtilisation <= 1}
+                  label={`M/Mu (${s.tensionFace} bars)`}
+                  value={s.capacityCheck.momentUtilisation.toFixed(2)}
+                  limit="1.00"
+                />
+                {s.capacityCheck.oppositeFace && (
+                  <>
+                    <FormulaBlock 
+                      formula={`${s.capacityCheck.oppositeFace.face === 'bottom' ? 'Sagging - bottom' : 'Hogging - top'} bars in tension`}
+                      substitution={`M = ${s.capacityCheck.oppositeFace.moment.toFixed(2)} kNm, d = ${s.capacityCheck.oppositeFace.effectiveDepth.toFixed(0)} mm, x = ${s.capacityCheck.oppositeFace.neutralAxisDepth.toFixed(1)} mm`}
+                      result={`Mu = ${s.capacityCheck.oppositeFace.momentCapacity.toFixed(2)} kNm`}
+                    />
+                    <CheckResult 
+                      passed={s.capacityCheck.oppositeFace.momentUtilisation <= 1}
+                      label={`M/Mu (${s.capacityCheck.oppositeFace.face} bars)`}
+                      value={s.capacityCheck.oppositeFace.momentUtilisation.toFixed(2)}
+                      limit="1.00"
+                    />
+                  </>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">4. Minimum Steel Check (Cl. 3.12.5.3)</p>
+                <CheckResult 
+                  passed={s.tensionSteel >= s.minSteel}
+                  label="As,min"
+                  value={`${s.minSteel.toFixed(0)} mm²`}
+                  limit={`As = ${s.tensionSteel.toFixed(0)} mm²`}
+                />
+              </div>
+            </div>
+
+            {/* ==================== SECTION E — SHEAR CAPACITY ==================== */}
+            <SectionHeader 
+              section="E" 
+              title="SHEAR CAPACITY" 
+              reference="Reference: BS 8110-1 Cl. 3.4.5" 
+            />
+            
+            <div className="ml-4 space-y-4">
               <FormulaBlock 
-                formula="As' = (K - K')bd²fcu / [0.87fy(d - d')]"
-                result={`As' = ${s.compressionSteel.toFixed(0)} mm²`}
+                formula="Vu = (vc + 0.87fyv·Asv/(bv·sv))·bv·d ≤ vmax·bv·d"
+                substitution={`vc = ${s.vc.toFixed(3)} N/mm², vs = ${s.capacityCheck.linkShearStress.toFixed(3)} N/mm² (T${s.linkSize}@${s.linkSpacing}mm c/c)`}
+                result={`Vu = ${s.capacityCheck.shearCapacity.toFixed(2)} kN`}
+              />
+              <CheckResult 
+                passed={s.capacityCheck.shearUtilisation <= 1}
+                label="Vd/Vu"
+                value={s.capacityCheck.shearUtilisation.toFixed(2)}
+                limit="1.00"
               />
             </div>
-          )}
+          </>
+        ) : (
+          <>
+            {/* ==================== SECTION D — BENDING DESIGN ==================== */}
+            <SectionHeader 
+              section="D" 
+              title="BENDING DESIGN" 
+              reference="Reference: BS 8110-1 Cl. 3.4.4" 
+            />
+        
+            <div className="ml-4 space-y-4">
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">1. Lever Arm</p>
+                <FormulaBlock 
+                  formula="z = d × [0.5 + √(0.25 - K/0.9)]"
+                  substitution={`z = ${s.effectiveDepth.toFixed(0)} × [0.5 + √(0.25 - ${s.kValue.toFixed(4)}/0.9)]`}
+                  result={`z = ${s.leverArm.toFixed(1)} mm (max 0.95d = ${(0.95 * s.effectiveDepth).toFixed(0)} mm)`}
+                />
+              </div>
 
-          <div className="space-y-3">
-            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">{s.compressionSteel > 0 ? '4' : '3'}. Minimum Steel Check (Cl. 3.12.5.3)</p>
-            <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm">
-              <p>As,min = 0.13%bh = 0.0013 × {s.width} × {s.effectiveDepth.toFixed(0)} = {s.minSteel.toFixed(0)} mm²</p>
-              <p className={`mt-1 font-semibold ${s.tensionSteel >= s.minSteel ? 'text-success' : 'text-warning'}`}>
-                As = {s.tensionSteel.toFixed(0)} mm² {s.tensionSteel >= s.minSteel ? '≥' : '<'} As,min ✓
-              </p>
-            </div>
-          </div>
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">2. Tension Steel</p>
+                <FormulaBlock 
+                  formula="As = M / (0.95 × fy × z)"
+                  substitution={`As = ${(s.ultimateMoment * 1e6).toFixed(0)} / (0.87 × ${s.fy} × ${s.leverArm.toFixed(1)})`}
+                  result={`As = ${s.tensionSteel.toFixed(0)} mm²`}
+                />
+              </div>
 
-          <div className="space-y-3">
-            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">{s.compressionSteel > 0 ? '5' : '4'}. Bar Selection</p>
-            <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm">
-              <p>Required Area: As = {s.tensionSteel.toFixed(0)} mm²</p>
-              <p className="mt-1 text-primary font-semibold">Provide: {s.barSuggestion}</p>
-              {s.compressionBarSuggestion && (
-                <p className="mt-1 text-primary font-semibold">Compression: {s.compressionBarSuggestion}</p>
+              {s.compressionSteel > 0 && (
+                <div className="space-y-3">
+                  <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">3. Compression Steel</p>
+                  <FormulaBlock 
+                    formula="As' = (K - K')bd²fcu / [0.87fy(d - d')]"
+                    result={`As' = ${s.compressionSteel.toFixed(0)} mm²`}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">{s.compressionSteel > 0 ? '4' : '3'}. Minimum Steel Check (Cl. 3.12.5.3)</p>
+                <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm">
+                  <p>As,min = {(s.minSteel / (s.width * s.effectiveDepth) * 100).toFixed(2)}%{s.effectiveFlangeWidth !== undefined ? 'bw' : 'b'}h = {(s.minSteel / (s.width * s.effectiveDepth)).toFixed(4)} × {s.width} × {s.effectiveDepth.toFixed(0)} = {s.minSteel.toFixed(0)} mm²</p>
+                  <p className={`mt-1 font-semibold ${s.tensionSteel >= s.minSteel ? 'text-success' : 'text-warning'}`}>
+                    As = {s.tensionSteel.toFixed(0)} mm² {s.tensionSteel >= s.minSteel ? '≥' : '<'} As,min ✓
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">{s.compressionSteel > 0 ? '5' : '4'}. Bar Selection</p>
+                <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm">
+                  <p>Required Area: As = {s.tensionSteel.toFixed(0)} mm²</p>
+                  <p>Provided Area: As,prov = {s.tensionBars.area.toFixed(0)} mm²{s.tensionBars.layers > 1 ? ` (${s.tensionBars.barsPerLayer.join(' + ')} bars per layer)` : ''}</p>
+                  <p className="mt-1 text-primary font-semibold">Provide: {s.barSuggestion}</p>
+                  {s.compressionBarSuggestion && (
+                    <p className="mt-1 text-primary font-semibold">Compression: {s.compressionBarSuggestion}</p>
+                  )}
+                </div>
+              </div>
+
+              {s.oppositeFace && (
+                <div className="space-y-3">
+                  <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">{s.compressionSteel > 0 ? '6' : '5'}. {s.oppositeFace.face === 'bottom' ? 'Bottom' : 'Top'} Tension Steel ({s.oppositeFace.face === 'bottom' ? 'Sagging' : 'Hogging'})</p>
+                  <FormulaBlock 
+                    formula="K = M / (bw·d²fcu), As = M / (0.87fy·z) ≥ As,min"
+                    substitution={`M = ${s.oppositeFace.moment.toFixed(2)} kNm, d = ${s.oppositeFace.effectiveDepth.toFixed(0)} mm, K = ${s.oppositeFace.kValue.toFixed(4)}, z = ${s.oppositeFace.leverArm.toFixed(1)} mm`}
+                    result={`As = ${s.oppositeFace.tensionSteel.toFixed(0)} mm² → ${s.oppositeFace.bars.description}${s.compressionSteel > 0 ? ' (also the compression steel)' : ''}`}
+                  />
+                </div>
               )}
             </div>
-          </div>
-        </div>
 
-        {/* ==================== SECTION E — SHEAR DESIGN ==================== */}
-        <SectionHeader 
-          section="E" 
-          title="SHEAR DESIGN" 
-          reference="Reference: BS 8110-1 Cl. 3.4.5" 
-        />
+            {/* ==================== SECTION E — SHEAR DESIGN ==================== */}
+            <SectionHeader 
+              section="E" 
+              title="SHEAR DESIGN" 
+              reference="Reference: BS 8110-1 Cl. 3.4.5" 
+            />
         
-        <div className="ml-4 space-y-4">
-          <div className="space-y-3">
-            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">1. Design Shear Stress</p>
+            <div className="ml-4 space-y-4">
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">1. Design Shear Stress</p>
+                <FormulaBlock 
+                  formula="v = V / (bd)"
+                  substitution={`v = ${(s.criticalShear * 1000).toFixed(0)} / (${s.width} × ${s.effectiveDepth.toFixed(0)})`}
+                  result={`v = ${s.shearStress.toFixed(3)} N/mm²`}
+                />
+                <CheckResult 
+                  passed={s.shearStress <= s.maxShearStress}
+                  label="Maximum shear check"
+                  value={`${s.shearStress.toFixed(2)} N/mm²`}
+                  limit={`${s.maxShearStress.toFixed(2)} N/mm²`}
+                />
+              </div>
+
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">2. Concrete Shear Resistance (Table 3.8)</p>
+                <FormulaBlock 
+                  formula="vc = (0.79/γm) × (100As/bd)^(1/3) × (400/d)^(1/4) × (fcu/25)^(1/3)"
+                  result={`vc = ${s.vc.toFixed(3)} N/mm²`}
+                />
+              </div>
+
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">3. Shear Links</p>
+                <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm">
+                  <p>v = {s.shearStress.toFixed(3)} N/mm², vc = {s.vc.toFixed(3)} N/mm²</p>
+                  <p className="mt-2 text-primary font-semibold">
+                    Provide: T{s.linkSize}@{s.linkSpacing}mm c/c {s.torsion?.torsionRequired ? '(closed, shear + torsion)' : s.shearStress <= s.vc ? '(nominal)' : ''}
+                  </p>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+
+        {s.torsion && (
+          <div className="ml-4 mt-4 space-y-3">
+            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Torsion (BS 8110-2 Section 2.4)</p>
             <FormulaBlock 
-              formula="v = V / (bd)"
-              substitution={`v = ${(s.criticalShear * 1000).toFixed(0)} / (${s.width} × ${s.effectiveDepth.toFixed(0)})`}
-              result={`v = ${s.shearStress.toFixed(3)} N/mm²`}
+              formula="vt = 2T / [hmin²(hmax - hmin/3)]"
+              substitution={`T = ${s.torsion.webTorsion.toFixed(2)} kNm (web), vt,min = ${s.torsion.vtMin.toFixed(2)} N/mm², vtu = ${s.torsion.vtu.toFixed(2)} N/mm²`}
+              result={`vt = ${s.torsion.torsionalStress.toFixed(3)} N/mm²`}
             />
             <CheckResult 
-              passed={s.shearStress <= s.maxShearStress}
-              label="Maximum shear check"
-              value={`${s.shearStress.toFixed(2)} N/mm²`}
+              passed={s.torsion.failureReasons.length === 0}
+              label="v + vt"
+              value={`${(s.shearStress + s.torsion.torsionalStress).toFixed(2)} N/mm²`}
               limit={`${s.maxShearStress.toFixed(2)} N/mm²`}
             />
+            {s.torsion.torsionRequired ? (
+              <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm">
+                <p>Asv/sv (torsion) = {s.torsion.linkAreaRatio.toFixed(3)} mm²/mm, x1 = {s.torsion.x1.toFixed(0)} mm, y1 = {s.torsion.y1.toFixed(0)} mm</p>
+                <p>As (longitudinal) = {s.torsion.longitudinalSteel.toFixed(0)} mm²</p>
+                <p className="mt-2 text-primary font-semibold">
+                  Provide: {s.torsion.longitudinalBars?.description} around the closed links
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">vt ≤ vt,min → No torsion reinforcement required (Table 2.4)</p>
+            )}
           </div>
-
-          <div className="space-y-3">
-            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">2. Concrete Shear Resistance (Table 3.8)</p>
-            <FormulaBlock 
-              formula="vc = (0.79/γm) × (100As/bd)^(1/3) × (400/d)^(1/4) × (fcu/25)^(1/3)"
-              result={`vc = ${s.vc.toFixed(3)} N/mm²`}
-            />
-          </div>
-
-          <div className="space-y-3">
-            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">3. Shear Links</p>
-            <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm">
-              <p>v = {s.shearStress.toFixed(3)} N/mm², vc = {s.vc.toFixed(3)} N/mm²</p>
-              <p className="mt-2 text-primary font-semibold">
-                Provide: T{s.linkSize}@{s.linkSpacing}mm c/c {s.shearStress <= s.vc ? '(nominal)' : ''}
-              </p>
-            </div>
-          </div>
-        </div>
+        )}
 
         {/* ==================== SECTION F — DEFLECTION CHECK ==================== */}
         <SectionHeader 
@@ -412,7 +673,7 @@ export function CalculationOutput({ result }: CalculationOutputProps) {
               <span>Tension Modification Factor (Cl. 3.4.6.5):</span>
               <span>{s.tensionModificationFactor.toFixed(2)}</span>
             </div>
-            {s.isDoublyReinforced && (
+            {s.compressionModificationFactor > 1 && (
               <div className="flex justify-between font-mono text-sm">
                 <span>Compression Modification Factor (Cl. 3.4.6.6):</span>
                 <span>{s.compressionModificationFactor.toFixed(2)}</span>
@@ -432,9 +693,65 @@ export function CalculationOutput({ result }: CalculationOutputProps) {
           />
         </div>
 
-        {/* ==================== SECTION G — FINAL DESIGN SUMMARY ==================== */}
+        {s.calculatedDeflection && (
+          <div className="ml-4 mt-4 space-y-3">
+            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Calculated Deflection (BS 8110-2 Cl. 3.7)</p>
+            <FormulaBlock 
+              formula="a = K·L²·(1/rb) + Kcs·L²·(1/rcs)"
+              substitution={`K = ${s.calculatedDeflection.loadFactor.toFixed(4)}, Kcs = ${s.calculatedDeflection.shrinkageFactor}, Ec = ${(s.calculatedDeflection.shortTermModulus / 1000).toFixed(1)} kN/mm², Eeff = ${(s.calculatedDeflection.longTermModulus / 1000).toFixed(1)} kN/mm²`}
+              result={`1/r(long) = ${(s.calculatedDeflection.longTermCurvature * 1e6).toFixed(3)}, 1/r(short) = ${(s.calculatedDeflection.shortTermCurvature * 1e6).toFixed(3)}, 1/rcs = ${(s.calculatedDeflection.shrinkageCurvature * 1e6).toFixed(3)} × 10⁻⁶ /mm`}
+            />
+            <CheckResult 
+              passed={s.calculatedDeflection.totalDeflection <= s.calculatedDeflection.totalLimit}
+              label="Total (L/250)"
+              value={`${s.calculatedDeflection.totalDeflection.toFixed(1)} mm`}
+              limit={`${s.calculatedDeflection.totalLimit.toFixed(1)} mm`}
+            />
+            <CheckResult 
+              passed={s.calculatedDeflection.postConstructionDeflection <= s.calculatedDeflection.postConstructionLimit}
+              label="Post-construction (L/500)"
+              value={`${s.calculatedDeflection.postConstructionDeflection.toFixed(1)} mm`}
+              limit={`${s.calculatedDeflection.postConstructionLimit.toFixed(1)} mm`}
+            />
+          </div>
+        )}
+
+        {/* ==================== SECTION G — ANCHORAGE & CURTAILMENT ==================== */}
         <SectionHeader 
           section="G" 
+          title="ANCHORAGE & CURTAILMENT" 
+          reference="Reference: BS 8110-1 Cl. 3.12.8 – 3.12.10" 
+        />
+        
+        <div className="ml-4 space-y-3">
+          <FormulaBlock 
+            formula="fbu = β√fcu, l = 0.87fy·φ / (4fbu)"
+            substitution={`fbu = ${s.anchorage.bondStressTension.toFixed(2)} N/mm² (tension), ${s.anchorage.bondStressCompression.toFixed(2)} N/mm² (compression)`}
+            result={`T${s.anchorage.diameter}: anchorage = ${s.anchorage.tensionAnchorage.toFixed(0)} mm (${Math.ceil(s.anchorage.tensionAnchorage / s.anchorage.diameter)}φ)`}
+          />
+          <div className="bg-muted/30 rounded-lg p-4 space-y-2">
+            <div className="flex justify-between font-mono text-sm">
+              <span>Tension Lap (× {s.anchorage.lapFactor.toFixed(1)}):</span>
+              <span className="font-semibold">{s.anchorage.tensionLap.toFixed(0)} mm</span>
+            </div>
+            <div className="flex justify-between font-mono text-sm">
+              <span>Compression Lap (1.25 × l):</span>
+              <span className="font-semibold">{s.anchorage.compressionLap.toFixed(0)} mm</span>
+            </div>
+          </div>
+          <div className="bg-muted/30 rounded-lg p-4 space-y-1">
+            <p className="text-sm font-semibold">Curtailment (Cl. 3.12.10.2, Figure 3.24):</p>
+            {s.curtailment.map((point, i) => (
+              <p key={i} className="font-mono text-sm text-muted-foreground">
+                {point.face === 'top' ? 'Top' : 'Bottom'} — {point.description}
+              </p>
+            ))}
+          </div>
+        </div>
+
+        {/* ==================== SECTION H — FINAL DESIGN SUMMARY ==================== */}
+        <SectionHeader 
+          section="H" 
           title="FINAL DESIGN SUMMARY" 
           reference="" 
         />
@@ -454,12 +771,40 @@ export function CalculationOutput({ result }: CalculationOutputProps) {
                 <TableCell className="font-mono">{s.ultimateMoment.toFixed(2)} kNm</TableCell>
                 <TableCell><StatusIndicator status="safe" /></TableCell>
               </TableRow>
+              {s.capacityCheck && (
+                <>
+                  <TableRow>
+                    <TableCell className="font-mono">Moment Capacity (M/Mu, {s.tensionFace === 'top' ? 'Top' : 'Bottom'})</TableCell>
+                    <TableCell className="font-mono">{s.capacityCheck.momentCapacity.toFixed(2)} kNm ({(s.capacityCheck.momentUtilisation * 100).toFixed(0)}%)</TableCell>
+                    <TableCell><StatusIndicator status={s.capacityCheck.momentUtilisation <= 1 ? 'safe' : 'unsafe'} /></TableCell>
+                  </TableRow>
+                  {s.capacityCheck.oppositeFace && (
+                    <TableRow>
+                      <TableCell className="font-mono">Moment Capacity (M/Mu, {s.capacityCheck.oppositeFace.face === 'top' ? 'Top' : 'Bottom'})</TableCell>
+                      <TableCell className="font-mono">{s.capacityCheck.oppositeFace.momentCapacity.toFixed(2)} kNm ({(s.capacityCheck.oppositeFace.momentUtilisation * 100).toFixed(0)}%)</TableCell>
+                      <TableCell><StatusIndicator status={s.capacityCheck.oppositeFace.momentUtilisation <= 1 ? 'safe' : 'unsafe'} /></TableCell>
+                    </TableRow>
+                  )}
+                  <TableRow>
+                    <TableCell className="font-mono">Shear Capacity (Vd/Vu)</TableCell>
+                    <TableCell className="font-mono">{s.capacityCheck.shearCapacity.toFixed(2)} kN ({(s.capacityCheck.shearUtilisation * 100).toFixed(0)}%)</TableCell>
+                    <TableCell><StatusIndicator status={s.shearStatus} /></TableCell>
+                  </TableRow>
+                </>
+              )}
               <TableRow>
-                <TableCell className="font-mono">Tension Steel</TableCell>
+                <TableCell className="font-mono">Tension Steel ({s.tensionFace === 'top' ? 'Top' : 'Bottom'})</TableCell>
                 <TableCell className="font-mono">{s.barSuggestion}</TableCell>
                 <TableCell><StatusIndicator status="safe" /></TableCell>
               </TableRow>
-              {s.compressionSteel > 0 && (
+              {s.oppositeFace && (
+                <TableRow>
+                  <TableCell className="font-mono">Tension Steel ({s.oppositeFace.face === 'top' ? 'Top' : 'Bottom'})</TableCell>
+                  <TableCell className="font-mono">{s.oppositeFace.bars.description}</TableCell>
+                  <TableCell><StatusIndicator status={s.oppositeFace.kValue <= s.kPrime ? 'safe' : 'unsafe'} /></TableCell>
+                </TableRow>
+              )}
+              {s.compressionSteel > 0 && s.compressionBarSuggestion && (
                 <TableRow>
                   <TableCell className="font-mono">Compression Steel</TableCell>
                   <TableCell className="font-mono">{s.compressionBarSuggestion}</TableCell>
@@ -471,11 +816,42 @@ export function CalculationOutput({ result }: CalculationOutputProps) {
                 <TableCell className="font-mono">T{s.linkSize}@{s.linkSpacing}mm c/c</TableCell>
                 <TableCell><StatusIndicator status={s.shearStatus} /></TableCell>
               </TableRow>
+              {s.torsion && (
+                <TableRow>
+                  <TableCell className="font-mono">Torsion (vt)</TableCell>
+                  <TableCell className="font-mono">{s.torsion.torsionalStress.toFixed(2)} N/mm²{s.torsion.longitudinalBars ? `, ${s.torsion.longitudinalBars.description}` : ''}</TableCell>
+                  <TableCell><StatusIndicator status={s.torsion.failureReasons.length > 0 ? 'unsafe' : s.torsion.torsionRequired ? 'review' : 'safe'} /></TableCell>
+                </TableRow>
+              )}
+              <TableRow>
+                <TableCell className="font-mono">Bar Spacing (Cl. 3.12.11)</TableCell>
+                <TableCell className="font-mono">{s.tensionBars.barsPerLayer.join(' + ')} × T{s.tensionBars.diameter} per layer</TableCell>
+                <TableCell><StatusIndicator status={s.detailingStatus} /></TableCell>
+              </TableRow>
+              {s.sideBars && (
+                <TableRow>
+                  <TableCell className="font-mono">Side Bars (h &gt; 750 mm)</TableCell>
+                  <TableCell className="font-mono">T{s.sideBars.diameter}@{s.sideBars.spacing}mm each face</TableCell>
+                  <TableCell><StatusIndicator status="review" /></TableCell>
+                </TableRow>
+              )}
+              <TableRow>
+                <TableCell className="font-mono">Cover (Durability &amp; Fire)</TableCell>
+                <TableCell className="font-mono">{s.durability.cover} mm (≥ {s.durability.nominalCover} mm, {exposureLabels[s.durability.exposure]}, {s.durability.fireResistance} h)</TableCell>
+                <TableCell><StatusIndicator status={s.durability.status} /></TableCell>
+              </TableRow>
               <TableRow>
                 <TableCell className="font-mono">Deflection</TableCell>
                 <TableCell className="font-mono">L/d = {s.actualSpanDepthRatio.toFixed(1)}</TableCell>
                 <TableCell><StatusIndicator status={s.deflectionStatus} /></TableCell>
               </TableRow>
+              {s.calculatedDeflection && (
+                <TableRow>
+                  <TableCell className="font-mono">Calculated Deflection</TableCell>
+                  <TableCell className="font-mono">{s.calculatedDeflection.totalDeflection.toFixed(1)} mm total, {s.calculatedDeflection.postConstructionDeflection.toFixed(1)} mm post-construction</TableCell>
+                  <TableCell><StatusIndicator status={s.calculatedDeflection.status} /></TableCell>
+                </TableRow>
+              )}
             </TableBody>
           </Table>
         </div>
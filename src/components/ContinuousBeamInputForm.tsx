@@ -4,8 +4,16 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
-import { Calculator, RotateCcw, Plus, Minus, GitBranch } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator, RotateCcw, Plus, Minus, GitBranch, Trash2 } from "lucide-react";
 import type { ContinuousBeamInput, ContinuousBeamSpan } from "@/lib/continuousBeamCalculations";
+import { getLoadPositionError, type BeamLoad } from "@/lib/beamCalculations";
+import type { SectionType } from "@/lib/flangedSection";
+import { defaultDeflectionSettings } from "@/lib/calculatedDeflection";
+import { DeflectionSettingsFields } from "@/components/DeflectionSettingsFields";
+import { DurabilityFields } from "@/components/DurabilityFields";
+import { getNominalCover, type ExposureCondition, type FireResistancePeriod } from "@/lib/durability";
+import { MAX_REDISTRIBUTION } from "@/lib/redistribution";
 
 interface ContinuousBeamInputFormProps {
   onCalculate: (input: ContinuousBeamInput) => void;
@@ -17,14 +25,42 @@ const defaultSpan: ContinuousBeamSpan = {
   liveLoad: 10,
 };
 
-const defaultValues: Omit<ContinuousBeamInput, 'spans'> = {
+const defaultCantilever: ContinuousBeamSpan = {
+  length: 1.5,
+  deadLoad: 20,
+  liveLoad: 10,
+};
+
+const defaultLoad: BeamLoad = {
+  type: 'point',
+  position: 3,
+  length: 2,
+  deadLoad: 20,
+  liveLoad: 10,
+  deadLoadEnd: 20,
+  liveLoadEnd: 10,
+};
+
+type CantileverSide = 'leftCantilever' | 'rightCantilever';
+
+// A span (by index) or one of the end cantilevers
+type MemberKey = number | CantileverSide;
+
+const defaultValues: Omit<ContinuousBeamInput, 'spans' | CantileverSide> = {
   fcu: 30,
   fy: 460,
+  sectionType: 'rectangular',
   width: 300,
   effectiveDepth: 450,
   cover: 35,
+  flangeThickness: 150,
+  flangeWidthLimit: 0,
   includeSelfWeight: true,
   beamDepth: 500,
+  deflectionSettings: defaultDeflectionSettings,
+  exposure: 'mild',
+  fireResistance: 1,
+  redistribution: 0,
 };
 
 export function ContinuousBeamInputForm({ onCalculate }: ContinuousBeamInputFormProps) {
@@ -33,43 +69,241 @@ export function ContinuousBeamInputForm({ onCalculate }: ContinuousBeamInputForm
     { ...defaultSpan },
   ]);
   const [values, setValues] = useState(defaultValues);
+  const [cantilevers, setCantilevers] = useState<Partial<Record<CantileverSide, ContinuousBeamSpan>>>({});
+
+  // Cover follows Tables 3.3 & 3.4 whenever the exposure, fire period or grade changes
+  const withNominalCover = (next: typeof defaultValues): typeof defaultValues => ({
+    ...next,
+    cover: getNominalCover(next.exposure, next.fireResistance, 'beam', true, next.fcu),
+  });
 
   const handleValueChange = (field: keyof typeof defaultValues, value: string | boolean) => {
     if (typeof value === 'boolean') {
       setValues(prev => ({ ...prev, [field]: value }));
+    } else if (field === 'fcu') {
+      setValues(prev => withNominalCover({ ...prev, fcu: parseFloat(value) || 0 }));
     } else {
       setValues(prev => ({ ...prev, [field]: parseFloat(value) || 0 }));
     }
   };
 
-  const handleSpanChange = (index: number, field: keyof ContinuousBeamSpan, value: string) => {
-    const newSpans = [...spans];
-    newSpans[index] = { ...newSpans[index], [field]: parseFloat(value) || 0 };
-    setSpans(newSpans);
+  const handleDurabilityChange = (exposure: ExposureCondition, fireResistance: FireResistancePeriod) => {
+    setValues(prev => withNominalCover({ ...prev, exposure, fireResistance }));
   };
 
-  const addSpan = () => {
-    if (spans.length < 5) {
-      setSpans([...spans, { ...defaultSpan }]);
+  const handleSectionChange = (value: SectionType) => {
+    setValues(prev => ({ ...prev, sectionType: value }));
+  };
+
+  const updateMember = (key: MemberKey, update: (member: ContinuousBeamSpan) => ContinuousBeamSpan) => {
+    if (typeof key === 'number') {
+      setSpans(prev => prev.map((member, i) => i === key ? update(member) : member));
+    } else {
+      setCantilevers(prev => ({ ...prev, [key]: update(prev[key]!) }));
     }
   };
 
+  const handleMemberChange = (key: MemberKey, field: 'length' | 'deadLoad' | 'liveLoad', value: string) => {
+    updateMember(key, member => ({ ...member, [field]: parseFloat(value) || 0 }));
+  };
+
+  // Blank section fields fall back to the beam section
+  const handleMemberSectionChange = (key: MemberKey, field: 'width' | 'beamDepth' | 'effectiveDepth', value: string) => {
+    updateMember(key, member => ({ ...member, [field]: value === '' ? undefined : parseFloat(value) || 0 }));
+  };
+
+  const handleLoadChange = (key: MemberKey, index: number, field: Exclude<keyof BeamLoad, 'type'>, value: string) => {
+    updateMember(key, member => ({
+      ...member,
+      loads: (member.loads ?? []).map((load, i) => i === index ? { ...load, [field]: parseFloat(value) || 0 } : load)
+    }));
+  };
+
+  const handleLoadTypeChange = (key: MemberKey, index: number, type: BeamLoad['type']) => {
+    updateMember(key, member => ({
+      ...member,
+      loads: (member.loads ?? []).map((load, i) => i === index ? { ...load, type } : load)
+    }));
+  };
+
+  const addLoad = (key: MemberKey) => {
+    updateMember(key, member => ({ ...member, loads: [...(member.loads ?? []), { ...defaultLoad, position: member.length / 2 }] }));
+  };
+
+  const removeLoad = (key: MemberKey, index: number) => {
+    updateMember(key, member => ({ ...member, loads: (member.loads ?? []).filter((_, i) => i !== index) }));
+  };
+
+  const addSpan = () => {
+    setSpans([...spans, { ...defaultSpan }]);
+  };
+
   const removeSpan = () => {
     if (spans.length > 2) {
       setSpans(spans.slice(0, -1));
     }
   };
 
+  const toggleCantilever = (side: CantileverSide, enabled: boolean) => {
+    setCantilevers(prev => ({ ...prev, [side]: enabled ? { ...defaultCantilever } : undefined }));
+  };
+
   const handleReset = () => {
     setSpans([{ ...defaultSpan }, { ...defaultSpan }]);
+    setCantilevers({});
     setValues(defaultValues);
   };
 
+  // Loads must lie on their member, measured from the root for cantilevers
+  const loadErrorOf = (key: MemberKey, member: ContinuousBeamSpan, load: BeamLoad) =>
+    getLoadPositionError(load, member.length, typeof key === 'number' ? 'span' : 'cantilever');
+  const members: [MemberKey, ContinuousBeamSpan | undefined][] = [
+    ...spans.map((member, i): [MemberKey, ContinuousBeamSpan] => [i, member]),
+    ['leftCantilever', cantilevers.leftCantilever],
+    ['rightCantilever', cantilevers.rightCantilever]
+  ];
+  const hasLoadError = members.some(([key, member]) => (member?.loads ?? []).some(load => loadErrorOf(key, member!, load)));
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onCalculate({ ...values, spans });
+    if (hasLoadError) return;
+    onCalculate({ ...values, spans, ...cantilevers });
   };
 
+  const renderMemberFields = (key: MemberKey, member: ContinuousBeamSpan, minLength: string) => (
+    <>
+      <div className="grid grid-cols-3 gap-3">
+        {([
+          { field: 'length', label: 'Length', unit: 'm', min: minLength },
+          { field: 'deadLoad', label: 'Dead Load', unit: 'kN/m', min: '0' },
+          { field: 'liveLoad', label: 'Live Load', unit: 'kN/m', min: '0' },
+        ] as { field: 'length' | 'deadLoad' | 'liveLoad'; label: string; unit: string; min: string }[]).map(({ field, label, unit, min }) => (
+          <div key={field} className="space-y-1">
+            <Label className="text-xs text-muted-foreground">{label}</Label>
+            <div className="relative">
+              <Input
+                type="number"
+                step="0.1"
+                min={min}
+                value={member[field]}
+                onChange={(e) => handleMemberChange(key, field, e.target.value)}
+                className={`${unit === 'm' ? 'pr-8' : 'pr-12'} font-mono text-sm bg-muted/50 border-border/50`}
+              />
+              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">{unit}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {([
+          { field: 'width', label: 'Width (b)', fallback: values.width },
+          { field: 'beamDepth', label: 'Depth (h)', fallback: values.beamDepth },
+          { field: 'effectiveDepth', label: 'Eff. Depth (d)', fallback: member.beamDepth ? member.beamDepth - (values.beamDepth - values.effectiveDepth) : values.effectiveDepth },
+        ] as { field: 'width' | 'beamDepth' | 'effectiveDepth'; label: string; fallback: number }[]).map(({ field, label, fallback }) => (
+          <div key={field} className="space-y-1">
+            <Label className="text-xs text-muted-foreground">{label}</Label>
+            <div className="relative">
+              <Input
+                type="number"
+                min="0"
+                value={member[field] ?? ''}
+                placeholder={String(fallback)}
+                onChange={(e) => handleMemberSectionChange(key, field, e.target.value)}
+                className="pr-10 font-mono text-sm bg-muted/50 border-border/50"
+              />
+              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">mm</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {(member.loads ?? []).map((load, index) => (
+        <div key={index} className="rounded-md border border-border/50 p-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <Select
+              value={load.type}
+              onValueChange={(v) => handleLoadTypeChange(key, index, v as BeamLoad['type'])}
+            >
+              <SelectTrigger className="h-7 text-xs bg-muted/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="point">Point Load</SelectItem>
+                <SelectItem value="partial-udl">Partial UDL</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => removeLoad(key, index)}
+              className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              { field: 'position', label: load.type === 'point' ? 'Position (x)' : 'Start (x)', unit: 'm', show: true },
+              { field: 'length', label: 'Loaded Length', unit: 'm', show: load.type !== 'point' },
+              { field: 'deadLoad', label: 'Gk', unit: load.type === 'point' ? 'kN' : 'kN/m', show: true },
+              { field: 'liveLoad', label: 'Qk', unit: load.type === 'point' ? 'kN' : 'kN/m', show: true },
+            ] as { field: Exclude<keyof BeamLoad, 'type'>; label: string; unit: string; show: boolean }[])
+              .filter(({ show }) => show)
+              .map(({ field, label, unit }) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">{label}</Label>
+                  <div className="relative">
+                    <Input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={load[field]}
+                      onChange={(e) => handleLoadChange(key, index, field, e.target.value)}
+                      className="pr-12 font-mono text-sm bg-muted/50 border-border/50"
+                    />
+                    <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">{unit}</span>
+                  </div>
+                </div>
+              ))}
+          </div>
+          {loadErrorOf(key, member, load) && (
+            <div className="rounded-md bg-destructive/10 border border-destructive/30 p-2 text-xs text-destructive">
+              ✕ {loadErrorOf(key, member, load)}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => addLoad(key)}
+        className="h-7 px-2 text-xs"
+      >
+        <Plus className="mr-1 h-3 w-3" />
+        Add Point Load / Partial UDL
+      </Button>
+    </>
+  );
+
+  const renderCantilever = (side: CantileverSide, label: string) => (
+    <div className="bg-background/50 rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-muted-foreground">{label} Cantilever</span>
+        <Switch
+          checked={cantilevers[side] !== undefined}
+          onCheckedChange={(checked) => toggleCantilever(side, checked)}
+        />
+      </div>
+      {cantilevers[side] && renderMemberFields(side, cantilevers[side]!, "0.1")}
+      {cantilevers[side] && (
+        <p className="text-xs text-muted-foreground">Load positions are measured from the supported end.</p>
+      )}
+    </div>
+  );
+
   return (
     <Card className="border-border/50 bg-card/80 backdrop-blur-sm">
       <CardHeader className="pb-4">
@@ -105,7 +339,6 @@ export function ContinuousBeamInputForm({ onCalculate }: ContinuousBeamInputForm
                   size="sm"
                   variant="outline"
                   onClick={addSpan}
-                  disabled={spans.length >= 5}
                   className="h-7 w-7 p-0"
                 >
                   <Plus className="h-3 w-3" />
@@ -113,57 +346,22 @@ export function ContinuousBeamInputForm({ onCalculate }: ContinuousBeamInputForm
               </div>
             </div>
 
+            <p className="text-xs text-muted-foreground">
+              Blank section fields use the beam section below. Self-weight is taken from each span's own section.
+            </p>
+
+            {renderCantilever('leftCantilever', 'Left')}
+
             {spans.map((span, index) => (
               <div key={index} className="bg-background/50 rounded-lg p-3 space-y-3">
                 <div className="text-xs font-semibold text-muted-foreground">
                   Span {index + 1}
                 </div>
-                <div className="grid grid-cols-3 gap-3">
-                  <div className="space-y-1">
-                    <Label className="text-xs text-muted-foreground">Length</Label>
-                    <div className="relative">
-                      <Input
-                        type="number"
-                        step="0.1"
-                        min="1"
-                        value={span.length}
-                        onChange={(e) => handleSpanChange(index, 'length', e.target.value)}
-                        className="pr-8 font-mono text-sm bg-muted/50 border-border/50"
-                      />
-                      <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">m</span>
-                    </div>
-                  </div>
-                  <div className="space-y-1">
-                    <Label className="text-xs text-muted-foreground">Dead Load</Label>
-                    <div className="relative">
-                      <Input
-                        type="number"
-                        step="0.1"
-                        min="0"
-                        value={span.deadLoad}
-                        onChange={(e) => handleSpanChange(index, 'deadLoad', e.target.value)}
-                        className="pr-12 font-mono text-sm bg-muted/50 border-border/50"
-                      />
-                      <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">kN/m</span>
-                    </div>
-                  </div>
-                  <div className="space-y-1">
-                    <Label className="text-xs text-muted-foreground">Live Load</Label>
-                    <div className="relative">
-                      <Input
-                        type="number"
-                        step="0.1"
-                        min="0"
-                        value={span.liveLoad}
-                        onChange={(e) => handleSpanChange(index, 'liveLoad', e.target.value)}
-                        className="pr-12 font-mono text-sm bg-muted/50 border-border/50"
-                      />
-                      <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">kN/m</span>
-                    </div>
-                  </div>
-                </div>
+                {renderMemberFields(index, span, "1")}
               </div>
             ))}
+
+            {renderCantilever('rightCantilever', 'Right')}
           </div>
 
           {/* Section Properties */}
@@ -171,9 +369,25 @@ export function ContinuousBeamInputForm({ onCalculate }: ContinuousBeamInputForm
             <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
               Section Properties
             </div>
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Section Type</Label>
+              <Select 
+                value={values.sectionType} 
+                onValueChange={(v) => handleSectionChange(v as SectionType)}
+              >
+                <SelectTrigger className="bg-muted/50 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="rectangular">Rectangular</SelectItem>
+                  <SelectItem value="T">T-beam (flange both sides)</SelectItem>
+                  <SelectItem value="L">L-beam (flange one side)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label className="text-xs text-muted-foreground">Beam Width (b)</Label>
+                <Label className="text-xs text-muted-foreground">{values.sectionType === 'rectangular' ? 'Beam Width (b)' : 'Web Width (bw)'}</Label>
                 <div className="relative">
                   <Input
                     type="number"
@@ -220,7 +434,42 @@ export function ContinuousBeamInputForm({ onCalculate }: ContinuousBeamInputForm
                   <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">mm</span>
                 </div>
               </div>
+              {values.sectionType !== 'rectangular' && (
+                <>
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Flange Thickness (hf)</Label>
+                  <div className="relative">
+                    <Input
+                      type="number"
+                      value={values.flangeThickness}
+                      onChange={(e) => handleValueChange('flangeThickness', e.target.value)}
+                      className="pr-12 font-mono text-sm bg-muted/50 border-border/50"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">mm</span>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Actual Flange Width (0 = none)</Label>
+                  <div className="relative">
+                    <Input
+                      type="number"
+                      value={values.flangeWidthLimit}
+                      onChange={(e) => handleValueChange('flangeWidthLimit', e.target.value)}
+                      className="pr-12 font-mono text-sm bg-muted/50 border-border/50"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">mm</span>
+                  </div>
+                </div>
+                </>
+              )}
             </div>
+            <DurabilityFields
+              exposure={values.exposure}
+              fireResistance={values.fireResistance}
+              cover={values.cover}
+              requiredCover={getNominalCover(values.exposure, values.fireResistance, 'beam', true, values.fcu)}
+              onChange={handleDurabilityChange}
+            />
           </div>
 
           {/* Material Properties */}
@@ -268,11 +517,38 @@ export function ContinuousBeamInputForm({ onCalculate }: ContinuousBeamInputForm
             />
           </div>
 
+          {/* Moment Redistribution */}
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Moment Redistribution at Supports</Label>
+            <div className="relative">
+              <Input
+                type="number"
+                step="5"
+                min="0"
+                max={MAX_REDISTRIBUTION}
+                value={values.redistribution}
+                onChange={(e) => handleValueChange('redistribution', String(Math.min(parseFloat(e.target.value) || 0, MAX_REDISTRIBUTION)))}
+                className="pr-12 font-mono text-sm bg-muted/50 border-border/50"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">%</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              βb = {(1 - values.redistribution / 100).toFixed(2)} (max {MAX_REDISTRIBUTION}%, Cl. 3.2.2)
+            </p>
+          </div>
+
+          <DeflectionSettingsFields
+            settings={values.deflectionSettings}
+            onChange={(deflectionSettings) => setValues(prev => ({ ...prev, deflectionSettings }))}
+          />
+
           {/* BS Reference */}
           <div className="rounded-md bg-muted/30 border border-border/50 p-3 text-xs">
             <span className="font-semibold text-primary">BS 8110 Reference:</span>
             <div className="mt-1 text-muted-foreground font-mono">
-              • Table 3.5 (Moment & shear coefficients)
+              • Clause 3.2.1 (Elastic analysis)
+              <br />
+              • Clause 3.2.2 (Moment redistribution)
               <br />
               • Clause 3.4 (Deflection control)
               <br />
@@ -283,7 +559,8 @@ export function ContinuousBeamInputForm({ onCalculate }: ContinuousBeamInputForm
           <div className="flex gap-3 pt-2">
             <Button
               type="submit"
-              className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground font-medium"
+              disabled={hasLoadError}
+              className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground font-medium disabled:opacity-50"
             >
               <Calculator className="mr-2 h-4 w-4" />
               Analyze Beam
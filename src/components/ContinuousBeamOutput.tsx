@@ -3,6 +3,8 @@ import { Button } from "@/components/ui/button";
 import { Copy, CheckCircle2, XCircle, AlertTriangle, FileText, GitBranch } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { DesignAdvisory } from "./DesignAdvisory";
+import { MemberDiagrams } from "./MemberDiagrams";
+import { ReinforcementDrawing } from "./ReinforcementDrawing";
 import {
   Table,
   TableBody,
@@ -12,6 +14,10 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import type { ContinuousBeamResult, CalculationStep, SpanResult } from "@/lib/continuousBeamCalculations";
+import { exposureLabels } from "@/lib/durability";
+import { diagramText } from "@/lib/diagrams";
+import { continuousBeamDrawings } from "@/lib/reinforcementDrawing";
+import { getRedistributionLimits } from "@/lib/redistribution";
 
 interface ContinuousBeamOutputProps {
   result: ContinuousBeamResult | null;
@@ -96,34 +102,103 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
     lines.push("=".repeat(60));
     lines.push("");
     
+    if (result.diagram) {
+      lines.push("DIAGRAMS — BENDING MOMENT, SHEAR FORCE & DEFLECTION");
+      lines.push(...diagramText(result.diagram));
+      lines.push("");
+    }
+
     // Section A
     lines.push("SECTION A — LOADING");
     lines.push("Reference: BS 8110-1 Cl. 2.4.2");
     lines.push("");
-    lines.push(`Ultimate load: F = 1.4Gk + 1.6Qk = ${result.summary.ultimateLoad?.toFixed(2) || 'N/A'} kN/m`);
+    result.spanResults.forEach(span => {
+      lines.push(`Span ${span.spanIndex} (${span.section.width} × ${span.section.beamDepth}, d = ${span.section.effectiveDepth}): w = 1.4Gk + 1.6Qk = ${span.ultimateLoad.toFixed(2)} kN/m, total ${span.totalLoad.toFixed(2)} kN`);
+    });
+    result.cantileverResults.forEach(cr => {
+      lines.push(`${cr.side === 'left' ? 'Left' : 'Right'} cantilever: w = 1.4Gk + 1.6Qk = ${cr.ultimateLoad.toFixed(2)} kN/m, total ${cr.totalLoad.toFixed(2)} kN`);
+    });
     lines.push("");
     
     // Section B
     lines.push("SECTION B — DESIGN MOMENTS & SHEARS");
-    lines.push("Reference: BS 8110-1 Table 3.5");
+    lines.push("Reference: BS 8110-1 Cl. 3.2.1 (stiffness analysis, pattern loading envelope)");
     lines.push("");
     result.spanResults.forEach(span => {
       lines.push(`Span ${span.spanIndex} (L = ${span.length}m):`);
-      lines.push(`  M+ (mid-span) = ${span.positiveMoment.toFixed(2)} kNm`);
-      lines.push(`  M- (left support) = ${span.negativeMomentLeft.toFixed(2)} kNm`);
-      lines.push(`  M- (right support) = ${span.negativeMomentRight.toFixed(2)} kNm`);
+      lines.push(`  M+ (x = ${span.positiveMomentAt.toFixed(2)}m) = ${span.positiveMoment.toFixed(2)} kNm (${span.envelope.sagging.case})`);
+      lines.push(`  M- (left support) = ${span.negativeMomentLeft.toFixed(2)} kNm (${span.envelope.hoggingLeft.case})`);
+      lines.push(`  M- (right support) = ${span.negativeMomentRight.toFixed(2)} kNm (${span.envelope.hoggingRight.case})`);
+      if (result.summary.redistribution) {
+        lines.push(`  Before ${result.summary.redistribution}% redistribution: M- ${span.momentsBeforeRedistribution.left.toFixed(2)} / M+ ${span.momentsBeforeRedistribution.positive.toFixed(2)} / M- ${span.momentsBeforeRedistribution.right.toFixed(2)} kNm`);
+      }
       lines.push(`  V (left) = ${span.shearLeft.toFixed(2)} kN`);
       lines.push(`  V (right) = ${span.shearRight.toFixed(2)} kN`);
       lines.push("");
     });
+    result.cantileverResults.forEach(cr => {
+      lines.push(`${cr.side === 'left' ? 'Left' : 'Right'} cantilever (Lc = ${cr.length}m):`);
+      lines.push(`  M- (root) = ${cr.supportMoment.toFixed(2)} kNm, V = ${cr.shear.toFixed(2)} kN`);
+      lines.push("");
+    });
+
+    // Section C
+    const durability = result.summary.durability;
+    lines.push("SECTION C — SECTION CLASSIFICATION");
+    if (durability) {
+      lines.push(`Durability & fire: ${exposureLabels[durability.exposure]} exposure, ${durability.fireResistance} h → nominal cover ${durability.nominalCover} mm (provided ${durability.cover} mm), max w/c ${durability.maxWaterCement.toFixed(2)}, min cement ${durability.minCementContent} kg/m³`);
+      lines.push(`Durability & fire status: ${durability.status === 'unsafe' ? 'FAIL' : 'PASS'}`);
+    }
+    lines.push("");
+
+    // Section D
+    lines.push("SECTION D — BENDING DESIGN");
+    lines.push("Reference: BS 8110-1 Cl. 3.4.4.4");
+    result.spanResults.forEach(span => {
+      span.sections.filter(section => section.moment > 0).forEach(section => {
+        lines.push(`${section.location} (Span ${span.spanIndex}): M = ${section.moment.toFixed(2)} kNm, K = ${section.K.toFixed(4)}, K' = ${section.kPrime.toFixed(3)}, As = ${section.tensionSteel.toFixed(0)} mm² (${section.tensionFace})${section.isDoublyReinforced ? `, As' = ${section.compressionSteel.toFixed(0)} mm²` : ''}`);
+      });
+      lines.push(`  Span ${span.spanIndex} top: ${span.topSteel}, bottom: ${span.bottomSteel}`);
+    });
+    lines.push("");
+
+    // Section F
+    lines.push("SECTION F — DEFLECTION CHECK");
+    lines.push(`Actual L/d = ${result.summary.actualSpanDepthRatio?.toFixed(1) || 'N/A'}, allowable L/d = ${result.summary.allowableSpanDepthRatio?.toFixed(1) || 'N/A'}`);
+    result.spanResults.forEach(span => {
+      if (span.calculatedDeflection) {
+        lines.push(`Span ${span.spanIndex}: calculated deflection ${span.calculatedDeflection.total.toFixed(1)} mm total, ${span.calculatedDeflection.postConstruction.toFixed(1)} mm post-construction (${span.calculatedDeflection.status === 'safe' ? 'PASS' : 'FAIL'})`);
+      }
+    });
+    result.cantileverResults.forEach(cr => {
+      lines.push(`${cr.side === 'left' ? 'Left' : 'Right'} cantilever: Lc/d = ${cr.spanDepthRatio.toFixed(1)}, allowable ${cr.allowableSpanDepthRatio.toFixed(1)}${cr.calculatedDeflection ? `, calculated ${cr.calculatedDeflection.total.toFixed(1)} mm total` : ''} (${cr.deflectionStatus === 'safe' ? 'PASS' : 'FAIL'})`);
+    });
+    lines.push("");
     
     // Section G
-    lines.push("SECTION G — FINAL DESIGN SUMMARY");
+    const anchorage = result.summary.anchorage;
+    lines.push("SECTION G — ANCHORAGE & CURTAILMENT");
+    lines.push("Reference: BS 8110-1 Cl. 3.12.8 – 3.12.10");
+    lines.push("");
+    if (anchorage) {
+      lines.push(`T${anchorage.diameter}: anchorage ${anchorage.tensionAnchorage.toFixed(0)} mm, tension lap ${anchorage.tensionLap.toFixed(0)} mm, compression lap ${anchorage.compressionLap.toFixed(0)} mm`);
+    }
+    result.spanResults.forEach(span => {
+      lines.push(`Span ${span.spanIndex}:`);
+      span.curtailment.forEach(point => lines.push(`  ${point.description}`));
+    });
+    lines.push("");
+
+    // Section H
+    lines.push("SECTION H — FINAL DESIGN SUMMARY");
     lines.push("");
     lines.push("Location\t\tTop Steel\t\tBottom Steel\t\tShear Links");
     result.spanResults.forEach(span => {
       lines.push(`Span ${span.spanIndex}\t\t${span.topSteel || 'N/A'}\t\t${span.bottomSteel || `${span.tensionSteel.toFixed(0)} mm²`}\t\tT${span.linkSize}@${span.linkSpacing}mm`);
     });
+    result.cantileverResults.forEach(cr => {
+      lines.push(`${cr.side === 'left' ? 'Left' : 'Right'} cantilever\t${cr.topSteel}\t\tNominal\t\t\tT${cr.linkSize}@${cr.linkSpacing}mm`);
+    });
     lines.push("");
     lines.push("=".repeat(60));
     lines.push("All calculations comply with BS 8110-1:1997");
@@ -135,6 +210,8 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
     });
   };
 
+  const drawings = result.spanResults.length > 0 ? continuousBeamDrawings(result) : undefined;
+
   // Convert suggestions to advisory format
   const advisoryFailures = result.summary.failureReasons?.map(reason => ({
     type: 'general' as const,
@@ -159,7 +236,12 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
   const fy = result.summary.fy || 500;
   const maxMoment = Math.max(result.summary.maxPositiveMoment, result.summary.maxNegativeMoment);
   const kValue = result.summary.kValue || (maxMoment * 1e6) / (width * effectiveDepth * effectiveDepth * fcu);
-  const isDoublyReinforced = kValue > 0.156;
+  const kPrime = result.summary.kPrime ?? 0.156;
+  const isDoublyReinforced = kValue > kPrime;
+  const redistribution = result.summary.redistribution ?? 0;
+  const supportLimits = getRedistributionLimits(result.summary.betaB ?? 1);
+  const leftCantilever = result.cantileverResults.find(cr => cr.side === 'left');
+  const rightCantilever = result.cantileverResults.find(cr => cr.side === 'right');
 
   return (
     <Card className="border-border/50 bg-card/80 backdrop-blur-sm">
@@ -201,6 +283,7 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
             </span>
             <span className="ml-auto text-sm font-mono bg-background/50 px-3 py-1 rounded">
               {result.summary.numberOfSpans}-Span Continuous Beam
+              {result.cantileverResults.length > 0 && ` + ${result.cantileverResults.length} Cantilever${result.cantileverResults.length > 1 ? 's' : ''}`}
             </span>
           </div>
         </div>
@@ -214,6 +297,21 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
           />
         )}
 
+        {/* ==================== DIAGRAMS ==================== */}
+        {result.diagram && (
+          <div className="bg-muted/20 border border-border/50 rounded-lg p-4">
+            <MemberDiagrams diagram={result.diagram} />
+          </div>
+        )}
+
+        {/* ==================== REINFORCEMENT DRAWING ==================== */}
+        {drawings && (
+          <div className="bg-muted/20 border border-border/50 rounded-lg p-4">
+            <h3 className="font-bold text-foreground mb-4">Reinforcement Drawing</h3>
+            <ReinforcementDrawing drawings={drawings} />
+          </div>
+        )}
+
         {/* ==================== SECTION A — LOADING ==================== */}
         <SectionHeader 
           section="A" 
@@ -225,14 +323,21 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
           <FormulaBlock 
             formula="F = 1.4Gk + 1.6Qk"
             substitution={`F = 1.4 × ${result.summary.deadLoad || 'Gk'} + 1.6 × ${result.summary.liveLoad || 'Qk'}`}
-            result={`F = ${result.summary.ultimateLoad?.toFixed(2) || 'N/A'} kN/m`}
+            result={`F = ${result.summary.ultimateLoad?.toFixed(2) || 'N/A'} kN/m (max)`}
           />
           
           <div className="text-sm text-muted-foreground">
             <p className="font-semibold">Load per span:</p>
             {result.spanResults.map(span => (
               <p key={span.spanIndex} className="font-mono ml-4">
-                Span {span.spanIndex}: F × L = {result.summary.ultimateLoad?.toFixed(2) || 'N/A'} × {span.length} = {((result.summary.ultimateLoad || 0) * span.length).toFixed(2)} kN
+                Span {span.spanIndex} ({span.section.width} × {span.section.beamDepth}): F × L = {span.ultimateLoad.toFixed(2)} × {span.length} = {(span.ultimateLoad * span.length).toFixed(2)} kN
+                {span.totalLoad - span.ultimateLoad * span.length > 0.005 && `, with point loads / partial UDLs ${span.totalLoad.toFixed(2)} kN`}
+              </p>
+            ))}
+            {result.cantileverResults.map(cr => (
+              <p key={cr.side} className="font-mono ml-4">
+                {cr.side === 'left' ? 'Left' : 'Right'} cantilever: F × Lc = {cr.ultimateLoad.toFixed(2)} × {cr.length} = {(cr.ultimateLoad * cr.length).toFixed(2)} kN
+                {cr.totalLoad - cr.ultimateLoad * cr.length > 0.005 && `, with point loads / partial UDLs ${cr.totalLoad.toFixed(2)} kN`}
               </p>
             ))}
           </div>
@@ -242,7 +347,7 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
         <SectionHeader 
           section="B" 
           title="DESIGN MOMENTS & SHEARS" 
-          reference="Reference: BS 8110-1 Table 3.5" 
+          reference="Reference: BS 8110-1 Cl. 3.2.1.2.2 (pattern loading envelope)" 
         />
         
         <div className="ml-4 overflow-x-auto">
@@ -252,36 +357,76 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
                 <TableHead className="font-bold">Location</TableHead>
                 <TableHead className="text-right font-bold">M (kNm)</TableHead>
                 <TableHead className="text-right font-bold">V (kN)</TableHead>
-                <TableHead className="font-bold">Source</TableHead>
+                <TableHead className="font-bold">Governing Case</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
+              {leftCantilever && (
+                <TableRow key="cantilever-left" className="bg-muted/20">
+                  <TableCell className="font-mono">Left cantilever (Lc = {leftCantilever.length}m)</TableCell>
+                  <TableCell className="text-right font-mono text-warning">-{leftCantilever.supportMoment.toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-mono">{leftCantilever.shear.toFixed(2)}</TableCell>
+                  <TableCell className="text-xs text-primary">{leftCantilever.envelope.hoggingRight.case}</TableCell>
+                </TableRow>
+              )}
               {result.spanResults.map(span => (
                 <>
                   <TableRow key={`${span.spanIndex}-left`} className="border-b-0">
                     <TableCell className="font-mono">Support {span.spanIndex} (Left)</TableCell>
                     <TableCell className="text-right font-mono text-warning">-{Math.abs(span.negativeMomentLeft).toFixed(2)}</TableCell>
                     <TableCell className="text-right font-mono">{span.shearLeft.toFixed(2)}</TableCell>
-                    <TableCell className="text-xs text-primary">Table 3.5</TableCell>
+                    <TableCell className="text-xs text-primary">{span.envelope.hoggingLeft.case}</TableCell>
                   </TableRow>
                   <TableRow key={`${span.spanIndex}-mid`} className="border-b-0 bg-muted/20">
-                    <TableCell className="font-mono">Span {span.spanIndex} (Mid)</TableCell>
+                    <TableCell className="font-mono">Span {span.spanIndex} (x = {span.positiveMomentAt.toFixed(2)}m)</TableCell>
                     <TableCell className="text-right font-mono text-success">+{span.positiveMoment.toFixed(2)}</TableCell>
                     <TableCell className="text-right font-mono">—</TableCell>
-                    <TableCell className="text-xs text-primary">Table 3.5</TableCell>
+                    <TableCell className="text-xs text-primary">{span.envelope.sagging.case}</TableCell>
                   </TableRow>
                   <TableRow key={`${span.spanIndex}-right`}>
                     <TableCell className="font-mono">Support {span.spanIndex + 1} (Right)</TableCell>
                     <TableCell className="text-right font-mono text-warning">-{Math.abs(span.negativeMomentRight).toFixed(2)}</TableCell>
                     <TableCell className="text-right font-mono">{span.shearRight.toFixed(2)}</TableCell>
-                    <TableCell className="text-xs text-primary">Table 3.5</TableCell>
+                    <TableCell className="text-xs text-primary">{span.envelope.hoggingRight.case}</TableCell>
                   </TableRow>
                 </>
               ))}
+              {rightCantilever && (
+                <TableRow key="cantilever-right" className="bg-muted/20">
+                  <TableCell className="font-mono">Right cantilever (Lc = {rightCantilever.length}m)</TableCell>
+                  <TableCell className="text-right font-mono text-warning">-{rightCantilever.supportMoment.toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-mono">{rightCantilever.shear.toFixed(2)}</TableCell>
+                  <TableCell className="text-xs text-primary">{rightCantilever.envelope.hoggingLeft.case}</TableCell>
+                </TableRow>
+              )}
             </TableBody>
           </Table>
         </div>
 
+        {result.cantileverResults.length > 0 && (
+          <p className="ml-4 text-xs text-muted-foreground">
+            End-span sagging moments are taken with the cantilevers at minimum load (1.0Gk), so their balancing moment is not over-relied upon.
+          </p>
+        )}
+
+        {redistribution > 0 && (
+          <div className="ml-4 space-y-3">
+            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Moment Redistribution (Cl. 3.2.2)</p>
+            <FormulaBlock 
+              formula="βb = moment after / moment before redistribution"
+              substitution={`βb = 1 - ${redistribution}/100 = ${(result.summary.betaB ?? 1).toFixed(2)}, K' = 0.402(βb - 0.4) - 0.18(βb - 0.4)²`}
+              result={`Support K' = ${supportLimits.kPrime.toFixed(3)}, x ≤ ${supportLimits.neutralAxisRatio.toFixed(2)}d`}
+            />
+            <div className="text-sm text-muted-foreground font-mono">
+              {result.spanResults.map(span => (
+                <p key={span.spanIndex} className="ml-4">
+                  Span {span.spanIndex}: M- left {span.momentsBeforeRedistribution.left.toFixed(2)} → {span.negativeMomentLeft.toFixed(2)}, M+ {span.momentsBeforeRedistribution.positive.toFixed(2)} → {span.positiveMoment.toFixed(2)}, M- right {span.momentsBeforeRedistribution.right.toFixed(2)} → {span.negativeMomentRight.toFixed(2)} kNm
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* ==================== SECTION C — SECTION CLASSIFICATION ==================== */}
         <SectionHeader 
           section="C" 
@@ -300,12 +445,35 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
             <div className={`mt-3 p-2 rounded ${isDoublyReinforced ? 'bg-warning/20 text-warning' : 'bg-success/20 text-success'}`}>
               <p className="font-bold">
                 {isDoublyReinforced 
-                  ? "Section is DOUBLY REINFORCED (K > 0.156)" 
-                  : "Section is SINGLY REINFORCED (K ≤ 0.156)"
+                  ? `Section is DOUBLY REINFORCED (K > ${kPrime.toFixed(3)})` 
+                  : `Section is SINGLY REINFORCED (K ≤ ${kPrime.toFixed(3)})`
                 }
               </p>
             </div>
           </div>
+
+          {result.summary.durability && (
+            <div className="space-y-3">
+              <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Durability &amp; Fire (Tables 3.3 – 3.5)</p>
+              <FormulaBlock 
+                formula="Nominal cover = max(Table 3.3 durability, Table 3.4 fire)"
+                substitution={`${exposureLabels[result.summary.durability.exposure]} exposure: ${result.summary.durability.durabilityCover !== undefined ? `${result.summary.durability.durabilityCover} mm` : `min. C${result.summary.durability.minimumGrade}`}, ${result.summary.durability.fireResistance} h fire: ${result.summary.durability.fireCover} mm; max w/c = ${result.summary.durability.maxWaterCement.toFixed(2)}, min cement = ${result.summary.durability.minCementContent} kg/m³`}
+                result={`Nominal cover required = ${result.summary.durability.nominalCover} mm`}
+              />
+              <CheckResult 
+                passed={result.summary.durability.cover >= result.summary.durability.nominalCover}
+                label="Nominal cover required"
+                value={`${result.summary.durability.nominalCover} mm`}
+                limit={`${result.summary.durability.cover} mm provided`}
+              />
+              <CheckResult 
+                passed={result.summary.durability.dimension === undefined || result.summary.durability.dimension >= result.summary.durability.minimumDimension}
+                label="Minimum width for fire"
+                value={`${result.summary.durability.minimumDimension} mm`}
+                limit={`${result.summary.durability.dimension} mm provided`}
+              />
+            </div>
+          )}
         </div>
 
         {/* ==================== SECTION D — BENDING DESIGN ==================== */}
@@ -321,7 +489,7 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
             <FormulaBlock 
               formula="K = M / (bd²fcu)"
               substitution={`K = ${(maxMoment * 1e6).toFixed(0)} / (${width} × ${effectiveDepth.toFixed(0)}² × ${fcu})`}
-              result={`K = ${kValue.toFixed(4)} ${kValue <= 0.156 ? '≤' : '>'} 0.156 (K')`}
+              result={`K = ${kValue.toFixed(4)} ${kValue <= kPrime ? '≤' : '>'} ${kPrime.toFixed(3)} (K')`}
             />
           </div>
 
@@ -347,8 +515,8 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
             <div className="space-y-3">
               <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">4. Compression Steel</p>
               <FormulaBlock 
-                formula="As' = (K - K')bd²fcu / [0.95fy(d - d')]"
-                result={`As' = ${result.summary.maxCompressionSteel?.toFixed(0) || 'N/A'} mm²`}
+                formula="As' = (M - M') / [0.87fy(d - d')], M' = K'bd²fcu"
+                result={`As' = ${result.summary.maxCompressionSteel?.toFixed(0) || 'N/A'} mm² (max)`}
               />
             </div>
           )}
@@ -362,6 +530,38 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
               </p>
             </div>
           </div>
+
+          <div className="space-y-3">
+            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Section Design</p>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead className="font-bold">Section</TableHead>
+                    <TableHead className="text-right font-bold">M (kNm)</TableHead>
+                    <TableHead className="text-right font-bold">K</TableHead>
+                    <TableHead className="text-right font-bold">K'</TableHead>
+                    <TableHead className="text-right font-bold">As (mm²)</TableHead>
+                    <TableHead className="text-right font-bold">As' (mm²)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.spanResults.flatMap(span => span.sections)
+                    .filter((section, index, all) => section.moment > 0 && all.findIndex(s => s.location === section.location) === index)
+                    .map(section => (
+                      <TableRow key={section.location}>
+                        <TableCell className="font-mono">{section.location}</TableCell>
+                        <TableCell className="text-right font-mono">{section.moment.toFixed(2)}</TableCell>
+                        <TableCell className={`text-right font-mono ${section.isDoublyReinforced ? 'text-warning' : ''}`}>{section.K.toFixed(4)}</TableCell>
+                        <TableCell className="text-right font-mono">{section.kPrime.toFixed(3)}</TableCell>
+                        <TableCell className="text-right font-mono">{section.tensionSteel.toFixed(0)} ({section.tensionFace})</TableCell>
+                        <TableCell className="text-right font-mono">{section.isDoublyReinforced ? section.compressionSteel.toFixed(0) : '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
         </div>
 
         {/* ==================== SECTION E — SHEAR DESIGN ==================== */}
@@ -376,7 +576,9 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
             <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">1. Design Shear Stress</p>
             <FormulaBlock 
               formula="v = V / (bd)"
-              substitution={`v = ${(result.summary.maxShear * 1000).toFixed(0)} / (${width} × ${effectiveDepth.toFixed(0)})`}
+              substitution={result.summary.criticalShear
+                ? `${result.summary.criticalShear.location}: v = ${(result.summary.criticalShear.shear * 1000).toFixed(0)} / (${result.summary.criticalShear.width} × ${result.summary.criticalShear.effectiveDepth})`
+                : `v = ${(result.summary.maxShear * 1000).toFixed(0)} / (${width} × ${effectiveDepth.toFixed(0)})`}
               result={`v = ${result.summary.shearStress?.toFixed(3) || ((result.summary.maxShear * 1000) / (width * effectiveDepth)).toFixed(3)} N/mm²`}
             />
             <CheckResult 
@@ -446,9 +648,74 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
           />
         </div>
 
-        {/* ==================== SECTION G — FINAL DESIGN SUMMARY ==================== */}
+        {result.summary.calculatedDeflection && (
+          <div className="ml-4 mt-4 space-y-3">
+            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Calculated Deflection (BS 8110-2 Cl. 3.7)</p>
+            <FormulaBlock 
+              formula="a = K·L²·(1/rb) + Kcs·L²·(1/rcs)"
+              substitution={`Governing span ${result.summary.calculatedDeflectionSpan}: K = ${result.summary.calculatedDeflection.loadFactor.toFixed(4)}, Kcs = ${result.summary.calculatedDeflection.shrinkageFactor}`}
+              result={`Total = ${result.summary.calculatedDeflection.totalDeflection.toFixed(1)} mm, post-construction = ${result.summary.calculatedDeflection.postConstructionDeflection.toFixed(1)} mm`}
+            />
+            {result.spanResults.map((span) => span.calculatedDeflection && (
+              <CheckResult 
+                key={span.spanIndex}
+                passed={span.calculatedDeflection.status === 'safe'}
+                label={`Span ${span.spanIndex} total / post-construction`}
+                value={`${span.calculatedDeflection.total.toFixed(1)} / ${span.calculatedDeflection.postConstruction.toFixed(1)} mm`}
+                limit={`${(span.length * 1000 / 250).toFixed(1)} / ${Math.min(span.length * 1000 / 500, 20).toFixed(1)} mm`}
+              />
+            ))}
+          </div>
+        )}
+
+        {result.cantileverResults.length > 0 && (
+          <div className="ml-4 mt-4 space-y-3">
+            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Cantilevers (Table 3.9 basic ratio 7)</p>
+            {result.cantileverResults.map(cr => (
+              <CheckResult 
+                key={cr.side}
+                passed={cr.deflectionStatus === 'safe'}
+                label={`${cr.side === 'left' ? 'Left' : 'Right'} cantilever Lc/d${cr.calculatedDeflection ? ` (calculated ${cr.calculatedDeflection.total.toFixed(1)} mm)` : ''}`}
+                value={cr.spanDepthRatio.toFixed(1)}
+                limit={cr.allowableSpanDepthRatio.toFixed(1)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* ==================== SECTION G — ANCHORAGE & CURTAILMENT ==================== */}
         <SectionHeader 
           section="G" 
+          title="ANCHORAGE & CURTAILMENT" 
+          reference="Reference: BS 8110-1 Cl. 3.12.8 – 3.12.10" 
+        />
+        
+        <div className="ml-4 space-y-3">
+          {result.summary.anchorage && (
+            <FormulaBlock 
+              formula="fbu = β√fcu, l = 0.87fy·φ / (4fbu)"
+              substitution={`fbu = ${result.summary.anchorage.bondStressTension.toFixed(2)} N/mm²; tension lap = ${result.summary.anchorage.lapFactor.toFixed(1)} × l, compression lap = 1.25 × l`}
+              result={`T${result.summary.anchorage.diameter}: anchorage ${result.summary.anchorage.tensionAnchorage.toFixed(0)} mm, tension lap ${result.summary.anchorage.tensionLap.toFixed(0)} mm, compression lap ${result.summary.anchorage.compressionLap.toFixed(0)} mm`}
+            />
+          )}
+          <div className="bg-muted/30 rounded-lg p-4 space-y-3">
+            <p className="font-mono text-sm">Curtailment per span (Cl. 3.12.10.2, Figure 3.24):</p>
+            {result.spanResults.map(span => (
+              <div key={span.spanIndex}>
+                <p className="font-mono text-sm text-primary font-semibold">Span {span.spanIndex}</p>
+                {span.curtailment.map((point, i) => (
+                  <p key={i} className="font-mono text-xs text-muted-foreground">
+                    {point.face === 'top' ? 'Top' : 'Bottom'} — {point.description}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* ==================== SECTION H — FINAL DESIGN SUMMARY ==================== */}
+        <SectionHeader 
+          section="H" 
           title="FINAL DESIGN SUMMARY" 
           reference="" 
         />
@@ -466,12 +733,20 @@ export function ContinuousBeamOutput({ result }: ContinuousBeamOutputProps) {
             <TableBody>
               {result.spanResults.map(span => (
                 <TableRow key={span.spanIndex}>
-                  <TableCell className="font-mono font-semibold">Span {span.spanIndex}</TableCell>
+                  <TableCell className="font-mono font-semibold">Span {span.spanIndex} <span className="text-xs font-normal text-muted-foreground">({span.section.width} × {span.section.beamDepth})</span></TableCell>
                   <TableCell className="font-mono">{span.topSteel || `${Math.ceil(Math.max(span.negativeMomentLeft, span.negativeMomentRight) * 1e6 / (0.95 * fy * effectiveDepth * 0.95) / 314)}T20`}</TableCell>
                   <TableCell className="font-mono">{span.bottomSteel || `${Math.ceil(span.tensionSteel / 314)}T20`}</TableCell>
                   <TableCell className="font-mono">T{span.linkSize}@{span.linkSpacing}mm c/c</TableCell>
                 </TableRow>
               ))}
+              {result.cantileverResults.map(cr => (
+                <TableRow key={`cantilever-${cr.side}`}>
+                  <TableCell className="font-mono font-semibold">{cr.side === 'left' ? 'Left' : 'Right'} cantilever</TableCell>
+                  <TableCell className="font-mono">{cr.topSteel}</TableCell>
+                  <TableCell className="font-mono text-muted-foreground">Nominal</TableCell>
+                  <TableCell className="font-mono">T{cr.linkSize}@{cr.linkSpacing}mm c/c</TableCell>
+                </TableRow>
+              ))}
             </TableBody>
           </Table>
         </div>
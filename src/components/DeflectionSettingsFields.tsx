@@ -0,0 +1,52 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { DeflectionSettings } from "@/lib/calculatedDeflection";
+
+interface DeflectionSettingsFieldsProps {
+  settings: DeflectionSettings;
+  onChange: (settings: DeflectionSettings) => void;
+}
+
+const fields: { key: Exclude<keyof DeflectionSettings, 'enabled'>; label: string; unit: string; step: string }[] = [
+  { key: 'creepCoefficient', label: "Creep Coefficient (φ)", unit: "", step: "0.1" },
+  { key: 'shrinkageStrain', label: "Shrinkage Strain (εcs)", unit: "×10⁻⁶", step: "10" },
+  { key: 'permanentLiveFraction', label: "Permanent Imposed Load", unit: "× Qk", step: "0.05" },
+];
+
+// Optional calculated deflection (BS8110-2 Cl. 3.7) shared by the beam and slab forms
+export function DeflectionSettingsFields({ settings, onChange }: DeflectionSettingsFieldsProps) {
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 bg-muted/30 p-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm">Calculated Deflection</Label>
+          <p className="text-xs text-muted-foreground">Curvature method with creep and shrinkage (BS 8110-2 Cl. 3.7)</p>
+        </div>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(checked) => onChange({ ...settings, enabled: checked })}
+        />
+      </div>
+      {settings.enabled && (
+        <div className="grid grid-cols-3 gap-3">
+          {fields.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <Label className="text-xs text-muted-foreground">{field.label}</Label>
+              <div className="relative">
+                <Input
+                  type="number"
+                  step={field.step}
+                  value={settings[field.key]}
+                  onChange={(e) => onChange({ ...settings, [field.key]: parseFloat(e.target.value) || 0 })}
+                  className="pr-14 font-mono text-sm bg-muted/50 border-border/50"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">{field.unit}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  exposureLabels,
+  fireResistancePeriods,
+  type ExposureCondition,
+  type FireResistancePeriod
+} from "@/lib/durability";
+
+interface DurabilityFieldsProps {
+  exposure: ExposureCondition;
+  fireResistance: FireResistancePeriod;
+  cover: number;
+  requiredCover: number;
+  onChange: (exposure: ExposureCondition, fireResistance: FireResistancePeriod) => void;
+}
+
+// Exposure and fire period selection (BS8110 Tables 3.3 - 3.5) shared by the beam and slab forms
+export function DurabilityFields({ exposure, fireResistance, cover, requiredCover, onChange }: DurabilityFieldsProps) {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Exposure Condition</Label>
+          <Select
+            value={exposure}
+            onValueChange={(v) => onChange(v as ExposureCondition, fireResistance)}
+          >
+            <SelectTrigger className="bg-muted/50 border-border/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(exposureLabels) as ExposureCondition[]).map((key) => (
+                <SelectItem key={key} value={key}>{exposureLabels[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Fire Resistance</Label>
+          <Select
+            value={String(fireResistance)}
+            onValueChange={(v) => onChange(exposure, parseFloat(v) as FireResistancePeriod)}
+          >
+            <SelectTrigger className="bg-muted/50 border-border/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {fireResistancePeriods.map((period) => (
+                <SelectItem key={period} value={String(period)}>{period} hour{period === 1 ? '' : 's'}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <p className={`text-xs ${cover < requiredCover ? 'text-destructive' : 'text-muted-foreground'}`}>
+        Nominal cover required: {requiredCover} mm (Tables 3.3 & 3.4)
+        {cover < requiredCover && ` — entered cover of ${cover} mm is non-compliant`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator, RotateCcw, LayoutGrid } from "lucide-react";
+import type { ColumnPosition, EdgeBendingAxis, FlatSlabEdgeSupport, FlatSlabInput } from "@/lib/flatSlabCalculations";
+import { DurabilityFields } from "@/components/DurabilityFields";
+import { getNominalCover, type ExposureCondition, type FireResistancePeriod } from "@/lib/durability";
+
+interface FlatSlabInputFormProps {
+  onCalculate: (input: FlatSlabInput) => void;
+}
+
+const defaultValues: FlatSlabInput = {
+  shortSpan: 6,
+  longSpan: 6.5,
+  columnWidth: 400,
+  columnDepth: 400,
+  columnPosition: 'interior',
+  edgeBendingAxis: 'perpendicular',
+  edgeSupport: 'continuous',
+  deadLoad: 7,
+  liveLoad: 4,
+  fcu: 35,
+  fy: 460,
+  fyv: 460,
+  linkDiameter: 10,
+  slabThickness: 250,
+  cover: 25,
+  exposure: 'mild',
+  fireResistance: 1,
+};
+
+type NumericField = Exclude<keyof FlatSlabInput, 'columnPosition' | 'edgeBendingAxis' | 'edgeSupport' | 'exposure' | 'fireResistance'>;
+
+export function FlatSlabInputForm({ onCalculate }: FlatSlabInputFormProps) {
+  const [values, setValues] = useState<FlatSlabInput>(defaultValues);
+
+  // Cover follows Tables 3.3 & 3.4 whenever the exposure, fire period or grade changes
+  const withNominalCover = (next: FlatSlabInput): FlatSlabInput => ({
+    ...next,
+    cover: getNominalCover(next.exposure, next.fireResistance, 'floor', true, next.fcu),
+  });
+
+  const handleChange = (field: NumericField, value: string) => {
+    const numValue = parseFloat(value) || 0;
+    setValues((prev) => field === 'fcu' ? withNominalCover({ ...prev, fcu: numValue }) : { ...prev, [field]: numValue });
+  };
+
+  const handleDurabilityChange = (exposure: ExposureCondition, fireResistance: FireResistancePeriod) => {
+    setValues((prev) => withNominalCover({ ...prev, exposure, fireResistance }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onCalculate(values);
+  };
+
+  const numericFields: { key: NumericField; label: string; unit: string; min?: number }[] = [
+    { key: "shortSpan", label: "Short Span (lx)", unit: "m", min: 1 },
+    { key: "longSpan", label: "Long Span (ly)", unit: "m", min: 1 },
+    { key: "columnWidth", label: "Column Width (cx)", unit: "mm", min: 150 },
+    { key: "columnDepth", label: "Column Depth (cy)", unit: "mm", min: 150 },
+    { key: "deadLoad", label: "Dead Load (Gk)", unit: "kN/m²", min: 0 },
+    { key: "liveLoad", label: "Live Load (Qk)", unit: "kN/m²", min: 0 },
+    { key: "fcu", label: "Concrete Grade (fcu)", unit: "N/mm²", min: 20 },
+    { key: "fy", label: "Steel Grade (fy)", unit: "N/mm²", min: 250 },
+    { key: "slabThickness", label: "Slab Thickness (h)", unit: "mm", min: 125 },
+    { key: "cover", label: "Cover to Steel", unit: "mm", min: 15 },
+    { key: "fyv", label: "Link Grade (fyv)", unit: "N/mm²", min: 250 },
+    { key: "linkDiameter", label: "Link Diameter", unit: "mm", min: 6 },
+  ];
+
+  return (
+    <Card className="border-border/50 bg-card/80 backdrop-blur-sm">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+          <div className="h-8 w-8 rounded-md bg-primary/10 flex items-center justify-center">
+            <LayoutGrid className="h-4 w-4 text-primary" />
+          </div>
+          Flat Slab Parameters
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Column Checked</Label>
+              <Select
+                value={values.columnPosition}
+                onValueChange={(v) => setValues((prev) => ({ ...prev, columnPosition: v as ColumnPosition }))}
+              >
+                <SelectTrigger className="bg-muted/50 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="interior">Interior Column</SelectItem>
+                  <SelectItem value="edge">Edge Column</SelectItem>
+                  <SelectItem value="corner">Corner Column</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Edge Connection</Label>
+              <Select
+                value={values.edgeSupport}
+                onValueChange={(v) => setValues((prev) => ({ ...prev, edgeSupport: v as FlatSlabEdgeSupport }))}
+              >
+                <SelectTrigger className="bg-muted/50 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="continuous">Continuous</SelectItem>
+                  <SelectItem value="simple">Simple</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {values.columnPosition === 'edge' && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Edge Column Bending Axis</Label>
+              <Select
+                value={values.edgeBendingAxis}
+                onValueChange={(v) => setValues((prev) => ({ ...prev, edgeBendingAxis: v as EdgeBendingAxis }))}
+              >
+                <SelectTrigger className="bg-muted/50 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="perpendicular">Perpendicular to free edge (Veff = 1.4Vt)</SelectItem>
+                  <SelectItem value="parallel">Parallel to free edge (Veff = 1.25Vt)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <DurabilityFields
+            exposure={values.exposure}
+            fireResistance={values.fireResistance}
+            cover={values.cover}
+            requiredCover={getNominalCover(values.exposure, values.fireResistance, 'floor', true, values.fcu)}
+            onChange={handleDurabilityChange}
+          />
+
+          {/* Numeric Inputs */}
+          <div className="grid grid-cols-2 gap-4">
+            {numericFields.map(({ key, label, unit, min }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={key} className="text-xs text-muted-foreground">
+                  {label}
+                </Label>
+                <div className="relative">
+                  <Input
+                    id={key}
+                    type="number"
+                    step="any"
+                    min={min}
+                    value={values[key]}
+                    onChange={(e) => handleChange(key, e.target.value)}
+                    className="pr-16 font-mono text-sm bg-muted/50 border-border/50 focus:border-primary/50 focus:ring-primary/20"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground font-mono">
+                    {unit}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {values.longSpan < values.shortSpan && (
+            <div className="rounded-md bg-warning/10 border border-warning/30 p-2 text-xs text-warning">
+              ⚠️ ly should be the longer span - the column strip width is taken as lx/2
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="submit"
+              className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground font-medium"
+            >
+              <Calculator className="mr-2 h-4 w-4" />
+              Calculate Design
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setValues(defaultValues)}
+              className="border-border/50 hover:bg-muted"
+            >
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
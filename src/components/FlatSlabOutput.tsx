@@ -0,0 +1,572 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Copy, CheckCircle2, XCircle, FileText, LayoutGrid } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { DesignAdvisory } from "./DesignAdvisory";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { FlatSlabDirection, FlatSlabResult, PunchingPerimeter } from "@/lib/flatSlabCalculations";
+import { exposureLabels } from "@/lib/durability";
+
+interface FlatSlabOutputProps {
+  result: FlatSlabResult | null;
+}
+
+const columnPositionLabels = {
+  interior: 'Interior Column',
+  edge: 'Edge Column',
+  corner: 'Corner Column'
+};
+
+const perimeterStatusLabels: Record<PunchingPerimeter['status'], string> = {
+  none: 'v ≤ vc',
+  reinforced: 'Links required',
+  unsafe: 'v > 2vc'
+};
+
+function StatusIndicator({ status }: { status?: 'safe' | 'review' | 'unsafe' }) {
+  if (!status) return null;
+
+  switch (status) {
+    case 'safe':
+      return <span className="inline-flex items-center gap-1 text-success text-xs font-semibold">🟢 Safe</span>;
+    case 'review':
+      return <span className="inline-flex items-center gap-1 text-warning text-xs font-semibold">🟡 Review</span>;
+    case 'unsafe':
+      return <span className="inline-flex items-center gap-1 text-destructive text-xs font-semibold">🔴 Unsafe</span>;
+  }
+}
+
+function SectionHeader({ section, title, reference }: { section: string; title: string; reference: string }) {
+  return (
+    <div className="bg-primary/10 border-l-4 border-primary px-4 py-2 mb-4">
+      <h3 className="font-bold text-foreground">
+        SECTION {section} — {title}
+      </h3>
+      <p className="text-xs font-mono text-primary">{reference}</p>
+    </div>
+  );
+}
+
+function FormulaBlock({ formula, substitution, result }: { formula: string; substitution?: string; result?: string }) {
+  return (
+    <div className="bg-muted/30 border border-border/50 rounded-lg p-3 mb-3 font-mono text-sm">
+      <p className="text-primary font-semibold">{formula}</p>
+      {substitution && <p className="text-muted-foreground mt-1">{substitution}</p>}
+      {result && <p className="text-accent font-bold mt-1">{result}</p>}
+    </div>
+  );
+}
+
+function CheckResult({ passed, label, value, limit }: { passed: boolean; label: string; value: string; limit: string }) {
+  return (
+    <div className={`flex items-center gap-2 p-2 rounded ${passed ? 'bg-success/10' : 'bg-destructive/10'}`}>
+      {passed ? (
+        <CheckCircle2 className="h-4 w-4 text-success" />
+      ) : (
+        <XCircle className="h-4 w-4 text-destructive" />
+      )}
+      <span className="font-mono text-sm">
+        {label}: {value} {passed ? '≤' : '>'} {limit}
+      </span>
+      <span className={`ml-auto text-xs font-semibold ${passed ? 'text-success' : 'text-destructive'}`}>
+        {passed ? 'OK' : 'FAIL'}
+      </span>
+    </div>
+  );
+}
+
+// Table 3.12 moments along one direction, split between strips per Table 3.18
+function MomentTable({ direction }: { direction: FlatSlabDirection }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="bg-muted/50">
+          <TableHead className="font-bold">Location</TableHead>
+          <TableHead className="text-right font-bold">Coeff.</TableHead>
+          <TableHead className="text-right font-bold">M (kNm)</TableHead>
+          <TableHead className="text-right font-bold">Column strip (kNm/m)</TableHead>
+          <TableHead className="text-right font-bold">Middle strip (kNm/m)</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {direction.moments.map(m => (
+          <TableRow key={m.location}>
+            <TableCell className="font-mono">{m.label}</TableCell>
+            <TableCell className="text-right font-mono">{m.face === 'hogging' ? '-' : '+'}{m.coefficient.toFixed(3)}</TableCell>
+            <TableCell className={`text-right font-mono ${m.face === 'hogging' ? 'text-warning' : 'text-success'}`}>
+              {m.face === 'hogging' ? '-' : '+'}{m.totalMoment.toFixed(1)}
+            </TableCell>
+            <TableCell className="text-right font-mono">{m.columnStrip.moment.toFixed(1)} ({m.columnShare * 100}%)</TableCell>
+            <TableCell className="text-right font-mono">{m.middleStrip.moment.toFixed(1)} ({((1 - m.columnShare) * 100).toFixed(0)}%)</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// Steel and bars for each strip along one direction
+function SteelTable({ direction, kPrime }: { direction: FlatSlabDirection; kPrime: number }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="bg-muted/50">
+          <TableHead className="font-bold">Location</TableHead>
+          <TableHead className="font-bold">Column strip</TableHead>
+          <TableHead className="font-bold">Middle strip</TableHead>
+          <TableHead className="font-bold">Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {direction.moments.map(m => (
+          <TableRow key={m.location}>
+            <TableCell className="font-mono">{m.label} ({m.face === 'hogging' ? 'top' : 'bottom'})</TableCell>
+            <TableCell className="font-mono text-xs">
+              {m.columnStrip.steel.toFixed(0)} mm²/m → {m.columnStrip.bars}
+              {m.centralBars && <p className="text-muted-foreground">Central half: {m.centralBars}</p>}
+            </TableCell>
+            <TableCell className="font-mono text-xs">{m.middleStrip.steel.toFixed(0)} mm²/m → {m.middleStrip.bars}</TableCell>
+            <TableCell>
+              <StatusIndicator status={Math.max(m.columnStrip.k, m.middleStrip.k) <= kPrime ? 'safe' : 'unsafe'} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function FlatSlabOutput({ result }: FlatSlabOutputProps) {
+  const { toast } = useToast();
+
+  if (!result) {
+    return (
+      <Card className="border-border/50 bg-card/80 backdrop-blur-sm h-full">
+        <CardContent className="flex flex-col items-center justify-center h-full py-20 text-center">
+          <div className="h-16 w-16 rounded-full bg-muted/50 flex items-center justify-center mb-4">
+            <LayoutGrid className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="font-semibold text-lg mb-2">No Calculations Yet</h3>
+          <p className="text-muted-foreground text-sm max-w-xs">
+            Enter the panel, column and loading, then click Calculate to generate BS 8110 flat slab calculations.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const copyToClipboard = () => {
+    const s = result.summary;
+    const lines: string[] = [];
+    const directionLines = (name: string, direction: FlatSlabDirection) => {
+      lines.push(`${name}: l = ${direction.effectiveSpan.toFixed(3)} m, F = ${direction.totalLoad.toFixed(1)} kN, d = ${direction.effectiveDepth.toFixed(0)} mm`);
+      direction.moments.forEach(m => {
+        lines.push(`  ${m.label}: M = ${m.face === 'hogging' ? '-' : '+'}${m.totalMoment.toFixed(1)} kNm; column strip ${m.columnStrip.moment.toFixed(1)} kNm/m → ${m.columnStrip.bars}; middle strip ${m.middleStrip.moment.toFixed(1)} kNm/m → ${m.middleStrip.bars}`);
+        if (m.centralBars) lines.push(`    Column strip central half: ${m.centralBars}`);
+      });
+    };
+
+    lines.push("=".repeat(60));
+    lines.push("FLAT SLAB DESIGN TO BS 8110-1:1997");
+    lines.push("=".repeat(60));
+    lines.push("");
+
+    lines.push("SECTION A — FLAT SLAB DECLARATION");
+    lines.push(`Panel: lx = ${s.shortSpan} m, ly = ${s.longSpan} m (column centres)`);
+    lines.push(`Column: ${s.columnWidth} × ${s.columnDepth} mm, ${columnPositionLabels[s.columnPosition]}`);
+    lines.push(`Edge connection: ${s.edgeSupport}`);
+    lines.push(`Durability & fire: ${exposureLabels[s.durability.exposure]} exposure, ${s.durability.fireResistance} h → nominal cover ${s.durability.nominalCover} mm (provided ${s.durability.cover} mm)`);
+    lines.push(`Durability & fire status: ${s.durability.status === 'unsafe' ? 'FAIL' : 'PASS'}`);
+    lines.push("");
+
+    lines.push("SECTION B — LOADING & STRIPS");
+    lines.push(`Ultimate Load: n = 1.4 × ${s.deadLoad} + 1.6 × ${s.liveLoad} = ${s.ultimateLoad.toFixed(2)} kN/m²`);
+    lines.push(`Column strip width = lx/2 = ${s.columnStripWidth.toFixed(2)} m, hc = ${s.headDiameter.toFixed(0)} mm`);
+    lines.push("");
+
+    lines.push("SECTION C/D — DESIGN MOMENTS & REINFORCEMENT (Tables 3.12 & 3.18)");
+    directionLines('Short span (lx)', s.shortDirection);
+    directionLines('Long span (ly)', s.longDirection);
+    lines.push("");
+
+    lines.push("SECTION E — PUNCHING SHEAR");
+    lines.push(`Vt = ${s.transferredShear.toFixed(1)} kN, Veff = ${s.effectiveShearFactor} × Vt = ${s.effectiveShear.toFixed(1)} kN`);
+    lines.push(`Column face: v = ${s.faceShearStress.toFixed(2)} N/mm² (limit ${s.maxShearStress.toFixed(2)} N/mm²)`);
+    lines.push(`vc = ${s.permissibleShear.toFixed(3)} N/mm² (As = ${s.punchingSteel.toFixed(0)} mm²/m, d = ${s.punchingDepth.toFixed(0)} mm)`);
+    s.perimeters.forEach(p => {
+      lines.push(`  ${p.distance.toFixed(0)} mm: u = ${p.length.toFixed(0)} mm, V = ${p.shear.toFixed(1)} kN, v = ${p.stress.toFixed(3)} N/mm² → ${perimeterStatusLabels[p.status]}${p.legs ? `, ${p.legs} legs T${s.linkDiameter}` : ''}`);
+    });
+    lines.push(`Status: ${s.punchingStatus === 'safe' && s.faceShearStatus === 'safe' ? 'PASS' : 'FAIL'}`);
+    lines.push("");
+
+    lines.push("SECTION F — DEFLECTION CHECK");
+    lines.push(`Actual L/d = ${s.actualSpanDepthRatio.toFixed(1)}`);
+    lines.push(`Allowable L/d = ${s.allowableSpanDepthRatio.toFixed(1)}`);
+    lines.push(`Status: ${s.deflectionStatus === 'safe' ? 'PASS' : 'FAIL'}`);
+    lines.push("");
+
+    lines.push("=".repeat(60));
+    lines.push(`DESIGN ${s.designValid ? 'ADEQUATE' : 'INADEQUATE'}`);
+    lines.push("All calculations comply with BS 8110-1:1997");
+
+    navigator.clipboard.writeText(lines.join("\n"));
+    toast({
+      title: "Copied to clipboard",
+      description: "BS 8110 calculations copied in exam-style format",
+    });
+  };
+
+  const s = result.summary;
+  const reinforced = s.perimeters.filter(p => p.status === 'reinforced');
+
+  // Convert failures for advisory
+  const advisoryFailures = s.failureReasons.map(reason => ({
+    type: 'general' as const,
+    description: reason,
+    currentValue: 0,
+    limitValue: 0,
+    unit: ''
+  }));
+
+  return (
+    <Card className="border-border/50 bg-card/80 backdrop-blur-sm">
+      <CardHeader className="pb-4 flex flex-row items-center justify-between border-b border-border/50">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+          <div className="h-8 w-8 rounded-md bg-primary/10 flex items-center justify-center">
+            <FileText className="h-4 w-4 text-primary" />
+          </div>
+          BS 8110-1:1997 Design Output
+        </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={copyToClipboard}
+          className="border-border/50 hover:bg-muted text-xs"
+        >
+          <Copy className="mr-1.5 h-3 w-3" />
+          Copy All
+        </Button>
+      </CardHeader>
+
+      <CardContent className="space-y-6 pt-6">
+        {/* Overall Status Banner */}
+        <div className={`rounded-lg p-4 ${
+          s.designValid
+            ? "bg-success/10 border border-success/30"
+            : "bg-destructive/10 border border-destructive/30"
+        }`}>
+          <div className="flex items-center gap-2">
+            {s.designValid ? (
+              <CheckCircle2 className="h-5 w-5 text-success" />
+            ) : (
+              <XCircle className="h-5 w-5 text-destructive" />
+            )}
+            <span className={`font-bold text-lg ${
+              s.designValid ? "text-success" : "text-destructive"
+            }`}>
+              {s.designValid ? "DESIGN ADEQUATE" : "DESIGN INADEQUATE"}
+            </span>
+            <span className="ml-auto text-sm font-mono bg-background/50 px-3 py-1 rounded">
+              Flat Slab
+            </span>
+          </div>
+        </div>
+
+        {/* Design Advisory (when failed) */}
+        {!s.designValid && advisoryFailures.length > 0 && (
+          <DesignAdvisory
+            status="failed"
+            failures={advisoryFailures}
+            advice={[]}
+          />
+        )}
+
+        {/* ==================== SECTION A — FLAT SLAB DECLARATION ==================== */}
+        <SectionHeader
+          section="A"
+          title="FLAT SLAB DECLARATION"
+          reference="Reference: BS 8110-1 Cl. 3.7"
+        />
+
+        <div className="ml-4 space-y-3">
+          <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm space-y-2">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Panel (lx × ly):</span>
+              <span className="font-semibold text-primary">{s.shortSpan} m × {s.longSpan} m</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Column:</span>
+              <span className="font-semibold">{s.columnWidth} × {s.columnDepth} mm</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Column Checked:</span>
+              <span className="font-semibold">{columnPositionLabels[s.columnPosition]}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Edge Connection (Table 3.12):</span>
+              <span className="font-semibold">{s.edgeSupport === 'simple' ? 'Simple' : 'Continuous'}</span>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Durability &amp; Fire (Tables 3.3 – 3.5)</p>
+            <FormulaBlock
+              formula="Nominal cover = max(Table 3.3 durability, Table 3.4 fire)"
+              substitution={`${exposureLabels[s.durability.exposure]} exposure: ${s.durability.durabilityCover !== undefined ? `${s.durability.durabilityCover} mm` : `min. C${s.durability.minimumGrade}`}, ${s.durability.fireResistance} h fire: ${s.durability.fireCover} mm; max w/c = ${s.durability.maxWaterCement.toFixed(2)}, min cement = ${s.durability.minCementContent} kg/m³`}
+              result={`Nominal cover required = ${s.durability.nominalCover} mm`}
+            />
+            <CheckResult
+              passed={s.durability.cover >= s.durability.nominalCover}
+              label="Nominal cover required"
+              value={`${s.durability.nominalCover} mm`}
+              limit={`${s.durability.cover} mm provided`}
+            />
+            <CheckResult
+              passed={s.durability.dimension === undefined || s.durability.dimension >= s.durability.minimumDimension}
+              label="Minimum thickness for fire"
+              value={`${s.durability.minimumDimension} mm`}
+              limit={`${s.durability.dimension} mm provided`}
+            />
+          </div>
+        </div>
+
+        {/* ==================== SECTION B — LOADING & STRIPS ==================== */}
+        <SectionHeader
+          section="B"
+          title="LOADING & STRIPS"
+          reference="Reference: BS 8110-1 Cl. 2.4.2 & 3.7.2.8"
+        />
+
+        <div className="ml-4 space-y-3">
+          <FormulaBlock
+            formula="n = 1.4Gk + 1.6Qk"
+            substitution={`n = 1.4 × ${s.deadLoad} + 1.6 × ${s.liveLoad}`}
+            result={`n = ${s.ultimateLoad.toFixed(2)} kN/m²`}
+          />
+          <FormulaBlock
+            formula="Column strip = lx/2, middle strip = panel width - lx/2"
+            substitution={`Bars spanning lx: column strip ${s.columnStripWidth.toFixed(2)} m, middle strip ${(s.longSpan - s.columnStripWidth).toFixed(2)} m
+Bars spanning ly: column strip ${s.columnStripWidth.toFixed(2)} m, middle strip ${(s.shortSpan - s.columnStripWidth).toFixed(2)} m`}
+            result={`hc = ${s.headDiameter.toFixed(0)} mm (equivalent column diameter)`}
+          />
+          <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm">
+            <p>d (long span, outer layer) = {s.longDirection.effectiveDepth.toFixed(0)} mm</p>
+            <p>d (short span, inner layer) = {s.shortDirection.effectiveDepth.toFixed(0)} mm</p>
+          </div>
+        </div>
+
+        {/* ==================== SECTION C — DESIGN MOMENTS ==================== */}
+        <SectionHeader
+          section="C"
+          title="DESIGN MOMENTS"
+          reference="Reference: BS 8110-1 Tables 3.12 & 3.18"
+        />
+
+        <div className="ml-4 space-y-4">
+          <FormulaBlock
+            formula="M = β × F × l (- 0.15F·hc at interior supports); column strip 75% hogging / 55% sagging"
+          />
+          {[
+            { name: 'Short Span (lx)', direction: s.shortDirection },
+            { name: 'Long Span (ly)', direction: s.longDirection }
+          ].map(({ name, direction }) => (
+            <div key={name} className="space-y-2">
+              <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
+                {name} — l = {direction.effectiveSpan.toFixed(3)} m, F = {direction.totalLoad.toFixed(1)} kN
+              </p>
+              <div className="overflow-x-auto">
+                <MomentTable direction={direction} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* ==================== SECTION D — BENDING DESIGN ==================== */}
+        <SectionHeader
+          section="D"
+          title="BENDING DESIGN"
+          reference="Reference: BS 8110-1 Cl. 3.4.4 & 3.7.3"
+        />
+
+        <div className="ml-4 space-y-4">
+          <FormulaBlock
+            formula="K = M / (bd²fcu) ≤ K' , As = M / (0.87fy × z) ≥ 0.13%bh"
+            result={`K' = ${s.kPrime}, As,min = ${s.minSteel.toFixed(0)} mm²/m`}
+          />
+          {[
+            { name: 'Short Span (lx)', direction: s.shortDirection },
+            { name: 'Long Span (ly)', direction: s.longDirection }
+          ].map(({ name, direction }) => (
+            <div key={name} className="space-y-2">
+              <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">{name}</p>
+              <div className="overflow-x-auto">
+                <SteelTable direction={direction} kPrime={s.kPrime} />
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Cl. 3.7.3.1: two-thirds of the column strip hogging steel is placed in the central half of the column strip.
+          </p>
+        </div>
+
+        {/* ==================== SECTION E — PUNCHING SHEAR ==================== */}
+        <SectionHeader
+          section="E"
+          title="PUNCHING SHEAR"
+          reference="Reference: BS 8110-1 Cl. 3.7.6 & 3.7.7"
+        />
+
+        <div className="ml-4 space-y-4">
+          <FormulaBlock
+            formula={`Veff = ${s.effectiveShearFactor} × Vt (${columnPositionLabels[s.columnPosition].toLowerCase()})`}
+            substitution={`Vt = ${s.transferredShear.toFixed(1)} kN`}
+            result={`Veff = ${s.effectiveShear.toFixed(1)} kN`}
+          />
+          <CheckResult
+            passed={s.faceShearStatus === 'safe'}
+            label="Column face vmax"
+            value={`${s.faceShearStress.toFixed(2)} N/mm²`}
+            limit={`${s.maxShearStress.toFixed(2)} N/mm²`}
+          />
+          <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm">
+            <p>vc = {s.permissibleShear.toFixed(3)} N/mm² (As = {s.punchingSteel.toFixed(0)} mm²/m, d = {s.punchingDepth.toFixed(0)} mm)</p>
+          </div>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead className="font-bold">Perimeter</TableHead>
+                  <TableHead className="text-right font-bold">u (mm)</TableHead>
+                  <TableHead className="text-right font-bold">V (kN)</TableHead>
+                  <TableHead className="text-right font-bold">v (N/mm²)</TableHead>
+                  <TableHead className="font-bold">Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {s.perimeters.map(p => (
+                  <TableRow key={p.distance}>
+                    <TableCell className="font-mono">{(p.distance / s.punchingDepth).toFixed(2)}d ({p.distance.toFixed(0)} mm)</TableCell>
+                    <TableCell className="text-right font-mono">{p.length.toFixed(0)}</TableCell>
+                    <TableCell className="text-right font-mono">{p.shear.toFixed(1)}</TableCell>
+                    <TableCell className="text-right font-mono">{p.stress.toFixed(3)}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {perimeterStatusLabels[p.status]}
+                      {p.legs && ` — ΣAsv ${p.reinforcement!.toFixed(0)} mm², ${p.legs} legs T${s.linkDiameter}`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {reinforced.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Links for each perimeter are spread over at least two perimeters within 1.5d inside it, at ≤ 1.5d around the perimeter and ≤ 0.75d radially (Cl. 3.7.7.5).
+            </p>
+          )}
+        </div>
+
+        {/* ==================== SECTION F — DEFLECTION CHECK ==================== */}
+        <SectionHeader
+          section="F"
+          title="DEFLECTION CHECK"
+          reference="Reference: BS 8110-1 Cl. 3.7.8"
+        />
+
+        <div className="ml-4 space-y-3">
+          <div className="bg-muted/30 rounded-lg p-4 space-y-2">
+            <div className="flex justify-between font-mono text-sm">
+              <span>Actual L/d (longer span):</span>
+              <span className="font-semibold">{s.actualSpanDepthRatio.toFixed(1)}</span>
+            </div>
+            <div className="flex justify-between font-mono text-sm">
+              <span>Basic L/d (0.9 × Table 3.9):</span>
+              <span>{s.basicSpanDepthRatio.toFixed(1)}</span>
+            </div>
+            <div className="flex justify-between font-mono text-sm">
+              <span>Tension Modification Factor (Table 3.10):</span>
+              <span>{s.tensionModificationFactor.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between font-mono text-sm border-t border-border/50 pt-2">
+              <span>Allowable L/d:</span>
+              <span className="font-semibold">{s.allowableSpanDepthRatio.toFixed(1)}</span>
+            </div>
+          </div>
+
+          <CheckResult
+            passed={s.deflectionStatus === 'safe'}
+            label="L/d check"
+            value={s.actualSpanDepthRatio.toFixed(1)}
+            limit={s.allowableSpanDepthRatio.toFixed(1)}
+          />
+        </div>
+
+        {/* ==================== SECTION G — FINAL DESIGN SUMMARY ==================== */}
+        <SectionHeader
+          section="G"
+          title="FINAL DESIGN SUMMARY"
+          reference=""
+        />
+
+        <div className="ml-4 overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-primary/10">
+                <TableHead className="font-bold text-foreground">Item</TableHead>
+                <TableHead className="font-bold text-foreground">Result</TableHead>
+                <TableHead className="font-bold text-foreground">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell className="font-mono font-semibold">Bending (both directions)</TableCell>
+                <TableCell className="font-mono">Column and middle strip steel per Section D</TableCell>
+                <TableCell><StatusIndicator status={s.kStatus} /></TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-mono font-semibold">Shear at Column Face</TableCell>
+                <TableCell className="font-mono">{s.faceShearStress.toFixed(2)} / {s.maxShearStress.toFixed(2)} N/mm²</TableCell>
+                <TableCell><StatusIndicator status={s.faceShearStatus} /></TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-mono font-semibold">Punching Shear</TableCell>
+                <TableCell className="font-mono">
+                  {reinforced.length > 0
+                    ? `Links T${s.linkDiameter} on ${reinforced.length} perimeter${reinforced.length > 1 ? 's' : ''} (${reinforced.map(p => p.legs).join(', ')} legs)`
+                    : 'No shear reinforcement required'}
+                </TableCell>
+                <TableCell><StatusIndicator status={s.punchingStatus === 'unsafe' ? 'unsafe' : reinforced.length > 0 ? 'review' : 'safe'} /></TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-mono font-semibold">Cover (Durability &amp; Fire)</TableCell>
+                <TableCell className="font-mono">{s.durability.cover} mm (≥ {s.durability.nominalCover} mm, {exposureLabels[s.durability.exposure]}, {s.durability.fireResistance} h)</TableCell>
+                <TableCell><StatusIndicator status={s.durability.status} /></TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-mono font-semibold">Deflection</TableCell>
+                <TableCell className="font-mono">L/d = {s.actualSpanDepthRatio.toFixed(1)} / {s.allowableSpanDepthRatio.toFixed(1)}</TableCell>
+                <TableCell><StatusIndicator status={s.deflectionStatus} /></TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Footer Note */}
+        <div className="mt-6 pt-4 border-t border-border/30 text-center">
+          <p className="text-xs text-muted-foreground font-mono">
+            All calculations comply with BS 8110-1:1997
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            This output follows the exam-style presentation format with explicit clause and table references.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
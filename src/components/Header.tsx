@@ -1,4 +1,4 @@
-import { Ruler, Grid3X3, GitBranch, LogOut, User } from "lucide-react";
+import { Ruler, Grid3X3, LayoutGrid, GitBranch, LogOut, User } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
@@ -18,6 +18,7 @@ export function Header() {
   const navItems = [
     { path: "/", label: "RC Beam", icon: Ruler },
     { path: "/slab", label: "RC Slab", icon: Grid3X3 },
+    { path: "/flat-slab", label: "Flat Slab", icon: LayoutGrid },
     { path: "/continuous-beam", label: "Continuous Beam", icon: GitBranch },
   ];
   
@@ -0,0 +1,134 @@
+import { Area, ComposedChart, Line, ReferenceDot, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { diagramPeaks, type DiagramPeak, type MemberDiagram } from "@/lib/diagrams";
+
+interface MemberDiagramsProps {
+  diagram: MemberDiagram;
+}
+
+interface DiagramChartProps {
+  diagram: MemberDiagram;
+  quantity: DiagramPeak['quantity'];
+  title: string;
+  unit: string;
+  config: ChartConfig;
+  series: string[];
+  reversed?: boolean;
+}
+
+const round = (value: number | undefined) => value === undefined ? undefined : Math.round(value * 100) / 100;
+
+function DiagramChart({ diagram, quantity, title, unit, config, series, reversed }: DiagramChartProps) {
+  const data = diagram.stations.map(station => ({
+    x: round(station.x),
+    moment: round(station.moment),
+    minMoment: round(station.minMoment),
+    shear: round(station.shear),
+    minShear: round(station.minShear),
+    deflection: round(station.deflection)
+  }));
+  const peaks = diagramPeaks(diagram).filter(peak => peak.quantity === quantity);
+  const length = data[data.length - 1].x;
+
+  return (
+    <div>
+      <p className="text-xs font-semibold text-muted-foreground mb-1">{title} ({unit})</p>
+      <ChartContainer config={config} className="aspect-auto h-[180px] w-full">
+        <ComposedChart data={data} margin={{ top: 20, right: 24, bottom: 20, left: 0 }}>
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={[0, length]}
+            ticks={diagram.supports}
+            tickFormatter={(x: number) => `${x.toFixed(2)} m`}
+            tickLine={false}
+          />
+          <YAxis reversed={reversed} width={48} tickLine={false} axisLine={false} />
+          <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+          {diagram.supports.map(x => (
+            <ReferenceLine key={x} x={x} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+          ))}
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                indicator="line"
+                labelFormatter={(_, payload) => `x = ${Number(payload[0]?.payload?.x).toFixed(2)} m`}
+              />
+            }
+          />
+          {series.map(key => quantity === 'deflection' ? (
+            <Line key={key} type="monotone" dataKey={key} stroke={`var(--color-${key})`} strokeWidth={2} dot={false} isAnimationActive={false} />
+          ) : (
+            <Area key={key} type="linear" dataKey={key} stroke={`var(--color-${key})`} fill={`var(--color-${key})`} fillOpacity={0.2} strokeWidth={1.5} isAnimationActive={false} />
+          ))}
+          {peaks.map(peak => (
+            <ReferenceDot
+              key={peak.label}
+              x={round(peak.x)}
+              y={round(peak.value)}
+              r={3}
+              fill="hsl(var(--destructive))"
+              stroke="none"
+              label={{ value: `${peak.value.toFixed(1)} @ ${peak.x.toFixed(2)} m`, position: (peak.value >= 0) !== Boolean(reversed) ? 'top' : 'bottom', fontSize: 10 }}
+            />
+          ))}
+        </ComposedChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+// BMD (drawn on the tension side), SFD and deflected shape for a member or slab strip
+export function MemberDiagrams({ diagram }: MemberDiagramsProps) {
+  const momentUnit = diagram.perMetre ? 'kNm/m' : 'kNm';
+  const shearUnit = diagram.perMetre ? 'kN/m' : 'kN';
+  const maxLabel = diagram.envelope ? ' (max)' : '';
+
+  const momentConfig: ChartConfig = {
+    moment: { label: `M${maxLabel}`, color: "hsl(var(--primary))" },
+    minMoment: { label: "M (min)", color: "hsl(var(--accent))" }
+  };
+  const shearConfig: ChartConfig = {
+    shear: { label: `V${maxLabel}`, color: "hsl(var(--primary))" },
+    minShear: { label: "V (min)", color: "hsl(var(--accent))" }
+  };
+  const deflectionConfig: ChartConfig = {
+    deflection: { label: "δ", color: "hsl(var(--primary))" }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="font-bold text-foreground">{diagram.title} — Diagrams</h3>
+        <p className="text-xs font-mono text-muted-foreground">
+          {diagram.envelope ? 'Envelope of ultimate load cases' : 'Ultimate loads'} • Deflection: {diagram.deflectionBasis}
+        </p>
+      </div>
+      <DiagramChart
+        diagram={diagram}
+        quantity="moment"
+        title="Bending Moment (sagging below axis)"
+        unit={momentUnit}
+        config={momentConfig}
+        series={diagram.envelope ? ['moment', 'minMoment'] : ['moment']}
+        reversed
+      />
+      <DiagramChart
+        diagram={diagram}
+        quantity="shear"
+        title="Shear Force"
+        unit={shearUnit}
+        config={shearConfig}
+        series={diagram.envelope ? ['shear', 'minShear'] : ['shear']}
+      />
+      <DiagramChart
+        diagram={diagram}
+        quantity="deflection"
+        title="Deflected Shape"
+        unit="mm"
+        config={deflectionConfig}
+        series={['deflection']}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import type { ElevationBar, ElevationDrawing, MemberDrawings, SectionDrawing } from "@/lib/reinforcementDrawing";
+
+interface ReinforcementDrawingProps {
+  drawings: MemberDrawings;
+}
+
+const ELEVATION_WIDTH = 1000; // SVG units across the member
+const BAR_ROW = 12; // SVG units between stacked bars in elevation
+
+// Cross-section to scale (1 SVG unit = 1 mm)
+function SectionView({ section }: { section: SectionDrawing }) {
+  const pad = Math.max(section.width, section.depth) * 0.12;
+  const webLeft = (section.width - section.webWidth) / 2;
+  const flange = section.flangeThickness;
+  const outline = flange
+    ? [
+      [0, 0], [section.width, 0], [section.width, flange], [webLeft + section.webWidth, flange],
+      [webLeft + section.webWidth, section.depth], [webLeft, section.depth], [webLeft, flange], [0, flange]
+    ]
+    : [[0, 0], [section.width, 0], [section.width, section.depth], [0, section.depth]];
+  const link = section.linkDiameter;
+  const inset = section.cover + (link ?? 0) / 2;
+  const fontSize = Math.max(section.width, section.depth) * 0.05;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold text-muted-foreground">{section.title}</p>
+      <svg
+        viewBox={`${-pad} ${-pad} ${section.width + 2 * pad} ${section.depth + 2 * pad}`}
+        className="w-full max-h-56"
+        role="img"
+        aria-label={`${section.title} cross-section`}
+      >
+        <polygon points={outline.map(p => p.join(',')).join(' ')} className="fill-muted stroke-foreground" strokeWidth={fontSize * 0.12} />
+        {!!link && (
+          <rect
+            x={webLeft + inset}
+            y={inset}
+            width={section.webWidth - 2 * inset}
+            height={section.depth - 2 * inset}
+            rx={link * 2}
+            className="fill-none stroke-primary"
+            strokeWidth={link}
+          />
+        )}
+        {section.runningBars?.map((bar, i) => (
+          <line key={i} x1={section.cover} x2={section.width - section.cover} y1={bar.y} y2={bar.y} className="stroke-accent" strokeWidth={bar.diameter} />
+        ))}
+        {section.bars.map((bar, i) => (
+          <circle key={i} cx={bar.x} cy={bar.y} r={bar.diameter / 2} className={bar.face === 'side' ? 'fill-muted-foreground' : 'fill-foreground'} />
+        ))}
+        <text x={section.width / 2} y={section.depth + pad * 0.75} textAnchor="middle" fontSize={fontSize} className="fill-muted-foreground">
+          {section.width} mm
+        </text>
+        <text
+          x={section.width + pad * 0.6}
+          y={section.depth / 2}
+          textAnchor="middle"
+          fontSize={fontSize}
+          className="fill-muted-foreground"
+          transform={`rotate(90 ${section.width + pad * 0.6} ${section.depth / 2})`}
+        >
+          {section.depth} mm
+        </text>
+      </svg>
+      <ul className="text-xs font-mono text-muted-foreground space-y-0.5">
+        {section.notes.map(note => <li key={note}>{note}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+// Stack the bars of each face in rows, each bar in the first row where it overlaps nothing
+function barRows(bars: ElevationBar[], gap: number): Map<ElevationBar, number> {
+  const rows = new Map<ElevationBar, number>();
+  const occupied: Record<ElevationBar['face'], ElevationBar[][]> = { top: [], bottom: [] };
+  bars.forEach(bar => {
+    const faceRows = occupied[bar.face];
+    let row = faceRows.findIndex(placed => placed.every(other => bar.start >= other.end + gap || bar.end <= other.start - gap));
+    if (row < 0) {
+      row = faceRows.length;
+      faceRows.push([]);
+    }
+    faceRows[row].push(bar);
+    rows.set(bar, row);
+  });
+  return rows;
+}
+
+// Elevation to scale along the member; bars stacked in rows from each face
+function ElevationView({ elevation }: { elevation: ElevationDrawing }) {
+  const scale = ELEVATION_WIDTH / elevation.length; // SVG units per m
+  const rows = barRows(elevation.bars, 0.02 * elevation.length);
+  const rowCount = (face: ElevationBar['face']) => Math.max(0, ...elevation.bars.filter(bar => bar.face === face).map(bar => rows.get(bar)! + 1));
+  const topRows = rowCount('top');
+  const bottomRows = rowCount('bottom');
+  const height = Math.min(Math.max(elevation.depth / 1000 * scale, 60 + BAR_ROW * Math.max(topRows, bottomRows)), 200);
+  const top = 16 + BAR_ROW * topRows;
+  const bottom = top + height;
+  const zoneLine = bottom + 12 + BAR_ROW * bottomRows;
+  const viewHeight = zoneLine + 20;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold text-muted-foreground">{elevation.title}</p>
+      <svg viewBox={`-20 0 ${ELEVATION_WIDTH + 40} ${viewHeight}`} className="w-full" role="img" aria-label={elevation.title}>
+        <rect x={0} y={top} width={ELEVATION_WIDTH} height={height} className="fill-muted stroke-foreground" strokeWidth={1.5} />
+
+        {/* Links - one stroke per link at the zone spacing */}
+        {elevation.linkZones.map(zone => {
+          const count = Math.max(Math.floor((zone.end - zone.start) * 1000 / zone.spacing), 1);
+          return (
+            <g key={`${zone.start}-${zone.label}`}>
+              {Array.from({ length: count + 1 }, (_, i) => {
+                const x = (zone.start + (zone.end - zone.start) * i / count) * scale;
+                return <line key={i} x1={x} x2={x} y1={top + 6} y2={bottom - 6} className="stroke-primary/40" strokeWidth={1} />;
+              })}
+              <line x1={zone.start * scale} x2={zone.end * scale} y1={zoneLine} y2={zoneLine} className="stroke-muted-foreground" strokeWidth={1} />
+              <line x1={zone.start * scale} x2={zone.start * scale} y1={zoneLine - 4} y2={zoneLine + 4} className="stroke-muted-foreground" strokeWidth={1} />
+              <text x={(zone.start + zone.end) / 2 * scale} y={zoneLine + 14} textAnchor="middle" fontSize={10} className="fill-muted-foreground">
+                {zone.label}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Main bars - top bars stacked downwards, bottom bars upwards */}
+        {elevation.bars.map((bar, i) => {
+          const row = rows.get(bar)!;
+          const y = bar.face === 'top' ? top + 8 + row * 4 : bottom - 8 - row * 4;
+          const labelY = bar.face === 'top' ? top - 6 - row * BAR_ROW : bottom + 14 + row * BAR_ROW;
+          return (
+            <g key={i}>
+              <line x1={bar.start * scale} x2={bar.end * scale} y1={y} y2={y} className="stroke-foreground" strokeWidth={2} />
+              <text x={(bar.start + bar.end) / 2 * scale} y={labelY} textAnchor="middle" fontSize={10} className="fill-foreground">
+                {bar.label}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Supports */}
+        {elevation.supports.map(x => elevation.supports.length === 1 ? (
+          <rect key={x} x={x * scale - 10} y={top - 20} width={10} height={height + 40} className="fill-muted-foreground/40" />
+        ) : (
+          <polygon key={x} points={`${x * scale},${bottom} ${x * scale - 8},${bottom + 12} ${x * scale + 8},${bottom + 12}`} className="fill-muted-foreground" />
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+// Scaled reinforcement drawings - cross-sections and an elevation with link zones and curtailment
+export function ReinforcementDrawing({ drawings }: ReinforcementDrawingProps) {
+  return (
+    <div className="space-y-4">
+      <div className={`grid gap-4 ${drawings.sections.length > 1 ? 'sm:grid-cols-2' : ''}`}>
+        {drawings.sections.map(section => <SectionView key={section.title} section={section} />)}
+      </div>
+      <ElevationView elevation={drawings.elevation} />
+    </div>
+  );
+}
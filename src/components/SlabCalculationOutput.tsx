@@ -3,6 +3,8 @@ import { Button } from "@/components/ui/button";
 import { Copy, CheckCircle2, XCircle, FileText, Grid3X3 } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { DesignAdvisory } from "./DesignAdvisory";
+import { MemberDiagrams } from "./MemberDiagrams";
+import { ReinforcementDrawing } from "./ReinforcementDrawing";
 import {
   Table,
   TableBody,
@@ -11,7 +13,10 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import type { SlabResult } from "@/lib/slabCalculations";
+import { edgeLabels, type EdgeReaction, type RibbedSlabSummary, type SlabBarLayer, type SlabResult } from "@/lib/slabCalculations";
+import { exposureLabels } from "@/lib/durability";
+import { diagramText } from "@/lib/diagrams";
+import { slabStripDrawings } from "@/lib/reinforcementDrawing";
 
 interface SlabCalculationOutputProps {
   result: SlabResult | null;
@@ -69,6 +74,136 @@ function CheckResult({ passed, label, value, limit }: { passed: boolean; label:
   );
 }
 
+// Table 3.15 edge shears - the ultimate line load on each supporting beam
+function EdgeReactionTable({ reactions }: { reactions: EdgeReaction[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-semibold">Loads on Supporting Beams (Cl. 3.5.3.7, Table 3.15)</p>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead className="font-bold">Edge</TableHead>
+              <TableHead className="text-right font-bold">Length (m)</TableHead>
+              <TableHead className="text-right font-bold">βv</TableHead>
+              <TableHead className="text-right font-bold">Load (kN/m)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reactions.map(r => (
+              <TableRow key={r.edge} className={r.governing ? 'bg-primary/5' : undefined}>
+                <TableCell className="font-mono">
+                  {edgeLabels[r.edge]} ({r.continuity}){r.governing && <span className="ml-2 text-xs text-primary">governs shear</span>}
+                </TableCell>
+                <TableCell className="text-right font-mono">{r.length.toFixed(2)}</TableCell>
+                <TableCell className="text-right font-mono">{r.coefficient.toFixed(3)}</TableCell>
+                <TableCell className="text-right font-mono font-semibold">{r.load.toFixed(2)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+// Sections D & E for ribbed and waffle slabs - per-rib T-section design, rib shear and topping
+function RibDesignSections({ rib, result }: { rib: RibbedSlabSummary; result: SlabResult }) {
+  const s = result.summary;
+
+  return (
+    <>
+      {/* ==================== SECTION D — RIB DESIGN ==================== */}
+      <SectionHeader 
+        section="D" 
+        title="RIB DESIGN (T-SECTION)" 
+        reference="Reference: BS 8110-1 Cl. 3.6.2, 3.4.4.5 & Table 3.25" 
+      />
+      
+      <div className="ml-4 space-y-4">
+        <FormulaBlock 
+          formula="w = n × rib centres; sagging on b = bw + lz/5 ≤ rib centres, hogging on bw"
+          substitution={`bw = ${rib.ribWidth} mm at ${rib.ribSpacing} mm centres, hf = ${rib.toppingThickness} mm`}
+          result={`w = ${rib.loadPerRib.toFixed(2)} kN/m per rib`}
+        />
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="font-bold">Ribs</TableHead>
+                <TableHead className="text-right font-bold">b (mm)</TableHead>
+                <TableHead className="text-right font-bold">M⁺ / M⁻ (kNm)</TableHead>
+                <TableHead className="font-bold">Bottom</TableHead>
+                <TableHead className="font-bold">Top at supports</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rib.ribs.map(r => (
+                <TableRow key={r.direction}>
+                  <TableCell className="font-mono">{r.direction === 'short' ? 'Short span' : 'Long span'} (d = {r.effectiveDepth.toFixed(0)})</TableCell>
+                  <TableCell className="text-right font-mono">{r.flangeWidth.toFixed(0)}</TableCell>
+                  <TableCell className="text-right font-mono">{r.saggingMoment.toFixed(2)} / {r.hoggingMoment.toFixed(2)}</TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {r.saggingSteel.toFixed(0)} mm² → {r.saggingBars}
+                    <p className="text-muted-foreground">{r.neutralAxisInFlange ? 'NA in flange' : 'NA in web'}</p>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {r.hoggingBars ? `${r.hoggingSteel.toFixed(0)} mm² → ${r.hoggingBars}` : '—'}
+                    {r.hoggingMoment > 0 && <p className="text-muted-foreground">K = {r.kHogging.toFixed(4)} on bw</p>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <div className={`p-3 rounded ${s.kStatus === 'safe' ? 'bg-success/20 border border-success/30' : 'bg-destructive/20 border border-destructive/30'}`}>
+          <p className="font-mono text-sm font-semibold">
+            K = {s.kShort.toFixed(4)} {s.kShort <= s.kPrime ? '≤' : '>'} K' = {s.kPrime} → {s.kStatus === 'safe' ? 'Singly reinforced ribs ✓' : 'Form solid sections at the supports or deepen the ribs'}
+          </p>
+        </div>
+      </div>
+
+      {/* ==================== SECTION E — RIB SHEAR & TOPPING ==================== */}
+      <SectionHeader 
+        section="E" 
+        title="RIB SHEAR & TOPPING" 
+        reference="Reference: BS 8110-1 Cl. 3.6.4.2 & 3.6.6" 
+      />
+      
+      <div className="ml-4 space-y-4">
+        <FormulaBlock 
+          formula={`v = V / (bv·d), bv = bw${rib.hollowBlocks ? ' + block wall' : ''}`}
+          substitution={`v = ${(s.shearForce * 1000).toFixed(0)} / (${rib.shearWidth} × ${rib.shearDepth.toFixed(0)})`}
+          result={`v = ${s.shearStress.toFixed(3)} N/mm², vc = ${s.permissibleShear.toFixed(3)} N/mm²`}
+        />
+        <CheckResult 
+          passed={s.shearStress <= s.permissibleShear}
+          label="Rib shear (no links)"
+          value={`${s.shearStress.toFixed(3)} N/mm²`}
+          limit={`${s.permissibleShear.toFixed(3)} N/mm²`}
+        />
+        {rib.linkRequirement !== undefined && (
+          <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm">
+            <p>Links required: Asv/sv ≥ {rib.linkRequirement.toFixed(3)} mm²/mm (or form a solid section at the support)</p>
+          </div>
+        )}
+        {s.edgeReactions && <EdgeReactionTable reactions={s.edgeReactions} />}
+        <FormulaBlock 
+          formula="hf ≥ max(minimum, clear rib spacing / 10); topping steel ≥ 0.12% each way"
+          substitution={`Clear spacing = ${rib.ribSpacing - rib.ribWidth} mm`}
+          result={`Topping steel: ${rib.toppingBars} each way`}
+        />
+        <CheckResult 
+          passed={rib.toppingThickness >= rib.toppingMinimum}
+          label="Topping minimum"
+          value={`${rib.toppingMinimum.toFixed(0)} mm`}
+          limit={`${rib.toppingThickness} mm provided`}
+        />
+      </div>
+    </>
+  );
+}
+
 export function SlabCalculationOutput({ result }: SlabCalculationOutputProps) {
   const { toast } = useToast();
 
@@ -97,10 +232,18 @@ export function SlabCalculationOutput({ result }: SlabCalculationOutputProps) {
     lines.push("=".repeat(60));
     lines.push("");
     
+    if (result.diagram) {
+      lines.push("DIAGRAMS — BENDING MOMENT, SHEAR FORCE & DEFLECTION");
+      lines.push(...diagramText(result.diagram));
+      lines.push("");
+    }
+
     lines.push("SECTION A — SLAB DECLARATION");
     lines.push(`Type: ${s.slabType}`);
     lines.push(`Panel: ${s.panelType}`);
     lines.push(`Span Ratio: ly/lx = ${s.spanRatio.toFixed(2)}`);
+    lines.push(`Durability & fire: ${exposureLabels[s.durability.exposure]} exposure, ${s.durability.fireResistance} h → nominal cover ${s.durability.nominalCover} mm (provided ${s.durability.cover} mm), max w/c ${s.durability.maxWaterCement.toFixed(2)}, min cement ${s.durability.minCementContent} kg/m³`);
+    lines.push(`Durability & fire status: ${s.durability.status === 'unsafe' ? 'FAIL' : 'PASS'}`);
     lines.push("");
     
     lines.push("SECTION B — LOADING");
@@ -114,21 +257,56 @@ export function SlabCalculationOutput({ result }: SlabCalculationOutputProps) {
     if (s.longSpanMoment) lines.push(`Long Span M+ = ${s.longSpanMoment.toFixed(2)} kNm/m`);
     lines.push("");
     
-    lines.push("SECTION D — BENDING DESIGN");
-    lines.push(`K (short) = ${s.kShort.toFixed(4)}`);
-    lines.push(`Short Span Steel: ${s.shortSpanBarSuggestion}`);
-    if (s.longSpanBarSuggestion) lines.push(`Long Span Steel: ${s.longSpanBarSuggestion}`);
-    lines.push("");
-    
-    lines.push("SECTION E — SHEAR CHECK");
-    lines.push(`v = ${s.shearStress.toFixed(3)} N/mm², vc = ${s.permissibleShear.toFixed(3)} N/mm²`);
-    lines.push(`Status: ${s.shearStatus === 'safe' ? 'PASS' : 'FAIL'}`);
-    lines.push("");
+    if (s.rib) {
+      lines.push("SECTION D — RIB DESIGN (T-SECTION)");
+      lines.push(`Ribs: bw = ${s.rib.ribWidth} mm at ${s.rib.ribSpacing} mm centres, hf = ${s.rib.toppingThickness} mm, w = ${s.rib.loadPerRib.toFixed(2)} kN/m per rib`);
+      s.rib.ribs.forEach(r => {
+        lines.push(`${r.direction === 'short' ? 'Short' : 'Long'} span ribs: b = ${r.flangeWidth.toFixed(0)} mm, M+ = ${r.saggingMoment.toFixed(2)} kNm → ${r.saggingBars}; M- = ${r.hoggingMoment.toFixed(2)} kNm${r.hoggingBars ? ` → ${r.hoggingBars}` : ''}`);
+      });
+      lines.push("");
+
+      lines.push("SECTION E — RIB SHEAR & TOPPING");
+      lines.push(`v = ${s.shearStress.toFixed(3)} N/mm² (bv = ${s.rib.shearWidth} mm), vc = ${s.permissibleShear.toFixed(3)} N/mm²`);
+      if (s.rib.linkRequirement !== undefined) lines.push(`Links: Asv/sv ≥ ${s.rib.linkRequirement.toFixed(3)} mm²/mm`);
+      lines.push(`Topping: ${s.rib.toppingThickness} mm (min ${s.rib.toppingMinimum.toFixed(0)} mm), ${s.rib.toppingBars} each way`);
+      lines.push("");
+    } else {
+      lines.push("SECTION D — BENDING DESIGN");
+      lines.push(`K (short) = ${s.kShort.toFixed(4)}`);
+      lines.push(`Short Span Steel: ${s.shortSpanBarSuggestion}`);
+      if (s.longSpanBarSuggestion) lines.push(`Long Span Steel: ${s.longSpanBarSuggestion}`);
+      s.supportSteel?.forEach(steel => {
+        lines.push(`Top Steel Over Supports (${steel.direction} span): d = ${steel.effectiveDepth.toFixed(0)} mm, K = ${steel.k.toFixed(4)}, ${steel.bars}`);
+      });
+      if (s.depthAssumption) {
+        const { assumed, outerLayer, converged, iterations } = s.depthAssumption;
+        lines.push(`Effective depths: ${outerLayer} span bars outermost, bottom T${assumed.bottomShort}/T${assumed.bottomLong}, top T${assumed.topShort}/T${assumed.topLong} (short/long) - ${converged ? 'matches the bars selected' : `differs from the bars selected after ${iterations} iterations`}`);
+      }
+      if (s.torsionBarSuggestion) lines.push(`Corner Torsion (Cl. 3.5.3.5): ${s.torsionBarSuggestion}`);
+      lines.push("");
+
+      lines.push("SECTION E — SHEAR CHECK");
+      lines.push(`v = ${s.shearStress.toFixed(3)} N/mm², vc = ${s.permissibleShear.toFixed(3)} N/mm²`);
+      lines.push(`Status: ${s.shearStatus === 'safe' ? 'PASS' : 'FAIL'}`);
+      lines.push("");
+    }
+
+    if (s.edgeReactions) {
+      lines.push("LOADS ON SUPPORTING BEAMS (Table 3.15)");
+      s.edgeReactions.forEach(r => {
+        lines.push(`${edgeLabels[r.edge]} (${r.continuity}, ${r.length.toFixed(2)} m): βv = ${r.coefficient.toFixed(3)} → ${r.load.toFixed(2)} kN/m${r.governing ? ' (governs shear)' : ''}`);
+      });
+      lines.push("");
+    }
     
     lines.push("SECTION F — DEFLECTION CHECK");
     lines.push(`Actual L/d = ${s.actualSpanDepthRatio.toFixed(1)}`);
     lines.push(`Allowable L/d = ${s.allowableSpanDepthRatio.toFixed(1)}`);
     lines.push(`Status: ${s.deflectionStatus === 'safe' ? 'PASS' : 'FAIL'}`);
+    if (s.calculatedDeflection) {
+      lines.push(`Calculated deflection (BS 8110-2 Cl. 3.7): total ${s.calculatedDeflection.totalDeflection.toFixed(1)} mm ≤ ${s.calculatedDeflection.totalLimit.toFixed(1)} mm, post-construction ${s.calculatedDeflection.postConstructionDeflection.toFixed(1)} mm ≤ ${s.calculatedDeflection.postConstructionLimit.toFixed(1)} mm`);
+      lines.push(`Status: ${s.calculatedDeflection.status === 'safe' ? 'PASS' : 'FAIL'}`);
+    }
     lines.push("");
     
     lines.push("=".repeat(60));
@@ -143,7 +321,12 @@ export function SlabCalculationOutput({ result }: SlabCalculationOutputProps) {
   };
 
   const s = result.summary;
-  const isTwoWay = s.slabType === 'Two-Way Slab';
+  const isTwoWay = s.bsy_pos !== undefined;
+  const assumption = s.depthAssumption;
+  const layerLabel = (layer: SlabBarLayer) => assumption?.outerLayer === layer ? 'outer layer' : 'inner layer';
+  const governingEdge = s.edgeReactions?.find(r => r.governing);
+  const shearDepth = governingEdge?.edge.startsWith('short') ? s.effectiveDepthLong ?? s.effectiveDepthShort : s.effectiveDepthShort;
+  const drawings = slabStripDrawings(result);
   
   // Convert failures for advisory
   const advisoryFailures = s.failureReasons.map(reason => ({
@@ -207,6 +390,21 @@ export function SlabCalculationOutput({ result }: SlabCalculationOutputProps) {
           />
         )}
 
+        {/* ==================== DIAGRAMS ==================== */}
+        {result.diagram && (
+          <div className="bg-muted/20 border border-border/50 rounded-lg p-4">
+            <MemberDiagrams diagram={result.diagram} />
+          </div>
+        )}
+
+        {/* ==================== REINFORCEMENT DRAWING ==================== */}
+        {drawings && (
+          <div className="bg-muted/20 border border-border/50 rounded-lg p-4">
+            <h3 className="font-bold text-foreground mb-4">Reinforcement Drawing</h3>
+            <ReinforcementDrawing drawings={drawings} />
+          </div>
+        )}
+
         {/* ==================== SECTION A — SLAB DECLARATION ==================== */}
         <SectionHeader 
           section="A" 
@@ -239,6 +437,27 @@ export function SlabCalculationOutput({ result }: SlabCalculationOutputProps) {
               ly/lx = {s.spanRatio.toFixed(2)} {s.spanRatio <= 2 ? '≤' : '>'} 2 → Design as <strong>{s.slabType}</strong>
             </p>
           </div>
+
+          <div className="space-y-3">
+            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Durability &amp; Fire (Tables 3.3 – 3.5)</p>
+            <FormulaBlock 
+              formula="Nominal cover = max(Table 3.3 durability, Table 3.4 fire)"
+              substitution={`${exposureLabels[s.durability.exposure]} exposure: ${s.durability.durabilityCover !== undefined ? `${s.durability.durabilityCover} mm` : `min. C${s.durability.minimumGrade}`}, ${s.durability.fireResistance} h fire: ${s.durability.fireCover} mm; max w/c = ${s.durability.maxWaterCement.toFixed(2)}, min cement = ${s.durability.minCementContent} kg/m³`}
+              result={`Nominal cover required = ${s.durability.nominalCover} mm`}
+            />
+            <CheckResult 
+              passed={s.durability.cover >= s.durability.nominalCover}
+              label="Nominal cover required"
+              value={`${s.durability.nominalCover} mm`}
+              limit={`${s.durability.cover} mm provided`}
+            />
+            <CheckResult 
+              passed={s.durability.dimension === undefined || s.durability.dimension >= s.durability.minimumDimension}
+              label="Minimum thickness for fire"
+              value={`${s.durability.minimumDimension} mm`}
+              limit={`${s.durability.dimension} mm provided`}
+            />
+          </div>
         </div>
 
         {/* ==================== SECTION B — LOADING ==================== */}
@@ -263,10 +482,20 @@ export function SlabCalculationOutput({ result }: SlabCalculationOutputProps) {
 
           <div className="space-y-2">
             <p className="font-semibold text-sm text-muted-foreground">Effective Depths:</p>
-            <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm">
-              <p>d (short span) = {s.effectiveDepthShort.toFixed(0)} mm</p>
+            <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm space-y-1">
+              <p>d (short span) = {s.effectiveDepthShort.toFixed(0)} mm{assumption && ` (${layerLabel('short')})`}</p>
               {s.effectiveDepthLong && (
-                <p>d (long span) = {s.effectiveDepthLong.toFixed(0)} mm (second layer)</p>
+                <p>d (long span) = {s.effectiveDepthLong.toFixed(0)} mm{assumption && ` (${layerLabel('long')})`}</p>
+              )}
+              {s.supportSteel?.map(steel => (
+                <p key={steel.direction}>d (top, {steel.direction} span) = {steel.effectiveDepth.toFixed(0)} mm</p>
+              ))}
+              {assumption && (
+                <p className="text-muted-foreground text-xs pt-1">
+                  Bottom T{assumption.assumed.bottomShort}/T{assumption.assumed.bottomLong}, top T{assumption.assumed.topShort}/T{assumption.assumed.topLong} (short/long) - {assumption.converged
+                    ? `matches the bars selected${assumption.iterations > 1 ? ` after ${assumption.iterations} iterations` : ''}`
+                    : `bars selected still differ after ${assumption.iterations} iterations`}
+                </p>
               )}
             </div>
           </div>
@@ -308,6 +537,7 @@ export function SlabCalculationOutput({ result }: SlabCalculationOutputProps) {
             <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Design Moments</p>
             <FormulaBlock 
               formula="M = β × n × lx²"
+              substitution={s.rib ? `Per metre width; per rib = M × ${(s.rib.ribSpacing / 1000).toFixed(3)} m` : undefined}
             />
             <Table>
               <TableHeader>
@@ -349,93 +579,128 @@ export function SlabCalculationOutput({ result }: SlabCalculationOutputProps) {
           </div>
         </div>
 
-        {/* ==================== SECTION D — BENDING DESIGN ==================== */}
-        <SectionHeader 
-          section="D" 
-          title="BENDING DESIGN" 
-          reference="Reference: BS 8110-1 Cl. 3.4.4" 
-        />
+        {s.rib ? (
+          <RibDesignSections rib={s.rib} result={result} />
+        ) : (
+          <>
+          {/* ==================== SECTION D — BENDING DESIGN ==================== */}
+          <SectionHeader 
+            section="D" 
+            title="BENDING DESIGN" 
+            reference="Reference: BS 8110-1 Cl. 3.4.4" 
+          />
         
-        <div className="ml-4 space-y-4">
-          <div className="space-y-3">
-            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">1. K-Value Check</p>
-            <FormulaBlock 
-              formula="K = M / (bd²fcu)"
-              substitution={`K = ${(s.shortSpanMoment * 1e6).toFixed(0)} / (1000 × ${s.effectiveDepthShort.toFixed(0)}² × ${s.fcu})`}
-              result={`K (short) = ${s.kShort.toFixed(4)}`}
-            />
+          <div className="ml-4 space-y-4">
+            <div className="space-y-3">
+              <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">1. K-Value Check</p>
+              <FormulaBlock 
+                formula="K = M / (bd²fcu)"
+                substitution={`K = ${(s.shortSpanMoment * 1e6).toFixed(0)} / (1000 × ${s.effectiveDepthShort.toFixed(0)}² × ${s.fcu})`}
+                result={`K (short) = ${s.kShort.toFixed(4)}`}
+              />
             
-            <div className={`p-3 rounded ${s.kShort <= s.kPrime ? 'bg-success/20 border border-success/30' : 'bg-destructive/20 border border-destructive/30'}`}>
-              <p className="font-mono text-sm font-semibold">
-                K = {s.kShort.toFixed(4)} {s.kShort <= s.kPrime ? '≤' : '>'} K' = {s.kPrime} → {s.kShort <= s.kPrime ? 'Singly reinforced ✓' : 'Section inadequate'}
-              </p>
+              <div className={`p-3 rounded ${s.kShort <= s.kPrime ? 'bg-success/20 border border-success/30' : 'bg-destructive/20 border border-destructive/30'}`}>
+                <p className="font-mono text-sm font-semibold">
+                  K = {s.kShort.toFixed(4)} {s.kShort <= s.kPrime ? '≤' : '>'} K' = {s.kPrime} → {s.kShort <= s.kPrime ? 'Singly reinforced ✓' : 'Section inadequate'}
+                </p>
+              </div>
             </div>
-          </div>
 
-          <div className="space-y-3">
-            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">2. Lever Arm</p>
-            <FormulaBlock 
-              formula="z = d × [0.5 + √(0.25 - K/0.9)] ≤ 0.95d"
-              result={`z (short) = ${s.zShort.toFixed(1)} mm`}
-            />
-          </div>
+            <div className="space-y-3">
+              <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">2. Lever Arm</p>
+              <FormulaBlock 
+                formula="z = d × [0.5 + √(0.25 - K/0.9)] ≤ 0.95d"
+                result={`z (short) = ${s.zShort.toFixed(1)} mm`}
+              />
+            </div>
 
-          <div className="space-y-3">
-            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">3. Required Reinforcement</p>
-            <FormulaBlock 
-              formula="As = M / (0.87fy × z)"
-              result={`As (short) = ${s.shortSpanSteel.toFixed(0)} mm²/m`}
-            />
-            {s.longSpanSteel && (
+            <div className="space-y-3">
+              <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">3. Required Reinforcement</p>
+              <FormulaBlock 
+                formula="As = M / (0.87fy × z)"
+                result={`As (short) = ${s.shortSpanSteel.toFixed(0)} mm²/m`}
+              />
+              {s.longSpanSteel && (
+                <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm">
+                  <p>As (long) = {s.longSpanSteel.toFixed(0)} mm²/m</p>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">4. Minimum Steel Check</p>
               <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm">
-                <p>As (long) = {s.longSpanSteel.toFixed(0)} mm²/m</p>
+                <p>As,min = 0.13%bh = {s.minSteel.toFixed(0)} mm²/m</p>
               </div>
-            )}
-          </div>
-
-          <div className="space-y-3">
-            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">4. Minimum Steel Check</p>
-            <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm">
-              <p>As,min = 0.13%bh = {s.minSteel.toFixed(0)} mm²/m</p>
             </div>
-          </div>
 
-          <div className="space-y-3">
-            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">5. Bar Selection</p>
-            <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm">
-              <p className="text-primary font-semibold">Short Span: {s.shortSpanBarSuggestion}</p>
-              {s.longSpanBarSuggestion && (
-                <p className="text-primary font-semibold mt-1">Long Span: {s.longSpanBarSuggestion}</p>
-              )}
+            <div className="space-y-3">
+              <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">5. Bar Selection</p>
+              <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm">
+                <p className="text-primary font-semibold">Short Span: {s.shortSpanBarSuggestion}</p>
+                {s.longSpanBarSuggestion && (
+                  <p className="text-primary font-semibold mt-1">Long Span: {s.longSpanBarSuggestion}</p>
+                )}
+              </div>
             </div>
+
+            {s.supportSteel && s.supportSteel.length > 0 && (
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">6. Top Steel Over Supports</p>
+                <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm space-y-1">
+                  {s.supportSteel.map(steel => (
+                    <p key={steel.direction}>
+                      {steel.direction === 'short' ? 'Short' : 'Long'} span: M⁻ = {steel.moment.toFixed(2)} kNm/m, d = {steel.effectiveDepth.toFixed(0)} mm, K = {steel.k.toFixed(4)} → As = {steel.area.toFixed(0)} mm²/m, {steel.bars}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {s.cornerTorsion && s.cornerTorsion.length > 0 && (
+              <div className="space-y-3">
+                <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">{s.supportSteel?.length ? 7 : 6}. Corner Torsion (Cl. 3.5.3.5)</p>
+                <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm space-y-1">
+                  {s.cornerTorsion.map(corner => (
+                    <p key={`${corner.longEdge}-${corner.shortEdge}`}>
+                      {edgeLabels[corner.longEdge]} / {edgeLabels[corner.shortEdge].toLowerCase()}: {corner.factor === 0.75 ? '3/4' : '3/8'} × As = {corner.area.toFixed(0)} mm²/m → {corner.bars}, {corner.extent.toFixed(2)} m each way
+                    </p>
+                  ))}
+                  <p className="text-muted-foreground text-xs">Four layers - top and bottom, bars in both directions</p>
+                </div>
+              </div>
+            )}
           </div>
-        </div>
 
-        {/* ==================== SECTION E — SHEAR CHECK ==================== */}
-        <SectionHeader 
-          section="E" 
-          title="SHEAR CHECK" 
-          reference="Reference: BS 8110-1 Cl. 3.4.5" 
-        />
-        
-        <div className="ml-4 space-y-4">
-          <FormulaBlock 
-            formula="v = V / (bd)"
-            substitution={`v = ${(s.shearForce * 1000).toFixed(0)} / (1000 × ${s.effectiveDepthShort.toFixed(0)})`}
-            result={`v = ${s.shearStress.toFixed(3)} N/mm²`}
+          {/* ==================== SECTION E — SHEAR CHECK ==================== */}
+          <SectionHeader 
+            section="E" 
+            title="SHEAR CHECK" 
+            reference={`Reference: BS 8110-1 ${s.edgeReactions ? 'Cl. 3.5.3.7 & Table 3.15' : 'Cl. 3.4.5'}`} 
           />
+        
+          <div className="ml-4 space-y-4">
+            <FormulaBlock 
+              formula={governingEdge ? `v = V / (bd) at ${edgeLabels[governingEdge.edge].toLowerCase()} (governing)` : "v = V / (bd)"}
+              substitution={`v = ${(s.shearForce * 1000).toFixed(0)} / (1000 × ${shearDepth.toFixed(0)})`}
+              result={`v = ${s.shearStress.toFixed(3)} N/mm²`}
+            />
           
-          <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm">
-            <p>Concrete shear resistance: vc = {s.permissibleShear.toFixed(3)} N/mm²</p>
-          </div>
+            <div className="bg-muted/30 rounded-lg p-3 font-mono text-sm">
+              <p>Concrete shear resistance: vc = {s.permissibleShear.toFixed(3)} N/mm²</p>
+            </div>
           
-          <CheckResult 
-            passed={s.shearStatus === 'safe'}
-            label="Shear check"
-            value={`${s.shearStress.toFixed(3)} N/mm²`}
-            limit={`${s.permissibleShear.toFixed(3)} N/mm²`}
-          />
-        </div>
+            <CheckResult 
+              passed={s.shearStatus === 'safe'}
+              label="Shear check"
+              value={`${s.shearStress.toFixed(3)} N/mm²`}
+              limit={`${s.permissibleShear.toFixed(3)} N/mm²`}
+            />
+
+            {s.edgeReactions && <EdgeReactionTable reactions={s.edgeReactions} />}
+          </div>
+          </>
+        )}
 
         {/* ==================== SECTION F — DEFLECTION CHECK ==================== */}
         <SectionHeader 
@@ -454,6 +719,12 @@ export function SlabCalculationOutput({ result }: SlabCalculationOutputProps) {
               <span>Basic L/d (Table 3.9):</span>
               <span>{s.basicSpanDepthRatio.toFixed(1)}</span>
             </div>
+            {s.rib && (
+              <div className="flex justify-between font-mono text-sm">
+                <span>Flanged Rib Factor (Cl. 3.4.6.3):</span>
+                <span>{s.rib.deflectionFactor.toFixed(2)}</span>
+              </div>
+            )}
             <div className="flex justify-between font-mono text-sm">
               <span>Tension Modification Factor (Cl. 3.4.6.5):</span>
               <span>{s.tensionModificationFactor.toFixed(2)}</span>
@@ -472,6 +743,29 @@ export function SlabCalculationOutput({ result }: SlabCalculationOutputProps) {
           />
         </div>
 
+        {s.calculatedDeflection && (
+          <div className="ml-4 mt-4 space-y-3">
+            <p className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Calculated Deflection (BS 8110-2 Cl. 3.7)</p>
+            <FormulaBlock 
+              formula="a = K·lx²·(1/rb) + Kcs·lx²·(1/rcs)"
+              substitution={`1 m strip spanning lx: K = ${s.calculatedDeflection.loadFactor.toFixed(4)}, Kcs = ${s.calculatedDeflection.shrinkageFactor}, Eeff = ${(s.calculatedDeflection.longTermModulus / 1000).toFixed(1)} kN/mm²`}
+              result={`1/r(long) = ${(s.calculatedDeflection.longTermCurvature * 1e6).toFixed(3)}, 1/rcs = ${(s.calculatedDeflection.shrinkageCurvature * 1e6).toFixed(3)} × 10⁻⁶ /mm`}
+            />
+            <CheckResult 
+              passed={s.calculatedDeflection.totalDeflection <= s.calculatedDeflection.totalLimit}
+              label="Total (L/250)"
+              value={`${s.calculatedDeflection.totalDeflection.toFixed(1)} mm`}
+              limit={`${s.calculatedDeflection.totalLimit.toFixed(1)} mm`}
+            />
+            <CheckResult 
+              passed={s.calculatedDeflection.postConstructionDeflection <= s.calculatedDeflection.postConstructionLimit}
+              label="Post-construction (L/500)"
+              value={`${s.calculatedDeflection.postConstructionDeflection.toFixed(1)} mm`}
+              limit={`${s.calculatedDeflection.postConstructionLimit.toFixed(1)} mm`}
+            />
+          </div>
+        )}
+
         {/* ==================== SECTION G — FINAL DESIGN SUMMARY ==================== */}
         <SectionHeader 
           section="G" 
@@ -490,27 +784,64 @@ export function SlabCalculationOutput({ result }: SlabCalculationOutputProps) {
             </TableHeader>
             <TableBody>
               <TableRow>
-                <TableCell className="font-mono font-semibold">Short Span (Bottom)</TableCell>
+                <TableCell className="font-mono font-semibold">Short Span (Bottom{assumption && `, ${layerLabel('short')}`})</TableCell>
                 <TableCell className="font-mono">{s.shortSpanBarSuggestion}</TableCell>
                 <TableCell><StatusIndicator status="safe" /></TableCell>
               </TableRow>
               {s.longSpanBarSuggestion && (
                 <TableRow>
-                  <TableCell className="font-mono font-semibold">Long Span (Top)</TableCell>
+                  <TableCell className="font-mono font-semibold">Long Span (Bottom{assumption && `, ${layerLabel('long')}`})</TableCell>
                   <TableCell className="font-mono">{s.longSpanBarSuggestion}</TableCell>
                   <TableCell><StatusIndicator status="safe" /></TableCell>
                 </TableRow>
               )}
+              {s.supportSteel?.map(steel => (
+                <TableRow key={steel.direction}>
+                  <TableCell className="font-mono font-semibold">{steel.direction === 'short' ? 'Short' : 'Long'} Span (Top, Supports)</TableCell>
+                  <TableCell className="font-mono">{steel.bars}</TableCell>
+                  <TableCell><StatusIndicator status={steel.k <= s.kPrime ? 'safe' : 'unsafe'} /></TableCell>
+                </TableRow>
+              ))}
+              {s.torsionBarSuggestion && (
+                <TableRow>
+                  <TableCell className="font-mono font-semibold">Corner Torsion</TableCell>
+                  <TableCell className="font-mono">{s.torsionBarSuggestion}</TableCell>
+                  <TableCell><StatusIndicator status="safe" /></TableCell>
+                </TableRow>
+              )}
               <TableRow>
                 <TableCell className="font-mono font-semibold">Shear</TableCell>
-                <TableCell className="font-mono">No links required (solid slab)</TableCell>
+                <TableCell className="font-mono">
+                  {s.rib
+                    ? s.rib.linkRequirement !== undefined ? `Rib links Asv/sv ≥ ${s.rib.linkRequirement.toFixed(3)} mm²/mm` : 'No links required in the ribs'
+                    : 'No links required (solid slab)'}
+                </TableCell>
                 <TableCell><StatusIndicator status={s.shearStatus} /></TableCell>
               </TableRow>
+              {s.rib && (
+                <TableRow>
+                  <TableCell className="font-mono font-semibold">Topping</TableCell>
+                  <TableCell className="font-mono">{s.rib.toppingThickness} mm, {s.rib.toppingBars} each way</TableCell>
+                  <TableCell><StatusIndicator status={s.rib.toppingThickness >= s.rib.toppingMinimum ? 'safe' : 'unsafe'} /></TableCell>
+                </TableRow>
+              )}
+              <TableRow>
+                <TableCell className="font-mono font-semibold">Cover (Durability &amp; Fire)</TableCell>
+                <TableCell className="font-mono">{s.durability.cover} mm (≥ {s.durability.nominalCover} mm, {exposureLabels[s.durability.exposure]}, {s.durability.fireResistance} h)</TableCell>
+                <TableCell><StatusIndicator status={s.durability.status} /></TableCell>
+              </TableRow>
               <TableRow>
                 <TableCell className="font-mono font-semibold">Deflection</TableCell>
                 <TableCell className="font-mono">L/d = {s.actualSpanDepthRatio.toFixed(1)} / {s.allowableSpanDepthRatio.toFixed(1)}</TableCell>
                 <TableCell><StatusIndicator status={s.deflectionStatus} /></TableCell>
               </TableRow>
+              {s.calculatedDeflection && (
+                <TableRow>
+                  <TableCell className="font-mono font-semibold">Calculated Deflection</TableCell>
+                  <TableCell className="font-mono">{s.calculatedDeflection.totalDeflection.toFixed(1)} mm total, {s.calculatedDeflection.postConstructionDeflection.toFixed(1)} mm post-construction</TableCell>
+                  <TableCell><StatusIndicator status={s.calculatedDeflection.status} /></TableCell>
+                </TableRow>
+              )}
             </TableBody>
           </Table>
         </div>
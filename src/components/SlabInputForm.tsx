@@ -3,9 +3,21 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calculator, RotateCcw, Grid3X3, AlertCircle } from "lucide-react";
-import type { SlabInput, SlabType, PanelType, EdgeContinuity } from "@/lib/slabCalculations";
+import {
+  getEdgeContinuityError,
+  selectPanelCase,
+  type EdgeContinuity,
+  type SlabEdge,
+  type SlabInput,
+  type SlabType
+} from "@/lib/slabCalculations";
+import { defaultDeflectionSettings } from "@/lib/calculatedDeflection";
+import { DeflectionSettingsFields } from "@/components/DeflectionSettingsFields";
+import { DurabilityFields } from "@/components/DurabilityFields";
+import { getNominalCover, type ExposureCondition, type FireResistancePeriod } from "@/lib/durability";
 
 interface SlabInputFormProps {
   onCalculate: (input: SlabInput) => void;
@@ -13,9 +25,12 @@ interface SlabInputFormProps {
 
 const defaultValues: SlabInput = {
   slabType: 'two-way',
-  panelType: 'interior',
-  shortEdgeContinuity: 'continuous',
-  longEdgeContinuity: 'continuous',
+  edgeContinuity: {
+    longEdge1: 'continuous',
+    longEdge2: 'continuous',
+    shortEdge1: 'continuous',
+    shortEdge2: 'continuous',
+  },
   shortSpan: 4,
   longSpan: 5,
   deadLoad: 5,
@@ -24,23 +39,55 @@ const defaultValues: SlabInput = {
   fy: 460,
   slabThickness: 175,
   cover: 25,
+  shortSpanBarDiameter: 10,
+  longSpanBarDiameter: 10,
+  outerLayer: 'short',
   supportCondition: 'continuous-both-ends',
+  deflectionSettings: defaultDeflectionSettings,
+  exposure: 'mild',
+  fireResistance: 1,
+  ribWidth: 125,
+  ribSpacing: 600,
+  toppingThickness: 75,
+  hollowBlocks: false,
+  blockWallThickness: 25,
+  fabricAlternatives: false,
 };
 
 export function SlabInputForm({ onCalculate }: SlabInputFormProps) {
   const [values, setValues] = useState<SlabInput>(defaultValues);
   const [isDeclarationConfirmed, setIsDeclarationConfirmed] = useState(false);
 
+  // Cover follows Tables 3.3 & 3.4 whenever the exposure, fire period, grade, slab type or support changes
+  const isContinuous = (support: SlabInput['supportCondition']) =>
+    support === 'continuous-one-end' || support === 'continuous-both-ends';
+  const isRibbed = values.slabType === 'ribbed' || values.slabType === 'waffle';
+  const fireMember = (slabType: SlabType) => slabType === 'ribbed' || slabType === 'waffle' ? 'rib' : 'floor';
+  const withNominalCover = (next: SlabInput): SlabInput => ({
+    ...next,
+    cover: getNominalCover(next.exposure, next.fireResistance, fireMember(next.slabType), isContinuous(next.supportCondition), next.fcu),
+  });
+
   const handleChange = (field: keyof SlabInput, value: string | number) => {
-    if (field === 'slabType' || field === 'supportCondition' || field === 'panelType' || 
-        field === 'shortEdgeContinuity' || field === 'longEdgeContinuity') {
-      setValues((prev) => ({ ...prev, [field]: value as string }));
+    if (field === 'slabType' || field === 'supportCondition' || field === 'outerLayer') {
+      setValues((prev) => {
+        const next = { ...prev, [field]: value as string };
+        return field === 'outerLayer' ? next : withNominalCover(next);
+      });
     } else {
       const numValue = parseFloat(value as string) || 0;
-      setValues((prev) => ({ ...prev, [field]: numValue }));
+      setValues((prev) => field === 'fcu' ? withNominalCover({ ...prev, fcu: numValue }) : { ...prev, [field]: numValue });
     }
   };
 
+  const handleEdgeChange = (edge: SlabEdge, continuity: EdgeContinuity) => {
+    setValues((prev) => ({ ...prev, edgeContinuity: { ...prev.edgeContinuity, [edge]: continuity } }));
+  };
+
+  const handleDurabilityChange = (exposure: ExposureCondition, fireResistance: FireResistancePeriod) => {
+    setValues((prev) => withNominalCover({ ...prev, exposure, fireResistance }));
+  };
+
   const handleReset = () => {
     setValues(defaultValues);
     setIsDeclarationConfirmed(false);
@@ -48,12 +95,21 @@ export function SlabInputForm({ onCalculate }: SlabInputFormProps) {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!isDeclarationConfirmed) return;
+    if (!isDeclarationConfirmed || edgeError) return;
     onCalculate(values);
   };
 
   const spanRatio = values.longSpan / values.shortSpan;
-  const determinedSlabType = spanRatio > 2 ? 'one-way' : values.slabType;
+  const determinedSlabType = spanRatio > 2 ? (isRibbed ? 'ribbed' : 'one-way') : values.slabType;
+  const panelCase = selectPanelCase(values.edgeContinuity);
+  const edgeError = getEdgeContinuityError(values);
+
+  const edgeFields: { key: SlabEdge; label: string }[] = [
+    { key: "longEdge1", label: "Long Edge 1" },
+    { key: "longEdge2", label: "Long Edge 2" },
+    { key: "shortEdge1", label: "Short Edge 1" },
+    { key: "shortEdge2", label: "Short Edge 2" },
+  ];
 
   const numericFields: { key: keyof SlabInput; label: string; unit: string; min?: number }[] = [
     { key: "shortSpan", label: "Short Span (lx)", unit: "m", min: 0.5 },
@@ -62,8 +118,19 @@ export function SlabInputForm({ onCalculate }: SlabInputFormProps) {
     { key: "liveLoad", label: "Live Load (Qk)", unit: "kN/m²", min: 0 },
     { key: "fcu", label: "Concrete Grade (fcu)", unit: "N/mm²", min: 20 },
     { key: "fy", label: "Steel Grade (fy)", unit: "N/mm²", min: 250 },
-    { key: "slabThickness", label: "Slab Thickness (h)", unit: "mm", min: 100 },
+    { key: "slabThickness", label: isRibbed ? "Overall Depth (h)" : "Slab Thickness (h)", unit: "mm", min: 100 },
     { key: "cover", label: "Cover to Steel", unit: "mm", min: 15 },
+    { key: "shortSpanBarDiameter", label: "Short Span Bar (φx)", unit: "mm", min: 6 },
+    ...(determinedSlabType === 'ribbed' ? [] : [
+      { key: "longSpanBarDiameter" as const, label: "Long Span Bar (φy)", unit: "mm", min: 6 },
+    ]),
+  ];
+
+  const ribFields: { key: keyof SlabInput; label: string; unit: string; min?: number }[] = [
+    { key: "ribWidth", label: "Rib Width (bw)", unit: "mm", min: 65 },
+    { key: "ribSpacing", label: "Rib Spacing (c/c)", unit: "mm", min: 200 },
+    { key: "toppingThickness", label: "Topping (hf)", unit: "mm", min: 25 },
+    ...(values.hollowBlocks ? [{ key: "blockWallThickness" as const, label: "Block Wall", unit: "mm", min: 0 }] : []),
   ];
 
   return (
@@ -99,87 +166,70 @@ export function SlabInputForm({ onCalculate }: SlabInputFormProps) {
                   <SelectContent>
                     <SelectItem value="one-way">One-Way Slab</SelectItem>
                     <SelectItem value="two-way">Two-Way Slab</SelectItem>
+                    <SelectItem value="ribbed">Ribbed Slab (One-Way)</SelectItem>
+                    <SelectItem value="waffle">Waffle Slab (Two-Way)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
               
+              {/* Support Condition */}
               <div className="space-y-2">
-                <Label className="text-xs text-muted-foreground">Panel Type</Label>
+                <Label className="text-xs text-muted-foreground">Support Condition</Label>
                 <Select 
-                  value={values.panelType} 
-                  onValueChange={(v) => handleChange('panelType', v as PanelType)}
+                  value={values.supportCondition} 
+                  onValueChange={(v) => handleChange('supportCondition', v)}
                 >
                   <SelectTrigger className="bg-muted/50 border-border/50">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="interior">Interior Panel</SelectItem>
-                    <SelectItem value="edge">Edge Panel</SelectItem>
-                    <SelectItem value="corner">Corner Panel</SelectItem>
-                    <SelectItem value="cantilever">Cantilever Panel</SelectItem>
+                    <SelectItem value="simply-supported">Simply Supported</SelectItem>
+                    <SelectItem value="continuous-one-end">Continuous One End</SelectItem>
+                    <SelectItem value="continuous-both-ends">Continuous Both Ends</SelectItem>
+                    <SelectItem value="cantilever">Cantilever</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
             </div>
 
-            {/* Edge Continuity */}
+            {/* Edge Continuity - long edges (ly) support the short span */}
             <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label className="text-xs text-muted-foreground">Short Edge Continuity</Label>
-                <Select 
-                  value={values.shortEdgeContinuity} 
-                  onValueChange={(v) => handleChange('shortEdgeContinuity', v as EdgeContinuity)}
-                >
-                  <SelectTrigger className="bg-muted/50 border-border/50">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="continuous">Continuous</SelectItem>
-                    <SelectItem value="discontinuous">Discontinuous</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              
-              <div className="space-y-2">
-                <Label className="text-xs text-muted-foreground">Long Edge Continuity</Label>
-                <Select 
-                  value={values.longEdgeContinuity} 
-                  onValueChange={(v) => handleChange('longEdgeContinuity', v as EdgeContinuity)}
-                >
-                  <SelectTrigger className="bg-muted/50 border-border/50">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="continuous">Continuous</SelectItem>
-                    <SelectItem value="discontinuous">Discontinuous</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              {edgeFields.map(({ key, label }) => (
+                <div key={key} className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">{label}</Label>
+                  <Select 
+                    value={values.edgeContinuity[key]} 
+                    onValueChange={(v) => handleEdgeChange(key, v as EdgeContinuity)}
+                  >
+                    <SelectTrigger className="bg-muted/50 border-border/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="continuous">Continuous</SelectItem>
+                      <SelectItem value="discontinuous">Discontinuous</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
             </div>
 
-            {/* Support Condition */}
-            <div className="space-y-2">
-              <Label className="text-xs text-muted-foreground">Support Condition</Label>
-              <Select 
-                value={values.supportCondition} 
-                onValueChange={(v) => handleChange('supportCondition', v)}
-              >
-                <SelectTrigger className="bg-muted/50 border-border/50">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="simply-supported">Simply Supported</SelectItem>
-                  <SelectItem value="continuous-one-end">Continuous One End</SelectItem>
-                  <SelectItem value="continuous-both-ends">Continuous Both Ends</SelectItem>
-                  <SelectItem value="cantilever">Cantilever</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+            {/* Table 3.14 case selected from the edges */}
+            {edgeError ? (
+              <div className="rounded-md bg-destructive/10 border border-destructive/30 p-2 text-xs text-destructive">
+                ✕ {edgeError}
+              </div>
+            ) : (
+              <div className="rounded-md bg-muted/30 border border-border/50 p-2 text-xs font-mono text-muted-foreground">
+                {values.supportCondition === 'simply-supported' && (determinedSlabType === 'two-way' || determinedSlabType === 'waffle')
+                  ? 'Table 3.13 - simply supported, corners free to lift'
+                  : `Table 3.14 case ${panelCase.caseNumber} - ${panelCase.label}`}
+              </div>
+            )}
 
             {/* Span Ratio Warning */}
-            {spanRatio > 2 && values.slabType === 'two-way' && (
+            {spanRatio > 2 && (values.slabType === 'two-way' || values.slabType === 'waffle') && (
               <div className="rounded-md bg-warning/10 border border-warning/30 p-2 text-xs text-warning">
-                ⚠️ ly/lx = {spanRatio.toFixed(2)} {">"} 2 → Will be designed as ONE-WAY slab
+                ⚠️ ly/lx = {spanRatio.toFixed(2)} {">"} 2 → Will be designed as {values.slabType === 'waffle' ? 'RIBBED (one-way)' : 'ONE-WAY'} slab
               </div>
             )}
 
@@ -198,6 +248,53 @@ export function SlabInputForm({ onCalculate }: SlabInputFormProps) {
             </div>
           </div>
 
+          <DurabilityFields
+            exposure={values.exposure}
+            fireResistance={values.fireResistance}
+            cover={values.cover}
+            requiredCover={getNominalCover(values.exposure, values.fireResistance, fireMember(values.slabType), isContinuous(values.supportCondition), values.fcu)}
+            onChange={handleDurabilityChange}
+          />
+
+          {/* Ribbed / Waffle Geometry */}
+          {isRibbed && (
+            <div className="rounded-lg border border-border/50 bg-muted/30 p-3 space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-sm">Permanent Hollow Blocks</Label>
+                  <p className="text-xs text-muted-foreground">Block wall may be added to the rib width for shear</p>
+                </div>
+                <Switch
+                  checked={values.hollowBlocks}
+                  onCheckedChange={(checked) => setValues((prev) => ({ ...prev, hollowBlocks: checked }))}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {ribFields.map(({ key, label, unit, min }) => (
+                  <div key={key} className="space-y-2">
+                    <Label htmlFor={key} className="text-xs text-muted-foreground">
+                      {label}
+                    </Label>
+                    <div className="relative">
+                      <Input
+                        id={key}
+                        type="number"
+                        step="any"
+                        min={min}
+                        value={values[key] as number}
+                        onChange={(e) => handleChange(key, e.target.value)}
+                        className="pr-12 font-mono text-sm bg-muted/50 border-border/50 focus:border-primary/50 focus:ring-primary/20"
+                      />
+                      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground font-mono">
+                        {unit}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Numeric Inputs */}
           <div className="grid grid-cols-2 gap-4">
             {numericFields.map(({ key, label, unit, min }) => (
@@ -223,14 +320,58 @@ export function SlabInputForm({ onCalculate }: SlabInputFormProps) {
             ))}
           </div>
 
+          {/* Bar layer order - solid slabs and waffles */}
+          {determinedSlabType !== 'ribbed' && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Outer Layer (Top &amp; Bottom)</Label>
+              <Select 
+                value={values.outerLayer} 
+                onValueChange={(v) => handleChange('outerLayer', v)}
+              >
+                <SelectTrigger className="bg-muted/50 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="short">Short Span Bars Outermost</SelectItem>
+                  <SelectItem value="long">Long Span Bars Outermost</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {isRibbed
+                  ? 'Rib bar diameters are assumed for the effective depths'
+                  : 'Bar diameters are assumed for the effective depths and revised to the bars selected'}
+              </p>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between rounded-lg border border-border/50 bg-muted/30 p-3">
+            <div>
+              <Label className="text-sm">BS 4483 Fabric Alternatives</Label>
+              <p className="text-xs text-muted-foreground">Offer A and B-series mesh alongside the bar selections</p>
+            </div>
+            <Switch
+              checked={values.fabricAlternatives}
+              onCheckedChange={(checked) => setValues((prev) => ({ ...prev, fabricAlternatives: checked }))}
+            />
+          </div>
+
+          <DeflectionSettingsFields
+            settings={values.deflectionSettings}
+            onChange={(deflectionSettings) => setValues((prev) => ({ ...prev, deflectionSettings }))}
+          />
+
           {/* BS Reference Lock Indicator */}
           {isDeclarationConfirmed && (
             <div className="rounded-md bg-muted/30 border border-border/50 p-3 text-xs">
               <span className="font-semibold text-primary">BS 8110 Reference Lock:</span>
               <div className="mt-1 text-muted-foreground font-mono">
                 {determinedSlabType === 'one-way' 
-                  ? '• Table 3.10 (One-way slabs)'
-                  : '• Table 3.14 (Two-way coefficients)'
+                  ? '• Table 3.12 (One-way slabs)'
+                  : determinedSlabType === 'ribbed'
+                    ? '• Clause 3.6 (Ribbed slabs, T-section ribs)'
+                    : determinedSlabType === 'waffle'
+                      ? '• Clause 3.6 & Table 3.14 (Waffle slabs)'
+                      : '• Table 3.14 (Two-way coefficients)'
                 }
                 <br />
                 • Clause 3.4 (Deflection)
@@ -243,7 +384,7 @@ export function SlabInputForm({ onCalculate }: SlabInputFormProps) {
           <div className="flex gap-3 pt-4">
             <Button
               type="submit"
-              disabled={!isDeclarationConfirmed}
+              disabled={!isDeclarationConfirmed || !!edgeError}
               className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground font-medium disabled:opacity-50"
             >
               <Calculator className="mr-2 h-4 w-4" />
@@ -0,0 +1,197 @@
+// Anchorage, Laps & Curtailment - BS 8110 Cl. 3.12.8 - 3.12.10
+// Bond stress from Table 3.26 and the simplified curtailment rules of Cl. 3.12.10.2 (Figure 3.24)
+
+import type { CalculationStep } from "./beamCalculations";
+
+// Support at the end of a span: simple (pinned), continuous/fixed, or the free end of a cantilever
+export type SpanEndSupport = 'simple' | 'continuous' | 'free';
+
+export interface AnchorageInput {
+  diameter: number; // mm
+  fcu: number; // N/mm²
+  fy: number; // N/mm²
+  cover: number; // mm (minimum cover to the bar)
+  topCast: boolean; // bar lies in the top of the section as cast
+  cornerBar: boolean; // bar at a section corner
+}
+
+export interface AnchorageResult {
+  diameter: number; // mm
+  bondStressTension: number; // N/mm² (fbu)
+  bondStressCompression: number; // N/mm²
+  tensionAnchorage: number; // mm
+  compressionAnchorage: number; // mm
+  lapFactor: number;
+  tensionLap: number; // mm
+  compressionLap: number; // mm
+  steps: CalculationStep[];
+}
+
+export interface CurtailmentInput {
+  length: number; // m
+  leftEnd: SpanEndSupport;
+  rightEnd: SpanEndSupport;
+  topDiameter: number; // mm
+  bottomDiameter: number; // mm
+  uniformLoads: boolean; // loads substantially uniformly distributed (Cl. 3.12.10.2)
+}
+
+export interface CurtailmentPoint {
+  face: 'top' | 'bottom';
+  support: 'left' | 'right';
+  distance: number; // m (from the support centreline)
+  proportion: number; // fraction of the bars stopped at this point
+  description: string;
+}
+
+export interface CurtailmentResult {
+  points: CurtailmentPoint[];
+  steps: CalculationStep[];
+}
+
+// BS8110 Table 3.26 - Bond coefficient β (plain bars for fy = 250, type 2 deformed bars otherwise)
+export function getBondCoefficient(fy: number, inCompression: boolean): number {
+  if (fy <= 250) return inCompression ? 0.35 : 0.28;
+  return inCompression ? 0.63 : 0.5;
+}
+
+// BS8110 Cl. 3.12.8.4 - Anchorage length l = fs·φ/(4fbu) with fs = 0.87fy
+export function getAnchorageLength(diameter: number, fcu: number, fy: number, inCompression: boolean): number {
+  const fbu = getBondCoefficient(fy, inCompression) * Math.sqrt(fcu);
+  return (0.87 * fy * diameter) / (4 * fbu);
+}
+
+// BS8110 Cl. 3.12.8.13 - Tension laps: ×1.4 at the top as cast or at corners where cover < 2φ, ×2.0 where both apply
+export function getLapFactor(input: AnchorageInput): number {
+  const thinCover = input.cover < 2 * input.diameter;
+  const conditions = [input.topCast && thinCover, input.cornerBar && thinCover].filter(Boolean).length;
+  return conditions === 2 ? 2.0 : conditions === 1 ? 1.4 : 1.0;
+}
+
+export function calculateAnchorage(input: AnchorageInput): AnchorageResult {
+  const steps: CalculationStep[] = [];
+  const { diameter, fcu, fy } = input;
+  const barType = fy <= 250 ? 'plain' : 'type 2 deformed';
+
+  const betaT = getBondCoefficient(fy, false);
+  const betaC = getBondCoefficient(fy, true);
+  const bondStressTension = betaT * Math.sqrt(fcu);
+  const bondStressCompression = betaC * Math.sqrt(fcu);
+  const tensionAnchorage = getAnchorageLength(diameter, fcu, fy, false);
+  const compressionAnchorage = getAnchorageLength(diameter, fcu, fy, true);
+
+  steps.push({
+    title: "Anchorage Length",
+    formula: "fbu = β√fcu, l = 0.87fy·φ / (4fbu)",
+    substitution: `Tension: fbu = ${betaT.toFixed(2)} × √${fcu} = ${bondStressTension.toFixed(2)} N/mm², l = 0.87 × ${fy} × ${diameter} / (4 × ${bondStressTension.toFixed(2)}) = ${tensionAnchorage.toFixed(0)} mm
+Compression: fbu = ${betaC.toFixed(2)} × √${fcu} = ${bondStressCompression.toFixed(2)} N/mm², l = ${compressionAnchorage.toFixed(0)} mm`,
+    result: `T${diameter}: tension ${tensionAnchorage.toFixed(0)} mm (${Math.ceil(tensionAnchorage / diameter)}φ), compression ${compressionAnchorage.toFixed(0)} mm (${Math.ceil(compressionAnchorage / diameter)}φ)`,
+    explanation: `Ultimate bond stress for ${barType} bars`,
+    bsReference: "BS8110 Table 3.26, Cl. 3.12.8.4"
+  });
+
+  // Laps - never less than 15φ or 300 mm (Cl. 3.12.8.11)
+  const minimumLap = Math.max(15 * diameter, 300);
+  const lapFactor = getLapFactor(input);
+  const tensionLap = Math.max(lapFactor * tensionAnchorage, minimumLap);
+  const compressionLap = Math.max(1.25 * compressionAnchorage, minimumLap);
+
+  steps.push({
+    title: "Lap Lengths",
+    formula: "Tension lap = factor × l ≥ max(15φ, 300); compression lap = 1.25 × l",
+    substitution: `Lap factor = ${lapFactor.toFixed(1)} (cover ${input.cover} mm ${input.cover < 2 * diameter ? '<' : '≥'} 2φ = ${2 * diameter} mm${input.topCast ? ', top bar as cast' : ''}${input.cornerBar ? ', corner bar' : ''})
+Tension lap = ${lapFactor.toFixed(1)} × ${tensionAnchorage.toFixed(0)} = ${(lapFactor * tensionAnchorage).toFixed(0)} mm
+Compression lap = 1.25 × ${compressionAnchorage.toFixed(0)} = ${(1.25 * compressionAnchorage).toFixed(0)} mm`,
+    result: `T${diameter}: tension lap ${tensionLap.toFixed(0)} mm, compression lap ${compressionLap.toFixed(0)} mm`,
+    bsReference: "BS8110 Cl. 3.12.8.11 - 3.12.8.15"
+  });
+
+  return {
+    diameter,
+    bondStressTension,
+    bondStressCompression,
+    tensionAnchorage,
+    compressionAnchorage,
+    lapFactor,
+    tensionLap,
+    compressionLap,
+    steps
+  };
+}
+
+// BS8110 Cl. 3.12.10.2 / Figure 3.24 - Simplified curtailment of beam bars
+export function calculateCurtailment(input: CurtailmentInput): CurtailmentResult {
+  const steps: CalculationStep[] = [];
+  const points: CurtailmentPoint[] = [];
+  const { length, leftEnd, rightEnd, topDiameter, bottomDiameter } = input;
+  const ends: { support: 'left' | 'right'; type: SpanEndSupport }[] = [
+    { support: 'left', type: leftEnd },
+    { support: 'right', type: rightEnd }
+  ];
+  const isCantilever = leftEnd === 'free' || rightEnd === 'free';
+  const notes: string[] = [];
+
+  if (isCantilever) {
+    const fixed = ends.find(end => end.type !== 'free')!;
+    const distance = Math.max(0.5 * length, (45 * topDiameter) / 1000);
+    points.push({
+      face: 'top',
+      support: fixed.support,
+      distance,
+      proportion: 0.5,
+      description: `50% of top bars stopped at max(0.5L, 45φ) = ${distance.toFixed(2)} m; remainder to the free end`
+    });
+  } else {
+    const bothSimple = leftEnd === 'simple' && rightEnd === 'simple';
+    const bottomProportion = bothSimple ? 0.5 : 0.7;
+
+    for (const end of ends) {
+      const distance = (end.type === 'simple' ? 0.08 : 0.1) * length;
+      points.push({
+        face: 'bottom',
+        support: end.support,
+        distance,
+        proportion: bottomProportion,
+        description: `${(bottomProportion * 100).toFixed(0)}% of bottom bars stopped ${distance.toFixed(2)} m from the ${end.support} support (${end.type === 'simple' ? '0.08L' : '0.1L'})`
+      });
+
+      if (end.type === 'continuous') {
+        const first = Math.max(0.15 * length, (45 * topDiameter) / 1000);
+        points.push({
+          face: 'top',
+          support: end.support,
+          distance: first,
+          proportion: 0.4,
+          description: `40% of top bars stopped at max(0.15L, 45φ) = ${first.toFixed(2)} m from the ${end.support} support`
+        });
+        points.push({
+          face: 'top',
+          support: end.support,
+          distance: 0.25 * length,
+          proportion: 0.4,
+          description: `A further 40% of top bars stopped at 0.25L = ${(0.25 * length).toFixed(2)} m; 20% continue`
+        });
+      } else {
+        notes.push(`Bottom bars at the ${end.support} support anchored 12φ = ${12 * bottomDiameter} mm beyond the support centreline (Cl. 3.12.9.4)`);
+      }
+    }
+  }
+
+  steps.push({
+    title: "Curtailment (Simplified Rules)",
+    formula: isCantilever
+      ? "Cantilever: 50% of top bars to max(0.5L, 45φ)"
+      : "Bottom: 50% (simply supported) or 70% (continuous) stopped at 0.08L / 0.1L; top: 40% at max(0.15L, 45φ), 40% at 0.25L",
+    substitution: [...points.map(point => point.description), ...notes].join('\n'),
+    result: `${points.length} curtailment point${points.length === 1 ? '' : 's'} for L = ${length.toFixed(2)} m`,
+    isCheck: true,
+    checkPassed: input.uniformLoads,
+    status: input.uniformLoads ? 'safe' : 'review',
+    explanation: input.uniformLoads
+      ? "Simplified rules apply to substantially uniformly loaded beams"
+      : "Loads are not substantially uniform - confirm curtailment against the bending moment diagram (Cl. 3.12.9.1)",
+    bsReference: "BS8110 Cl. 3.12.10.2, Figure 3.24"
+  });
+
+  return { points, steps };
+}
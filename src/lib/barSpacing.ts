@@ -0,0 +1,159 @@
+// Bar Spacing & Crack Control - BS 8110 Cl. 3.12.11
+// Clear spacing of main bars in beams, maximum spacing from Table 3.28 and side bars
+
+import type { BarArrangement, CalculationStep } from "./beamCalculations";
+
+export interface BarSpacingInput {
+  bars: BarArrangement;
+  width: number; // mm (web width)
+  overallDepth: number; // mm
+  cover: number; // mm
+  linkDiameter: number; // mm
+  aggregateSize: number; // mm (hagg)
+  fy: number; // N/mm²
+  redistributionRatio: number; // βb (1.0 = no redistribution)
+}
+
+export interface SideBarRequirement {
+  diameter: number; // mm
+  spacing: number; // mm
+  zoneDepth: number; // mm (2h/3 measured from the tension face)
+}
+
+export interface BarSpacingResult {
+  clearSpacing: number; // mm (between bars of the fullest layer)
+  minSpacing: number; // mm
+  maxSpacing: number; // mm
+  sideClearance: number; // mm (side face to corner bar)
+  needsTwoLayers: boolean;
+  sideBars?: SideBarRequirement;
+  minSpacingOK: boolean;
+  maxSpacingOK: boolean;
+  steps: CalculationStep[];
+  failureReasons: string[];
+}
+
+const sideBarSizes = [10, 12, 16, 20, 25, 32];
+
+// Cl. 3.12.11.1 - Minimum horizontal clear distance: hagg + 5 mm, and not less than the bar size
+export function getMinimumBarGap(diameter: number, aggregateSize: number): number {
+  return Math.max(diameter, aggregateSize + 5);
+}
+
+// Cl. 3.12.11.1 - Minimum vertical clear distance between layers: 2hagg/3, and not less than the bar size
+export function getLayerGap(diameter: number, aggregateSize: number): number {
+  return Math.max(diameter, (2 * aggregateSize) / 3);
+}
+
+// Number of bars of a given size that fit in one layer inside the links
+export function getMaxBarsPerLayer(width: number, cover: number, linkDiameter: number, diameter: number, aggregateSize: number): number {
+  const gap = getMinimumBarGap(diameter, aggregateSize);
+  const clearWidth = width - 2 * (cover + linkDiameter);
+  return Math.max(Math.floor((clearWidth + gap) / (diameter + gap)), 1);
+}
+
+// Table 3.28 - Maximum clear distance between tension bars: 70000βb/fy ≤ 300 mm
+export function getMaxClearSpacing(fy: number, redistributionRatio: number): number {
+  return Math.min((70000 * redistributionRatio) / fy, 300);
+}
+
+export function checkBarSpacing(input: BarSpacingInput): BarSpacingResult {
+  const steps: CalculationStep[] = [];
+  const failureReasons: string[] = [];
+  const { bars, width, cover, linkDiameter, aggregateSize, fy } = input;
+
+  const clearWidth = width - 2 * (cover + linkDiameter);
+  const barsInLayer = Math.max(...bars.barsPerLayer, 1);
+  const clearSpacing = barsInLayer > 1
+    ? (clearWidth - barsInLayer * bars.diameter) / (barsInLayer - 1)
+    : clearWidth - bars.diameter;
+  const minSpacing = getMinimumBarGap(bars.diameter, aggregateSize);
+  const perLayer = getMaxBarsPerLayer(width, cover, linkDiameter, bars.diameter, aggregateSize);
+  const needsTwoLayers = bars.count > perLayer;
+  const minSpacingOK = clearSpacing >= minSpacing && bars.layers <= 2;
+
+  steps.push({
+    title: "Minimum Bar Spacing",
+    formula: "s = [b - 2(c + φlink) - n·φ] / (n - 1) ≥ max(hagg + 5, φ)",
+    substitution: `s = [${width} - 2(${cover} + ${linkDiameter}) - ${barsInLayer} × ${bars.diameter}] / (${barsInLayer} - 1) = ${clearSpacing.toFixed(0)} mm
+smin = max(${aggregateSize} + 5, ${bars.diameter}) = ${minSpacing} mm; ${perLayer} × T${bars.diameter} fit in one layer`,
+    result: `${bars.barsPerLayer.join(' + ')} bars per layer, clear spacing = ${clearSpacing.toFixed(0)} mm ${clearSpacing >= minSpacing ? '≥' : '<'} ${minSpacing} mm`,
+    isCheck: true,
+    checkPassed: minSpacingOK && !needsTwoLayers,
+    status: !minSpacingOK ? 'unsafe' : needsTwoLayers ? 'review' : 'safe',
+    explanation: !minSpacingOK
+      ? bars.layers > 2
+        ? "More than two layers of bars are needed - increase the section"
+        : "Bars do not fit in the web width - use fewer larger bars or two layers"
+      : needsTwoLayers
+        ? `Two layers required (vertical gap ≥ ${getLayerGap(bars.diameter, aggregateSize).toFixed(0)} mm)`
+        : "Bars fit in a single layer ✓",
+    bsReference: "BS8110 Cl. 3.12.11.1"
+  });
+
+  if (!minSpacingOK) {
+    failureReasons.push(bars.layers > 2
+      ? `${bars.description} needs more than two layers`
+      : `Clear bar spacing ${clearSpacing.toFixed(0)} mm is below the minimum ${minSpacing} mm`);
+  }
+
+  // Table 3.28 - crack control
+  const maxSpacing = getMaxClearSpacing(fy, input.redistributionRatio);
+  const sideClearance = cover + linkDiameter;
+  const maxSpacingOK = (barsInLayer < 2 || clearSpacing <= maxSpacing) && sideClearance <= maxSpacing / 2;
+
+  steps.push({
+    title: "Maximum Bar Spacing (Crack Control)",
+    formula: "smax = 70000βb/fy ≤ 300 mm; corner bar to side face ≤ smax/2",
+    substitution: `smax = 70000 × ${input.redistributionRatio.toFixed(2)} / ${fy} = ${maxSpacing.toFixed(0)} mm
+Side face to corner bar = ${cover} + ${linkDiameter} = ${sideClearance} mm (limit ${(maxSpacing / 2).toFixed(0)} mm)`,
+    result: `s = ${clearSpacing.toFixed(0)} mm ${maxSpacingOK ? '≤' : '>'} ${maxSpacing.toFixed(0)} mm`,
+    isCheck: true,
+    checkPassed: maxSpacingOK,
+    status: maxSpacingOK ? 'safe' : 'unsafe',
+    explanation: maxSpacingOK
+      ? "Crack widths controlled by bar spacing ✓"
+      : "Bars too far apart for crack control - use more, smaller bars or reduce cover",
+    bsReference: "BS8110 Table 3.28"
+  });
+
+  if (!maxSpacingOK) {
+    failureReasons.push(`Bar spacing exceeds the crack control limit of ${maxSpacing.toFixed(0)} mm (Table 3.28)`);
+  }
+
+  // Cl. 3.12.11.2.6 - Side bars in beams deeper than 750 mm
+  let sideBars: SideBarRequirement | undefined;
+  if (input.overallDepth > 750) {
+    const spacing = 250;
+    const minDiameter = Math.sqrt((spacing * Math.min(width, 500)) / fy);
+    const diameter = sideBarSizes.find(size => size >= minDiameter) ?? sideBarSizes[sideBarSizes.length - 1];
+    const zoneDepth = (2 * input.overallDepth) / 3;
+    sideBars = { diameter, spacing, zoneDepth };
+
+    steps.push({
+      title: "Side Bars (h > 750 mm)",
+      formula: "sb ≤ 250 mm, φ ≥ √(sb·b/fy) over 2h/3 from the tension face",
+      substitution: `φ ≥ √(${spacing} × ${Math.min(width, 500)} / ${fy}) = ${minDiameter.toFixed(1)} mm
+Zone = 2 × ${input.overallDepth} / 3 = ${zoneDepth.toFixed(0)} mm`,
+      result: `Provide T${diameter} side bars @ ${spacing} mm c/c on each side face`,
+      isCheck: true,
+      checkPassed: true,
+      status: 'review',
+      explanation: "Side bars control cracking in the sides of deep beams",
+      bsReference: "BS8110 Cl. 3.12.11.2.6"
+    });
+  }
+
+  return {
+    clearSpacing,
+    minSpacing,
+    maxSpacing,
+    sideClearance,
+    needsTwoLayers,
+    sideBars,
+    minSpacingOK,
+    maxSpacingOK,
+    steps,
+    failureReasons
+  };
+}
@@ -0,0 +1,228 @@
+// Single-span load analysis - bending moment and shear force by superposition
+// Sign convention: sagging moment positive, x measured from the left support (m)
+
+import type { BeamSupportCondition } from "./beamCalculations";
+
+export interface PointLoad {
+  type: 'point';
+  position: number; // m
+  value: number; // kN
+}
+
+export interface DistributedLoad {
+  type: 'distributed';
+  start: number; // m
+  end: number; // m
+  startValue: number; // kN/m
+  endValue: number; // kN/m
+}
+
+export type AppliedLoad = PointLoad | DistributedLoad;
+
+export interface DiagramPoint {
+  x: number; // m
+  moment: number; // kNm (sagging +)
+  shear: number; // kN
+}
+
+export interface SpanAnalysisResult {
+  points: DiagramPoint[];
+  reactionLeft: number; // kN
+  reactionRight: number; // kN
+  endMomentLeft: number; // kNm (hogging +)
+  endMomentRight: number; // kNm (hogging +)
+  maxSagging: number; // kNm
+  maxSaggingAt: number; // m
+  maxHogging: number; // kNm
+  maxHoggingAt: number; // m
+  maxShear: number; // kN
+  maxShearAt: number; // m
+}
+
+const DIAGRAM_DIVISIONS = 200;
+const EPSILON = 1e-6;
+
+// Resultant and centroid of the part of a load lying between `from` and `to`
+function loadResultant(load: AppliedLoad, from: number, to: number): { force: number; centroid: number } {
+  if (load.type === 'point') {
+    return load.position >= from && load.position < to
+      ? { force: load.value, centroid: load.position }
+      : { force: 0, centroid: 0 };
+  }
+
+  const a = Math.max(load.start, from);
+  const b = Math.min(load.end, to);
+  if (b <= a || load.end <= load.start) return { force: 0, centroid: 0 };
+
+  const intensity = (t: number) =>
+    load.startValue + (load.endValue - load.startValue) * (t - load.start) / (load.end - load.start);
+  const wa = intensity(a);
+  const wb = intensity(b);
+  const force = (wa + wb) / 2 * (b - a);
+  const centroid = wa + wb === 0 ? (a + b) / 2 : a + (b - a) * (wa + 2 * wb) / (3 * (wa + wb));
+  return { force, centroid };
+}
+
+// Total load (kN) carried by the span
+export function totalLoad(length: number, loads: AppliedLoad[]): number {
+  return loads.reduce((sum, load) => sum + loadResultant(load, 0, length + EPSILON).force, 0);
+}
+
+// Fixed-end (hogging) moments for a fully fixed span: Pab²/L² and Pa²b/L².
+// Only the parts of the loads lying on the span count.
+export function fixedEndMoments(length: number, loads: AppliedLoad[]): { left: number; right: number } {
+  let left = 0;
+  let right = 0;
+  const kernel = (P: number, a: number) => {
+    const b = length - a;
+    left += P * a * b * b / (length * length);
+    right += P * a * a * b / (length * length);
+  };
+
+  for (const load of loads) {
+    if (load.type === 'point') {
+      if (load.position >= 0 && load.position <= length) kernel(load.value, load.position);
+      continue;
+    }
+    if (load.end <= load.start) continue;
+    // Simpson's rule over the loaded length on the span
+    const start = Math.max(load.start, 0);
+    const end = Math.min(load.end, length);
+    const intensity = (t: number) =>
+      load.startValue + (load.endValue - load.startValue) * (t - load.start) / (load.end - load.start);
+    const n = 60;
+    const h = (end - start) / n;
+    if (h <= 0) continue;
+    for (let i = 0; i <= n; i++) {
+      const t = start + i * h;
+      const w = intensity(t);
+      const weight = i === 0 || i === n ? 1 : i % 2 === 1 ? 4 : 2;
+      kernel(w * weight * h / 3, t);
+    }
+  }
+
+  return { left, right };
+}
+
+function sampleStations(length: number, loads: AppliedLoad[], extraStations: number[]): number[] {
+  const stations = new Set<number>(extraStations.filter(x => x >= 0 && x <= length));
+  for (let i = 0; i <= DIAGRAM_DIVISIONS; i++) {
+    stations.add((length * i) / DIAGRAM_DIVISIONS);
+  }
+  // Capture both sides of every discontinuity
+  for (const load of loads) {
+    const marks = load.type === 'point' ? [load.position] : [load.start, load.end];
+    for (const m of marks) {
+      if (m > EPSILON && m < length - EPSILON) {
+        stations.add(m - EPSILON);
+        stations.add(m + EPSILON);
+      }
+    }
+  }
+  return [...stations].sort((a, b) => a - b);
+}
+
+function summarise(points: DiagramPoint[], reactionLeft: number, reactionRight: number, endMomentLeft: number, endMomentRight: number): SpanAnalysisResult {
+  let maxSagging = 0, maxSaggingAt = 0;
+  let maxHogging = 0, maxHoggingAt = 0;
+  let maxShear = 0, maxShearAt = 0;
+
+  for (const p of points) {
+    if (p.moment > maxSagging) { maxSagging = p.moment; maxSaggingAt = p.x; }
+    if (-p.moment > maxHogging) { maxHogging = -p.moment; maxHoggingAt = p.x; }
+    if (Math.abs(p.shear) > maxShear) { maxShear = Math.abs(p.shear); maxShearAt = p.x; }
+  }
+
+  return {
+    points,
+    reactionLeft,
+    reactionRight,
+    endMomentLeft,
+    endMomentRight,
+    maxSagging,
+    maxSaggingAt,
+    maxHogging,
+    maxHoggingAt,
+    maxShear,
+    maxShearAt
+  };
+}
+
+// Span between two supports with known hogging end moments MA and MB:
+// M(x) = M0(x) - MA(1 - x/L) - MB·x/L
+export function analyseSpanWithEndMoments(
+  length: number,
+  loads: AppliedLoad[],
+  endMomentLeft: number,
+  endMomentRight: number,
+  extraStations: number[] = []
+): SpanAnalysisResult {
+  // Simply supported reactions from statics
+  let total = 0;
+  let momentAboutLeft = 0;
+  for (const load of loads) {
+    const r = loadResultant(load, 0, length + EPSILON);
+    total += r.force;
+    momentAboutLeft += r.force * r.centroid;
+  }
+  const freeRight = momentAboutLeft / length;
+  const freeLeft = total - freeRight;
+  const correction = (endMomentLeft - endMomentRight) / length;
+
+  const points = sampleStations(length, loads, extraStations).map(x => {
+    let shear = freeLeft + correction;
+    let moment = freeLeft * x;
+    for (const load of loads) {
+      const r = loadResultant(load, 0, x);
+      shear -= r.force;
+      moment -= r.force * (x - r.centroid);
+    }
+    moment -= endMomentLeft * (1 - x / length) + endMomentRight * x / length;
+    return { x, moment, shear };
+  });
+
+  return summarise(points, freeLeft + correction, total - freeLeft - correction, endMomentLeft, endMomentRight);
+}
+
+// Cantilever fixed at x = 0 and free at x = L
+export function analyseCantilever(length: number, loads: AppliedLoad[], extraStations: number[] = []): SpanAnalysisResult {
+  const points = sampleStations(length, loads, extraStations).map(x => {
+    let shear = 0;
+    let moment = 0;
+    for (const load of loads) {
+      const r = loadResultant(load, x, length + EPSILON);
+      shear += r.force;
+      moment -= r.force * (r.centroid - x);
+    }
+    return { x, moment, shear };
+  });
+
+  const reaction = totalLoad(length, loads);
+  const fixedMoment = points.length > 0 ? -points[0].moment : 0;
+  return summarise(points, reaction, 0, fixedMoment, 0);
+}
+
+// Analyse a single span for the given support condition.
+// Propped cantilevers are fixed at the left end and propped at the right.
+// Extra stations (e.g. the critical shear sections) are added to the diagram.
+export function analyseSingleSpan(
+  length: number,
+  loads: AppliedLoad[],
+  supportCondition: BeamSupportCondition,
+  extraStations: number[] = []
+): SpanAnalysisResult {
+  switch (supportCondition) {
+    case 'cantilever':
+      return analyseCantilever(length, loads, extraStations);
+    case 'propped-cantilever': {
+      const fem = fixedEndMoments(length, loads);
+      return analyseSpanWithEndMoments(length, loads, fem.left + fem.right / 2, 0, extraStations);
+    }
+    case 'continuous': {
+      const fem = fixedEndMoments(length, loads);
+      return analyseSpanWithEndMoments(length, loads, fem.left, fem.right, extraStations);
+    }
+    default:
+      return analyseSpanWithEndMoments(length, loads, 0, 0, extraStations);
+  }
+}
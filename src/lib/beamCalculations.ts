@@ -1,14 +1,128 @@
+import { analyseSingleSpan, type AppliedLoad, type SpanAnalysisResult } from "./beamAnalysis";
+import { grossFlexuralRigidity, singleSpanDiagram, type MemberDiagram } from "./diagrams";
+import {
+  designFlangedSection,
+  getEffectiveFlangeWidth,
+  getFlangedBasicRatioFactor,
+  getFlangedMinSteelRatio,
+  sectionTypeLabels,
+  type FlangedSectionResult,
+  type SectionType
+} from "./flangedSection";
+import { checkBarSpacing, getLayerGap, getMaxBarsPerLayer, type SideBarRequirement } from "./barSpacing";
+import {
+  calculateAnchorage,
+  calculateCurtailment,
+  type AnchorageResult,
+  type CurtailmentPoint,
+  type SpanEndSupport
+} from "./anchorage";
+import { designTorsion, type TorsionResult } from "./torsion";
+import {
+  calculateDeflection,
+  getTensionModificationFactor,
+  type CalculatedDeflectionResult,
+  type DeflectionSettings,
+  type DeflectionSupport
+} from "./calculatedDeflection";
+import {
+  checkDurability,
+  type DurabilityResult,
+  type ExposureCondition,
+  type FireResistancePeriod
+} from "./durability";
+
+export type BeamSupportCondition = 'simply-supported' | 'cantilever' | 'propped-cantilever' | 'continuous';
+export type BeamLoadType = 'point' | 'partial-udl' | 'trapezoidal';
+
+// Additional load on the span, positioned from the left support
+// (from the fixed end for cantilevers and propped cantilevers)
+export interface BeamLoad {
+  type: BeamLoadType;
+  position: number; // m (point of application, or start of a distributed load)
+  length: number; // m (loaded length; ignored for point loads)
+  deadLoad: number; // kN for point loads, kN/m at start otherwise
+  liveLoad: number; // kN for point loads, kN/m at start otherwise
+  deadLoadEnd: number; // kN/m at end (trapezoidal only)
+  liveLoadEnd: number; // kN/m at end (trapezoidal only)
+}
+
+export interface LoadSummaryRow {
+  description: string;
+  position: string;
+  deadLoad: string;
+  liveLoad: string;
+  ultimate: string;
+  totalUltimate: number; // kN
+}
+
 export interface BeamInput {
+  supportCondition: BeamSupportCondition;
   span: number; // m
-  deadLoad: number; // kN/m
-  liveLoad: number; // kN/m
+  deadLoad: number; // kN/m (full-length UDL)
+  liveLoad: number; // kN/m (full-length UDL)
+  torsionalMoment: number; // kNm (ultimate torsion, 0 = none)
+  loads: BeamLoad[];
   fcu: number; // N/mm²
   fy: number; // N/mm²
-  width: number; // mm
+  sectionType: SectionType;
+  width: number; // mm (web width bw for flanged sections)
   overallDepth: number; // mm (h)
+  flangeThickness: number; // mm (hf, flanged sections only)
+  flangeWidthLimit: number; // mm (available flange width, e.g. beam spacing; 0 = no limit)
   cover: number; // mm
   linkDiameter: number; // mm (typically 8, 10, or 12)
   mainBarDiameter: number; // mm (typically 16, 20, 25, 32)
+  aggregateSize: number; // mm (hagg, for bar spacing)
+  deflectionSettings: DeflectionSettings; // calculated deflection (BS8110-2) alongside span/depth
+  exposure: ExposureCondition; // Table 3.3
+  fireResistance: FireResistancePeriod; // hours (Tables 3.4 & 3.5)
+}
+
+// Bars selected to provide As,prov ≥ As,req (bars fill the outer layer first)
+export interface BarArrangement {
+  count: number;
+  diameter: number; // mm
+  layers: number;
+  barsPerLayer: number[];
+  area: number; // mm² (As,prov)
+  description: string;
+  impractical?: boolean; // required area exceeds two full layers of the largest bar
+}
+
+// Tension steel on the face opposite the governing moment - fixed and propped beams carry both
+export interface OppositeFaceDesign {
+  face: 'bottom' | 'top';
+  moment: number; // kNm
+  effectiveDepth: number; // mm
+  kValue: number; // on the web width bw
+  leverArm: number; // mm
+  tensionSteel: number; // mm², at least the minimum
+  bars: BarArrangement; // also provides any compression steel of the governing face
+}
+
+// Check mode - bending capacity of the face opposite the governing moment
+export interface OppositeFaceCapacity {
+  face: 'bottom' | 'top';
+  moment: number; // kNm
+  effectiveDepth: number; // mm
+  neutralAxisDepth: number; // mm
+  momentCapacity: number; // kNm
+  momentUtilisation: number;
+}
+
+export interface ProvidedBars {
+  count: number;
+  diameter: number; // mm
+}
+
+// Check mode: capacity of a given section. The tension bar diameter is taken from the
+// provided bars, so mainBarDiameter is not used.
+export interface BeamCheckInput extends BeamInput {
+  bottomBars: ProvidedBars;
+  topBars: ProvidedBars;
+  linkLegs: number;
+  linkSpacing: number; // mm
 }
 
 export interface CalculationStep {
@@ -25,11 +139,18 @@ export interface CalculationStep {
 
 export interface BeamResult {
   steps: CalculationStep[];
+  diagram: MemberDiagram; // BMD, SFD and deflected shape
   summary: {
     // Input values for display
+    supportCondition: BeamSupportCondition;
+    supportLabel: string;
     span: number;
+    sectionType: SectionType;
     width: number;
     overallDepth: number;
+    flangeThickness?: number;
+    effectiveFlangeWidth?: number;
+    neutralAxisInFlange?: boolean;
     fcu: number;
     fy: number;
     deadLoad: number;
@@ -38,8 +159,17 @@ export interface BeamResult {
     // Calculated values
     effectiveDepth: number;
     ultimateLoad: number;
+    loadSummary: LoadSummaryRow[];
+    totalUltimateLoad: number;
     ultimateMoment: number;
+    momentPosition: number;
+    saggingMoment: number;
+    hoggingMoment: number;
+    tensionFace: 'bottom' | 'top';
+    momentFormula: string;
+    shearFormula: string;
     shearForce: number;
+    shearPosition: number;
     criticalShear: number;
     kValue: number;
     kPrime: number;
@@ -56,17 +186,37 @@ export interface BeamResult {
     compressionModificationFactor: number;
     allowableSpanDepthRatio: number;
     actualSpanDepthRatio: number;
+    calculatedDeflection?: CalculatedDeflectionResult;
     // Status values
     isDoublyReinforced: boolean;
     designValid: boolean;
     deflectionStatus: 'safe' | 'unsafe';
     shearStatus: 'safe' | 'unsafe';
     kCheckStatus: 'safe' | 'unsafe';
+    detailingStatus: 'safe' | 'unsafe';
+    durability: DurabilityResult;
     // Reinforcement
     linkSize: number;
     linkSpacing: number;
+    sideBars?: SideBarRequirement;
+    torsion?: TorsionResult;
+    anchorage: AnchorageResult;
+    curtailment: CurtailmentPoint[];
     barSuggestion: string;
     compressionBarSuggestion?: string;
+    tensionBars: BarArrangement;
+    compressionBars?: BarArrangement;
+    oppositeFace?: OppositeFaceDesign; // design mode, where the other moment is non-zero
+    // Check mode (capacity of a given section)
+    capacityCheck?: {
+      neutralAxisDepth: number; // mm
+      momentCapacity: number; // kNm
+      shearCapacity: number; // kN (at the critical section)
+      linkShearStress: number; // N/mm² (0.87fyv·Asv/(bv·sv))
+      momentUtilisation: number;
+      shearUtilisation: number;
+      oppositeFace?: OppositeFaceCapacity; // where the other moment is non-zero
+    };
     // Failure tracking
     failureReasons: string[];
   };
@@ -82,18 +232,83 @@ function getBasicSpanDepthRatio(supportCondition: string): number {
   }
 }
 
-// Calculate tension reinforcement modification factor (BS8110 Cl. 3.4.6.5)
-function getTensionModificationFactor(M: number, b: number, d: number, As: number, fy: number): number {
-  const fs = (2 * fy * As) / (3 * b * d); // Service stress (approximate)
-  const Mu = M / (b * d * d);
-  const factor = 0.55 + (477 - fs) / (120 * (0.9 + Mu));
-  return Math.min(Math.max(factor, 0.55), 2.0);
-}
+// Moment and shear coefficients for a single span carrying a UDL (M = βwL², V = βvwL)
+const supportConditionData: Record<BeamSupportCondition, {
+  label: string;
+  sagging: number;
+  hogging: number;
+  shear: number;
+  momentFormula: string;
+  shearFormula: string;
+  momentExplanation: string;
+  shearSection: string;
+  basicRatioCase: string;
+  ends: [SpanEndSupport, SpanEndSupport];
+  deflection: DeflectionSupport;
+  reference: string;
+}> = {
+  'simply-supported': {
+    label: 'Simply Supported',
+    sagging: 1 / 8,
+    hogging: 0,
+    shear: 1 / 2,
+    momentFormula: 'M = wL²/8',
+    shearFormula: 'V = wL/2',
+    momentExplanation: 'Maximum sagging moment at mid-span; no restraint moment at the supports',
+    shearSection: 'd from the face of either support',
+    basicRatioCase: 'simply-supported',
+    ends: ['simple', 'simple'],
+    deflection: 'simply-supported',
+    reference: 'BS8110 Cl. 3.4.1.2'
+  },
+  'cantilever': {
+    label: 'Cantilever',
+    sagging: 0,
+    hogging: 1 / 2,
+    shear: 1,
+    momentFormula: 'M = wL²/2',
+    shearFormula: 'V = wL',
+    momentExplanation: 'Maximum hogging moment at the fixed support; tension in the top face',
+    shearSection: 'd from the face of the fixed support',
+    basicRatioCase: 'cantilever',
+    ends: ['continuous', 'free'],
+    deflection: 'cantilever',
+    reference: 'BS8110 Cl. 3.4.1.4'
+  },
+  'propped-cantilever': {
+    label: 'Propped Cantilever',
+    sagging: 9 / 128,
+    hogging: 1 / 8,
+    shear: 5 / 8,
+    momentFormula: 'M = wL²/8 (hogging), 9wL²/128 (sagging)',
+    shearFormula: 'V = 5wL/8',
+    momentExplanation: 'Hogging moment at the fixed end exceeds the sagging moment at 3L/8 from the prop',
+    shearSection: 'd from the face of the fixed support',
+    basicRatioCase: 'continuous',
+    ends: ['continuous', 'simple'],
+    deflection: 'one-end-continuous',
+    reference: 'BS8110 Cl. 3.4.1.3'
+  },
+  'continuous': {
+    label: 'Continuous (Fixed Both Ends)',
+    sagging: 1 / 24,
+    hogging: 1 / 12,
+    shear: 1 / 2,
+    momentFormula: 'M = wL²/12 (hogging), wL²/24 (sagging)',
+    shearFormula: 'V = wL/2',
+    momentExplanation: 'Hogging moment over the continuous supports exceeds the mid-span sagging moment',
+    shearSection: 'd from the face of either support',
+    basicRatioCase: 'continuous',
+    ends: ['continuous', 'continuous'],
+    deflection: 'both-ends-continuous',
+    reference: 'BS8110 Cl. 3.4.1.3'
+  }
+};
 
-// Calculate compression modification factor (BS8110 Cl. 3.4.6.6)
-function getCompressionModificationFactor(As_prov: number, As_req: number): number {
-  const ratio = As_prov / As_req;
-  return Math.min(1 + ratio / 3, 1.5);
+// Calculate compression modification factor (BS8110 Table 3.11)
+function getCompressionModificationFactor(AsPrime_prov: number, b: number, d: number): number {
+  const ratio = (100 * AsPrime_prov) / (b * d);
+  return Math.min(1 + ratio / (3 + ratio), 1.5);
 }
 
 // Calculate permissible shear stress vc (BS8110 Table 3.8)
@@ -127,42 +342,153 @@ function calculateLinkSpacing(v: number, vc: number, b: number, d: number, fy: n
   return { size: 12, spacing: 100 }; // Fallback
 }
 
-// Suggest bar configuration
-function suggestBars(area: number): string {
-  const options = [
-    { dia: 12, area: 113 },
-    { dia: 16, area: 201 },
-    { dia: 20, area: 314 },
-    { dia: 25, area: 491 },
-    { dia: 32, area: 804 }
-  ];
-  
-  for (const bar of options) {
-    const count = Math.ceil(area / bar.area);
-    if (count <= 4) {
-      return `${count}T${bar.dia} (${(count * bar.area).toFixed(0)} mm² provided)`;
-    }
+const barOptions = [
+  { dia: 12, area: 113 },
+  { dia: 16, area: 201 },
+  { dia: 20, area: 314 },
+  { dia: 25, area: 491 },
+  { dia: 32, area: 804 }
+];
+
+function buildArrangement(count: number, dia: number, area: number, perLayer: number): BarArrangement {
+  const barsPerLayer: number[] = [];
+  for (let remaining = count; remaining > 0; remaining -= perLayer) {
+    barsPerLayer.push(Math.min(remaining, perLayer));
   }
-  return "Use 2 layers or larger bars";
+  const layers = barsPerLayer.length;
+  return {
+    count,
+    diameter: dia,
+    layers,
+    barsPerLayer,
+    area: count * area,
+    description: `${count}T${dia}${layers > 1 ? ` in ${layers} layers` : ''} (${(count * area).toFixed(0)} mm² provided)`
+  };
 }
 
-export function calculateBeamDesign(input: BeamInput): BeamResult {
-  const steps: CalculationStep[] = [];
-  const failureReasons: string[] = [];
-  
-  // Calculate effective depth: d = h - cover - φlink - φbar/2
-  const effectiveDepth = input.overallDepth - input.cover - input.linkDiameter - input.mainBarDiameter / 2;
-  
-  // Step 1: Effective Depth Calculation
-  steps.push({
-    title: "Step 1: Effective Depth Calculation",
-    formula: "d = h - cover - φlink - φbar/2",
-    substitution: `d = ${input.overallDepth} - ${input.cover} - ${input.linkDiameter} - ${input.mainBarDiameter}/2`,
-    result: `d = ${effectiveDepth.toFixed(0)} mm`,
-    explanation: "Effective depth from compression face to centroid of tension steel",
-    bsReference: "BS8110 Cl. 3.4.4.1"
+// Most layers of main bars at one face
+const maxLayers = 2;
+
+// Select bars: up to 4 bars in one layer preferred, then a full single layer, then two layers.
+// Beyond two full layers of the largest bar there is no practical arrangement.
+function selectBars(area: number, input: BeamInput): BarArrangement {
+  const candidates = barOptions.map(bar => ({
+    ...bar,
+    count: Math.max(Math.ceil(area / bar.area), 2),
+    perLayer: getMaxBarsPerLayer(input.width, input.cover, input.linkDiameter, bar.dia, input.aggregateSize)
+  }));
+
+  const choice =
+    candidates.find(bar => bar.count <= Math.min(4, bar.perLayer)) ??
+    candidates.find(bar => bar.count <= bar.perLayer) ??
+    candidates.find(bar => bar.count <= maxLayers * bar.perLayer);
+  if (choice) return buildArrangement(choice.count, choice.dia, choice.area, choice.perLayer);
+
+  const largest = candidates[candidates.length - 1];
+  const perLayer = Number.isFinite(largest.perLayer) ? largest.perLayer : 1;
+  return {
+    ...buildArrangement(maxLayers * perLayer, largest.dia, largest.area, perLayer),
+    description: `No practical arrangement (${Number.isFinite(area) ? area.toFixed(0) : '∞'} mm² exceeds ${maxLayers} layers of T${largest.dia})`,
+    impractical: true
+  };
+}
+
+// Distance from the concrete face to the centroid of an arrangement
+function getSteelCentroidDepth(input: BeamInput, bars: BarArrangement): number {
+  const gap = getLayerGap(bars.diameter, input.aggregateSize);
+  const firstLayer = input.cover + input.linkDiameter + bars.diameter / 2;
+  const moment = bars.barsPerLayer.reduce((sum, n, i) => sum + n * (firstLayer + i * (bars.diameter + gap)), 0);
+  return moment / bars.count;
+}
+
+const loadTypeLabels: Record<BeamLoadType, string> = {
+  'point': 'Point load',
+  'partial-udl': 'Partial UDL',
+  'trapezoidal': 'Trapezoidal load'
+};
+
+// A load must lie on its member: x ≥ 0 and x + loaded length ≤ L
+export function getLoadPositionError(load: BeamLoad, length: number, member = 'span'): string | undefined {
+  const end = load.type === 'point' ? load.position : load.position + load.length;
+  if (load.position >= 0 && end <= length + 1e-9) return undefined;
+  return load.type === 'point'
+    ? `x = ${load.position} m lies outside the ${length} m ${member}`
+    : `${load.position} - ${end} m runs outside the ${length} m ${member}`;
+}
+
+// Convert the characteristic loads to factored (1.4Gk + 1.6Qk) loads for analysis.
+// Loads off the span are rejected by the engine and left out here.
+function buildUltimateLoads(input: BeamInput, gammaG = 1.4, gammaQ = 1.6): { loads: AppliedLoad[]; rows: LoadSummaryRow[] } {
+  const loads: AppliedLoad[] = [];
+  const rows: LoadSummaryRow[] = [];
+  const w = gammaG * input.deadLoad + gammaQ * input.liveLoad;
+
+  if (w !== 0) {
+    loads.push({ type: 'distributed', start: 0, end: input.span, startValue: w, endValue: w });
+    rows.push({
+      description: 'UDL (full span)',
+      position: `0 - ${input.span} m`,
+      deadLoad: `${input.deadLoad} kN/m`,
+      liveLoad: `${input.liveLoad} kN/m`,
+      ultimate: `${w.toFixed(2)} kN/m`,
+      totalUltimate: w * input.span
+    });
+  }
+
+  input.loads.forEach((load, i) => {
+    if (getLoadPositionError(load, input.span)) return;
+    const label = `${i + 1}. ${loadTypeLabels[load.type]}`;
+    if (load.type === 'point') {
+      const P = gammaG * load.deadLoad + gammaQ * load.liveLoad;
+      loads.push({ type: 'point', position: load.position, value: P });
+      rows.push({
+        description: label,
+        position: `x = ${load.position} m`,
+        deadLoad: `${load.deadLoad} kN`,
+        liveLoad: `${load.liveLoad} kN`,
+        ultimate: `${P.toFixed(2)} kN`,
+        totalUltimate: P
+      });
+      return;
+    }
+
+    const end = load.position + load.length;
+    const w1 = gammaG * load.deadLoad + gammaQ * load.liveLoad;
+    const isTrapezoidal = load.type === 'trapezoidal';
+    const w2 = isTrapezoidal ? gammaG * load.deadLoadEnd + gammaQ * load.liveLoadEnd : w1;
+    loads.push({ type: 'distributed', start: load.position, end, startValue: w1, endValue: w2 });
+    rows.push({
+      description: label,
+      position: `${load.position} - ${end} m`,
+      deadLoad: isTrapezoidal ? `${load.deadLoad} → ${load.deadLoadEnd} kN/m` : `${load.deadLoad} kN/m`,
+      liveLoad: isTrapezoidal ? `${load.liveLoad} → ${load.liveLoadEnd} kN/m` : `${load.liveLoad} kN/m`,
+      ultimate: isTrapezoidal ? `${w1.toFixed(2)} → ${w2.toFixed(2)} kN/m` : `${w1.toFixed(2)} kN/m`,
+      totalUltimate: (w1 + w2) / 2 * Math.max(end - load.position, 0)
+    });
   });
 
+  return { loads, rows };
+}
+
+interface BeamActions {
+  ultimateLoad: number;
+  loadSummary: LoadSummaryRow[];
+  totalUltimateLoad: number;
+  hasAdditionalLoads: boolean;
+  loadErrors: string[]; // loads off the span, not applied
+  support: typeof supportConditionData[BeamSupportCondition];
+  analysis: SpanAnalysisResult;
+  saggingMoment: number;
+  hoggingMoment: number;
+  tensionFace: 'bottom' | 'top';
+  ultimateMoment: number;
+  momentPosition: number;
+  momentFormula: string;
+}
+
+// Steps 2-3: ultimate loads and governing moment (shared by design and check modes).
+// Diagram stations are added at each depth from the supports for the critical shear.
+function analyseBeamActions(input: BeamInput, stationDepths: number[], steps: CalculationStep[]): BeamActions {
   // Step 2: Load Calculation
   const ultimateLoad = 1.4 * input.deadLoad + 1.6 * input.liveLoad;
   steps.push({
@@ -174,120 +500,538 @@ export function calculateBeamDesign(input: BeamInput): BeamResult {
     bsReference: "BS8110 Cl. 2.4.3"
   });
 
+  // Step 2a: Load Summary
+  const { loads: ultimateLoads, rows: loadSummary } = buildUltimateLoads(input);
+  const totalUltimateLoad = loadSummary.reduce((sum, row) => sum + row.totalUltimate, 0);
+  const hasAdditionalLoads = input.loads.length > 0;
+  const loadErrors = input.loads.flatMap((load, i) => {
+    const error = getLoadPositionError(load, input.span);
+    return error ? [`Load ${i + 1} (${loadTypeLabels[load.type].toLowerCase()}): ${error}`] : [];
+  });
+
+  if (hasAdditionalLoads) {
+    steps.push({
+      title: "Step 2a: Load Summary",
+      formula: "Fult = 1.4Gk + 1.6Qk (each load)",
+      substitution: loadSummary.map(row =>
+        `${row.description} @ ${row.position}: Gk = ${row.deadLoad}, Qk = ${row.liveLoad} → ${row.ultimate}`
+      ).join('\n'),
+      result: `Total ultimate load on span = ${totalUltimateLoad.toFixed(2)} kN`,
+      explanation: "Each load is factored separately before the moments and shears are combined by superposition",
+      bsReference: "BS8110 Cl. 2.4.3"
+    });
+  }
+
+  if (loadErrors.length > 0) {
+    steps.push({
+      title: "Step 2b: Load Positions",
+      formula: "0 ≤ x and x + loaded length ≤ L",
+      substitution: loadErrors.join('\n'),
+      result: `${loadErrors.length} load${loadErrors.length === 1 ? '' : 's'} off the span - not applied`,
+      isCheck: true,
+      checkPassed: false,
+      status: 'unsafe',
+      explanation: "Positions are measured from the left support (the fixed end for cantilevers) → Correct the load positions"
+    });
+  }
+
   // Step 3: Ultimate Moment
-  const ultimateMoment = (ultimateLoad * Math.pow(input.span, 2)) / 8;
+  const support = supportConditionData[input.supportCondition];
+  const stations = stationDepths.flatMap(depth => [depth / 1000, input.span - depth / 1000]);
+  const analysis = analyseSingleSpan(input.span, ultimateLoads, input.supportCondition, stations);
+  const saggingMoment = analysis.maxSagging;
+  const hoggingMoment = analysis.maxHogging;
+  const tensionFace: 'bottom' | 'top' = hoggingMoment > saggingMoment ? 'top' : 'bottom';
+  const ultimateMoment = Math.max(saggingMoment, hoggingMoment);
+  const momentPosition = tensionFace === 'top' ? analysis.maxHoggingAt : analysis.maxSaggingAt;
+  const momentFormula = hasAdditionalLoads ? 'M = Σ moments by superposition' : support.momentFormula;
+
   steps.push({
     title: "Step 3: Ultimate Bending Moment",
-    formula: "M = wL²/8 (for simply supported beam with UDL)",
-    substitution: `M = ${ultimateLoad.toFixed(2)} × ${input.span}² / 8`,
-    result: `M = ${ultimateMoment.toFixed(2)} kN·m`,
-    explanation: "Maximum moment at mid-span for simply supported beam"
+    formula: hasAdditionalLoads
+      ? `${momentFormula} (${support.label.toLowerCase()} beam)`
+      : `${support.momentFormula} (${support.label.toLowerCase()} beam with UDL)`,
+    substitution: hasAdditionalLoads
+      ? `Support moments: M(left) = ${analysis.endMomentLeft.toFixed(2)} kN·m, M(right) = ${analysis.endMomentRight.toFixed(2)} kN·m
+M(sagging, max) = ${saggingMoment.toFixed(2)} kN·m at x = ${analysis.maxSaggingAt.toFixed(2)} m
+M(hogging, max) = ${hoggingMoment.toFixed(2)} kN·m at x = ${analysis.maxHoggingAt.toFixed(2)} m`
+      : `M(sagging) = ${support.sagging.toFixed(4)} × ${ultimateLoad.toFixed(2)} × ${input.span}² = ${saggingMoment.toFixed(2)} kN·m
+M(hogging) = ${support.hogging.toFixed(4)} × ${ultimateLoad.toFixed(2)} × ${input.span}² = ${hoggingMoment.toFixed(2)} kN·m`,
+    result: `M = ${ultimateMoment.toFixed(2)} kN·m at x = ${momentPosition.toFixed(2)} m (${tensionFace === 'top' ? 'hogging - tension in top face' : 'sagging - tension in bottom face'})`,
+    explanation: hasAdditionalLoads
+      ? "Moment diagram obtained from the free moments of all loads plus the restraint moments at the supports"
+      : support.momentExplanation,
+    bsReference: support.reference
   });
 
-  // Step 4: K Value
-  const M_Nmm = ultimateMoment * 1e6;
-  const kValue = M_Nmm / (input.width * Math.pow(effectiveDepth, 2) * input.fcu);
-  const kPrime = 0.156;
+  return {
+    ultimateLoad,
+    loadSummary,
+    totalUltimateLoad,
+    hasAdditionalLoads,
+    loadErrors,
+    support,
+    analysis,
+    saggingMoment,
+    hoggingMoment,
+    tensionFace,
+    ultimateMoment,
+    momentPosition,
+    momentFormula
+  };
+}
+
+// Maximum shear and shear at the critical section (d from the support faces)
+function analyseShearActions(
+  input: BeamInput,
+  actions: BeamActions,
+  effectiveDepth: number,
+  firstStep: number,
+  steps: CalculationStep[]
+): { shearForce: number; shearPosition: number; shearFormula: string; criticalShear: number } {
+  const { analysis, support, hasAdditionalLoads, ultimateLoad } = actions;
+  const dMetres = effectiveDepth / 1000;
+
+  // Shear Force
+  const shearForce = analysis.maxShear;
+  const shearPosition = analysis.maxShearAt;
+  const shearFormula = hasAdditionalLoads ? 'V = Σ reactions and loads by superposition' : support.shearFormula;
   
   steps.push({
-    title: "Step 4: K Value",
-    formula: "K = M / (bd²fcu)",
-    substitution: `K = ${ultimateMoment.toFixed(2)} × 10⁶ / (${input.width} × ${effectiveDepth.toFixed(0)}² × ${input.fcu})`,
-    result: `K = ${kValue.toFixed(4)}`,
-    explanation: "Dimensionless parameter to determine beam type",
+    title: `Step ${firstStep}: Shear Force`,
+    formula: shearFormula,
+    substitution: hasAdditionalLoads
+      ? `Reactions: R(left) = ${analysis.reactionLeft.toFixed(2)} kN, R(right) = ${analysis.reactionRight.toFixed(2)} kN`
+      : `V = ${support.shear.toFixed(3)} × ${ultimateLoad.toFixed(2)} × ${input.span}`,
+    result: `V = ${shearForce.toFixed(2)} kN at x = ${shearPosition.toFixed(2)} m`,
+    explanation: `Maximum shear for a ${support.label.toLowerCase()} beam`
+  });
+
+  // Critical Section Shear (at d from support)
+  const criticalLimit = input.supportCondition === 'cantilever' ? input.span : input.span - dMetres;
+  const criticalShear = analysis.points
+    .filter(p => p.x >= dMetres && p.x <= criticalLimit)
+    .reduce((max, p) => Math.max(max, Math.abs(p.shear)), 0);
+  steps.push({
+    title: `Step ${firstStep + 1}: Critical Section (at d from support)`,
+    formula: hasAdditionalLoads ? "Vd = max |V| beyond d from the support faces" : "Vd = V - w × d",
+    substitution: hasAdditionalLoads
+      ? `d = ${effectiveDepth.toFixed(0)} mm; shear diagram scanned between x = ${dMetres.toFixed(3)} m and x = ${criticalLimit.toFixed(3)} m`
+      : `Vd = ${shearForce.toFixed(2)} - ${ultimateLoad.toFixed(2)} × ${effectiveDepth.toFixed(0)}/1000`,
+    result: `Vd = ${criticalShear.toFixed(2)} kN`,
+    explanation: `Critical section taken at ${support.shearSection}`,
+    bsReference: "BS8110 Cl. 3.4.5.2"
+  });
+
+  return { shearForce, shearPosition, shearFormula, criticalShear };
+}
+
+// Section at which deflection is calculated (mid-span, or the support of a cantilever)
+interface DeflectionSection {
+  effectiveDepth: number; // mm
+  tensionSteel: number; // mm² (provided)
+  compressionSteel: number; // mm² (provided)
+  compressionSteelDepth: number; // mm
+}
+
+// Calculated deflection (BS8110-2 Cl. 3.7) from the service moments of the dead and imposed loads.
+// Each load type is analysed on its own and the factored result divided by 1.4 or 1.6.
+function calculateBeamDeflection(
+  input: BeamInput,
+  actions: BeamActions,
+  compressionWidth: number,
+  section: DeflectionSection,
+  stepNumber: number,
+  steps: CalculationStep[]
+): CalculatedDeflectionResult | undefined {
+  if (!input.deflectionSettings.enabled) return undefined;
+
+  const isCantilever = actions.support.deflection === 'cantilever';
+  const serviceMoment = (part: 'dead' | 'live') => {
+    const keep = (dead: number, live: number) => part === 'dead' ? dead : live;
+    const loadCase: BeamInput = {
+      ...input,
+      deadLoad: keep(input.deadLoad, 0),
+      liveLoad: keep(0, input.liveLoad),
+      loads: input.loads.map(load => ({
+        ...load,
+        deadLoad: keep(load.deadLoad, 0),
+        deadLoadEnd: keep(load.deadLoadEnd, 0),
+        liveLoad: keep(0, load.liveLoad),
+        liveLoadEnd: keep(0, load.liveLoadEnd)
+      }))
+    };
+    const analysis = analyseSingleSpan(input.span, buildUltimateLoads(loadCase).loads, input.supportCondition);
+    return (isCantilever ? analysis.maxHogging : analysis.maxSagging) / keep(1.4, 1.6);
+  };
+
+  const { analysis } = actions;
+  const beta = analysis.maxSagging > 0 ? (analysis.endMomentLeft + analysis.endMomentRight) / analysis.maxSagging : 0;
+  const result = calculateDeflection({
+    span: input.span,
+    support: actions.support.deflection,
+    beta,
+    width: isCantilever ? input.width : compressionWidth,
+    overallDepth: input.overallDepth,
+    effectiveDepth: section.effectiveDepth,
+    tensionSteel: section.tensionSteel,
+    compressionSteel: section.compressionSteel,
+    compressionSteelDepth: section.compressionSteelDepth,
+    fcu: input.fcu,
+    deadMoment: serviceMoment('dead'),
+    liveMoment: serviceMoment('live'),
+    settings: input.deflectionSettings
+  });
+
+  result.steps.forEach((step, i) => {
+    steps.push({ ...step, title: `Step ${stepNumber}${String.fromCharCode(97 + i)}: ${step.title}` });
+  });
+
+  return result;
+}
+
+// Diagrams - ultimate moments and shears, deflected shape under Gk + Qk on the gross web section
+function buildBeamDiagram(input: BeamInput, actions: BeamActions): MemberDiagram {
+  const service = analyseSingleSpan(input.span, buildUltimateLoads(input, 1.0, 1.0).loads, input.supportCondition);
+  return singleSpanDiagram(
+    `${actions.support.label} Beam`,
+    actions.analysis,
+    service,
+    grossFlexuralRigidity(input.width, input.overallDepth, input.fcu),
+    input.supportCondition === 'cantilever'
+  );
+}
+
+// Nominal cover and fire dimensions (Tables 3.3 - 3.5). Only beams continuous at both ends
+// take the lower fire covers for continuous members.
+function checkBeamDurability(input: BeamInput, steps: CalculationStep[]): DurabilityResult {
+  const durability = checkDurability({
+    exposure: input.exposure,
+    fireResistance: input.fireResistance,
+    memberType: 'beam',
+    continuous: supportConditionData[input.supportCondition].ends.every(end => end === 'continuous'),
+    fcu: input.fcu,
+    cover: input.cover,
+    width: input.width
+  });
+
+  durability.steps.forEach((step, i) => {
+    steps.push({ ...step, title: `Step 1${String.fromCharCode(97 + i)}: ${step.title}` });
+  });
+
+  return durability;
+}
+
+// Anchorage, laps and curtailment of the main bars (Cl. 3.12.8 - 3.12.10).
+// Top bars are cast in the top of the section, so hogging tension bars take the top-bar lap factor.
+function detailBarEnds(
+  input: BeamInput,
+  actions: BeamActions,
+  tensionDiameter: number,
+  topDiameter: number,
+  bottomDiameter: number,
+  stepNumber: number,
+  steps: CalculationStep[]
+): { anchorage: AnchorageResult; curtailment: CurtailmentPoint[] } {
+  const anchorage = calculateAnchorage({
+    diameter: tensionDiameter,
+    fcu: input.fcu,
+    fy: input.fy,
+    cover: input.cover + input.linkDiameter,
+    topCast: actions.tensionFace === 'top',
+    cornerBar: true
+  });
+  const curtailment = calculateCurtailment({
+    length: input.span,
+    leftEnd: actions.support.ends[0],
+    rightEnd: actions.support.ends[1],
+    topDiameter,
+    bottomDiameter,
+    uniformLoads: !actions.hasAdditionalLoads
+  });
+
+  [...anchorage.steps, ...curtailment.steps].forEach((step, i) => {
+    steps.push({ ...step, title: `Step ${stepNumber}${String.fromCharCode(97 + i)}: ${step.title}` });
+  });
+
+  return { anchorage, curtailment: curtailment.points };
+}
+
+// Step 8a: the face opposite the governing moment, singly reinforced on bw (conservative for a
+// flange in compression). The bars also carry the governing face's compression steel.
+function designOppositeFace(
+  input: BeamInput,
+  face: 'bottom' | 'top',
+  moment: number,
+  effectiveDepth: number,
+  compressionSteel: number,
+  steps: CalculationStep[]
+): { design: OppositeFaceDesign; failureReason?: string } {
+  const kPrime = 0.156;
+  const kValue = (moment * 1e6) / (input.width * Math.pow(effectiveDepth, 2) * input.fcu);
+  const leverArm = Math.min(0.5 + Math.sqrt(Math.max(0.25 - Math.min(kValue, kPrime) / 0.9, 0)), 0.95) * effectiveDepth;
+  const requiredSteel = (moment * 1e6) / (0.87 * input.fy * leverArm);
+  const minSteel = 0.0013 * input.width * effectiveDepth;
+  const tensionSteel = Math.max(requiredSteel, minSteel);
+  const bars = selectBars(Math.max(tensionSteel, compressionSteel), input);
+  const kOK = kValue <= kPrime;
+
+  steps.push({
+    title: `Step 8a: ${face === 'bottom' ? 'Bottom' : 'Top'} Tension Steel (${face === 'bottom' ? 'Sagging' : 'Hogging'})`,
+    formula: "K = M / (bw·d²fcu), As = M / (0.87fy·z) ≥ As,min",
+    substitution: `M = ${moment.toFixed(2)} kN·m, d = ${effectiveDepth.toFixed(0)} mm
+K = ${moment.toFixed(2)} × 10⁶ / (${input.width} × ${effectiveDepth.toFixed(0)}² × ${input.fcu}) = ${kValue.toFixed(4)}
+As = ${moment.toFixed(2)} × 10⁶ / (0.87 × ${input.fy} × ${leverArm.toFixed(1)}) = ${requiredSteel.toFixed(0)} mm² (As,min = ${minSteel.toFixed(0)} mm²)`,
+    result: `As = ${tensionSteel.toFixed(0)} mm²${compressionSteel > tensionSteel ? `, As' = ${compressionSteel.toFixed(0)} mm² governs` : ''} → ${bars.description}`,
+    isCheck: true,
+    checkPassed: kOK,
+    status: kOK ? 'safe' : 'unsafe',
+    explanation: kOK
+      ? `${face === 'bottom' ? 'Sagging' : 'Hogging'} moment on the other face also needs tension steel; bw used for the compression zone`
+      : `K > K' = ${kPrime} on bw → Increase section size`,
     bsReference: "BS8110 Cl. 3.4.4.4"
   });
 
-  // Step 5: Check K vs K'
-  const isDoublyReinforced = kValue > kPrime;
-  const kCheckStatus: 'safe' | 'unsafe' = kValue <= 0.225 ? 'safe' : 'unsafe';
+  return {
+    design: { face, moment, effectiveDepth, kValue, leverArm, tensionSteel, bars },
+    failureReason: kOK ? undefined : `${face === 'bottom' ? 'Sagging' : 'Hogging'} K value (${kValue.toFixed(4)}) exceeds K' (${kPrime}) - ${face} face needs a deeper section`
+  };
+}
+
+// Bars assumed when computing d and d' (mainBarDiameter in one layer when not given)
+interface BeamBarLayout {
+  tension?: BarArrangement;
+  compression?: BarArrangement;
+}
+
+export function calculateBeamDesign(input: BeamInput): BeamResult {
+  // d depends on the bars selected, so redesign until the selected bars match those assumed
+  const assumedDepth = (bars?: BarArrangement) => bars
+    ? getSteelCentroidDepth(input, bars)
+    : input.cover + input.linkDiameter + input.mainBarDiameter / 2;
+  const converged = (selected: BarArrangement | undefined, assumed: BarArrangement | undefined) =>
+    !selected || Math.abs(assumedDepth(selected) - assumedDepth(assumed)) < 0.5;
+
+  let layout: BeamBarLayout = {};
+  let result = designBeam(input, layout, 1);
+  for (let iteration = 2; iteration <= 5; iteration++) {
+    const { tensionBars, oppositeFace } = result.summary;
+    const compressionBars = oppositeFace?.bars ?? result.summary.compressionBars;
+    if (converged(tensionBars, layout.tension) && converged(compressionBars, layout.compression)) break;
+    layout = { tension: tensionBars, compression: compressionBars };
+    result = designBeam(input, layout, iteration);
+  }
+  return result;
+}
+
+function designBeam(input: BeamInput, layout: BeamBarLayout, iteration: number): BeamResult {
+  const steps: CalculationStep[] = [];
+  const failureReasons: string[] = [];
   
+  // Calculate effective depth: d = h - cover - φlink - φbar/2 (or to the centroid of the layers)
+  const assumedBars = layout.tension;
+  const barDiameter = assumedBars?.diameter ?? input.mainBarDiameter;
+  const tensionCentroid = assumedBars
+    ? getSteelCentroidDepth(input, assumedBars)
+    : input.cover + input.linkDiameter + barDiameter / 2;
+  const effectiveDepth = input.overallDepth - tensionCentroid;
+  const layered = assumedBars !== undefined && assumedBars.layers > 1;
+  
+  // Step 1: Effective Depth Calculation
   steps.push({
-    title: "Step 5: Check Beam Type",
-    formula: "Compare K with K' = 0.156",
-    substitution: `K = ${kValue.toFixed(4)} ${kValue <= kPrime ? "≤" : ">"} K' = 0.156`,
-    result: isDoublyReinforced ? "Doubly Reinforced Beam Required" : "Singly Reinforced Beam",
-    isCheck: true,
-    checkPassed: !isDoublyReinforced,
-    status: isDoublyReinforced ? 'review' : 'safe',
-    explanation: isDoublyReinforced 
-      ? "K > K': Compression reinforcement needed to resist excess moment"
-      : "K ≤ K': Section adequate for singly reinforced design"
+    title: "Step 1: Effective Depth Calculation",
+    formula: layered ? "d = h - ȳ (centroid of tension layers)" : "d = h - cover - φlink - φbar/2",
+    substitution: layered
+      ? `${assumedBars.barsPerLayer.join(' + ')} T${barDiameter} bars, clear gap between layers ${getLayerGap(barDiameter, input.aggregateSize).toFixed(0)} mm
+ȳ = ${tensionCentroid.toFixed(1)} mm, d = ${input.overallDepth} - ${tensionCentroid.toFixed(1)}`
+      : `d = ${input.overallDepth} - ${input.cover} - ${input.linkDiameter} - ${barDiameter}/2`,
+    result: `d = ${effectiveDepth.toFixed(0)} mm`,
+    explanation: iteration > 1
+      ? `Recomputed from the selected bars (iteration ${iteration}, T${input.mainBarDiameter} bars assumed initially)`
+      : "Effective depth from compression face to centroid of tension steel",
+    bsReference: "BS8110 Cl. 3.4.4.1"
   });
 
-  if (kValue > 0.225) {
-    failureReasons.push("K value exceeds maximum limit (0.225) - section is inadequate");
+  // Step 1a-b: Durability and fire resistance
+  const durability = checkBeamDurability(input, steps);
+  failureReasons.push(...durability.failureReasons);
+
+  // Steps 2-3: Loads and Ultimate Moment
+  const actions = analyseBeamActions(input, [effectiveDepth], steps);
+  failureReasons.push(...actions.loadErrors);
+  const {
+    ultimateLoad,
+    loadSummary,
+    totalUltimateLoad,
+    support,
+    saggingMoment,
+    hoggingMoment,
+    tensionFace,
+    ultimateMoment,
+    momentPosition,
+    momentFormula
+  } = actions;
+
+  // Step 3a: Flanged section (flange in compression for sagging only)
+  const dPrime = layout.compression
+    ? getSteelCentroidDepth(input, layout.compression)
+    : input.cover + input.linkDiameter + input.mainBarDiameter / 2;
+  let flanged: FlangedSectionResult | undefined;
+  
+  if (input.sectionType !== 'rectangular') {
+    if (tensionFace === 'bottom') {
+      flanged = designFlangedSection({
+        sectionType: input.sectionType,
+        moment: ultimateMoment,
+        webWidth: input.width,
+        flangeThickness: input.flangeThickness,
+        flangeWidthLimit: input.flangeWidthLimit,
+        zeroMomentLength: input.supportCondition === 'simply-supported' ? input.span : 0.7 * input.span,
+        effectiveDepth,
+        compressionSteelDepth: dPrime,
+        fcu: input.fcu,
+        fy: input.fy
+      });
+      steps.push({ ...flanged.steps[0], title: `Step 3a: ${flanged.steps[0].title}` });
+      steps.push({ ...flanged.steps[1], title: `Step 3b: ${flanged.steps[1].title}` });
+    } else {
+      steps.push({
+        title: "Step 3a: Flanged Section in Hogging",
+        result: `Design as rectangular section, b = bw = ${input.width} mm`,
+        explanation: `The ${sectionTypeLabels[input.sectionType]} flange is in tension under hogging moment, so only the web resists compression`,
+        status: 'safe',
+        bsReference: "BS8110 Cl. 3.4.4.5"
+      });
+    }
   }
+  
+  const webDesign = flanged !== undefined && !flanged.neutralAxisInFlange;
+  const compressionWidth = flanged ? flanged.effectiveFlangeWidth : input.width;
 
-  // Step 6: Lever Arm
-  const kForZ = isDoublyReinforced ? kPrime : kValue;
-  const leverArmRatio = 0.5 + Math.sqrt(0.25 - kForZ / 0.9);
-  const leverArm = Math.min(leverArmRatio, 0.95) * effectiveDepth;
+  // Step 4: K Value
+  const M_Nmm = ultimateMoment * 1e6;
+  const kValue = M_Nmm / (compressionWidth * Math.pow(effectiveDepth, 2) * input.fcu);
+  const kPrime = 0.156;
   
   steps.push({
-    title: "Step 6: Lever Arm",
-    formula: "z = d[0.5 + √(0.25 - K/0.9)]",
-    substitution: `z = ${effectiveDepth.toFixed(0)}[0.5 + √(0.25 - ${kForZ.toFixed(4)}/0.9)]`,
-    result: `z = ${leverArm.toFixed(1)} mm (z/d = ${(leverArm/effectiveDepth).toFixed(3)})`,
-    explanation: "Lever arm limited to 0.95d maximum",
+    title: "Step 4: K Value",
+    formula: "K = M / (bd²fcu)",
+    substitution: `K = ${ultimateMoment.toFixed(2)} × 10⁶ / (${compressionWidth.toFixed(0)} × ${effectiveDepth.toFixed(0)}² × ${input.fcu})`,
+    result: `K = ${kValue.toFixed(4)}`,
+    explanation: flanged
+      ? "Dimensionless parameter using the effective flange width b"
+      : "Dimensionless parameter to determine beam type",
     bsReference: "BS8110 Cl. 3.4.4.4"
   });
 
-  // Step 7: Steel Area Calculation
+  let isDoublyReinforced: boolean;
+  let leverArm: number;
   let tensionSteel: number;
   let compressionSteel = 0;
-  let compressionBarSuggestion: string | undefined;
-  
-  if (isDoublyReinforced) {
-    const MLimit = kPrime * input.width * Math.pow(effectiveDepth, 2) * input.fcu;
-    const excessMoment = M_Nmm - MLimit;
-    const dPrime = input.cover + input.linkDiameter + input.mainBarDiameter / 2;
-    
-    compressionSteel = excessMoment / (0.87 * input.fy * (effectiveDepth - dPrime));
-    tensionSteel = (MLimit / (0.87 * input.fy * leverArm)) + compressionSteel;
-    compressionBarSuggestion = suggestBars(compressionSteel);
-    
-    steps.push({
-      title: "Step 7a: Limiting Moment",
-      formula: "M' = K'bd²fcu",
-      substitution: `M' = 0.156 × ${input.width} × ${effectiveDepth.toFixed(0)}² × ${input.fcu}`,
-      result: `M' = ${(MLimit/1e6).toFixed(2)} kN·m`
-    });
-    
-    steps.push({
-      title: "Step 7b: Compression Steel Area",
-      formula: "As' = (M - M') / [0.87fy(d - d')]",
-      substitution: `As' = (${ultimateMoment.toFixed(2)} - ${(MLimit/1e6).toFixed(2)}) × 10⁶ / [0.87 × ${input.fy} × (${effectiveDepth.toFixed(0)} - ${dPrime.toFixed(0)})]`,
-      result: `As' = ${compressionSteel.toFixed(0)} mm²`
-    });
+  let compressionBars: BarArrangement | undefined;
+  const kCheckStatus: 'safe' | 'unsafe' = kValue <= 0.225 ? 'safe' : 'unsafe';
+
+  if (kValue > 0.225) {
+    failureReasons.push("K value exceeds maximum limit (0.225) - section is inadequate");
+  }
+
+  if (webDesign) {
+    // Steps 5-7: Neutral axis in the web (Cl. 3.4.4.5)
+    isDoublyReinforced = flanged.isDoublyReinforced;
+    leverArm = flanged.leverArm;
+    tensionSteel = flanged.tensionSteel;
+    compressionSteel = flanged.compressionSteel;
+    if (isDoublyReinforced) {
+      compressionBars = selectBars(compressionSteel, input);
+    }
+    steps.push({ ...flanged.steps[2], title: `Step 5: ${flanged.steps[2].title}` });
+  } else {
+    // Step 5: Check K vs K'
+    isDoublyReinforced = kValue > kPrime;
     
     steps.push({
-      title: "Step 7c: Tension Steel Area",
-      formula: "As = M'/(0.87fy·z) + As'",
-      substitution: `As = ${(MLimit/1e6).toFixed(2)} × 10⁶/(0.87 × ${input.fy} × ${leverArm.toFixed(1)}) + ${compressionSteel.toFixed(0)}`,
-      result: `As = ${tensionSteel.toFixed(0)} mm²`
+      title: "Step 5: Check Beam Type",
+      formula: "Compare K with K' = 0.156",
+      substitution: `K = ${kValue.toFixed(4)} ${kValue <= kPrime ? "≤" : ">"} K' = 0.156`,
+      result: isDoublyReinforced ? "Doubly Reinforced Beam Required" : "Singly Reinforced Beam",
+      isCheck: true,
+      checkPassed: !isDoublyReinforced,
+      status: isDoublyReinforced ? 'review' : 'safe',
+      explanation: isDoublyReinforced 
+        ? "K > K': Compression reinforcement needed to resist excess moment"
+        : "K ≤ K': Section adequate for singly reinforced design"
     });
-  } else {
-    tensionSteel = M_Nmm / (0.87 * input.fy * leverArm);
+
+    // Step 6: Lever Arm
+    const kForZ = isDoublyReinforced ? kPrime : kValue;
+    const leverArmRatio = 0.5 + Math.sqrt(0.25 - kForZ / 0.9);
+    leverArm = Math.min(leverArmRatio, 0.95) * effectiveDepth;
     
     steps.push({
-      title: "Step 7: Tension Steel Area",
-      formula: "As = M / (0.87fy·z)",
-      substitution: `As = ${ultimateMoment.toFixed(2)} × 10⁶ / (0.87 × ${input.fy} × ${leverArm.toFixed(1)})`,
-      result: `As = ${tensionSteel.toFixed(0)} mm²`,
-      explanation: "Required area of tension reinforcement",
+      title: "Step 6: Lever Arm",
+      formula: "z = d[0.5 + √(0.25 - K/0.9)]",
+      substitution: `z = ${effectiveDepth.toFixed(0)}[0.5 + √(0.25 - ${kForZ.toFixed(4)}/0.9)]`,
+      result: `z = ${leverArm.toFixed(1)} mm (z/d = ${(leverArm/effectiveDepth).toFixed(3)})`,
+      explanation: "Lever arm limited to 0.95d maximum",
       bsReference: "BS8110 Cl. 3.4.4.4"
     });
+
+    // Step 7: Steel Area Calculation
+    if (isDoublyReinforced) {
+      const MLimit = kPrime * compressionWidth * Math.pow(effectiveDepth, 2) * input.fcu;
+      const excessMoment = M_Nmm - MLimit;
+      
+      compressionSteel = excessMoment / (0.87 * input.fy * (effectiveDepth - dPrime));
+      tensionSteel = (MLimit / (0.87 * input.fy * leverArm)) + compressionSteel;
+      compressionBars = selectBars(compressionSteel, input);
+      
+      steps.push({
+        title: "Step 7a: Limiting Moment",
+        formula: "M' = K'bd²fcu",
+        substitution: `M' = 0.156 × ${compressionWidth.toFixed(0)} × ${effectiveDepth.toFixed(0)}² × ${input.fcu}`,
+        result: `M' = ${(MLimit/1e6).toFixed(2)} kN·m`
+      });
+      
+      steps.push({
+        title: "Step 7b: Compression Steel Area",
+        formula: "As' = (M - M') / [0.87fy(d - d')]",
+        substitution: `As' = (${ultimateMoment.toFixed(2)} - ${(MLimit/1e6).toFixed(2)}) × 10⁶ / [0.87 × ${input.fy} × (${effectiveDepth.toFixed(0)} - ${dPrime.toFixed(0)})]`,
+        result: `As' = ${compressionSteel.toFixed(0)} mm²`
+      });
+      
+      steps.push({
+        title: "Step 7c: Tension Steel Area",
+        formula: "As = M'/(0.87fy·z) + As'",
+        substitution: `As = ${(MLimit/1e6).toFixed(2)} × 10⁶/(0.87 × ${input.fy} × ${leverArm.toFixed(1)}) + ${compressionSteel.toFixed(0)}`,
+        result: `As = ${tensionSteel.toFixed(0)} mm²`
+      });
+    } else {
+      tensionSteel = M_Nmm / (0.87 * input.fy * leverArm);
+      
+      steps.push({
+        title: "Step 7: Tension Steel Area",
+        formula: "As = M / (0.87fy·z)",
+        substitution: `As = ${ultimateMoment.toFixed(2)} × 10⁶ / (0.87 × ${input.fy} × ${leverArm.toFixed(1)})`,
+        result: `As = ${tensionSteel.toFixed(0)} mm²`,
+        explanation: "Required area of tension reinforcement",
+        bsReference: "BS8110 Cl. 3.4.4.4"
+      });
+    }
   }
 
-  // Step 8: Minimum Steel Check
-  const minSteel = 0.0013 * input.width * effectiveDepth;
+  // Step 8: Minimum Steel Check (Table 3.25 - flanged beams based on bw/b)
+  const minSteelRatio = flanged
+    ? getFlangedMinSteelRatio(input.width, flanged.effectiveFlangeWidth, input.fy)
+    : 0.0013;
+  const minSteel = minSteelRatio * input.width * effectiveDepth;
   const steelOK = tensionSteel >= minSteel;
   
   steps.push({
     title: "Step 8: Minimum Steel Check",
-    formula: "As,min = 0.13%bh ≈ 0.13%bd",
-    substitution: `As,min = 0.0013 × ${input.width} × ${effectiveDepth.toFixed(0)}`,
+    formula: flanged
+      ? `As,min = ${(minSteelRatio * 100).toFixed(2)}%bw·h ≈ ${(minSteelRatio * 100).toFixed(2)}%bw·d (bw/b = ${(input.width / flanged.effectiveFlangeWidth).toFixed(2)})`
+      : "As,min = 0.13%bh ≈ 0.13%bd",
+    substitution: `As,min = ${minSteelRatio} × ${input.width} × ${effectiveDepth.toFixed(0)}`,
     result: `As,min = ${minSteel.toFixed(0)} mm²`,
     isCheck: true,
     checkPassed: steelOK,
@@ -299,31 +1043,28 @@ export function calculateBeamDesign(input: BeamInput): BeamResult {
   });
 
   const finalTensionSteel = Math.max(tensionSteel, minSteel);
-  const barSuggestion = suggestBars(finalTensionSteel);
+  const tensionBars = selectBars(finalTensionSteel, input);
 
-  // Step 9: Shear Force
-  const shearForce = (ultimateLoad * input.span) / 2;
-  
-  steps.push({
-    title: "Step 9: Shear Force",
-    formula: "V = wL/2",
-    substitution: `V = ${ultimateLoad.toFixed(2)} × ${input.span} / 2`,
-    result: `V = ${shearForce.toFixed(2)} kN`
-  });
+  // Step 8a: Opposite face, where both sagging and hogging moments act
+  const oppositeMoment = tensionFace === 'bottom' ? hoggingMoment : saggingMoment;
+  const opposite = oppositeMoment > 0
+    ? designOppositeFace(input, tensionFace === 'bottom' ? 'top' : 'bottom', oppositeMoment, input.overallDepth - dPrime, compressionSteel, steps)
+    : undefined;
+  const oppositeFace = opposite?.design;
+  if (opposite?.failureReason) failureReasons.push(opposite.failureReason);
+  const impracticalBars = [tensionBars, compressionBars, oppositeFace?.bars].some(bars => bars?.impractical);
+  if (impracticalBars) {
+    failureReasons.push(`No practical bar arrangement - steel required exceeds ${maxLayers} layers of T${barOptions[barOptions.length - 1].dia} → Increase section size`);
+  }
+  const compressionBarSuggestion = oppositeFace ? undefined : compressionBars?.description;
 
-  // Step 10: Critical Section Shear (at d from support)
-  const criticalShear = shearForce - (ultimateLoad * effectiveDepth / 1000);
-  steps.push({
-    title: "Step 10: Critical Section (at d from support)",
-    formula: "Vd = V - w × d",
-    substitution: `Vd = ${shearForce.toFixed(2)} - ${ultimateLoad.toFixed(2)} × ${effectiveDepth.toFixed(0)}/1000`,
-    result: `Vd = ${criticalShear.toFixed(2)} kN`,
-    bsReference: "BS8110 Cl. 3.4.5.2"
-  });
+  // Steps 9-10: Shear Force and Critical Section
+  const { shearForce, shearPosition, shearFormula, criticalShear } =
+    analyseShearActions(input, actions, effectiveDepth, 9, steps);
 
   // Step 11: Shear Stress
   const shearStress = (criticalShear * 1000) / (input.width * effectiveDepth);
-  const vc = calculateVc(finalTensionSteel, input.width, effectiveDepth, input.fcu);
+  const vc = calculateVc(tensionBars.area, input.width, effectiveDepth, input.fcu);
   const maxShearStress = Math.min(0.8 * Math.sqrt(input.fcu), 5);
   
   steps.push({
@@ -372,20 +1113,82 @@ Asv/sv = ${input.width} × (${shearStress.toFixed(2)} - ${vc.toFixed(2)}) / (0.8
     });
   }
 
-  // Step 13: Deflection Check
-  const basicRatio = getBasicSpanDepthRatio('simply-supported');
-  const tensionMod = getTensionModificationFactor(M_Nmm, input.width, effectiveDepth, finalTensionSteel, input.fy);
-  const compMod = isDoublyReinforced ? getCompressionModificationFactor(compressionSteel, compressionSteel * 0.9) : 1.0;
+  // Step 12a-c: Torsion (BS8110-2 Section 2.4) - closed links replace the shear links
+  const torsion = input.torsionalMoment > 0
+    ? designTorsion({
+        torsionalMoment: input.torsionalMoment,
+        sectionType: input.sectionType,
+        webWidth: input.width,
+        overallDepth: input.overallDepth,
+        flangeThickness: input.flangeThickness,
+        flangeWidth: compressionWidth,
+        cover: input.cover,
+        linkDiameter: input.linkDiameter,
+        effectiveDepth,
+        shearStress,
+        vc,
+        fcu: input.fcu,
+        fy: input.fy
+      })
+    : undefined;
+
+  if (torsion) {
+    torsion.steps.forEach((step, i) => {
+      steps.push({ ...step, title: `Step 12${String.fromCharCode(97 + i)}: ${step.title}` });
+    });
+    failureReasons.push(...torsion.failureReasons);
+    if (torsion.torsionRequired) {
+      linkSize = torsion.linkSize;
+      linkSpacing = torsion.linkSpacing;
+    }
+  }
+  const torsionStatus: 'safe' | 'unsafe' = torsion && torsion.failureReasons.length > 0 ? 'unsafe' : 'safe';
+  const barSuggestion = torsion?.longitudinalBars
+    ? `${tensionBars.description} + ${torsion.longitudinalBars.description} torsion bars around the links`
+    : tensionBars.description;
+
+  // Step 13: Deflection Check at mid-span (the root for cantilevers). Where the governing moment
+  // is on the other face, the mid-span steel is the opposite-face bars (As,req for the sagging
+  // moment if none) with the flange, if any, in compression.
+  const deflectionFace = support.deflection === 'cantilever' ? 'top' : 'bottom';
+  const fallbackSteel = Math.max((saggingMoment * 1e6) / (0.87 * input.fy * 0.95 * effectiveDepth), minSteel);
+  const midSpan = deflectionFace === tensionFace
+    ? {
+        moment: ultimateMoment,
+        width: compressionWidth,
+        effectiveDepth,
+        requiredSteel: tensionSteel,
+        providedSteel: tensionBars.area,
+        compressionSteel: compressionBars?.area ?? 0
+      }
+    : {
+        moment: deflectionFace === 'bottom' ? saggingMoment : hoggingMoment,
+        width: deflectionFace === 'bottom' && input.sectionType !== 'rectangular'
+          ? getEffectiveFlangeWidth(input.sectionType, input.width, input.supportCondition === 'simply-supported' ? input.span : 0.7 * input.span, input.flangeWidthLimit)
+          : input.width,
+        effectiveDepth: oppositeFace?.effectiveDepth ?? effectiveDepth,
+        requiredSteel: oppositeFace?.tensionSteel ?? fallbackSteel,
+        providedSteel: oppositeFace?.bars.area ?? fallbackSteel,
+        compressionSteel: 0
+      };
+  const midSpanFlanged = midSpan.width > input.width;
+  const flangeFactor = midSpanFlanged ? getFlangedBasicRatioFactor(input.width, midSpan.width) : 1.0;
+  const basicRatio = getBasicSpanDepthRatio(support.basicRatioCase) * flangeFactor;
+  const tensionMod = getTensionModificationFactor(midSpan.moment * 1e6, midSpan.width, midSpan.effectiveDepth, midSpan.requiredSteel, midSpan.providedSteel, input.fy);
+  const compMod = midSpan.compressionSteel > 0 ? getCompressionModificationFactor(midSpan.compressionSteel, midSpan.width, midSpan.effectiveDepth) : 1.0;
+  const serviceStress = (2 * input.fy * midSpan.requiredSteel) / (3 * midSpan.providedSteel);
   const allowableRatio = basicRatio * tensionMod * compMod;
-  const actualRatio = (input.span * 1000) / effectiveDepth;
+  const actualRatio = (input.span * 1000) / midSpan.effectiveDepth;
   const deflectionOK = actualRatio <= allowableRatio;
   
   steps.push({
     title: "Step 13: Deflection Check",
     formula: "Actual span/d ≤ Basic ratio × Modification factors",
-    substitution: `Basic ratio = ${basicRatio}
-Tension modification = ${tensionMod.toFixed(2)}
-${isDoublyReinforced ? `Compression modification = ${compMod.toFixed(2)}\n` : ''}Allowable span/d = ${basicRatio} × ${tensionMod.toFixed(2)}${isDoublyReinforced ? ` × ${compMod.toFixed(2)}` : ''} = ${allowableRatio.toFixed(1)}`,
+    substitution: `Basic ratio = ${basicRatio.toFixed(1)} (${support.label.toLowerCase()}${midSpanFlanged ? `, flanged × ${flangeFactor.toFixed(2)}` : ''}, Table 3.9)
+${deflectionFace === 'top' ? 'Root' : 'Mid-span'}: M = ${midSpan.moment.toFixed(2)} kN·m, M/bd² = ${(midSpan.moment * 1e6 / (midSpan.width * Math.pow(midSpan.effectiveDepth, 2))).toFixed(2)} (${deflectionFace} bars)
+fs = 2fy·As,req/(3As,prov) = 2 × ${input.fy} × ${midSpan.requiredSteel.toFixed(0)}/(3 × ${midSpan.providedSteel.toFixed(0)}) = ${serviceStress.toFixed(0)} N/mm²
+Tension modification = ${tensionMod.toFixed(2)} (Table 3.10)
+${midSpan.compressionSteel > 0 ? `Compression modification = ${compMod.toFixed(2)} (Table 3.11)\n` : ''}Allowable span/d = ${basicRatio.toFixed(1)} × ${tensionMod.toFixed(2)}${midSpan.compressionSteel > 0 ? ` × ${compMod.toFixed(2)}` : ''} = ${allowableRatio.toFixed(1)}`,
     result: `Actual span/d = ${actualRatio.toFixed(1)}
 Allowable span/d = ${allowableRatio.toFixed(1)}`,
     isCheck: true,
@@ -403,23 +1206,68 @@ Allowable span/d = ${allowableRatio.toFixed(1)}`,
     failureReasons.push(`Deflection check failed: L/d = ${actualRatio.toFixed(1)} > ${allowableRatio.toFixed(1)}`);
   }
 
+  // Step 13a-c: Calculated Deflection (optional) with the same mid-span steel
+  const calculatedDeflection = calculateBeamDeflection(input, actions, midSpan.width, {
+    effectiveDepth: midSpan.effectiveDepth,
+    tensionSteel: midSpan.providedSteel,
+    compressionSteel: midSpan.compressionSteel,
+    compressionSteelDepth: dPrime
+  }, 13, steps);
+  failureReasons.push(...(calculatedDeflection?.failureReasons ?? []));
+
   // Step 14: Bar Selection
   steps.push({
     title: "Step 14: Reinforcement Selection",
-    result: `Tension: ${barSuggestion}${compressionSteel > 0 ? `\nCompression: ${compressionBarSuggestion}` : ''}
+    substitution: `As,req = ${finalTensionSteel.toFixed(0)} mm² → As,prov = ${tensionBars.area.toFixed(0)} mm²${compressionBars ? `
+As',req = ${compressionSteel.toFixed(0)} mm² → As',prov = ${(oppositeFace?.bars ?? compressionBars).area.toFixed(0)} mm²` : ''}${oppositeFace ? `
+As,req (${oppositeFace.face}) = ${oppositeFace.tensionSteel.toFixed(0)} mm² → As,prov = ${oppositeFace.bars.area.toFixed(0)} mm²` : ''}`,
+    result: `Tension (${tensionFace}): ${barSuggestion}${oppositeFace
+      ? `\nTension (${oppositeFace.face}): ${oppositeFace.bars.description}${compressionBars ? ' - also the compression steel' : ''}`
+      : compressionBars ? `\nCompression: ${compressionBarSuggestion}` : ''}
 Links: T${linkSize}@${linkSpacing}mm c/c`,
-    explanation: "Select bars to provide area ≥ As required"
+    explanation: "Select bars to provide area ≥ As required; d, vc and the deflection factors use As,prov"
   });
 
-  const designValid = kCheckStatus === 'safe' && shearStatus === 'safe' && deflectionStatus === 'safe';
+  // Step 15: Bar Spacing (Cl. 3.12.11)
+  const spacing = checkBarSpacing({
+    bars: tensionBars,
+    width: input.width,
+    overallDepth: input.overallDepth,
+    cover: input.cover,
+    linkDiameter: input.linkDiameter,
+    aggregateSize: input.aggregateSize,
+    fy: input.fy,
+    redistributionRatio: 1.0
+  });
+  spacing.steps.forEach((step, i) => {
+    steps.push({ ...step, title: `Step 15${String.fromCharCode(97 + i)}: ${step.title}` });
+  });
+  failureReasons.push(...spacing.failureReasons);
+  const detailingStatus: 'safe' | 'unsafe' = spacing.failureReasons.length === 0 ? 'safe' : 'unsafe';
+
+  // Step 16: Anchorage, Laps and Curtailment
+  const oppositeBars = oppositeFace?.bars ?? compressionBars;
+  const topDiameter = tensionFace === 'top' ? tensionBars.diameter : oppositeBars?.diameter ?? input.mainBarDiameter;
+  const bottomDiameter = tensionFace === 'bottom' ? tensionBars.diameter : oppositeBars?.diameter ?? input.mainBarDiameter;
+  const { anchorage, curtailment } = detailBarEnds(input, actions, tensionBars.diameter, topDiameter, bottomDiameter, 16, steps);
+
+  const designValid = actions.loadErrors.length === 0 && kCheckStatus === 'safe' && !opposite?.failureReason && !impracticalBars && shearStatus === 'safe' && torsionStatus === 'safe' && deflectionStatus === 'safe'
+    && calculatedDeflection?.status !== 'unsafe' && detailingStatus === 'safe' && durability.status !== 'unsafe';
 
   return {
     steps,
+    diagram: buildBeamDiagram(input, actions),
     summary: {
       // Input values
+      supportCondition: input.supportCondition,
+      supportLabel: support.label,
       span: input.span,
+      sectionType: input.sectionType,
       width: input.width,
       overallDepth: input.overallDepth,
+      flangeThickness: flanged ? input.flangeThickness : undefined,
+      effectiveFlangeWidth: flanged?.effectiveFlangeWidth,
+      neutralAxisInFlange: flanged?.neutralAxisInFlange,
       fcu: input.fcu,
       fy: input.fy,
       deadLoad: input.deadLoad,
@@ -428,8 +1276,17 @@ Links: T${linkSize}@${linkSpacing}mm c/c`,
       // Calculated values
       effectiveDepth,
       ultimateLoad,
+      loadSummary,
+      totalUltimateLoad,
       ultimateMoment,
+      momentPosition,
+      saggingMoment,
+      hoggingMoment,
+      tensionFace,
+      momentFormula,
+      shearFormula,
       shearForce,
+      shearPosition,
       criticalShear,
       kValue,
       kPrime,
@@ -446,17 +1303,588 @@ Links: T${linkSize}@${linkSpacing}mm c/c`,
       compressionModificationFactor: compMod,
       allowableSpanDepthRatio: allowableRatio,
       actualSpanDepthRatio: actualRatio,
+      calculatedDeflection,
       // Status values
       isDoublyReinforced,
       designValid,
       deflectionStatus,
       shearStatus,
       kCheckStatus,
+      detailingStatus,
+      durability,
       // Reinforcement
       linkSize,
       linkSpacing,
+      sideBars: spacing.sideBars,
+      torsion,
+      anchorage,
+      curtailment,
       barSuggestion,
       compressionBarSuggestion,
+      tensionBars,
+      compressionBars,
+      oppositeFace,
+      // Failures
+      failureReasons
+    }
+  };
+}
+
+function barArea(bars: ProvidedBars): number {
+  return bars.count * Math.PI * Math.pow(bars.diameter, 2) / 4;
+}
+
+// Provided bars are taken as a single layer
+function providedArrangement(bars: ProvidedBars): BarArrangement {
+  return buildArrangement(bars.count, bars.diameter, Math.PI * Math.pow(bars.diameter, 2) / 4, Math.max(bars.count, 1));
+}
+
+// Ultimate moment of resistance of a given section from the simplified stress block (Cl. 3.4.4.1).
+// Compression steel is only counted when it yields (d'/x ≤ 0.37); x is limited to 0.5d.
+function calculateMomentOfResistance(
+  b: number,
+  bw: number,
+  hf: number,
+  d: number,
+  dPrime: number,
+  As: number,
+  AsPrime: number,
+  fcu: number,
+  fy: number
+): { x: number; Mu: number; leverArm: number; compressionSteelUsed: boolean; neutralAxisInFlange: boolean; overReinforced: boolean } {
+  const T = 0.87 * fy * As;
+  const solve = (Cs: number) => {
+    const x = (T - Cs) / (0.405 * fcu * b);
+    if (hf > 0 && 0.9 * x > hf) {
+      return { x: (T - Cs - 0.45 * fcu * (b - bw) * hf) / (0.405 * fcu * bw), inFlange: false };
+    }
+    return { x, inFlange: true };
+  };
+
+  let compressionSteelUsed = AsPrime > 0;
+  let Cs = compressionSteelUsed ? 0.87 * fy * AsPrime : 0;
+  let { x, inFlange } = solve(Cs);
+  if (compressionSteelUsed && x < dPrime / 0.37) {
+    compressionSteelUsed = false;
+    Cs = 0;
+    ({ x, inFlange } = solve(0));
+  }
+
+  const overReinforced = x > 0.5 * d;
+  x = Math.min(x, 0.5 * d);
+
+  // Concrete force and its moment about the tension steel
+  let Cc: number;
+  let concreteMoment: number;
+  if (inFlange) {
+    Cc = 0.405 * fcu * b * x;
+    concreteMoment = Cc * Math.min(d - 0.45 * x, 0.95 * d);
+  } else {
+    const flangeForce = 0.45 * fcu * (b - bw) * hf;
+    const webForce = 0.405 * fcu * bw * x;
+    Cc = flangeForce + webForce;
+    concreteMoment = flangeForce * (d - hf / 2) + webForce * (d - 0.45 * x);
+  }
+
+  return {
+    x,
+    Mu: (concreteMoment + Cs * (d - dPrime)) / 1e6,
+    leverArm: Cc > 0 ? concreteMoment / Cc : 0.95 * d,
+    compressionSteelUsed,
+    neutralAxisInFlange: inFlange,
+    overReinforced
+  };
+}
+
+export function calculateBeamCheck(input: BeamCheckInput): BeamResult {
+  const steps: CalculationStep[] = [];
+  const failureReasons: string[] = [];
+
+  // Step 1: Effective depths to the provided bars
+  const dBottom = input.overallDepth - input.cover - input.linkDiameter - input.bottomBars.diameter / 2;
+  const dTop = input.overallDepth - input.cover - input.linkDiameter - input.topBars.diameter / 2;
+
+  steps.push({
+    title: "Step 1: Effective Depth Calculation",
+    formula: "d = h - cover - φlink - φbar/2",
+    substitution: `d (bottom bars) = ${input.overallDepth} - ${input.cover} - ${input.linkDiameter} - ${input.bottomBars.diameter}/2 = ${dBottom.toFixed(0)} mm
+d (top bars) = ${input.overallDepth} - ${input.cover} - ${input.linkDiameter} - ${input.topBars.diameter}/2 = ${dTop.toFixed(0)} mm`,
+    result: `d = ${dBottom.toFixed(0)} mm (sagging), ${dTop.toFixed(0)} mm (hogging)`,
+    explanation: "Effective depth from compression face to centroid of the provided tension bars",
+    bsReference: "BS8110 Cl. 3.4.4.1"
+  });
+
+  // Step 1a-b: Durability and fire resistance
+  const durability = checkBeamDurability(input, steps);
+  failureReasons.push(...durability.failureReasons);
+
+  // Steps 2-3: Loads and Ultimate Moment
+  const actions = analyseBeamActions(input, [dBottom, dTop], steps);
+  failureReasons.push(...actions.loadErrors);
+  const {
+    ultimateLoad,
+    loadSummary,
+    totalUltimateLoad,
+    support,
+    saggingMoment,
+    hoggingMoment,
+    tensionFace,
+    ultimateMoment,
+    momentPosition,
+    momentFormula
+  } = actions;
+
+  const tensionBars = tensionFace === 'bottom' ? input.bottomBars : input.topBars;
+  const compressionBars = tensionFace === 'bottom' ? input.topBars : input.bottomBars;
+  const effectiveDepth = tensionFace === 'bottom' ? dBottom : dTop;
+  const dPrime = input.cover + input.linkDiameter + compressionBars.diameter / 2;
+  const tensionSteel = barArea(tensionBars);
+  const compressionSteel = barArea(compressionBars);
+  const linkArea = input.linkLegs * Math.PI * Math.pow(input.linkDiameter, 2) / 4;
+  const tensionArrangement = providedArrangement(tensionBars);
+  const compressionArrangement = providedArrangement(compressionBars);
+
+  // Step 4: Reinforcement provided
+  steps.push({
+    title: "Step 4: Reinforcement Provided",
+    formula: "As = n × πφ²/4",
+    substitution: `Tension (${tensionFace}): ${tensionArrangement.description}
+Compression: ${compressionArrangement.description}, d' = ${dPrime.toFixed(0)} mm
+Links: ${input.linkLegs} legs T${input.linkDiameter} @ ${input.linkSpacing} mm, Asv = ${linkArea.toFixed(0)} mm²`,
+    result: `As = ${tensionSteel.toFixed(0)} mm², As' = ${compressionSteel.toFixed(0)} mm²`,
+    explanation: "Bars on the tension face for the governing moment; the opposite face acts as compression steel"
+  });
+
+  // Flanged sections only act as such when the flange is in compression (sagging)
+  const flangeActs = input.sectionType !== 'rectangular' && tensionFace === 'bottom';
+  const compressionWidth = flangeActs
+    ? getEffectiveFlangeWidth(
+        input.sectionType as Exclude<SectionType, 'rectangular'>,
+        input.width,
+        input.supportCondition === 'simply-supported' ? input.span : 0.7 * input.span,
+        input.flangeWidthLimit
+      )
+    : input.width;
+  const hf = flangeActs ? input.flangeThickness : 0;
+
+  // Step 5: Neutral axis depth from equilibrium
+  const section = calculateMomentOfResistance(
+    compressionWidth, input.width, hf, effectiveDepth, dPrime,
+    tensionSteel, compressionSteel, input.fcu, input.fy
+  );
+  const usedCompression = section.compressionSteelUsed ? compressionSteel : 0;
+
+  steps.push({
+    title: "Step 5: Neutral Axis Depth",
+    formula: section.neutralAxisInFlange
+      ? "0.87fy·As = 0.405fcu·b·x + 0.87fy·As'"
+      : "0.87fy·As = 0.45fcu(b - bw)hf + 0.405fcu·bw·x + 0.87fy·As'",
+    substitution: `b = ${compressionWidth.toFixed(0)} mm${flangeActs ? ` (effective flange width, bw = ${input.width} mm, hf = ${hf} mm)` : ''}
+As' counted = ${usedCompression.toFixed(0)} mm²${compressionSteel > 0 && !section.compressionSteelUsed ? " (d'/x > 0.37 - compression steel does not yield, ignored)" : ''}`,
+    result: `x = ${section.x.toFixed(1)} mm (x/d = ${(section.x / effectiveDepth).toFixed(3)})`,
+    isCheck: true,
+    checkPassed: !section.overReinforced,
+    status: section.overReinforced ? 'review' : 'safe',
+    explanation: section.overReinforced
+      ? "Neutral axis limited to 0.5d - capacity governed by the concrete"
+      : `x ≤ 0.5d → tension steel yields${flangeActs ? (section.neutralAxisInFlange ? ', stress block within flange' : ', stress block extends into web') : ''}`,
+    bsReference: "BS8110 Cl. 3.4.4.4"
+  });
+
+  // Step 6: Moment of resistance
+  const momentCapacity = section.Mu;
+  const momentUtilisation = momentCapacity > 0 ? ultimateMoment / momentCapacity : Infinity;
+  const momentOK = momentUtilisation <= 1;
+
+  steps.push({
+    title: "Step 6: Moment of Resistance",
+    formula: "Mu = Fc·z + 0.87fy·As'(d - d')",
+    substitution: `z = ${section.leverArm.toFixed(1)} mm (≤ 0.95d = ${(0.95 * effectiveDepth).toFixed(0)} mm)
+Mu = ${momentCapacity.toFixed(2)} kN·m`,
+    result: `M/Mu = ${ultimateMoment.toFixed(2)}/${momentCapacity.toFixed(2)} = ${momentUtilisation.toFixed(2)}`,
+    isCheck: true,
+    checkPassed: momentOK,
+    status: momentOK ? 'safe' : 'unsafe',
+    explanation: momentOK
+      ? `Mu ≥ M → Section adequate in bending ✓`
+      : `Mu < M → Section inadequate in bending`,
+    bsReference: "BS8110 Cl. 3.4.4.4"
+  });
+
+  if (!momentOK) {
+    failureReasons.push(`Moment capacity exceeded: M = ${ultimateMoment.toFixed(2)} kN·m > Mu = ${momentCapacity.toFixed(2)} kN·m`);
+  }
+
+  // Step 6a: The other face - sagging against the bottom bars or hogging against the top bars
+  const oppositeFaceName: 'bottom' | 'top' = tensionFace === 'bottom' ? 'top' : 'bottom';
+  const oppositeMoment = tensionFace === 'bottom' ? hoggingMoment : saggingMoment;
+  let oppositeFace: OppositeFaceCapacity | undefined;
+
+  if (oppositeMoment > 0) {
+    const oppositeDepth = oppositeFaceName === 'bottom' ? dBottom : dTop;
+    const oppositeFlange = input.sectionType !== 'rectangular' && oppositeFaceName === 'bottom';
+    const oppositeWidth = oppositeFlange
+      ? getEffectiveFlangeWidth(
+          input.sectionType as Exclude<SectionType, 'rectangular'>,
+          input.width,
+          input.supportCondition === 'simply-supported' ? input.span : 0.7 * input.span,
+          input.flangeWidthLimit
+        )
+      : input.width;
+    const oppositeSection = calculateMomentOfResistance(
+      oppositeWidth, input.width, oppositeFlange ? input.flangeThickness : 0, oppositeDepth,
+      input.cover + input.linkDiameter + tensionBars.diameter / 2,
+      compressionSteel, tensionSteel, input.fcu, input.fy
+    );
+    const utilisation = oppositeSection.Mu > 0 ? oppositeMoment / oppositeSection.Mu : Infinity;
+    const oppositeOK = utilisation <= 1;
+    oppositeFace = {
+      face: oppositeFaceName,
+      moment: oppositeMoment,
+      effectiveDepth: oppositeDepth,
+      neutralAxisDepth: oppositeSection.x,
+      momentCapacity: oppositeSection.Mu,
+      momentUtilisation: utilisation
+    };
+
+    steps.push({
+      title: `Step 6a: Moment of Resistance - ${oppositeFaceName === 'bottom' ? 'Sagging (Bottom Bars)' : 'Hogging (Top Bars)'}`,
+      formula: "Mu = Fc·z + 0.87fy·As'(d - d')",
+      substitution: `As = ${compressionSteel.toFixed(0)} mm² (${compressionArrangement.description}), d = ${oppositeDepth.toFixed(0)} mm, b = ${oppositeWidth.toFixed(0)} mm
+x = ${oppositeSection.x.toFixed(1)} mm, z = ${oppositeSection.leverArm.toFixed(1)} mm, Mu = ${oppositeSection.Mu.toFixed(2)} kN·m`,
+      result: `M/Mu = ${oppositeMoment.toFixed(2)}/${oppositeSection.Mu.toFixed(2)} = ${utilisation.toFixed(2)}`,
+      isCheck: true,
+      checkPassed: oppositeOK,
+      status: oppositeOK ? 'safe' : 'unsafe',
+      explanation: oppositeOK
+        ? `Mu ≥ M → ${oppositeFaceName === 'bottom' ? 'Bottom' : 'Top'} bars adequate ✓`
+        : `Mu < M → ${oppositeFaceName === 'bottom' ? 'Bottom' : 'Top'} bars inadequate`,
+      bsReference: "BS8110 Cl. 3.4.4.4"
+    });
+
+    if (!oppositeOK) {
+      failureReasons.push(`${oppositeFaceName === 'bottom' ? 'Sagging' : 'Hogging'} moment capacity exceeded: M = ${oppositeMoment.toFixed(2)} kN·m > Mu = ${oppositeSection.Mu.toFixed(2)} kN·m (${oppositeFaceName} bars)`);
+    }
+  }
+
+  // Steps 7-8: Shear Force and Critical Section
+  const { shearForce, shearPosition, shearFormula, criticalShear } =
+    analyseShearActions(input, actions, effectiveDepth, 7, steps);
+
+  // Step 9: Shear resistance of concrete and links
+  const bd = input.width * effectiveDepth;
+  const vc = calculateVc(tensionSteel, input.width, effectiveDepth, input.fcu);
+  const vs = (0.87 * input.fy * linkArea) / (input.width * input.linkSpacing);
+  const maxShearStress = Math.min(0.8 * Math.sqrt(input.fcu), 5);
+  const shearCapacity = Math.min(vc + vs, maxShearStress) * bd / 1000;
+  const shearStress = (criticalShear * 1000) / bd;
+  const supportShearStress = (shearForce * 1000) / bd;
+  const shearUtilisation = shearCapacity > 0 ? criticalShear / shearCapacity : Infinity;
+  const shearOK = shearUtilisation <= 1 && supportShearStress < maxShearStress;
+
+  steps.push({
+    title: "Step 9: Shear Resistance",
+    formula: "Vu = (vc + 0.87fyv·Asv/(bv·sv))·bv·d ≤ vmax·bv·d",
+    substitution: `vc = ${vc.toFixed(2)} N/mm² (Table 3.8, 100As/bd = ${((100 * tensionSteel) / bd).toFixed(2)})
+vs = 0.87 × ${input.fy} × ${linkArea.toFixed(0)} / (${input.width} × ${input.linkSpacing}) = ${vs.toFixed(2)} N/mm²
+vmax = ${maxShearStress.toFixed(2)} N/mm², v (face of support) = ${supportShearStress.toFixed(2)} N/mm²`,
+    result: `Vu = ${shearCapacity.toFixed(2)} kN
+Vd/Vu = ${criticalShear.toFixed(2)}/${shearCapacity.toFixed(2)} = ${shearUtilisation.toFixed(2)}`,
+    isCheck: true,
+    checkPassed: shearOK,
+    status: shearOK ? 'safe' : 'unsafe',
+    explanation: shearOK
+      ? "Vu ≥ Vd and v < vmax → Section adequate in shear ✓"
+      : supportShearStress >= maxShearStress
+        ? "v at the support face exceeds vmax → Increase section size"
+        : "Vu < Vd → Provide more or closer links",
+    bsReference: "BS8110 Cl. 3.4.5"
+  });
+
+  if (supportShearStress >= maxShearStress) {
+    failureReasons.push(`Shear stress (${supportShearStress.toFixed(2)} N/mm²) exceeds maximum (${maxShearStress.toFixed(2)} N/mm²)`);
+  } else if (shearUtilisation > 1) {
+    failureReasons.push(`Shear capacity exceeded: Vd = ${criticalShear.toFixed(2)} kN > Vu = ${shearCapacity.toFixed(2)} kN`);
+  }
+
+  // Step 10: Minimum links and spacing (Table 3.7, Cl. 3.4.5.5)
+  const minLinkArea = (0.4 * input.width * input.linkSpacing) / (0.87 * input.fy);
+  const maxLinkSpacing = 0.75 * effectiveDepth;
+  const linksOK = linkArea >= minLinkArea && input.linkSpacing <= maxLinkSpacing;
+
+  steps.push({
+    title: "Step 10: Link Detailing Check",
+    formula: "Asv ≥ 0.4bv·sv/(0.87fyv), sv ≤ 0.75d",
+    substitution: `Asv,min = 0.4 × ${input.width} × ${input.linkSpacing} / (0.87 × ${input.fy}) = ${minLinkArea.toFixed(0)} mm²
+sv,max = 0.75 × ${effectiveDepth.toFixed(0)} = ${maxLinkSpacing.toFixed(0)} mm`,
+    result: `Asv = ${linkArea.toFixed(0)} mm², sv = ${input.linkSpacing} mm`,
+    isCheck: true,
+    checkPassed: linksOK,
+    status: linksOK ? 'safe' : 'unsafe',
+    bsReference: "BS8110 Table 3.7"
+  });
+
+  if (!linksOK) {
+    failureReasons.push(`Links do not meet minimum requirements (Asv,min = ${minLinkArea.toFixed(0)} mm², sv,max = ${maxLinkSpacing.toFixed(0)} mm)`);
+  }
+
+  // Step 10a-c: Torsion (BS8110-2 Section 2.4) - provided links must carry shear and torsion together
+  const torsion = input.torsionalMoment > 0
+    ? designTorsion({
+        torsionalMoment: input.torsionalMoment,
+        sectionType: input.sectionType,
+        webWidth: input.width,
+        overallDepth: input.overallDepth,
+        flangeThickness: input.flangeThickness,
+        flangeWidth: compressionWidth,
+        cover: input.cover,
+        linkDiameter: input.linkDiameter,
+        effectiveDepth,
+        shearStress,
+        vc,
+        fcu: input.fcu,
+        fy: input.fy
+      })
+    : undefined;
+
+  if (torsion) {
+    const [stressStep, reinforcementStep] = torsion.steps;
+    steps.push({ ...stressStep, title: `Step 10a: ${stressStep.title}` });
+    // Step 10c checks the links provided, so links designTorsion could not select are no failure here
+    failureReasons.push(...(torsion.linksAdequate ? torsion.failureReasons : torsion.failureReasons.slice(0, -1)));
+
+    if (torsion.torsionRequired) {
+      steps.push({ ...reinforcementStep, title: `Step 10b: ${reinforcementStep.title}` });
+
+      const shearRatio = shearStress > vc ? (input.width * (shearStress - vc)) / (0.87 * input.fy) : 0;
+      const requiredRatio = shearRatio + torsion.linkAreaRatio;
+      const providedRatio = linkArea / input.linkSpacing;
+      const torsionSpacing = Math.min(torsion.x1, torsion.y1 / 2, 200);
+      const torsionLinksOK = providedRatio >= requiredRatio && input.linkSpacing <= torsionSpacing;
+
+      steps.push({
+        title: "Step 10c: Torsion Link Check",
+        formula: "Asv/sv ≥ bv(v - vc)/(0.87fyv) + T/[0.8x1·y1(0.87fyv)]; sv ≤ min(x1, y1/2, 200 mm)",
+        substitution: `Required Asv/sv = ${shearRatio.toFixed(3)} + ${torsion.linkAreaRatio.toFixed(3)} = ${requiredRatio.toFixed(3)} mm²/mm
+Provided Asv/sv = ${linkArea.toFixed(0)} / ${input.linkSpacing} = ${providedRatio.toFixed(3)} mm²/mm, sv,max = ${torsionSpacing.toFixed(0)} mm`,
+        result: torsionLinksOK ? "Links adequate for combined shear and torsion" : "Links inadequate for combined shear and torsion",
+        isCheck: true,
+        checkPassed: torsionLinksOK,
+        status: torsionLinksOK ? 'safe' : 'unsafe',
+        explanation: `Also provide ${torsion.longitudinalSteel.toFixed(0)} mm² of longitudinal torsion steel around the links`,
+        bsReference: "BS8110-2 Cl. 2.4.7 - 2.4.8"
+      });
+
+      if (!torsionLinksOK) {
+        failureReasons.push(`Links (Asv/sv = ${providedRatio.toFixed(3)}) do not carry combined shear and torsion (required ${requiredRatio.toFixed(3)} mm²/mm)`);
+      }
+    }
+  }
+
+  // Step 11: Minimum tension steel (Table 3.25)
+  const minSteelRatio = flangeActs
+    ? getFlangedMinSteelRatio(input.width, compressionWidth, input.fy)
+    : 0.0013;
+  const minSteel = minSteelRatio * input.width * effectiveDepth;
+  const steelOK = tensionSteel >= minSteel;
+
+  steps.push({
+    title: "Step 11: Minimum Steel Check",
+    formula: `As,min = ${(minSteelRatio * 100).toFixed(2)}%${flangeActs ? 'bw' : 'b'}h ≈ ${(minSteelRatio * 100).toFixed(2)}%${flangeActs ? 'bw' : 'b'}d`,
+    substitution: `As,min = ${minSteelRatio} × ${input.width} × ${effectiveDepth.toFixed(0)}`,
+    result: `As,min = ${minSteel.toFixed(0)} mm²`,
+    isCheck: true,
+    checkPassed: steelOK,
+    status: steelOK ? 'safe' : 'unsafe',
+    explanation: steelOK
+      ? `As = ${tensionSteel.toFixed(0)} mm² ≥ As,min ✓`
+      : `As = ${tensionSteel.toFixed(0)} mm² < As,min - Below minimum reinforcement`,
+    bsReference: "BS8110 Cl. 3.12.5.3"
+  });
+
+  if (!steelOK) {
+    failureReasons.push(`Tension steel (${tensionSteel.toFixed(0)} mm²) is below the minimum (${minSteel.toFixed(0)} mm²)`);
+  }
+
+  // Step 12: Deflection Check at mid-span (the root for cantilevers) with the bars on that face,
+  // whichever face carries the governing moment
+  const isDoublyReinforced = section.compressionSteelUsed;
+  const isCantilever = support.deflection === 'cantilever';
+  const deflectionBars = isCantilever ? input.topBars : input.bottomBars;
+  const oppositeBars = isCantilever ? input.bottomBars : input.topBars;
+  const deflectionMoment = isCantilever ? hoggingMoment : saggingMoment;
+  const deflectionDepth = isCantilever ? dTop : dBottom;
+  const deflectionSteel = barArea(deflectionBars);
+  const deflectionCompression = barArea(oppositeBars);
+  const midSpanFlanged = !isCantilever && input.sectionType !== 'rectangular';
+  const midSpanWidth = midSpanFlanged
+    ? getEffectiveFlangeWidth(
+        input.sectionType as Exclude<SectionType, 'rectangular'>,
+        input.width,
+        input.supportCondition === 'simply-supported' ? input.span : 0.7 * input.span,
+        input.flangeWidthLimit
+      )
+    : input.width;
+  const midSpanSection = calculateMomentOfResistance(
+    midSpanWidth, input.width, midSpanFlanged ? input.flangeThickness : 0, deflectionDepth,
+    input.cover + input.linkDiameter + oppositeBars.diameter / 2,
+    deflectionSteel, deflectionCompression, input.fcu, input.fy
+  );
+  const M_Nmm = deflectionMoment * 1e6;
+  const flangeFactor = midSpanFlanged ? getFlangedBasicRatioFactor(input.width, midSpanWidth) : 1.0;
+  const basicRatio = getBasicSpanDepthRatio(support.basicRatioCase) * flangeFactor;
+  const requiredSteel = Math.min(M_Nmm / (0.87 * input.fy * midSpanSection.leverArm), deflectionSteel);
+  const tensionMod = getTensionModificationFactor(M_Nmm, midSpanWidth, deflectionDepth, requiredSteel, deflectionSteel, input.fy);
+  const compMod = deflectionCompression > 0 ? getCompressionModificationFactor(deflectionCompression, midSpanWidth, deflectionDepth) : 1.0;
+  const allowableRatio = basicRatio * tensionMod * compMod;
+  const actualRatio = (input.span * 1000) / deflectionDepth;
+  const deflectionOK = actualRatio <= allowableRatio;
+
+  steps.push({
+    title: "Step 12: Deflection Check",
+    formula: "Actual span/d ≤ Basic ratio × Modification factors",
+    substitution: `Basic ratio = ${basicRatio.toFixed(1)} (${support.label.toLowerCase()}${midSpanFlanged ? `, flanged × ${flangeFactor.toFixed(2)}` : ''}, Table 3.9)
+${isCantilever ? 'Root' : 'Mid-span'}: M = ${deflectionMoment.toFixed(2)} kN·m, d = ${deflectionDepth.toFixed(0)} mm (${isCantilever ? 'top' : 'bottom'} bars)
+As,req = M/(0.87fy·z) = ${requiredSteel.toFixed(0)} mm², As,prov = ${deflectionSteel.toFixed(0)} mm²
+Tension modification = ${tensionMod.toFixed(2)} (Table 3.10)
+${deflectionCompression > 0 ? `Compression modification = ${compMod.toFixed(2)} (Table 3.11)\n` : ''}Allowable span/d = ${allowableRatio.toFixed(1)}`,
+    result: `Actual span/d = ${actualRatio.toFixed(1)}
+Allowable span/d = ${allowableRatio.toFixed(1)}`,
+    isCheck: true,
+    checkPassed: deflectionOK,
+    status: deflectionOK ? 'safe' : 'unsafe',
+    explanation: deflectionOK
+      ? `Actual ≤ Allowable → Deflection satisfactory ✓`
+      : `Actual > Allowable → Deflection check fails`,
+    bsReference: "BS8110 Cl. 3.4.6"
+  });
+
+  const deflectionStatus: 'safe' | 'unsafe' = deflectionOK ? 'safe' : 'unsafe';
+
+  if (!deflectionOK) {
+    failureReasons.push(`Deflection check failed: L/d = ${actualRatio.toFixed(1)} > ${allowableRatio.toFixed(1)}`);
+  }
+
+  // Step 12a-c: Calculated Deflection (optional) with the same mid-span bars
+  const calculatedDeflection = calculateBeamDeflection(input, actions, midSpanWidth, {
+    effectiveDepth: deflectionDepth,
+    tensionSteel: deflectionSteel,
+    compressionSteel: deflectionCompression,
+    compressionSteelDepth: input.cover + input.linkDiameter + oppositeBars.diameter / 2
+  }, 12, steps);
+  failureReasons.push(...(calculatedDeflection?.failureReasons ?? []));
+
+  // Step 13: Bar Spacing (Cl. 3.12.11)
+  const spacing = checkBarSpacing({
+    bars: tensionArrangement,
+    width: input.width,
+    overallDepth: input.overallDepth,
+    cover: input.cover,
+    linkDiameter: input.linkDiameter,
+    aggregateSize: input.aggregateSize,
+    fy: input.fy,
+    redistributionRatio: 1.0
+  });
+  spacing.steps.forEach((step, i) => {
+    steps.push({ ...step, title: `Step 13${String.fromCharCode(97 + i)}: ${step.title}` });
+  });
+  failureReasons.push(...spacing.failureReasons);
+
+  // Step 14: Anchorage, Laps and Curtailment
+  const { anchorage, curtailment } = detailBarEnds(input, actions, tensionBars.diameter, input.topBars.diameter, input.bottomBars.diameter, 14, steps);
+
+  // Step 15: Capacity Summary
+  const designValid = failureReasons.length === 0;
+
+  steps.push({
+    title: "Step 15: Capacity Summary",
+    result: `Bending: M = ${ultimateMoment.toFixed(2)} kN·m, Mu = ${momentCapacity.toFixed(2)} kN·m (utilisation ${(momentUtilisation * 100).toFixed(0)}%)${oppositeFace ? `
+Bending (${oppositeFace.face} bars): M = ${oppositeFace.moment.toFixed(2)} kN·m, Mu = ${oppositeFace.momentCapacity.toFixed(2)} kN·m (utilisation ${(oppositeFace.momentUtilisation * 100).toFixed(0)}%)` : ''}
+Shear: Vd = ${criticalShear.toFixed(2)} kN, Vu = ${shearCapacity.toFixed(2)} kN (utilisation ${(shearUtilisation * 100).toFixed(0)}%)`,
+    status: designValid ? 'safe' : 'unsafe',
+    explanation: designValid ? "Section is adequate for the applied loads" : "Section is inadequate for the applied loads"
+  });
+
+  const kValue = M_Nmm / (compressionWidth * Math.pow(effectiveDepth, 2) * input.fcu);
+
+  return {
+    steps,
+    diagram: buildBeamDiagram(input, actions),
+    summary: {
+      // Input values
+      supportCondition: input.supportCondition,
+      supportLabel: support.label,
+      span: input.span,
+      sectionType: input.sectionType,
+      width: input.width,
+      overallDepth: input.overallDepth,
+      flangeThickness: flangeActs ? input.flangeThickness : undefined,
+      effectiveFlangeWidth: flangeActs ? compressionWidth : undefined,
+      neutralAxisInFlange: flangeActs ? section.neutralAxisInFlange : undefined,
+      fcu: input.fcu,
+      fy: input.fy,
+      deadLoad: input.deadLoad,
+      liveLoad: input.liveLoad,
+      cover: input.cover,
+      // Calculated values
+      effectiveDepth,
+      ultimateLoad,
+      loadSummary,
+      totalUltimateLoad,
+      ultimateMoment,
+      momentPosition,
+      saggingMoment,
+      hoggingMoment,
+      tensionFace,
+      momentFormula,
+      shearFormula,
+      shearForce,
+      shearPosition,
+      criticalShear,
+      kValue,
+      kPrime: 0.156,
+      leverArm: section.leverArm,
+      tensionSteel,
+      compressionSteel,
+      minSteel,
+      shearStress,
+      vc,
+      maxShearStress,
+      // Deflection values
+      basicSpanDepthRatio: basicRatio,
+      tensionModificationFactor: tensionMod,
+      compressionModificationFactor: compMod,
+      allowableSpanDepthRatio: allowableRatio,
+      actualSpanDepthRatio: actualRatio,
+      calculatedDeflection,
+      // Status values
+      isDoublyReinforced,
+      designValid,
+      deflectionStatus,
+      shearStatus: shearOK ? 'safe' : 'unsafe',
+      kCheckStatus: momentOK && (!oppositeFace || oppositeFace.momentUtilisation <= 1) ? 'safe' : 'unsafe',
+      detailingStatus: spacing.failureReasons.length === 0 ? 'safe' : 'unsafe',
+      durability,
+      // Reinforcement
+      linkSize: input.linkDiameter,
+      linkSpacing: input.linkSpacing,
+      sideBars: spacing.sideBars,
+      torsion,
+      anchorage,
+      curtailment,
+      barSuggestion: tensionArrangement.description,
+      compressionBarSuggestion: compressionSteel > 0 ? compressionArrangement.description : undefined,
+      tensionBars: tensionArrangement,
+      compressionBars: compressionSteel > 0 ? compressionArrangement : undefined,
+      capacityCheck: {
+        neutralAxisDepth: section.x,
+        momentCapacity,
+        shearCapacity,
+        linkShearStress: vs,
+        momentUtilisation,
+        shearUtilisation,
+        oppositeFace
+      },
       // Failures
       failureReasons
     }
@@ -0,0 +1,224 @@
+// Calculated Deflection - BS 8110-2 Cl. 3.6 & 3.7
+// Curvatures of the cracked and uncracked section, creep, shrinkage and the Table 3.1 K factors
+
+import type { CalculationStep } from "./beamCalculations";
+
+// End restraint of the member for the deflection coefficients
+export type DeflectionSupport = 'simply-supported' | 'one-end-continuous' | 'both-ends-continuous' | 'cantilever';
+
+export interface DeflectionSettings {
+  enabled: boolean;
+  creepCoefficient: number; // φ (long-term)
+  shrinkageStrain: number; // εcs × 10⁻⁶
+  permanentLiveFraction: number; // proportion of Qk acting permanently
+}
+
+export const defaultDeflectionSettings: DeflectionSettings = {
+  enabled: false,
+  creepCoefficient: 2.5,
+  shrinkageStrain: 300,
+  permanentLiveFraction: 0.25
+};
+
+export interface DeflectionInput {
+  span: number; // m (cantilever length for cantilevers)
+  support: DeflectionSupport;
+  beta: number; // (MA + MB)/MF for continuous members
+  width: number; // mm (compression width)
+  overallDepth: number; // mm
+  effectiveDepth: number; // mm
+  tensionSteel: number; // mm² (provided)
+  compressionSteel: number; // mm² (provided)
+  compressionSteelDepth: number; // mm (d')
+  fcu: number; // N/mm²
+  deadMoment: number; // kNm (service, Gk) at the critical section
+  liveMoment: number; // kNm (service, Qk) at the critical section
+  settings: DeflectionSettings;
+}
+
+export interface CalculatedDeflectionResult {
+  loadFactor: number; // K (Table 3.1)
+  shrinkageFactor: number; // Kcs
+  shortTermModulus: number; // N/mm²
+  longTermModulus: number; // N/mm²
+  longTermCurvature: number; // 1/mm (permanent load)
+  shortTermCurvature: number; // 1/mm (total load)
+  shortTermPermanentCurvature: number; // 1/mm
+  shrinkageCurvature: number; // 1/mm
+  totalDeflection: number; // mm
+  postConstructionDeflection: number; // mm
+  totalLimit: number; // mm (span/250)
+  postConstructionLimit: number; // mm (span/500 ≤ 20 mm)
+  status: 'safe' | 'unsafe';
+  steps: CalculationStep[];
+  failureReasons: string[];
+}
+
+const Es = 200000; // N/mm²
+
+// BS8110-2 Table 3.1 & Cl. 3.7.3 - K for uniform loads and Kcs for shrinkage curvature
+export function getDeflectionFactors(support: DeflectionSupport, beta: number): { K: number; Kcs: number; label: string } {
+  switch (support) {
+    case 'cantilever':
+      return { K: 0.25, Kcs: 0.5, label: 'K = 0.25 (cantilever, UDL)' };
+    case 'one-end-continuous':
+      return { K: 0.104 * (1 - beta / 10), Kcs: 0.086, label: `K = 0.104(1 - β/10), β = ${beta.toFixed(2)}` };
+    case 'both-ends-continuous':
+      return { K: 0.104 * (1 - beta / 10), Kcs: 0.063, label: `K = 0.104(1 - β/10), β = ${beta.toFixed(2)}` };
+    default:
+      return { K: 0.104, Kcs: 0.125, label: 'K = 0.104 (simply supported, UDL)' };
+  }
+}
+
+// BS8110 Table 3.10 - tension reinforcement modification factor for the span/depth ratio, from
+// M/bd² and the service stress fs = 2fy·As,req/(3As,prov) at mid-span (the root for cantilevers)
+export function getTensionModificationFactor(M: number, b: number, d: number, As_req: number, As_prov: number, fy: number): number {
+  const fs = (2 * fy * As_req) / (3 * As_prov); // Service stress
+  const factor = 0.55 + (477 - fs) / (120 * (0.9 + M / (b * d * d)));
+  return Math.min(Math.max(factor, 0.55), 2.0);
+}
+
+// BS8110-2 Cl. 7.2 - Ec,28 = 20 + 0.2fcu (kN/mm²)
+export function getConcreteModulus(fcu: number): number {
+  return (20 + 0.2 * fcu) * 1000;
+}
+
+interface CrackedSection {
+  neutralAxis: number; // mm
+  inertia: number; // mm⁴ (transformed to concrete)
+}
+
+// Elastic cracked section ignoring concrete in tension (modular ratio αe)
+function crackedSection(input: DeflectionInput, modularRatio: number): CrackedSection {
+  const { width: b, effectiveDepth: d, tensionSteel: As, compressionSteel: Asc, compressionSteelDepth: dc } = input;
+  // 0.5b·x² + (αe - 1)As'(x - d') - αe·As(d - x) = 0
+  const A = 0.5 * b;
+  const B = (modularRatio - 1) * Asc + modularRatio * As;
+  const C = -((modularRatio - 1) * Asc * dc + modularRatio * As * d);
+  const x = (-B + Math.sqrt(B * B - 4 * A * C)) / (2 * A);
+  const inertia = (b * Math.pow(x, 3)) / 3 + modularRatio * As * Math.pow(d - x, 2) + (modularRatio - 1) * Asc * Math.pow(x - dc, 2);
+  return { neutralAxis: x, inertia };
+}
+
+// Gross transformed section (uncracked)
+function uncrackedInertia(input: DeflectionInput, modularRatio: number): number {
+  const { width: b, overallDepth: h, effectiveDepth: d, tensionSteel: As, compressionSteel: Asc, compressionSteelDepth: dc } = input;
+  const extra = modularRatio - 1;
+  const area = b * h + extra * (As + Asc);
+  const centroid = (b * h * h / 2 + extra * (As * d + Asc * dc)) / area;
+  return (b * Math.pow(h, 3)) / 12 + b * h * Math.pow(h / 2 - centroid, 2)
+    + extra * As * Math.pow(d - centroid, 2) + extra * Asc * Math.pow(centroid - dc, 2);
+}
+
+// Cl. 3.6 - the larger of the cracked curvature (with concrete tension fct at the steel level)
+// and the uncracked curvature
+function curvature(input: DeflectionInput, moment: number, modulus: number, fct: number): { value: number; cracked: CrackedSection } {
+  const M = moment * 1e6;
+  const modularRatio = Es / modulus;
+  const cracked = crackedSection(input, modularRatio);
+  const x = cracked.neutralAxis;
+  const tensionMoment = (fct * input.width * Math.pow(input.overallDepth - x, 3)) / (3 * (input.effectiveDepth - x));
+  const crackedCurvature = Math.max(M - tensionMoment, 0) / (modulus * cracked.inertia);
+  const uncrackedCurvature = M / (modulus * uncrackedInertia(input, modularRatio));
+  return { value: Math.max(crackedCurvature, uncrackedCurvature), cracked };
+}
+
+export function calculateDeflection(input: DeflectionInput): CalculatedDeflectionResult {
+  const steps: CalculationStep[] = [];
+  const failureReasons: string[] = [];
+  const { settings } = input;
+  const L = input.span * 1000;
+
+  const { K, Kcs, label } = getDeflectionFactors(input.support, input.beta);
+  const shortTermModulus = getConcreteModulus(input.fcu);
+  const longTermModulus = shortTermModulus / (1 + settings.creepCoefficient);
+  const permanentMoment = input.deadMoment + settings.permanentLiveFraction * input.liveMoment;
+  const totalMoment = input.deadMoment + input.liveMoment;
+
+  // Short-term fct = 1.0 N/mm², long-term 0.55 N/mm² at the tension steel level
+  const longTerm = curvature(input, permanentMoment, longTermModulus, 0.55);
+  const shortTermTotal = curvature(input, totalMoment, shortTermModulus, 1.0);
+  const shortTermPermanent = curvature(input, permanentMoment, shortTermModulus, 1.0);
+  const shortTermDead = curvature(input, input.deadMoment, shortTermModulus, 1.0);
+
+  steps.push({
+    title: "Calculated Deflection - Section Properties",
+    formula: "Ec = 20 + 0.2fcu (kN/mm²), Eeff = Ec/(1 + φ), αe = Es/E",
+    substitution: `Ec = ${(shortTermModulus / 1000).toFixed(1)} kN/mm², Eeff = ${(shortTermModulus / 1000).toFixed(1)}/(1 + ${settings.creepCoefficient}) = ${(longTermModulus / 1000).toFixed(1)} kN/mm²
+Short-term: x = ${shortTermTotal.cracked.neutralAxis.toFixed(1)} mm, Icr = ${(shortTermTotal.cracked.inertia / 1e6).toFixed(0)} × 10⁶ mm⁴
+Long-term: x = ${longTerm.cracked.neutralAxis.toFixed(1)} mm, Icr = ${(longTerm.cracked.inertia / 1e6).toFixed(0)} × 10⁶ mm⁴
+Mperm = ${input.deadMoment.toFixed(2)} + ${settings.permanentLiveFraction} × ${input.liveMoment.toFixed(2)} = ${permanentMoment.toFixed(2)} kN·m, Mtotal = ${totalMoment.toFixed(2)} kN·m`,
+    result: `b = ${input.width.toFixed(0)} mm, d = ${input.effectiveDepth.toFixed(0)} mm, As = ${input.tensionSteel.toFixed(0)} mm²`,
+    explanation: "Service moments at the critical section; concrete in tension carries 1.0 N/mm² (short-term) or 0.55 N/mm² (long-term) at the steel level",
+    bsReference: "BS8110-2 Cl. 3.6, Cl. 7.2"
+  });
+
+  // Cl. 3.6 - shrinkage curvature 1/rcs = εcs·αe·Ss / I
+  const longTermRatio = Es / longTermModulus;
+  const x = longTerm.cracked.neutralAxis;
+  const firstMoment = input.tensionSteel * (input.effectiveDepth - x) - input.compressionSteel * (x - input.compressionSteelDepth);
+  const shrinkageCurvature = (settings.shrinkageStrain * 1e-6 * longTermRatio * Math.max(firstMoment, 0)) / longTerm.cracked.inertia;
+  const loadCurvature = longTerm.value + shortTermTotal.value - shortTermPermanent.value;
+
+  steps.push({
+    title: "Curvatures",
+    formula: "1/rb = 1/r(long, perm) + 1/r(short, total) - 1/r(short, perm); 1/rcs = εcs·αe·Ss/I",
+    substitution: `1/r(long, perm) = ${(longTerm.value * 1e6).toFixed(3)} × 10⁻⁶ /mm
+1/r(short, total) = ${(shortTermTotal.value * 1e6).toFixed(3)} × 10⁻⁶ /mm
+1/r(short, perm) = ${(shortTermPermanent.value * 1e6).toFixed(3)} × 10⁻⁶ /mm
+1/rcs = ${settings.shrinkageStrain} × 10⁻⁶ × ${longTermRatio.toFixed(1)} × ${(firstMoment / 1e3).toFixed(0)} × 10³ / ${(longTerm.cracked.inertia / 1e6).toFixed(0)} × 10⁶ = ${(shrinkageCurvature * 1e6).toFixed(3)} × 10⁻⁶ /mm`,
+    result: `1/rb = ${(loadCurvature * 1e6).toFixed(3)} × 10⁻⁶ /mm, 1/rcs = ${(shrinkageCurvature * 1e6).toFixed(3)} × 10⁻⁶ /mm`,
+    bsReference: "BS8110-2 Cl. 3.6"
+  });
+
+  // Cl. 3.7.2 - a = K·L²·(1/rb); post-construction deflection excludes the instantaneous dead load deflection
+  const totalDeflection = K * L * L * loadCurvature + Kcs * L * L * shrinkageCurvature;
+  const postConstructionDeflection = Math.max(totalDeflection - K * L * L * shortTermDead.value, 0);
+  const totalLimit = L / 250;
+  const postConstructionLimit = Math.min(L / 500, 20);
+  const totalOK = totalDeflection <= totalLimit;
+  const postOK = postConstructionDeflection <= postConstructionLimit;
+  const status: 'safe' | 'unsafe' = totalOK && postOK ? 'safe' : 'unsafe';
+
+  steps.push({
+    title: "Deflection",
+    formula: "a = K·L²·(1/rb) + Kcs·L²·(1/rcs)",
+    substitution: `${label}, Kcs = ${Kcs}
+a = ${K.toFixed(4)} × ${L.toFixed(0)}² × ${(loadCurvature * 1e6).toFixed(3)} × 10⁻⁶ + ${Kcs} × ${L.toFixed(0)}² × ${(shrinkageCurvature * 1e6).toFixed(3)} × 10⁻⁶ = ${totalDeflection.toFixed(1)} mm
+Post-construction = a - a(short, dead) = ${postConstructionDeflection.toFixed(1)} mm`,
+    result: `Total = ${totalDeflection.toFixed(1)} mm ${totalOK ? '≤' : '>'} L/250 = ${totalLimit.toFixed(1)} mm
+Post-construction = ${postConstructionDeflection.toFixed(1)} mm ${postOK ? '≤' : '>'} min(L/500, 20) = ${postConstructionLimit.toFixed(1)} mm`,
+    isCheck: true,
+    checkPassed: status === 'safe',
+    status,
+    explanation: status === 'safe'
+      ? "Calculated deflections within BS8110-2 Cl. 3.2.1 limits ✓"
+      : "Calculated deflection exceeds the limits - increase depth or stiffness",
+    bsReference: "BS8110-2 Cl. 3.7, Table 3.1, Cl. 3.2.1"
+  });
+
+  if (!totalOK) {
+    failureReasons.push(`Calculated deflection ${totalDeflection.toFixed(1)} mm exceeds span/250 = ${totalLimit.toFixed(1)} mm`);
+  }
+  if (!postOK) {
+    failureReasons.push(`Post-construction deflection ${postConstructionDeflection.toFixed(1)} mm exceeds ${postConstructionLimit.toFixed(1)} mm (span/500 or 20 mm)`);
+  }
+
+  return {
+    loadFactor: K,
+    shrinkageFactor: Kcs,
+    shortTermModulus,
+    longTermModulus,
+    longTermCurvature: longTerm.value,
+    shortTermCurvature: shortTermTotal.value,
+    shortTermPermanentCurvature: shortTermPermanent.value,
+    shrinkageCurvature,
+    totalDeflection,
+    postConstructionDeflection,
+    totalLimit,
+    postConstructionLimit,
+    status,
+    steps,
+    failureReasons
+  };
+}
@@ -0,0 +1,303 @@
+// Continuous beam analysis - direct stiffness method (slope-deflection)
+// Supports are knife-edge (no settlement), outer supports pinned. Moments hogging positive at supports.
+// End cantilevers are statically determinate and apply their root moment to the end joints.
+
+import {
+  analyseCantilever,
+  analyseSpanWithEndMoments,
+  fixedEndMoments,
+  type AppliedLoad,
+  type SpanAnalysisResult
+} from "./beamAnalysis";
+
+export interface AnalysisSpan {
+  length: number; // m
+  loads: AppliedLoad[];
+  inertia?: number; // relative second moment of area (default 1)
+}
+
+export interface Cantilevers<T> {
+  left?: T;
+  right?: T;
+}
+
+export interface ContinuousAnalysisResult {
+  stiffness: number[]; // relative member stiffness k = I/L per span
+  fixedEndMoments: { left: number; right: number }[]; // kNm (hogging +)
+  rotations: number[]; // EI·θ at each support (kNm²)
+  supportMoments: number[]; // kNm (hogging +), one per support
+  spans: SpanAnalysisResult[];
+  cantilevers: Cantilevers<SpanAnalysisResult>; // x measured from the left end of each member
+}
+
+// Left-hand cantilever: free at x = 0 and fixed at x = L (mirror of analyseCantilever)
+function analyseLeftCantilever(length: number, loads: AppliedLoad[]): SpanAnalysisResult {
+  const mirrored: AppliedLoad[] = loads.map(load => load.type === 'point'
+    ? { ...load, position: length - load.position }
+    : { ...load, start: length - load.end, end: length - load.start, startValue: load.endValue, endValue: load.startValue }
+  );
+  const result = analyseCantilever(length, mirrored);
+  return {
+    ...result,
+    points: result.points.map(p => ({ x: length - p.x, moment: p.moment, shear: -p.shear })).reverse(),
+    reactionLeft: 0,
+    reactionRight: result.reactionLeft,
+    endMomentLeft: 0,
+    endMomentRight: result.endMomentLeft,
+    maxSaggingAt: length - result.maxSaggingAt,
+    maxHoggingAt: length - result.maxHoggingAt,
+    maxShearAt: length - result.maxShearAt
+  };
+}
+
+// Gaussian elimination with partial pivoting for the (small) joint stiffness matrix
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+// Member end moments (clockwise +) for span i from the slope-deflection equations:
+// MAB = -FEMA + k(4θA + 2θB), MBA = FEMB + k(2θA + 4θB)
+// Joint equilibrium ΣM = 0 at every support gives K·θ = F, solved for the rotations.
+// A cantilever root moment Mc enters the end joint as an applied moment.
+export function analyseContinuousBeam(spans: AnalysisSpan[], cantilevers: Cantilevers<AnalysisSpan> = {}): ContinuousAnalysisResult {
+  const n = spans.length;
+  const stiffness = spans.map(span => (span.inertia ?? 1) / span.length);
+  const fems = spans.map(span => fixedEndMoments(span.length, span.loads));
+
+  const K = Array.from({ length: n + 1 }, () => new Array(n + 1).fill(0));
+  const F = new Array(n + 1).fill(0);
+  stiffness.forEach((k, i) => {
+    K[i][i] += 4 * k;
+    K[i + 1][i + 1] += 4 * k;
+    K[i][i + 1] += 2 * k;
+    K[i + 1][i] += 2 * k;
+    F[i] += fems[i].left;
+    F[i + 1] -= fems[i].right;
+  });
+
+  const cantileverResults: Cantilevers<SpanAnalysisResult> = {
+    left: cantilevers.left ? analyseLeftCantilever(cantilevers.left.length, cantilevers.left.loads) : undefined,
+    right: cantilevers.right ? analyseCantilever(cantilevers.right.length, cantilevers.right.loads) : undefined
+  };
+  F[0] -= cantileverResults.left?.endMomentRight ?? 0;
+  F[n] += cantileverResults.right?.endMomentLeft ?? 0;
+
+  const rotations = solveLinearSystem(K, F);
+
+  // Hogging moment at each support, taken from the member on its left (or right at support 0)
+  const supportMoments = rotations.map((_, j) => {
+    const moment = j === 0
+      ? fems[0].left - stiffness[0] * (4 * rotations[0] + 2 * rotations[1])
+      : fems[j - 1].right + stiffness[j - 1] * (2 * rotations[j - 1] + 4 * rotations[j]);
+    return Math.abs(moment) < 1e-9 ? 0 : moment;
+  });
+
+  const spanResults = spans.map((span, i) =>
+    analyseSpanWithEndMoments(span.length, span.loads, supportMoments[i], supportMoments[i + 1])
+  );
+
+  return {
+    stiffness,
+    fixedEndMoments: fems,
+    rotations,
+    supportMoments,
+    spans: spanResults,
+    cantilevers: cantileverResults
+  };
+}
+
+export interface PatternLoadSpan {
+  length: number; // m
+  maxLoads: AppliedLoad[]; // 1.4Gk + 1.6Qk
+  minLoads: AppliedLoad[]; // 1.0Gk
+  inertia?: number;
+}
+
+export interface LoadCase {
+  name: string;
+  loaded: boolean[]; // spans carrying the maximum design load
+  cantileverLoaded: { left: boolean; right: boolean };
+}
+
+export interface LoadCaseResult extends LoadCase {
+  elastic: ContinuousAnalysisResult;
+  analysis: ContinuousAnalysisResult; // after redistribution (same as elastic when none)
+}
+
+export interface EnvelopePoint {
+  x: number; // m
+  maxMoment: number; // kNm (sagging +)
+  minMoment: number; // kNm
+  maxShear: number; // kN
+  minShear: number; // kN
+}
+
+// Envelope value with the load case producing it
+export interface GoverningValue {
+  value: number;
+  case: string;
+}
+
+export interface SpanEnvelope {
+  points: EnvelopePoint[];
+  sagging: GoverningValue & { at: number }; // kNm, m
+  hoggingLeft: GoverningValue; // kNm
+  hoggingRight: GoverningValue; // kNm
+  shearLeft: GoverningValue; // kN
+  shearRight: GoverningValue; // kN
+}
+
+export interface MomentEnvelope {
+  supportMoments: GoverningValue[]; // kNm (hogging +), one per support
+  spans: SpanEnvelope[];
+  cantilevers: Cantilevers<SpanEnvelope>;
+}
+
+export interface PatternLoadingResult extends MomentEnvelope {
+  cases: LoadCaseResult[];
+  redistribution: number; // ratio of support moment removed (0 - 0.3)
+  elastic: MomentEnvelope; // before redistribution
+}
+
+// BS8110 Cl. 3.2.1.2.2 - all spans loaded, and alternate spans loaded with the
+// remainder carrying the minimum design load. Cantilevers alternate with the spans
+// next to them, so the minimum cantilever load accompanies the maximum end-span load.
+export function generateLoadCases(numSpans: number): LoadCase[] {
+  const alternate = (name: string, parity: number): LoadCase => ({
+    name,
+    loaded: Array.from({ length: numSpans }, (_, i) => i % 2 === parity),
+    cantileverLoaded: { left: parity === 1, right: numSpans % 2 === parity }
+  });
+  return [
+    { name: 'All spans loaded', loaded: new Array(numSpans).fill(true), cantileverLoaded: { left: true, right: true } },
+    alternate('Odd spans loaded', 0),
+    alternate('Even spans loaded', 1)
+  ];
+}
+
+function governing(values: number[], cases: LoadCaseResult[]): GoverningValue {
+  const index = values.reduce((best, v, i) => v > values[best] + 1e-9 ? i : best, 0);
+  return { value: values[index], case: cases[index].name };
+}
+
+// Cl. 3.2.2 - cap each support moment at the reduced envelope value and restore
+// equilibrium of each span with the new end moments. Cantilever moments are not redistributed.
+function redistribute(result: ContinuousAnalysisResult, spans: AnalysisSpan[], caps: number[]): ContinuousAnalysisResult {
+  if (result.supportMoments.every((m, j) => m <= caps[j])) return result;
+  const supportMoments = result.supportMoments.map((m, j) => Math.min(m, caps[j]));
+  return {
+    ...result,
+    supportMoments,
+    spans: spans.map((span, i) => analyseSpanWithEndMoments(span.length, span.loads, supportMoments[i], supportMoments[i + 1]))
+  };
+}
+
+function envelopeOfMember(
+  results: SpanAnalysisResult[],
+  cases: LoadCaseResult[],
+  hoggingLeft: GoverningValue,
+  hoggingRight: GoverningValue
+): SpanEnvelope {
+  const points = results[0].points.map((point, k) => {
+    const moments = results.map(r => r.points[k]?.moment ?? point.moment);
+    const shears = results.map(r => r.points[k]?.shear ?? point.shear);
+    return {
+      x: point.x,
+      maxMoment: Math.max(...moments),
+      minMoment: Math.min(...moments),
+      maxShear: Math.max(...shears),
+      minShear: Math.min(...shears)
+    };
+  });
+  const sagging = governing(results.map(r => r.maxSagging), cases);
+
+  return {
+    points,
+    sagging: { ...sagging, at: results[cases.findIndex(c => c.name === sagging.case)].maxSaggingAt },
+    hoggingLeft,
+    hoggingRight,
+    shearLeft: governing(results.map(r => Math.abs(r.reactionLeft)), cases),
+    shearRight: governing(results.map(r => Math.abs(r.reactionRight)), cases)
+  };
+}
+
+function envelopeOf(cases: LoadCaseResult[], pick: (loadCase: LoadCaseResult) => ContinuousAnalysisResult): MomentEnvelope {
+  const supportMoments = pick(cases[0]).supportMoments.map((_, j) =>
+    governing(cases.map(c => pick(c).supportMoments[j]), cases)
+  );
+  const free: GoverningValue = { value: 0, case: cases[0].name };
+  const last = supportMoments.length - 1;
+  const { left, right } = pick(cases[0]).cantilevers;
+
+  return {
+    supportMoments,
+    spans: pick(cases[0]).spans.map((_, i) =>
+      envelopeOfMember(cases.map(c => pick(c).spans[i]), cases, supportMoments[i], supportMoments[i + 1])
+    ),
+    cantilevers: {
+      left: left ? envelopeOfMember(cases.map(c => pick(c).cantilevers.left!), cases, free, supportMoments[0]) : undefined,
+      right: right ? envelopeOfMember(cases.map(c => pick(c).cantilevers.right!), cases, supportMoments[last], free) : undefined
+    }
+  };
+}
+
+// Analyse every load arrangement, redistribute, and take the envelope of moments and shears.
+// Support moments are reduced to (1 - redistribution) × the elastic envelope, so load cases
+// with smaller support moments (and the span moments they govern) are unchanged.
+export function analysePatternLoading(
+  spans: PatternLoadSpan[],
+  redistribution = 0,
+  cantilevers: Cantilevers<PatternLoadSpan> = {}
+): PatternLoadingResult {
+  const caseMember = (member: PatternLoadSpan, loaded: boolean): AnalysisSpan => ({
+    length: member.length,
+    loads: loaded ? member.maxLoads : member.minLoads,
+    inertia: member.inertia
+  });
+  const elasticCases = generateLoadCases(spans.length).map(loadCase => {
+    const caseSpans = spans.map((span, i) => caseMember(span, loadCase.loaded[i]));
+    const elastic = analyseContinuousBeam(caseSpans, {
+      left: cantilevers.left && caseMember(cantilevers.left, loadCase.cantileverLoaded.left),
+      right: cantilevers.right && caseMember(cantilevers.right, loadCase.cantileverLoaded.right)
+    });
+    return { ...loadCase, caseSpans, elastic, analysis: elastic };
+  });
+  const elastic = envelopeOf(elasticCases, c => c.elastic);
+  const last = spans.length;
+  const caps = elastic.supportMoments.map((m, j) =>
+    (j === 0 && cantilevers.left) || (j === last && cantilevers.right) ? Infinity : m.value * (1 - redistribution)
+  );
+
+  const cases: LoadCaseResult[] = elasticCases.map(({ caseSpans, ...loadCase }) => ({
+    ...loadCase,
+    analysis: redistribution > 0 ? redistribute(loadCase.elastic, caseSpans, caps) : loadCase.elastic
+  }));
+
+  return {
+    cases,
+    redistribution,
+    elastic,
+    ...envelopeOf(cases, c => c.analysis)
+  };
+}
@@ -1,21 +1,65 @@
 // Continuous Beam Design Module - BS 8110
 // This module EXTENDS the existing MVP without replacing any functionality
 
+import {
+  designFlangedSection,
+  getFlangedBasicRatioFactor,
+  getFlangedMinSteelRatio,
+  getEffectiveFlangeWidth,
+  sectionTypeLabels,
+  type SectionType
+} from "./flangedSection";
+import { calculateAnchorage, calculateCurtailment, type AnchorageResult, type CurtailmentPoint } from "./anchorage";
+import { calculateDeflection, getTensionModificationFactor, type CalculatedDeflectionResult, type DeflectionSettings } from "./calculatedDeflection";
+import { checkDurability, type DurabilityResult, type ExposureCondition, type FireResistancePeriod } from "./durability";
+import { getNeutralAxisRatio, getRedistributionLimits, MAX_REDISTRIBUTION } from "./redistribution";
+import { totalLoad, type AppliedLoad, type SpanAnalysisResult } from "./beamAnalysis";
+import { getLoadPositionError, type BeamLoad, type ProvidedBars } from "./beamCalculations";
+import { continuousBeamDiagram, grossFlexuralRigidity, type ContinuousDiagramMember, type MemberDiagram } from "./diagrams";
+import {
+  analyseContinuousBeam,
+  analysePatternLoading,
+  type AnalysisSpan,
+  type Cantilevers,
+  type LoadCaseResult,
+  type SpanEnvelope
+} from "./continuousAnalysis";
+
 export interface ContinuousBeamSpan {
   length: number; // m
-  deadLoad: number; // kN/m
-  liveLoad: number; // kN/m
+  deadLoad: number; // kN/m (full-length UDL)
+  liveLoad: number; // kN/m (full-length UDL)
+  width?: number; // mm (overrides the beam width, e.g. transfer bays)
+  beamDepth?: number; // mm (overrides the overall depth)
+  effectiveDepth?: number; // mm (overrides the effective depth)
+  loads?: BeamLoad[]; // point loads and partial UDLs, positioned from the left support (from the root for cantilevers)
+}
+
+// Section of one member - the beam section unless the span overrides it
+export interface MemberSection {
+  width: number; // mm
+  beamDepth: number; // mm
+  effectiveDepth: number; // mm
 }
 
 export interface ContinuousBeamInput {
   spans: ContinuousBeamSpan[];
+  leftCantilever?: ContinuousBeamSpan; // overhang beyond the first support (omit for none)
+  rightCantilever?: ContinuousBeamSpan; // overhang beyond the last support (omit for none)
   fcu: number; // N/mm²
   fy: number; // N/mm²
-  width: number; // mm
+  sectionType: SectionType;
+  width: number; // mm (web width bw for flanged sections)
   effectiveDepth: number; // mm
   cover: number; // mm
+  flangeThickness: number; // mm (hf, flanged sections only)
+  flangeWidthLimit: number; // mm (available flange width; 0 = no limit)
   includeSelfWeight: boolean;
   beamDepth: number; // mm (for self-weight)
+  deflectionSettings: DeflectionSettings; // calculated deflection (BS8110-2) alongside span/depth
+  exposure: ExposureCondition; // Table 3.3
+  fireResistance: FireResistancePeriod; // hours (Tables 3.4 & 3.5)
+  redistribution: number; // % reduction of support moments (Cl. 3.2.2, max 30)
 }
 
 export interface CalculationStep {
@@ -30,26 +74,78 @@ export interface CalculationStep {
   bsReference?: string;
 }
 
+// Bending design of one critical section (support or span)
+export interface SectionDesign {
+  location: string;
+  tensionFace: 'top' | 'bottom';
+  moment: number; // kNm
+  width: number; // mm (compression width)
+  effectiveDepth: number; // mm
+  K: number;
+  kPrime: number;
+  leverArm: number; // mm
+  tensionSteel: number; // mm²
+  compressionSteel: number; // mm² (opposite face)
+  isDoublyReinforced: boolean;
+}
+
 export interface SpanResult {
   spanIndex: number;
   length: number;
-  ultimateLoad: number;
+  section: MemberSection;
+  ultimateLoad: number; // kN/m (full-length UDL)
+  totalLoad: number; // kN (ultimate, including point loads and partial UDLs)
   positiveMoment: number;
+  positiveMomentAt: number; // m from the left support
   negativeMomentLeft: number;
   negativeMomentRight: number;
+  momentsBeforeRedistribution: { positive: number; left: number; right: number }; // kNm (elastic envelope)
   shearLeft: number;
   shearRight: number;
+  effectiveFlangeWidth?: number; // mm (sagging region of flanged sections)
   tensionSteel: number;
   compressionSteel: number;
+  sections: SectionDesign[]; // left support, span, right support
+  topSteelRequired: number; // mm² (hogging tension or sagging compression, whichever is greater)
+  bottomSteelRequired: number; // mm² (sagging tension or hogging compression, whichever is greater)
   linkSize: number;
   linkSpacing: number;
   topSteel?: string;
   bottomSteel?: string;
+  topBars?: ProvidedBars; // bars selected for topSteel
+  bottomBars?: ProvidedBars; // bars selected for bottomSteel
+  curtailment: CurtailmentPoint[];
+  modificationFactor: number; // Table 3.10, from the mid-span M/bd² and bottom As,req/As,prov
+  calculatedDeflection?: { total: number; postConstruction: number; status: 'safe' | 'unsafe' };
+  envelope: SpanEnvelope; // ultimate BMD/SFD envelope of the pattern load cases
+}
+
+export interface CantileverResult {
+  side: 'left' | 'right';
+  length: number; // m
+  section: MemberSection;
+  ultimateLoad: number; // kN/m (full-length UDL)
+  totalLoad: number; // kN (ultimate)
+  supportMoment: number; // kNm (hogging at the root)
+  shear: number; // kN (at the root)
+  topSteelRequired: number; // mm²
+  topSteel: string;
+  topBars?: ProvidedBars;
+  linkSize: number;
+  linkSpacing: number;
+  spanDepthRatio: number;
+  modificationFactor: number; // Table 3.10, from the root M/bd² and As,req/As,prov
+  allowableSpanDepthRatio: number;
+  deflectionStatus: 'safe' | 'unsafe';
+  calculatedDeflection?: { total: number; postConstruction: number; status: 'safe' | 'unsafe' };
+  envelope: SpanEnvelope;
 }
 
 export interface ContinuousBeamResult {
   steps: CalculationStep[];
   spanResults: SpanResult[];
+  cantileverResults: CantileverResult[];
+  diagram?: MemberDiagram; // moment and shear envelopes with the deflected shape
   summary: {
     numberOfSpans: number;
     maxPositiveMoment: number;
@@ -68,17 +164,26 @@ export interface ContinuousBeamResult {
     liveLoad?: number;
     width?: number;
     effectiveDepth?: number;
+    cover?: number;
     fcu?: number;
     fy?: number;
     kValue?: number;
     leverArm?: number;
     shearStress?: number;
+    criticalShear?: { location: string; shear: number; width: number; effectiveDepth: number }; // member with the highest v
     vc?: number;
     actualSpanDepthRatio?: number;
     basicSpanDepthRatio?: number;
     modificationFactor?: number;
     allowableSpanDepthRatio?: number;
     barSuggestion?: string;
+    anchorage?: AnchorageResult;
+    durability?: DurabilityResult;
+    calculatedDeflection?: CalculatedDeflectionResult; // governing span
+    calculatedDeflectionSpan?: number;
+    redistribution?: number; // %
+    betaB?: number; // at the supports
+    kPrime?: number; // at the critical section
   };
 }
 
@@ -89,46 +194,6 @@ export interface DesignSuggestion {
   effectiveness: 'high' | 'medium' | 'low';
 }
 
-// BS8110 Table 3.5 - Moment coefficients for continuous beams (uniform loads, equal spans)
-const continuousMomentCoefficients = {
-  2: {
-    support: [-0, -0.125, -0],
-    midspan: [0.070, 0.070]
-  },
-  3: {
-    support: [-0, -0.100, -0.100, -0],
-    midspan: [0.080, 0.025, 0.080]
-  },
-  4: {
-    support: [-0, -0.107, -0.071, -0.107, -0],
-    midspan: [0.077, 0.036, 0.036, 0.077]
-  },
-  5: {
-    support: [-0, -0.105, -0.079, -0.079, -0.105, -0],
-    midspan: [0.078, 0.033, 0.046, 0.033, 0.078]
-  }
-};
-
-// BS8110 Table 3.5 - Shear coefficients for continuous beams
-const continuousShearCoefficients = {
-  2: {
-    left: [0.375, 0.625],
-    right: [0.625, 0.375]
-  },
-  3: {
-    left: [0.400, 0.500, 0.600],
-    right: [0.600, 0.500, 0.400]
-  },
-  4: {
-    left: [0.393, 0.536, 0.464, 0.607],
-    right: [0.607, 0.464, 0.536, 0.393]
-  },
-  5: {
-    left: [0.395, 0.526, 0.500, 0.474, 0.605],
-    right: [0.605, 0.474, 0.500, 0.526, 0.395]
-  }
-};
-
 // Calculate permissible shear stress vc (BS8110 Table 3.8)
 function calculateVc(As: number, b: number, d: number, fcu: number): number {
   const ratio = Math.min((100 * As) / (b * d), 3);
@@ -158,8 +223,8 @@ function calculateLinkSpacing(v: number, vc: number, b: number, d: number, fy: n
   return { size: 12, spacing: 100 };
 }
 
-// Bar selection helper
-function suggestBars(area: number): string {
+// Bar selection helper - smallest bar size giving at most 5 bars
+function selectBarSize(area: number): { count: number; dia: number; area: number } | undefined {
   const options = [
     { dia: 12, area: 113 },
     { dia: 16, area: 201 },
@@ -171,10 +236,61 @@ function suggestBars(area: number): string {
   for (const bar of options) {
     const count = Math.ceil(area / bar.area);
     if (count <= 5) {
-      return `${count}T${bar.dia} (${(count * bar.area).toFixed(0)} mm²)`;
+      return { count, dia: bar.dia, area: count * bar.area };
     }
   }
-  return "Use 2 layers or larger bars";
+  return undefined;
+}
+
+function suggestBars(area: number): string {
+  const bars = selectBarSize(area);
+  return bars ? `${bars.count}T${bars.dia} (${bars.area.toFixed(0)} mm²)` : "Use 2 layers or larger bars";
+}
+
+function providedBars(area: number): ProvidedBars | undefined {
+  const bars = selectBarSize(area);
+  return bars && { count: bars.count, diameter: bars.dia };
+}
+
+// Practical upper limit on K for doubly reinforced sections
+const K_MAX = 0.225;
+
+// Rectangular section design (Cl. 3.4.4.4) - compression steel where K > K'
+function designRectangularSection(
+  location: string,
+  tensionFace: 'top' | 'bottom',
+  moment: number,
+  width: number,
+  d: number,
+  dPrime: number,
+  fcu: number,
+  fy: number,
+  kPrime: number
+): SectionDesign {
+  const M_Nmm = moment * 1e6;
+  const K = M_Nmm / (width * d * d * fcu);
+  const isDoublyReinforced = K > kPrime;
+  const leverArm = Math.min(d * (0.5 + Math.sqrt(0.25 - Math.min(K, kPrime) / 0.9)), 0.95 * d);
+
+  if (!isDoublyReinforced) {
+    return { location, tensionFace, moment, width, effectiveDepth: d, K, kPrime, leverArm, tensionSteel: M_Nmm / (0.87 * fy * leverArm), compressionSteel: 0, isDoublyReinforced };
+  }
+
+  const MLimit = kPrime * width * d * d * fcu;
+  const compressionSteel = (M_Nmm - MLimit) / (0.87 * fy * (d - dPrime));
+  return {
+    location,
+    tensionFace,
+    moment,
+    width,
+    effectiveDepth: d,
+    K,
+    kPrime,
+    leverArm,
+    tensionSteel: MLimit / (0.87 * fy * leverArm) + compressionSteel,
+    compressionSteel,
+    isDoublyReinforced
+  };
 }
 
 // Generate design suggestions when design fails
@@ -237,6 +353,30 @@ export function generateDesignSuggestions(
         });
         break;
         
+      case 'calculated-deflection':
+        suggestions.push({
+          priority: 1,
+          action: `Increase beam depth from ${input.beamDepth}mm to ${Math.ceil(input.beamDepth * 1.2 / 25) * 25}mm`,
+          reason: `Calculated deflection exceeds the limit by ${((failure.value / failure.limit - 1) * 100).toFixed(0)}%`,
+          effectiveness: 'high'
+        });
+        break;
+
+      case 'cantilever-deflection':
+        suggestions.push({
+          priority: 1,
+          action: `Increase beam depth from ${input.beamDepth}mm to ${Math.ceil(input.beamDepth * 1.2 / 25) * 25}mm`,
+          reason: `Cantilever deflection exceeds the limit by ${((failure.value / failure.limit - 1) * 100).toFixed(0)}%`,
+          effectiveness: 'high'
+        });
+        suggestions.push({
+          priority: 3,
+          action: 'Reduce the cantilever length',
+          reason: 'Cantilever deflection increases with the fourth power of its length',
+          effectiveness: 'medium'
+        });
+        break;
+
       case 'reinforcement':
         suggestions.push({
           priority: 1,
@@ -279,18 +419,13 @@ export function calculateContinuousBeamDesign(input: ContinuousBeamInput): Conti
   
   const gamma_dead = 1.4;
   const gamma_live = 1.6;
-  const K_prime = 0.156;
   
-  // Validate number of spans
-  if (numSpans < 2 || numSpans > 5) {
-    steps.push({
-      title: "Error",
-      result: `Continuous beam analysis supports 2-5 spans. You entered ${numSpans} spans.`,
-      status: 'unsafe'
-    });
+  const invalidInput = (message: string, ...failureReasons: string[]): ContinuousBeamResult => {
+    steps.push({ title: "Error", result: message, status: 'unsafe' });
     return {
       steps,
       spanResults: [],
+      cantileverResults: [],
       summary: {
         numberOfSpans: numSpans,
         maxPositiveMoment: 0,
@@ -301,198 +436,646 @@ export function calculateContinuousBeamDesign(input: ContinuousBeamInput): Conti
         designValid: false,
         shearStatus: 'unsafe',
         deflectionStatus: 'unsafe',
-        failureReasons: ['Invalid number of spans']
+        failureReasons
       }
     };
+  };
+
+  // Validate number of spans
+  if (numSpans < 2) {
+    return invalidInput(
+      `Continuous beam analysis requires at least 2 spans. You entered ${numSpans} span${numSpans === 1 ? '' : 's'}.`,
+      'Invalid number of spans'
+    );
+  }
+
+  // Section of each member - span overrides fall back to the beam section. An overridden depth
+  // without its own d keeps the beam's cover + link + φ/2 (h - d of the beam section).
+  const sectionOf = (member: ContinuousBeamSpan): MemberSection => ({
+    width: member.width || input.width,
+    beamDepth: member.beamDepth || input.beamDepth,
+    effectiveDepth: member.effectiveDepth
+      || (member.beamDepth ? member.beamDepth - (input.beamDepth - input.effectiveDepth) : input.effectiveDepth)
+  });
+  const spanSections = input.spans.map(sectionOf);
+
+  // Validate member sections - the effective depth must lie within the overall depth
+  const invalidSection = [
+    { label: 'Beam section', section: { width: input.width, beamDepth: input.beamDepth, effectiveDepth: input.effectiveDepth } },
+    ...input.spans.map((span, i) => ({ label: `Span ${i + 1}`, section: sectionOf(span) })),
+    ...[input.leftCantilever && { label: 'Left cantilever', section: sectionOf(input.leftCantilever) },
+      input.rightCantilever && { label: 'Right cantilever', section: sectionOf(input.rightCantilever) }].filter(Boolean)
+  ].find(({ section }) => !(section.effectiveDepth > 0 && section.effectiveDepth < section.beamDepth));
+  if (invalidSection) {
+    const { label, section } = invalidSection;
+    return invalidInput(
+      `${label}: effective depth d = ${section.effectiveDepth} mm must be greater than 0 and less than the overall depth h = ${section.beamDepth} mm.`,
+      `${label} effective depth d = ${section.effectiveDepth} mm is outside 0 < d < h = ${section.beamDepth} mm`
+    );
+  }
+
+  // Validate load positions - every load must lie on its own member
+  const loadErrors = [
+    ...input.spans.map((span, i) => ({ label: `Span ${i + 1}`, member: span, noun: 'span' })),
+    ...[input.leftCantilever && { label: 'Left cantilever', member: input.leftCantilever, noun: 'cantilever' },
+      input.rightCantilever && { label: 'Right cantilever', member: input.rightCantilever, noun: 'cantilever' }].filter(Boolean)
+  ].flatMap(({ label, member, noun }) => (member.loads ?? []).flatMap((load, i) => {
+    const error = getLoadPositionError(load, member.length, noun);
+    return error ? [`${label} load ${i + 1}: ${error}`] : [];
+  }));
+  if (loadErrors.length > 0) {
+    return invalidInput(
+      `Loads must lie on their member (0 ≤ x and x + loaded length ≤ L, measured from the root for cantilevers):\n${loadErrors.join('\n')}`,
+      ...loadErrors
+    );
   }
 
   // Step 1: Beam Declaration
   steps.push({
     title: "CONTINUOUS BEAM DECLARATION",
-    result: `Number of Spans: ${numSpans}
-Beam Section: ${input.width}mm × ${input.beamDepth}mm
-Effective Depth: ${input.effectiveDepth}mm
+    result: `Number of Spans: ${numSpans}${input.leftCantilever || input.rightCantilever ? `
+Cantilevers: ${[input.leftCantilever && `left ${input.leftCantilever.length} m`, input.rightCantilever && `right ${input.rightCantilever.length} m`].filter(Boolean).join(', ')}` : ''}
+Beam Section: ${input.width}mm × ${input.beamDepth}mm${input.sectionType !== 'rectangular' ? ` ${sectionTypeLabels[input.sectionType]} (hf = ${input.flangeThickness}mm)` : ''}
+Effective Depth: ${input.effectiveDepth}mm${input.spans.map((span, i) => ({ span, i })).filter(({ span }) => span.width || span.beamDepth || span.effectiveDepth).map(({ span, i }) => {
+  const section = sectionOf(span);
+  return `\nSpan ${i + 1}: ${section.width}mm × ${section.beamDepth}mm, d = ${section.effectiveDepth}mm`;
+}).join('')}
 Concrete: C${input.fcu}, Steel: Grade ${input.fy}`,
-    explanation: "Design in accordance with BS 8110-1:1997 Table 3.5",
-    bsReference: "BS8110 Table 3.5",
+    explanation: "Elastic analysis by the stiffness method, design in accordance with BS 8110-1:1997",
+    bsReference: "BS8110 Cl. 3.2.1",
     status: 'safe'
   });
 
   // Step 2: Calculate ultimate loads for each span
   const ultimateLoads: number[] = [];
-  let selfWeight = 0;
-  
-  if (input.includeSelfWeight) {
-    // Concrete density ≈ 25 kN/m³
-    selfWeight = (input.width / 1000) * (input.beamDepth / 1000) * 25;
-  }
+
+  // Self-weight of each member from its own section - concrete density ≈ 25 kN/m³
+  const selfWeightOf = (member: ContinuousBeamSpan) => {
+    const section = sectionOf(member);
+    return input.includeSelfWeight ? (section.width / 1000) * (section.beamDepth / 1000) * 25 : 0;
+  };
+
+  // Full-length UDL factored by γG and γQ
+  const udlOf = (member: ContinuousBeamSpan, gammaG: number, gammaQ: number) =>
+    gammaG * (member.deadLoad + selfWeightOf(member)) + gammaQ * member.liveLoad;
+
+  // All loads on a member in analysis coordinates. Left cantilevers run from the free end,
+  // so their loads (positioned from the root) are mirrored.
+  const memberLoads = (member: ContinuousBeamSpan, gammaG: number, gammaQ: number, fromRight = false): AppliedLoad[] => {
+    const w = udlOf(member, gammaG, gammaQ);
+    const at = (x: number) => fromRight ? member.length - x : x;
+    const loads: AppliedLoad[] = [{ type: 'distributed', start: 0, end: member.length, startValue: w, endValue: w }];
+    (member.loads ?? []).forEach(load => {
+      const w1 = gammaG * load.deadLoad + gammaQ * load.liveLoad;
+      if (load.type === 'point') {
+        loads.push({ type: 'point', position: at(load.position), value: w1 });
+        return;
+      }
+      const end = load.position + load.length;
+      const w2 = load.type === 'trapezoidal' ? gammaG * load.deadLoadEnd + gammaQ * load.liveLoadEnd : w1;
+      loads.push(fromRight
+        ? { type: 'distributed', start: at(end), end: at(load.position), startValue: w2, endValue: w1 }
+        : { type: 'distributed', start: load.position, end, startValue: w1, endValue: w2 });
+    });
+    return loads;
+  };
+
+  const describeLoads = (member: ContinuousBeamSpan) => (member.loads ?? []).map(load => {
+    const ultimate = 1.4 * load.deadLoad + 1.6 * load.liveLoad;
+    if (load.type === 'point') {
+      return `\n  + Point load at x = ${load.position} m: 1.4 × ${load.deadLoad} + 1.6 × ${load.liveLoad} = ${ultimate.toFixed(2)} kN`;
+    }
+    const range = `${load.position} - ${load.position + load.length} m`;
+    return load.type === 'trapezoidal'
+      ? `\n  + Trapezoidal load ${range}: ${ultimate.toFixed(2)} → ${(1.4 * load.deadLoadEnd + 1.6 * load.liveLoadEnd).toFixed(2)} kN/m`
+      : `\n  + Partial UDL ${range}: 1.4 × ${load.deadLoad} + 1.6 × ${load.liveLoad} = ${ultimate.toFixed(2)} kN/m`;
+  }).join('');
+
+  const cantileverMembers = ([
+    { side: 'left', label: 'Left', member: input.leftCantilever },
+    { side: 'right', label: 'Right', member: input.rightCantilever }
+  ] as { side: 'left' | 'right'; label: string; member?: ContinuousBeamSpan }[])
+    .filter(c => c.member !== undefined && c.member.length > 0) as { side: 'left' | 'right'; label: string; member: ContinuousBeamSpan }[];
+  const cantileversFor = (gammaG: number, gammaQ: number): Cantilevers<AnalysisSpan> => Object.fromEntries(
+    cantileverMembers.map(({ side, member }) => [side, { length: member.length, loads: memberLoads(member, gammaG, gammaQ, side === 'left') }])
+  );
 
   steps.push({
     title: "Step 1: Ultimate Design Loads",
     formula: "w = 1.4(Gk + SW) + 1.6Qk",
     substitution: input.spans.map((span, i) => {
-      const totalDead = span.deadLoad + (input.includeSelfWeight ? selfWeight : 0);
-      const ultimateLoad = gamma_dead * totalDead + gamma_live * span.liveLoad;
+      const ultimateLoad = udlOf(span, gamma_dead, gamma_live);
       ultimateLoads.push(ultimateLoad);
-      return `Span ${i + 1}: w = 1.4 × (${span.deadLoad} + ${selfWeight.toFixed(2)}) + 1.6 × ${span.liveLoad} = ${ultimateLoad.toFixed(2)} kN/m`;
-    }).join('\n'),
-    result: `Self-weight: ${selfWeight.toFixed(2)} kN/m
+      return `Span ${i + 1}: w = 1.4 × (${span.deadLoad} + ${selfWeightOf(span).toFixed(2)}) + 1.6 × ${span.liveLoad} = ${ultimateLoad.toFixed(2)} kN/m${describeLoads(span)}`;
+    }).concat(cantileverMembers.map(({ label, member }) =>
+      `${label} cantilever: w = 1.4 × (${member.deadLoad} + ${selfWeightOf(member).toFixed(2)}) + 1.6 × ${member.liveLoad} = ${udlOf(member, gamma_dead, gamma_live).toFixed(2)} kN/m${describeLoads(member)}`
+    )).join('\n'),
+    result: `${input.includeSelfWeight ? 'Self-weight = 25 × b × h of each member' : 'Self-weight not included'}
 Ultimate loads calculated for all spans`,
     bsReference: "BS8110 Cl. 2.4.3"
   });
 
-  // Get coefficients for this number of spans
-  const momentCoeffs = continuousMomentCoefficients[numSpans as keyof typeof continuousMomentCoefficients];
-  const shearCoeffs = continuousShearCoefficients[numSpans as keyof typeof continuousShearCoefficients];
-  
-  // Use average span for coefficient-based design
-  const avgSpan = input.spans.reduce((sum, s) => sum + s.length, 0) / numSpans;
-  const avgLoad = ultimateLoads.reduce((sum, w) => sum + w, 0) / numSpans;
+  // Step 1a-b: Durability and fire resistance (continuous beam)
+  const durability = checkDurability({
+    exposure: input.exposure,
+    fireResistance: input.fireResistance,
+    memberType: 'beam',
+    continuous: true,
+    fcu: input.fcu,
+    cover: input.cover,
+    width: Math.min(...input.spans.map(span => sectionOf(span).width))
+  });
+  durability.steps.forEach((step, i) => {
+    steps.push({ ...step, title: `Step 1${String.fromCharCode(97 + i)}: ${step.title}` });
+  });
 
-  // Step 3: Calculate support moments
-  const supportMoments: number[] = momentCoeffs.support.map((coeff, i) => {
-    return Math.abs(coeff) * avgLoad * avgSpan * avgSpan;
+  // Step 2: Stiffness analysis - each span with its own length, loads and stiffness.
+  // Second moment of area relative to the beam section (gross rectangular b·h³/12).
+  const spanInertias = spanSections.map(section =>
+    (section.width * Math.pow(section.beamDepth, 3)) / (input.width * Math.pow(input.beamDepth, 3))
+  );
+  const analysisSpans = (gammaG: number, gammaQ: number): AnalysisSpan[] => input.spans.map((span, i) => ({
+    length: span.length,
+    loads: memberLoads(span, gammaG, gammaQ),
+    inertia: spanInertias[i]
+  }));
+  const hasPartialLoads = [...input.spans, ...cantileverMembers.map(c => c.member)].some(member => (member.loads ?? []).length > 0);
+  const minimumLoads = input.spans.map(span => udlOf(span, 1.0, 0));
+  const maxSpans = analysisSpans(gamma_dead, gamma_live);
+  const minSpans = analysisSpans(1.0, 0);
+  const redistribution = Math.min(Math.max(input.redistribution || 0, 0), MAX_REDISTRIBUTION);
+  const maxCantilevers = cantileversFor(gamma_dead, gamma_live);
+  const minCantilevers = cantileversFor(1.0, 0);
+  const patternCantilever = (side: 'left' | 'right') => maxCantilevers[side] && {
+    length: maxCantilevers[side]!.length,
+    maxLoads: maxCantilevers[side]!.loads,
+    minLoads: minCantilevers[side]!.loads
+  };
+  const pattern = analysePatternLoading(maxSpans.map((span, i) => ({
+    length: span.length,
+    maxLoads: span.loads,
+    minLoads: minSpans[i].loads,
+    inertia: span.inertia
+  })), redistribution / 100, { left: patternCantilever('left'), right: patternCantilever('right') });
+  const analysis = pattern.cases[0].elastic;
+  const caseLoad = (loadCase: LoadCaseResult, i: number) => loadCase.loaded[i] ? ultimateLoads[i] : minimumLoads[i];
+
+  steps.push({
+    title: "Step 2: Support Moments (Stiffness Method)",
+    formula: `FEM = wL²/12 (UDL), Pab²/L² (point loads); k = I/L, I relative to ${input.width} × ${input.beamDepth}³/12
+Joint equilibrium ΣM = 0: K·θ = −FEM
+MBA = FEMBA + k(2θA + 4θB)`,
+    substitution: `All spans loaded:
+${input.spans.map((span, i) => {
+  const fem = analysis.fixedEndMoments[i];
+  const femText = (span.loads ?? []).length === 0
+    ? `FEM = ${ultimateLoads[i].toFixed(2)} × ${span.length.toFixed(2)}²/12 = ${fem.left.toFixed(2)} kNm`
+    : `FEM = ${fem.left.toFixed(2)} / ${fem.right.toFixed(2)} kNm`;
+  return `Span ${i + 1}: k = ${spanInertias[i].toFixed(2)}/${span.length.toFixed(2)} = ${analysis.stiffness[i].toFixed(3)}, ${femText}`;
+}).join('\n')}
+Rotations EIθ: ${analysis.rotations.map(r => r.toFixed(2)).join(', ')} (outer supports pinned)${cantileverMembers.map(({ side, label, member }) => {
+  const root = side === 'left' ? analysis.supportMoments[0] : analysis.supportMoments[numSpans];
+  return (member.loads ?? []).length === 0
+    ? `\n${label} cantilever: Mc = wLc²/2 = ${udlOf(member, gamma_dead, gamma_live).toFixed(2)} × ${member.length.toFixed(2)}²/2 = ${root.toFixed(2)} kNm applied at the end joint`
+    : `\n${label} cantilever: Mc = ${root.toFixed(2)} kNm applied at the end joint`;
+}).join('')}`,
+    result: `Support Moments:
+${analysis.supportMoments.map((m, i) => `  Support ${i}: ${m.toFixed(2)} kNm`).join('\n')}`,
+    explanation: "Slope-deflection equations for each span assembled into the joint stiffness matrix and solved for the support rotations",
+    bsReference: "BS8110 Cl. 3.2.1.2"
   });
 
+  // Step 2a: Pattern loading - each arrangement analysed by the same stiffness method
   steps.push({
-    title: "Step 2: Support Moments",
-    formula: "M = β × w × L²",
-    substitution: `Using BS8110 Table 3.5 coefficients for ${numSpans}-span beam:
-${momentCoeffs.support.map((coeff, i) => 
-  `Support ${i}: β = ${coeff.toFixed(3)}, M = ${Math.abs(coeff).toFixed(3)} × ${avgLoad.toFixed(2)} × ${avgSpan.toFixed(2)}²`
+    title: "Step 2a: Pattern Loading",
+    formula: `Loaded spans: 1.4Gk + 1.6Qk, other spans: 1.0Gk${hasPartialLoads ? ' (point loads and partial UDLs factored with their span)' : ''}`,
+    substitution: pattern.cases.map(loadCase =>
+      `${loadCase.name}: w = ${input.spans.map((_, i) => caseLoad(loadCase, i).toFixed(2)).join(', ')} kN/m${cantileverMembers.map(({ side, label, member }) =>
+        `, ${label.toLowerCase()} cantilever ${(loadCase.cantileverLoaded[side] ? udlOf(member, gamma_dead, gamma_live) : udlOf(member, 1.0, 0)).toFixed(2)}`
+      ).join('')}`
+    ).join('\n'),
+    result: `Support Moments (kNm):
+${pattern.cases.map(loadCase =>
+  `  ${loadCase.name}: ${loadCase.elastic.supportMoments.map(m => m.toFixed(2)).join(', ')}`
 ).join('\n')}`,
-    result: `Support Moments:
-${supportMoments.map((m, i) => `  Support ${i}: ${m.toFixed(2)} kNm`).join('\n')}`,
-    bsReference: "BS8110 Table 3.5"
+    explanation: `Maximum and minimum load arrangements - design values are the envelope of all cases${redistribution > 0 ? ` after ${redistribution}% redistribution` : ''}`,
+    bsReference: "BS8110 Cl. 3.2.1.2.2"
   });
 
-  // Step 4: Calculate span moments
-  const spanMoments: number[] = momentCoeffs.midspan.map((coeff, i) => {
-    return coeff * avgLoad * avgSpan * avgSpan;
+  // Step 2b: Cl. 3.4.3 conditions for the Table 3.6 coefficients (reported only - the analysis governs)
+  const longestSpan = Math.max(...input.spans.map(s => s.length));
+  const shortestSpan = Math.min(...input.spans.map(s => s.length));
+  const spanVariation = (longestSpan - shortestSpan) / longestSpan;
+  const coefficientConditions = [
+    { label: `Uniformly distributed loads only`, met: !hasPartialLoads },
+    { label: `Qk ≤ Gk on every span`, met: input.spans.every(span =>
+      totalLoad(span.length, memberLoads(span, 0, 1)) <= totalLoad(span.length, memberLoads(span, 1, 0))
+    ) },
+    { label: `Three or more spans (${numSpans})`, met: numSpans >= 3 },
+    { label: `Span variation ${(spanVariation * 100).toFixed(1)}% ≤ 15% of longest span`, met: spanVariation <= 0.15 }
+  ];
+  const coefficientsPermitted = coefficientConditions.every(c => c.met);
+
+  steps.push({
+    title: "Step 2b: Table 3.6 Conditions",
+    formula: "Qk ≤ Gk, uniform loads on ≥ 3 spans, spans within 15% of the longest",
+    substitution: coefficientConditions.map(c => `${c.label}: ${c.met ? '✓' : '✗'}`).join('\n'),
+    result: coefficientsPermitted
+      ? "Table 3.6 coefficients permitted - stiffness analysis used"
+      : "Table 3.6 coefficients not permitted - stiffness analysis required",
+    explanation: "Moments and shears below are taken from the elastic analysis of the actual spans and loads",
+    bsReference: "BS8110 Cl. 3.4.3, Table 3.6",
+    status: 'safe'
   });
 
+  // Step 2c: Cantilever balancing - the minimum cantilever load governs the end-span sagging moment
+  if (cantileverMembers.length > 0) {
+    steps.push({
+      title: "Step 2c: Cantilever Balancing Moments",
+      formula: "Mc = wLc²/2 (maximum 1.4Gk + 1.6Qk, minimum 1.0Gk)",
+      substitution: cantileverMembers.map(({ side, label }) => {
+        const root = (loads: Cantilevers<AnalysisSpan>) => {
+          const result = analyseContinuousBeam(maxSpans, { [side]: loads[side] });
+          return side === 'left' ? result.supportMoments[0] : result.supportMoments[numSpans];
+        };
+        const endSpan = side === 'left' ? 0 : numSpans - 1;
+        return `${label}: Mc,max = ${root(maxCantilevers).toFixed(2)} kNm, Mc,min = ${root(minCantilevers).toFixed(2)} kNm
+  Span ${endSpan + 1} M+ = ${pattern.spans[endSpan].sagging.value.toFixed(2)} kNm (${pattern.spans[endSpan].sagging.case})`;
+      }).join('\n'),
+      result: cantileverMembers.map(({ side, label }) =>
+        `${label} support: M = ${pattern.supportMoments[side === 'left' ? 0 : numSpans].value.toFixed(2)} kNm`
+      ).join('\n'),
+      explanation: "Cantilever moments relieve the end-span sagging moment; the end span is checked with the cantilever carrying its minimum load",
+      bsReference: "BS8110 Cl. 3.2.1.2.2"
+    });
+  }
+
+  // Step 3: Envelope support and span moments
+  const supportMoments = pattern.supportMoments.map(m => m.value);
+  const spanMoments: number[] = pattern.spans.map(span => Math.max(span.sagging.value, 0));
+
   steps.push({
     title: "Step 3: Span Moments",
-    formula: "M = β × w × L²",
-    substitution: `${momentCoeffs.midspan.map((coeff, i) => 
-      `Span ${i + 1}: β = ${coeff.toFixed(3)}, M = ${coeff.toFixed(3)} × ${avgLoad.toFixed(2)} × ${avgSpan.toFixed(2)}²`
-    ).join('\n')}`,
-    result: `Mid-span Moments:
-${spanMoments.map((m, i) => `  Span ${i + 1}: ${m.toFixed(2)} kNm`).join('\n')}`
+    formula: "M(x) = M0(x) − MA(1 − x/L) − MB·x/L",
+    substitution: `${input.spans.map((span, i) => {
+      const loadCase = pattern.cases.find(c => c.name === pattern.spans[i].sagging.case)!;
+      const w = caseLoad(loadCase, i);
+      const result = loadCase.analysis.spans[i];
+      const free = (span.loads ?? []).length === 0
+        ? `M0 = ${w.toFixed(2)} × ${span.length.toFixed(2)}²/8 = ${(w * span.length * span.length / 8).toFixed(2)} kNm`
+        : `M+ = ${result.maxSagging.toFixed(2)} kNm at x = ${result.maxSaggingAt.toFixed(2)} m`;
+      return `Span ${i + 1} (${loadCase.name}): ${free}, MA = ${result.endMomentLeft.toFixed(2)}, MB = ${result.endMomentRight.toFixed(2)} kNm`;
+    }).join('\n')}`,
+    result: `Maximum Span Moments:
+${spanMoments.map((m, i) => `  Span ${i + 1}: ${m.toFixed(2)} kNm at x = ${pattern.spans[i].sagging.at.toFixed(2)} m`).join('\n')}
+Maximum Support Moments:
+${supportMoments.map((m, i) => `  Support ${i}: ${m.toFixed(2)} kNm`).join('\n')}`
   });
 
-  // Step 5: Calculate shear forces
-  const shearForces: { left: number; right: number }[] = [];
-  for (let i = 0; i < numSpans; i++) {
-    const span = input.spans[i];
-    const w = ultimateLoads[i];
-    shearForces.push({
-      left: shearCoeffs.left[i] * w * span.length,
-      right: shearCoeffs.right[i] * w * span.length
+  // Step 3a: Redistribution of the support moments (Cl. 3.2.2) - spans re-balanced for equilibrium
+  const betaB = 1 - redistribution / 100;
+  const supportLimits = getRedistributionLimits(betaB);
+  const spanLimits = getRedistributionLimits(1);
+
+  if (redistribution > 0) {
+    steps.push({
+      title: "Step 3a: Moment Redistribution",
+      formula: `βb = 1 - ${redistribution}/100 = ${betaB.toFixed(2)} ≥ 0.70
+K' = 0.402(βb - 0.4) - 0.18(βb - 0.4)², x ≤ (βb - 0.4)d`,
+      substitution: `${pattern.elastic.supportMoments.map((m, j) =>
+  `Support ${j}: ${m.value.toFixed(2)} → ${supportMoments[j].toFixed(2)} kNm`
+).join('\n')}
+${pattern.elastic.spans.map((span, i) =>
+  `Span ${i + 1}: ${span.sagging.value.toFixed(2)} → ${spanMoments[i].toFixed(2)} kNm`
+).join('\n')}`,
+      result: `Supports: βb = ${betaB.toFixed(2)}, K' = ${supportLimits.kPrime.toFixed(3)}, x/d ≤ ${supportLimits.neutralAxisRatio.toFixed(2)}
+Spans: moments not reduced, K' = ${spanLimits.kPrime.toFixed(3)}, x/d ≤ ${spanLimits.neutralAxisRatio.toFixed(2)}`,
+      explanation: "Support moments capped at βb × elastic envelope with equilibrium restored in each load case; not less than 70% of the elastic moment",
+      bsReference: "BS8110 Cl. 3.2.2.1, Cl. 3.4.4.4"
     });
   }
 
+  // Step 4: Shear forces from statics of each span
+  const shearForces: { left: number; right: number }[] = pattern.spans.map(span => ({
+    left: span.shearLeft.value,
+    right: span.shearRight.value
+  }));
+
   steps.push({
     title: "Step 4: Shear Forces",
-    formula: "V = β × w × L",
+    formula: "V = V0 ± (MA − MB)/L",
     result: `Shear Forces:
 ${shearForces.map((sf, i) => 
   `  Span ${i + 1}: Left = ${sf.left.toFixed(2)} kN, Right = ${sf.right.toFixed(2)} kN`
+).join('\n')}${cantileverMembers.map(({ side, label }) => {
+  const envelope = pattern.cantilevers[side]!;
+  return `\n  ${label} cantilever: Root = ${(side === 'left' ? envelope.shearRight : envelope.shearLeft).value.toFixed(2)} kN`;
+}).join('')}`,
+    bsReference: "BS8110 Cl. 3.2.1.2"
+  });
+
+  // Step 4a: Governing load case for every envelope value
+  steps.push({
+    title: "Step 4a: Envelope - Governing Load Cases",
+    result: `${pattern.supportMoments.map((m, j) => `Support ${j}: M = ${m.value.toFixed(2)} kNm (${m.case})`).join('\n')}
+${pattern.spans.map((span, i) =>
+  `Span ${i + 1}: M+ = ${span.sagging.value.toFixed(2)} kNm (${span.sagging.case}), VL = ${span.shearLeft.value.toFixed(2)} kN (${span.shearLeft.case}), VR = ${span.shearRight.value.toFixed(2)} kN (${span.shearRight.case})`
 ).join('\n')}`,
-    bsReference: "BS8110 Table 3.5"
+    bsReference: "BS8110 Cl. 3.2.1.2.2"
   });
 
-  // Step 6: Check maximum moment K-value
-  const maxMoment = Math.max(...spanMoments, ...supportMoments.filter(m => m > 0));
-  const M_Nmm = maxMoment * 1e6;
-  const K = M_Nmm / (input.width * Math.pow(input.effectiveDepth, 2) * input.fcu);
+  // Step 4b: Effective flange widths for sagging regions (lz = 0.7L, Cl. 3.4.1.5)
+  const isFlanged = input.sectionType !== 'rectangular';
+  const flangeWidths: number[] = input.spans.map((span, i) => isFlanged
+    ? getEffectiveFlangeWidth(input.sectionType as Exclude<SectionType, 'rectangular'>, spanSections[i].width, 0.7 * span.length, input.flangeWidthLimit)
+    : spanSections[i].width
+  );
+
+  if (isFlanged) {
+    const divisor = input.sectionType === 'T' ? 5 : 10;
+    steps.push({
+      title: "Step 4b: Effective Flange Width",
+      formula: `b = bw + lz/${divisor}, lz = 0.7L (${sectionTypeLabels[input.sectionType]})`,
+      substitution: input.spans.map((span, i) =>
+        `Span ${i + 1}: b = ${spanSections[i].width} + ${(0.7 * span.length * 1000).toFixed(0)}/${divisor}${input.flangeWidthLimit > 0 ? ` ≤ ${input.flangeWidthLimit}` : ''} = ${flangeWidths[i].toFixed(0)} mm`
+      ).join('\n'),
+      result: `Flange (hf = ${input.flangeThickness} mm) resists sagging moments; support (hogging) regions are designed on the web width bw`,
+      bsReference: "BS8110 Cl. 3.4.1.5"
+    });
+  }
+
+  // Support sections - the weaker (smaller bd²) of the members meeting at the support
+  const cantileverSection = (side: 'left' | 'right') => {
+    const cantilever = cantileverMembers.find(c => c.side === side);
+    return cantilever ? [sectionOf(cantilever.member)] : [];
+  };
+  const supportSections: MemberSection[] = supportMoments.map((_, j) => [
+    ...(j > 0 ? [spanSections[j - 1]] : cantileverSection('left')),
+    ...(j < numSpans ? [spanSections[j]] : cantileverSection('right'))
+  ].reduce((weakest, section) =>
+    section.width * Math.pow(section.effectiveDepth, 2) < weakest.width * Math.pow(weakest.effectiveDepth, 2) ? section : weakest
+  ));
+
+  // Step 6: Check maximum moment K-value (sagging on b, hogging on bw) against the section's K'
+  const bd2fcu = (b: number, d: number) => b * Math.pow(d, 2) * input.fcu;
+  const kValues = [
+    ...spanMoments.map((m, i) => ({ label: `Span ${i + 1}`, moment: m, width: flangeWidths[i], depth: spanSections[i].effectiveDepth, limits: spanLimits })),
+    ...supportMoments.map((m, j) => ({ label: `Support ${j}`, moment: m, width: supportSections[j].width, depth: supportSections[j].effectiveDepth, limits: supportLimits })).filter(k => k.moment > 0)
+  ].map(k => ({ ...k, K: (k.moment * 1e6) / bd2fcu(k.width, k.depth) }));
+  const critical = kValues.reduce((worst, curr) =>
+    curr.K / curr.limits.kPrime > worst.K / worst.limits.kPrime ? curr : worst
+  );
+  const maxMoment = critical.moment;
+  const K = critical.K;
+  const K_prime = critical.limits.kPrime;
+  const criticalNeutralAxis = getNeutralAxisRatio(Math.min(K, K_prime));
   
-  const momentOK = K <= K_prime;
+  const maxK = Math.max(...kValues.map(k => k.K));
+  const momentOK = maxK <= K_MAX;
+  const doublyReinforced = kValues.some(k => k.K > k.limits.kPrime);
   if (!momentOK) {
-    failures.push({ type: 'moment', value: K, limit: K_prime });
+    failures.push({ type: 'moment', value: maxK, limit: K_MAX });
   }
 
   steps.push({
     title: "Step 5: Critical Moment Check",
-    formula: "K = M / (bd²fcu) ≤ K' = 0.156",
-    substitution: `Max moment = ${maxMoment.toFixed(2)} kNm
-K = ${maxMoment.toFixed(2)} × 10⁶ / (${input.width} × ${input.effectiveDepth}² × ${input.fcu})`,
-    result: `K = ${K.toFixed(4)}`,
+    formula: `K = M / (bd²fcu) ≤ K' (singly reinforced) ≤ ${K_MAX} (practical limit)
+x = (d - z)/0.45 ≤ (βb - 0.4)d`,
+    substitution: `${kValues.map(k => `${k.label}: K = ${k.K.toFixed(4)}, K' = ${k.limits.kPrime.toFixed(3)}`).join('\n')}
+Critical: ${critical.label}, M = ${maxMoment.toFixed(2)} kNm
+K = ${maxMoment.toFixed(2)} × 10⁶ / (${critical.width.toFixed(0)} × ${critical.depth}² × ${input.fcu})`,
+    result: `K = ${K.toFixed(4)} ${K <= K_prime ? '≤' : '>'} K' = ${K_prime.toFixed(3)}
+x/d = ${criticalNeutralAxis.toFixed(3)} (limit ${critical.limits.neutralAxisRatio.toFixed(2)})`,
     isCheck: true,
     checkPassed: momentOK,
-    status: momentOK ? 'safe' : 'unsafe',
-    explanation: momentOK 
-      ? `K ≤ K' → Singly reinforced section adequate ✓`
-      : `K > K' → Section dimensions inadequate for singly reinforced design`,
+    status: !momentOK ? 'unsafe' : doublyReinforced ? 'review' : 'safe',
+    explanation: !momentOK
+      ? `K = ${maxK.toFixed(4)} > ${K_MAX} → Section dimensions inadequate, increase depth or width`
+      : doublyReinforced
+        ? `K > K' at some sections → Compression reinforcement required (designed per section below)`
+        : `K ≤ K' at all sections → Singly reinforced sections adequate ✓`,
     bsReference: "BS8110 Cl. 3.4.4.4"
   });
 
-  // Step 7: Calculate reinforcement for each span
+  // Step 7: Design every support and span section (Cl. 3.4.4.4)
   let maxTensionSteel = 0;
   let maxCompressionSteel = 0;
+  const bottomBarAreas: number[] = [];
+  const sectionSteps: CalculationStep[] = [];
+  const compressionDepth = (section: MemberSection) => section.beamDepth - section.effectiveDepth;
+  const maxSteelAreaOf = (section: MemberSection) => 0.04 * section.width * section.beamDepth; // Cl. 3.12.6.1
+  let reinforcementOK = true;
+
+  const supportDesigns = supportMoments.map((m, j) =>
+    designRectangularSection(`Support ${j}`, 'top', m, supportSections[j].width, supportSections[j].effectiveDepth, compressionDepth(supportSections[j]), input.fcu, input.fy, supportLimits.kPrime)
+  );
+  const doublySectionStep = (section: SectionDesign, dPrime: number) => {
+    const MLimit = section.kPrime * section.width * Math.pow(section.effectiveDepth, 2) * input.fcu / 1e6;
+    sectionSteps.push({
+      title: `${section.location} Compression Reinforcement`,
+      formula: "M' = K'bd²fcu, As' = (M - M') / [0.87fy(d - d')], As = M'/(0.87fy·z) + As'",
+      substitution: `M' = ${section.kPrime.toFixed(3)} × ${section.width.toFixed(0)} × ${section.effectiveDepth}² × ${input.fcu} = ${MLimit.toFixed(2)} kNm
+As' = (${section.moment.toFixed(2)} - ${MLimit.toFixed(2)}) × 10⁶ / [0.87 × ${input.fy} × (${section.effectiveDepth} - ${dPrime})]`,
+      result: `As' = ${section.compressionSteel.toFixed(0)} mm² (${section.tensionFace === 'top' ? 'bottom' : 'top'}), As = ${section.tensionSteel.toFixed(0)} mm² (${section.tensionFace})`,
+      status: 'review',
+      bsReference: "BS8110 Cl. 3.4.4.4"
+    });
+  };
+  supportDesigns.forEach((section, j) => {
+    if (section.isDoublyReinforced) doublySectionStep(section, compressionDepth(supportSections[j]));
+  });
 
   for (let i = 0; i < numSpans; i++) {
     const span = input.spans[i];
+    const spanSection = spanSections[i];
+    const dPrime = compressionDepth(spanSection);
+    const maxSteelArea = maxSteelAreaOf(spanSection);
     const posM = spanMoments[i];
     const negMLeft = supportMoments[i];
     const negMRight = supportMoments[i + 1];
     
-    // Calculate required steel for positive moment
-    const posM_Nmm = posM * 1e6;
-    const K_pos = posM_Nmm / (input.width * Math.pow(input.effectiveDepth, 2) * input.fcu);
-    const z_pos = Math.min(input.effectiveDepth * (0.5 + Math.sqrt(0.25 - Math.min(K_pos, K_prime) / 0.9)), 0.95 * input.effectiveDepth);
-    const As_pos = posM_Nmm / (0.87 * input.fy * z_pos);
-    
-    // Calculate required steel for maximum negative moment
-    const maxNegM = Math.max(negMLeft, negMRight);
-    const negM_Nmm = maxNegM * 1e6;
-    const K_neg = negM_Nmm / (input.width * Math.pow(input.effectiveDepth, 2) * input.fcu);
-    const z_neg = Math.min(input.effectiveDepth * (0.5 + Math.sqrt(0.25 - Math.min(K_neg, K_prime) / 0.9)), 0.95 * input.effectiveDepth);
-    const As_neg = negM_Nmm > 0 ? negM_Nmm / (0.87 * input.fy * z_neg) : 0;
+    // Sagging section (flange in compression for flanged beams)
+    let spanDesign: SectionDesign;
+    if (isFlanged) {
+      const flanged = designFlangedSection({
+        sectionType: input.sectionType as Exclude<SectionType, 'rectangular'>,
+        moment: posM,
+        webWidth: spanSection.width,
+        flangeThickness: input.flangeThickness,
+        flangeWidthLimit: input.flangeWidthLimit,
+        zeroMomentLength: 0.7 * span.length,
+        effectiveDepth: spanSection.effectiveDepth,
+        compressionSteelDepth: dPrime,
+        fcu: input.fcu,
+        fy: input.fy
+      });
+      spanDesign = {
+        location: `Span ${i + 1}`,
+        tensionFace: 'bottom',
+        moment: posM,
+        width: flanged.effectiveFlangeWidth,
+        effectiveDepth: spanSection.effectiveDepth,
+        K: (posM * 1e6) / bd2fcu(flanged.effectiveFlangeWidth, spanSection.effectiveDepth),
+        kPrime: spanLimits.kPrime,
+        leverArm: flanged.leverArm,
+        tensionSteel: flanged.tensionSteel,
+        compressionSteel: flanged.compressionSteel,
+        isDoublyReinforced: flanged.isDoublyReinforced
+      };
+      const flangedStep = flanged.steps[flanged.steps.length - 1];
+      sectionSteps.push({ ...flangedStep, title: `Span ${i + 1} ${flangedStep.title}` });
+    } else {
+      spanDesign = designRectangularSection(`Span ${i + 1}`, 'bottom', posM, spanSection.width, spanSection.effectiveDepth, dPrime, input.fcu, input.fy, spanLimits.kPrime);
+      if (spanDesign.isDoublyReinforced) doublySectionStep(spanDesign, dPrime);
+    }
+    const sections = [supportDesigns[i], spanDesign, supportDesigns[i + 1]];
+    const As_pos = spanDesign.tensionSteel;
+    const As_neg = Math.max(supportDesigns[i].tensionSteel, supportDesigns[i + 1].tensionSteel);
     
-    // Minimum steel
-    const minSteel = 0.0013 * input.width * input.effectiveDepth;
+    // Minimum steel (Table 3.25 - flanged beams based on bw/b)
+    const minSteelRatio = isFlanged ? getFlangedMinSteelRatio(spanSection.width, flangeWidths[i], input.fy) : 0.0013;
+    const minSteel = minSteelRatio * spanSection.width * spanSection.effectiveDepth;
     const finalAs = Math.max(As_pos, As_neg, minSteel);
+
+    // Top and bottom faces - tension at one section may be compression steel at another
+    const compressionSteel = Math.max(...sections.map(section => section.compressionSteel));
+    const topArea = Math.max(As_neg, spanDesign.compressionSteel, minSteel);
+    const bottomArea = Math.max(As_pos, supportDesigns[i].compressionSteel, supportDesigns[i + 1].compressionSteel, minSteel);
+    if (topArea + bottomArea > maxSteelArea) {
+      reinforcementOK = false;
+    }
     
     // Shear design
     const maxShear = Math.max(shearForces[i].left, shearForces[i].right);
-    const shearStress = (maxShear * 1000) / (input.width * input.effectiveDepth);
-    const vc = calculateVc(finalAs, input.width, input.effectiveDepth, input.fcu);
-    const links = calculateLinkSpacing(shearStress, vc, input.width, input.effectiveDepth, input.fy);
+    const shearStress = (maxShear * 1000) / (spanSection.width * spanSection.effectiveDepth);
+    const vc = calculateVc(finalAs, spanSection.width, spanSection.effectiveDepth, input.fcu);
+    const links = calculateLinkSpacing(shearStress, vc, spanSection.width, spanSection.effectiveDepth, input.fy);
+
+    // Curtailment (Cl. 3.12.10.2) - end supports are simple, interior supports continuous
+    bottomBarAreas.push(selectBarSize(bottomArea)?.area ?? bottomArea);
+    const curtailment = calculateCurtailment({
+      length: span.length,
+      leftEnd: i === 0 && !pattern.cantilevers.left ? 'simple' : 'continuous',
+      rightEnd: i === numSpans - 1 && !pattern.cantilevers.right ? 'simple' : 'continuous',
+      topDiameter: selectBarSize(topArea)?.dia ?? 32,
+      bottomDiameter: selectBarSize(bottomArea)?.dia ?? 32,
+      uniformLoads: (span.loads ?? []).length === 0
+    });
     
     spanResults.push({
       spanIndex: i + 1,
       length: span.length,
+      section: spanSection,
       ultimateLoad: ultimateLoads[i],
+      totalLoad: totalLoad(span.length, maxSpans[i].loads),
       positiveMoment: posM,
+      positiveMomentAt: pattern.spans[i].sagging.at,
       negativeMomentLeft: negMLeft,
       negativeMomentRight: negMRight,
+      momentsBeforeRedistribution: {
+        positive: pattern.elastic.spans[i].sagging.value,
+        left: pattern.elastic.supportMoments[i].value,
+        right: pattern.elastic.supportMoments[i + 1].value
+      },
       shearLeft: shearForces[i].left,
       shearRight: shearForces[i].right,
+      effectiveFlangeWidth: isFlanged ? spanDesign.width : undefined,
       tensionSteel: finalAs,
-      compressionSteel: K_pos > K_prime ? finalAs * 0.3 : 0,
+      compressionSteel,
+      sections,
+      topSteelRequired: topArea,
+      bottomSteelRequired: bottomArea,
       linkSize: links.size,
       linkSpacing: links.spacing,
-      topSteel: suggestBars(As_neg > 0 ? As_neg : minSteel),
-      bottomSteel: suggestBars(As_pos > minSteel ? As_pos : minSteel)
+      topSteel: suggestBars(topArea),
+      bottomSteel: suggestBars(bottomArea),
+      topBars: providedBars(topArea),
+      bottomBars: providedBars(bottomArea),
+      curtailment: curtailment.points,
+      modificationFactor: getTensionModificationFactor(posM * 1e6, flangeWidths[i], spanSection.effectiveDepth, As_pos, bottomBarAreas[i], input.fy),
+      envelope: pattern.spans[i]
     });
     
     maxTensionSteel = Math.max(maxTensionSteel, finalAs);
-    maxCompressionSteel = Math.max(maxCompressionSteel, K_pos > K_prime ? finalAs * 0.3 : 0);
+    maxCompressionSteel = Math.max(maxCompressionSteel, compressionSteel);
   }
 
+  sectionSteps.forEach((step, i) => {
+    steps.push({ ...step, title: `Step 5${String.fromCharCode(97 + i)}: ${step.title}` });
+  });
+
+  // Cantilevers - top steel from the end support section, links for the root shear
+  const cantileverResults: CantileverResult[] = cantileverMembers.map(({ side, member }) => {
+    const envelope = pattern.cantilevers[side]!;
+    const section = sectionOf(member);
+    const support = supportDesigns[side === 'left' ? 0 : numSpans];
+    const minSteel = 0.0013 * section.width * section.effectiveDepth;
+    const topArea = Math.max(support.tensionSteel, minSteel);
+    const shear = (side === 'left' ? envelope.shearRight : envelope.shearLeft).value;
+    const shearStress = (shear * 1000) / (section.width * section.effectiveDepth);
+    const links = calculateLinkSpacing(shearStress, calculateVc(topArea, section.width, section.effectiveDepth, input.fcu), section.width, section.effectiveDepth, input.fy);
+    if (topArea + support.compressionSteel > maxSteelAreaOf(section)) {
+      reinforcementOK = false;
+    }
+    return {
+      side,
+      length: member.length,
+      section,
+      ultimateLoad: udlOf(member, gamma_dead, gamma_live),
+      totalLoad: totalLoad(member.length, maxCantilevers[side]!.loads),
+      supportMoment: support.moment,
+      shear,
+      topSteelRequired: topArea,
+      topSteel: suggestBars(topArea),
+      topBars: providedBars(topArea),
+      linkSize: links.size,
+      linkSpacing: links.spacing,
+      spanDepthRatio: 0,
+      modificationFactor: 1,
+      allowableSpanDepthRatio: 0,
+      deflectionStatus: 'safe',
+      envelope
+    };
+  });
+
+  if (!reinforcementOK) {
+    failures.push({ type: 'reinforcement', value: 0, limit: 0.04 });
+  }
+
+  const describeSection = (section: SectionDesign) => section.moment <= 0
+    ? `${section.location}: M = 0`
+    : `${section.location}: M = ${section.moment.toFixed(2)} kNm, K = ${section.K.toFixed(4)} ${section.isDoublyReinforced ? '>' : '≤'} K' = ${section.kPrime.toFixed(3)} → As = ${section.tensionSteel.toFixed(0)} mm² (${section.tensionFace})${section.isDoublyReinforced ? `, As' = ${section.compressionSteel.toFixed(0)} mm²` : ''}`;
+
   steps.push({
     title: "Step 6: Reinforcement Design",
     result: spanResults.map(sr => 
-      `Span ${sr.spanIndex}: As = ${sr.tensionSteel.toFixed(0)} mm² → ${suggestBars(sr.tensionSteel)}
+      `Span ${sr.spanIndex}:
+${sr.sections.map(section => `  ${describeSection(section)}`).join('\n')}
+  Top: ${sr.topSteelRequired.toFixed(0)} mm² → ${sr.topSteel}
+  Bottom: ${sr.bottomSteelRequired.toFixed(0)} mm² → ${sr.bottomSteel}
   Links: T${sr.linkSize}@${sr.linkSpacing}mm c/c`
-    ).join('\n\n'),
-    bsReference: "BS8110 Cl. 3.4.4.4"
+    ).concat(cantileverResults.map(cr =>
+      `${cr.side === 'left' ? 'Left' : 'Right'} cantilever (${cr.length} m):
+  Top: ${cr.topSteelRequired.toFixed(0)} mm² → ${cr.topSteel}, full length of cantilever
+  Links: T${cr.linkSize}@${cr.linkSpacing}mm c/c`
+    )).join('\n\n'),
+    isCheck: true,
+    checkPassed: reinforcementOK,
+    status: reinforcementOK ? 'safe' : 'unsafe',
+    explanation: reinforcementOK
+      ? undefined
+      : "Total area exceeds 4% of the gross section of at least one member",
+    bsReference: "BS8110 Cl. 3.4.4.4, Cl. 3.12.6.1"
   });
 
   // Step 8: Shear check
-  const maxShear = Math.max(...shearForces.flatMap(sf => [sf.left, sf.right]));
-  const maxShearStress = (maxShear * 1000) / (input.width * input.effectiveDepth);
+  const memberShears = [
+    ...shearForces.map((sf, i) => ({ label: `Span ${i + 1}`, shear: Math.max(sf.left, sf.right), section: spanSections[i] })),
+    ...cantileverResults.map(cr => ({ label: `${cr.side === 'left' ? 'Left' : 'Right'} cantilever`, shear: cr.shear, section: cr.section }))
+  ].map(m => ({ ...m, stress: (m.shear * 1000) / (m.section.width * m.section.effectiveDepth) }));
+  const criticalShear = memberShears.reduce((worst, curr) => curr.stress > worst.stress ? curr : worst);
+  const maxShear = Math.max(...memberShears.map(m => m.shear));
+  const maxShearStress = criticalShear.stress;
   const maxVc = Math.min(0.8 * Math.sqrt(input.fcu), 5);
   const shearOK = maxShearStress < maxVc;
   
@@ -503,8 +1086,8 @@ K = ${maxMoment.toFixed(2)} × 10⁶ / (${input.width} × ${input.effectiveDepth
   steps.push({
     title: "Step 7: Shear Verification",
     formula: "v = V / (bd) < 0.8√fcu or 5 N/mm²",
-    substitution: `Maximum shear = ${maxShear.toFixed(2)} kN
-v = ${(maxShear * 1000).toFixed(0)} / (${input.width} × ${input.effectiveDepth})`,
+    substitution: `Critical: ${criticalShear.label}, V = ${criticalShear.shear.toFixed(2)} kN
+v = ${(criticalShear.shear * 1000).toFixed(0)} / (${criticalShear.section.width} × ${criticalShear.section.effectiveDepth})`,
     result: `v = ${maxShearStress.toFixed(2)} N/mm²
 vmax = ${maxVc.toFixed(2)} N/mm²`,
     isCheck: true,
@@ -514,10 +1097,19 @@ vmax = ${maxVc.toFixed(2)} N/mm²`,
   });
 
   // Step 9: Deflection check
-  const basicRatio = 26; // Continuous beam
-  const tensionMod = 1.3; // Conservative estimate
+  // Governing span - highest span/d relative to its own allowable ratio, with the Table 3.10
+  // factor from each span's own mid-span moment and bottom steel
+  const spanRatios = input.spans.map((span, i) => {
+    const factor = isFlanged ? getFlangedBasicRatioFactor(spanSections[i].width, flangeWidths[i]) : 1.0;
+    return { factor, actual: (span.length * 1000) / spanSections[i].effectiveDepth, allowable: 26 * factor * spanResults[i].modificationFactor };
+  });
+  const governingRatio = spanRatios.reduce((worst, curr, i) =>
+    curr.actual / curr.allowable > spanRatios[worst].actual / spanRatios[worst].allowable ? i : worst, 0);
+  const tensionMod = spanResults[governingRatio].modificationFactor;
+  const flangeFactor = spanRatios[governingRatio].factor;
+  const basicRatio = 26 * flangeFactor; // Continuous beam
   const allowableRatio = basicRatio * tensionMod;
-  const actualRatio = (avgSpan * 1000) / input.effectiveDepth;
+  const actualRatio = spanRatios[governingRatio].actual;
   const deflectionOK = actualRatio <= allowableRatio;
   
   if (!deflectionOK) {
@@ -527,10 +1119,10 @@ vmax = ${maxVc.toFixed(2)} N/mm²`,
   steps.push({
     title: "Step 8: Deflection Check",
     formula: "Actual span/d ≤ Basic ratio × Modification factor",
-    substitution: `Basic ratio = ${basicRatio} (continuous beam)
-Modification factor ≈ ${tensionMod.toFixed(2)}
-Allowable span/d = ${allowableRatio.toFixed(1)}`,
-    result: `Actual span/d = ${actualRatio.toFixed(1)}
+    substitution: `Basic ratio = ${basicRatio.toFixed(1)} (continuous beam${isFlanged ? `, flanged × ${flangeFactor.toFixed(2)}` : ''})
+${spanResults.map(sr => `Span ${sr.spanIndex}: M/bd² = ${(sr.positiveMoment * 1e6 / (flangeWidths[sr.spanIndex - 1] * Math.pow(sr.section.effectiveDepth, 2))).toFixed(2)}, As,req/As,prov = ${sr.sections[1].tensionSteel.toFixed(0)}/${bottomBarAreas[sr.spanIndex - 1].toFixed(0)} mm² → factor = ${sr.modificationFactor.toFixed(2)} (Table 3.10)`).join('\n')}
+Allowable span/d = ${basicRatio.toFixed(1)} × ${tensionMod.toFixed(2)} = ${allowableRatio.toFixed(1)}`,
+    result: `Actual span/d = ${actualRatio.toFixed(1)} (span ${governingRatio + 1}, L = ${input.spans[governingRatio].length} m, d = ${spanSections[governingRatio].effectiveDepth} mm)
 Allowable span/d = ${allowableRatio.toFixed(1)}`,
     isCheck: true,
     checkPassed: deflectionOK,
@@ -541,34 +1133,214 @@ Allowable span/d = ${allowableRatio.toFixed(1)}`,
     bsReference: "BS8110 Cl. 3.4.6"
   });
 
-  // Step 10: Final reinforcement summary
+  // Step 8a-d: Calculated deflection of each span (optional). Service moments come from
+  // separate analyses of the characteristic dead and imposed loads.
+  let calculatedDeflection: CalculatedDeflectionResult | undefined;
+  let calculatedDeflectionSpan: number | undefined;
+
+  if (input.deflectionSettings.enabled) {
+    const deadAnalysis = analyseContinuousBeam(analysisSpans(1.0, 0), cantileversFor(1.0, 0));
+    const liveAnalysis = analyseContinuousBeam(analysisSpans(0, 1.0), cantileversFor(0, 1.0));
+    const spanDeflections = input.spans.map((span, i) => {
+      const endSpan = i === 0 || i === numSpans - 1;
+      return calculateDeflection({
+        span: span.length,
+        support: endSpan ? 'one-end-continuous' : 'both-ends-continuous',
+        beta: spanMoments[i] > 0 ? (supportMoments[i] + supportMoments[i + 1]) / spanMoments[i] : 0,
+        width: flangeWidths[i],
+        overallDepth: spanSections[i].beamDepth,
+        effectiveDepth: spanSections[i].effectiveDepth,
+        tensionSteel: bottomBarAreas[i],
+        compressionSteel: 0,
+        compressionSteelDepth: compressionDepth(spanSections[i]),
+        fcu: input.fcu,
+        deadMoment: Math.max(deadAnalysis.spans[i].maxSagging, 0),
+        liveMoment: Math.max(liveAnalysis.spans[i].maxSagging, 0),
+        settings: input.deflectionSettings
+      });
+    });
+
+    spanDeflections.forEach((result, i) => {
+      spanResults[i].calculatedDeflection = {
+        total: result.totalDeflection,
+        postConstruction: result.postConstructionDeflection,
+        status: result.status
+      };
+    });
+
+    // Governing span - highest utilisation of either limit
+    const utilisation = (result: CalculatedDeflectionResult) => Math.max(
+      result.totalDeflection / result.totalLimit,
+      result.postConstructionDeflection / result.postConstructionLimit
+    );
+    const governing = spanDeflections.reduce((worst, curr, i) =>
+      utilisation(curr) > utilisation(spanDeflections[worst]) ? i : worst, 0);
+    calculatedDeflection = spanDeflections[governing];
+    calculatedDeflectionSpan = governing + 1;
+
+    calculatedDeflection.steps.forEach((step, i) => {
+      steps.push({ ...step, title: `Step 8${String.fromCharCode(97 + i)}: Span ${governing + 1} ${step.title}` });
+    });
+    steps.push({
+      title: `Step 8${String.fromCharCode(97 + calculatedDeflection.steps.length)}: Calculated Deflection - All Spans`,
+      result: spanDeflections.map((result, i) =>
+        `Span ${i + 1}: total ${result.totalDeflection.toFixed(1)} mm (limit ${result.totalLimit.toFixed(1)}), post-construction ${result.postConstructionDeflection.toFixed(1)} mm (limit ${result.postConstructionLimit.toFixed(1)})`
+      ).join('\n'),
+      isCheck: true,
+      checkPassed: calculatedDeflection.status === 'safe',
+      status: calculatedDeflection.status,
+      bsReference: "BS8110-2 Cl. 3.7"
+    });
+
+    if (calculatedDeflection.status === 'unsafe') {
+      failures.push({ type: 'calculated-deflection', value: utilisation(calculatedDeflection), limit: 1 });
+    }
+
+    // Cantilever tip deflection from the root curvature (Table 3.1 K = 0.25)
+    cantileverResults.forEach(cr => {
+      const root = (result: typeof deadAnalysis) => cr.side === 'left' ? result.supportMoments[0] : result.supportMoments[numSpans];
+      const result = calculateDeflection({
+        span: cr.length,
+        support: 'cantilever',
+        beta: 0,
+        width: cr.section.width,
+        overallDepth: cr.section.beamDepth,
+        effectiveDepth: cr.section.effectiveDepth,
+        tensionSteel: selectBarSize(cr.topSteelRequired)?.area ?? cr.topSteelRequired,
+        compressionSteel: 0,
+        compressionSteelDepth: compressionDepth(cr.section),
+        fcu: input.fcu,
+        deadMoment: root(deadAnalysis),
+        liveMoment: root(liveAnalysis),
+        settings: input.deflectionSettings
+      });
+      cr.calculatedDeflection = {
+        total: result.totalDeflection,
+        postConstruction: result.postConstructionDeflection,
+        status: result.status
+      };
+    });
+  }
+
+  // Cantilever span/depth check (Table 3.9 basic ratio 7) with any calculated deflection. Hogging
+  // puts the web in compression, so no flange factor; Table 3.10 uses each root's own steel.
+  let cantileverDeflectionOK = true;
+  if (cantileverResults.length > 0) {
+    const cantileverBasic = 7;
+    cantileverResults.forEach(cr => {
+      const { width, effectiveDepth } = cr.section;
+      const providedSteel = selectBarSize(cr.topSteelRequired)?.area ?? cr.topSteelRequired;
+      cr.modificationFactor = getTensionModificationFactor(cr.supportMoment * 1e6, width, effectiveDepth, cr.topSteelRequired, providedSteel, input.fy);
+      cr.spanDepthRatio = (cr.length * 1000) / effectiveDepth;
+      cr.allowableSpanDepthRatio = cantileverBasic * cr.modificationFactor;
+      cr.deflectionStatus = cr.spanDepthRatio <= cr.allowableSpanDepthRatio && cr.calculatedDeflection?.status !== 'unsafe' ? 'safe' : 'unsafe';
+    });
+    cantileverDeflectionOK = cantileverResults.every(cr => cr.deflectionStatus === 'safe');
+    const worst = cantileverResults.reduce((a, b) =>
+      b.spanDepthRatio / b.allowableSpanDepthRatio > a.spanDepthRatio / a.allowableSpanDepthRatio ? b : a);
+    if (!cantileverDeflectionOK) {
+      failures.push({ type: 'cantilever-deflection', value: Math.max(worst.spanDepthRatio, worst.allowableSpanDepthRatio * 1.01), limit: worst.allowableSpanDepthRatio });
+    }
+
+    const subSteps = calculatedDeflection ? calculatedDeflection.steps.length + 1 : 0;
+    steps.push({
+      title: `Step 8${String.fromCharCode(97 + subSteps)}: Cantilever Deflection`,
+      formula: "Lc/d ≤ 7 × modification factor (Table 3.10 at the root); calculated tip deflection ≤ Lc/250",
+      substitution: cantileverResults.map(cr =>
+        `${cr.side === 'left' ? 'Left' : 'Right'}: M/bd² = ${(cr.supportMoment * 1e6 / (cr.section.width * Math.pow(cr.section.effectiveDepth, 2))).toFixed(2)}, As,req = ${cr.topSteelRequired.toFixed(0)} mm² → factor = ${cr.modificationFactor.toFixed(2)}, allowable = ${cantileverBasic} × ${cr.modificationFactor.toFixed(2)} = ${cr.allowableSpanDepthRatio.toFixed(1)}`
+      ).join('\n'),
+      result: cantileverResults.map(cr =>
+        `${cr.side === 'left' ? 'Left' : 'Right'}: Lc/d = ${cr.spanDepthRatio.toFixed(1)} ${cr.spanDepthRatio <= cr.allowableSpanDepthRatio ? '≤' : '>'} ${cr.allowableSpanDepthRatio.toFixed(1)}${cr.calculatedDeflection
+          ? `, calculated ${cr.calculatedDeflection.total.toFixed(1)} mm total, ${cr.calculatedDeflection.postConstruction.toFixed(1)} mm post-construction`
+          : ''}`
+      ).join('\n'),
+      isCheck: true,
+      checkPassed: cantileverDeflectionOK,
+      status: cantileverDeflectionOK ? 'safe' : 'unsafe',
+      explanation: cantileverResults.some(cr => cr.calculatedDeflection)
+        ? "Calculated tip deflection from the root curvature; rotation of the supporting span adds to it"
+        : undefined,
+      bsReference: "BS8110 Table 3.9, BS8110-2 Cl. 3.7"
+    });
+  }
+
+  // Step 9: Anchorage and laps for the largest main bar
+  const anchorage = calculateAnchorage({
+    diameter: selectBarSize(maxTensionSteel)?.dia ?? 32,
+    fcu: input.fcu,
+    fy: input.fy,
+    cover: input.cover,
+    topCast: true,
+    cornerBar: true
+  });
+  anchorage.steps.forEach((step, i) => {
+    steps.push({ ...step, title: `Step 9${String.fromCharCode(97 + i)}: ${step.title}` });
+  });
+
+  // Step 10: Curtailment of each span (simplified rules)
+  steps.push({
+    title: "Step 10: Curtailment (Simplified Rules)",
+    formula: "Bottom: 50%/70% stopped at 0.08L / 0.1L; top: 40% at max(0.15L, 45φ), 40% at 0.25L",
+    result: spanResults.map(sr =>
+      `Span ${sr.spanIndex}:\n${sr.curtailment.map(point => `  ${point.description}`).join('\n')}`
+    ).join('\n\n'),
+    explanation: coefficientsPermitted
+      ? "Spans satisfy the uniform load and equal span conditions for the simplified rules"
+      : "Spans or loads outside the Cl. 3.4.3 conditions - check bar cut-off points against the bending moment diagram",
+    status: coefficientsPermitted ? 'safe' : 'review',
+    bsReference: "BS8110 Cl. 3.12.10.2, Figure 3.24"
+  });
+
+  // Step 11: Final reinforcement summary
   steps.push({
-    title: "Step 9: Reinforcement Summary",
+    title: "Step 11: Reinforcement Summary",
     result: `Maximum Tension Steel: ${maxTensionSteel.toFixed(0)} mm² → ${suggestBars(maxTensionSteel)}
 ${maxCompressionSteel > 0 ? `Maximum Compression Steel: ${maxCompressionSteel.toFixed(0)} mm² → ${suggestBars(maxCompressionSteel)}` : 'No compression steel required'}
 Shear Links: See individual span results above`,
     bsReference: "BS8110 Cl. 3.12"
   });
 
-  const designValid = momentOK && shearOK && deflectionOK;
+  const designValid = momentOK && reinforcementOK && shearOK && deflectionOK && calculatedDeflection?.status !== 'unsafe'
+    && cantileverDeflectionOK && durability.status !== 'unsafe';
   const suggestions = !designValid ? generateDesignSuggestions(failures, input) : undefined;
   const failureReasons = failures.map(f => {
     switch (f.type) {
-      case 'moment': return 'Excessive bending moment - K value exceeds limit';
+      case 'moment': return `Excessive bending moment - K value exceeds the practical limit of ${K_MAX}`;
       case 'shear': return 'Excessive shear stress exceeds maximum permissible';
       case 'deflection': return 'Deflection limit exceeded - span/depth ratio too high';
-      case 'reinforcement': return 'Required reinforcement exceeds practical limits';
+      case 'calculated-deflection': return `Calculated deflection of span ${calculatedDeflectionSpan} exceeds span/250 or the post-construction limit`;
+      case 'cantilever-deflection': return 'Cantilever deflection limit exceeded - span/depth ratio or calculated tip deflection too high';
+      case 'reinforcement': return 'Required reinforcement exceeds 4% of the gross section (Cl. 3.12.6.1)';
       default: return 'Design check failed';
     }
-  });
+  }).concat(durability.failureReasons);
 
   // Calculate vc for summary
-  const vcSummary = calculateVc(maxTensionSteel, input.width, input.effectiveDepth, input.fcu);
-  const leverArm = Math.min(input.effectiveDepth * (0.5 + Math.sqrt(0.25 - Math.min(K, K_prime) / 0.9)), 0.95 * input.effectiveDepth);
+  const vcSummary = calculateVc(maxTensionSteel, criticalShear.section.width, criticalShear.section.effectiveDepth, input.fcu);
+  const leverArm = Math.min(critical.depth * (0.5 + Math.sqrt(0.25 - Math.min(K, K_prime) / 0.9)), 0.95 * critical.depth);
+
+  // Diagrams - pattern loading envelopes, deflected shape under Gk + Qk on all spans
+  const serviceAnalysis = analyseContinuousBeam(analysisSpans(1.0, 1.0), cantileversFor(1.0, 1.0));
+  const diagramMember = (member: ContinuousBeamSpan, envelope: SpanEnvelope, service: SpanAnalysisResult): ContinuousDiagramMember => ({
+    length: member.length,
+    envelope,
+    service,
+    EI: grossFlexuralRigidity(sectionOf(member).width, sectionOf(member).beamDepth, input.fcu)
+  });
+  const diagramCantilever = (side: 'left' | 'right') => {
+    const cantilever = cantileverMembers.find(c => c.side === side);
+    return cantilever && diagramMember(cantilever.member, pattern.cantilevers[side]!, serviceAnalysis.cantilevers[side]!);
+  };
+  const diagram = continuousBeamDiagram(
+    input.spans.map((span, i) => diagramMember(span, pattern.spans[i], serviceAnalysis.spans[i])),
+    { left: diagramCantilever('left'), right: diagramCantilever('right') }
+  );
 
   return {
     steps,
     spanResults,
+    cantileverResults,
+    diagram,
     summary: {
       numberOfSpans: numSpans,
       maxPositiveMoment: Math.max(...spanMoments),
@@ -582,22 +1354,36 @@ Shear Links: See individual span results above`,
       failureReasons: !designValid ? failureReasons : undefined,
       suggestions,
       // Extended BS 8110 output properties
-      ultimateLoad: avgLoad,
+      ultimateLoad: Math.max(...ultimateLoads),
       deadLoad: input.spans[0]?.deadLoad || 0,
       liveLoad: input.spans[0]?.liveLoad || 0,
       width: input.width,
       effectiveDepth: input.effectiveDepth,
+      cover: input.cover,
       fcu: input.fcu,
       fy: input.fy,
       kValue: K,
       leverArm,
       shearStress: maxShearStress,
+      criticalShear: {
+        location: criticalShear.label,
+        shear: criticalShear.shear,
+        width: criticalShear.section.width,
+        effectiveDepth: criticalShear.section.effectiveDepth
+      },
       vc: vcSummary,
       actualSpanDepthRatio: actualRatio,
       basicSpanDepthRatio: basicRatio,
       modificationFactor: tensionMod,
       allowableSpanDepthRatio: allowableRatio,
-      barSuggestion: suggestBars(maxTensionSteel)
+      barSuggestion: suggestBars(maxTensionSteel),
+      anchorage,
+      durability,
+      calculatedDeflection,
+      calculatedDeflectionSpan,
+      redistribution,
+      betaB,
+      kPrime: K_prime
     }
   };
 }
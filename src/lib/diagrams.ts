@@ -0,0 +1,273 @@
+// Bending moment, shear force and deflected-shape diagrams
+// x is measured from the left end of the whole member (m). Moments sagging positive, deflection upward positive.
+
+import {
+  analyseCantilever,
+  analyseSpanWithEndMoments,
+  type AppliedLoad,
+  type DiagramPoint,
+  type SpanAnalysisResult
+} from "./beamAnalysis";
+import { getConcreteModulus } from "./calculatedDeflection";
+import type { SpanEnvelope } from "./continuousAnalysis";
+
+export interface DiagramStation {
+  x: number; // m
+  moment: number; // kNm (maximum for envelopes)
+  shear: number; // kN (maximum for envelopes)
+  minMoment?: number; // kNm (envelopes only)
+  minShear?: number; // kN (envelopes only)
+  deflection: number; // mm (upward +)
+}
+
+export interface MemberDiagram {
+  title: string;
+  stations: DiagramStation[];
+  supports: number[]; // m
+  envelope: boolean; // moments and shears are max/min of the pattern load cases
+  perMetre: boolean; // slab strips - kNm/m and kN/m
+  deflectionBasis: string; // loads and stiffness behind the deflected shape
+}
+
+export interface DiagramPeak {
+  quantity: 'moment' | 'shear' | 'deflection';
+  label: string;
+  x: number; // m
+  value: number;
+}
+
+// End restraint for the deflected shape of one member
+type Restraint =
+  | { type: 'pinned' } // zero deflection at both ends
+  | { type: 'fixed-left'; slope: number } // cantilever root at x = 0 (rad)
+  | { type: 'fixed-right'; slope: number }; // cantilever root at x = L (rad)
+
+// Flexural rigidity EI (kNm²) of the gross concrete section - short-term modulus
+export function grossFlexuralRigidity(width: number, depth: number, fcu: number): number {
+  const I = width * Math.pow(depth, 3) / 12; // mm⁴
+  return getConcreteModulus(fcu) * I * 1e-9;
+}
+
+// Integrate the curvature M/EI twice along the member (trapezoidal rule), then add the
+// rigid-body rotation that satisfies the end restraint. Returns deflections in mm and end slopes in rad.
+function deflectedShape(points: DiagramPoint[], EI: number, restraint: Restraint): { deflection: number[]; slopeLeft: number; slopeRight: number } {
+  const slope = [0];
+  const z = [0];
+  for (let i = 1; i < points.length; i++) {
+    const dx = points[i].x - points[i - 1].x;
+    slope.push(slope[i - 1] + (points[i - 1].moment + points[i].moment) / 2 * dx / EI);
+    z.push(z[i - 1] + (slope[i - 1] + slope[i]) / 2 * dx);
+  }
+
+  const n = points.length - 1;
+  const x0 = points[0].x;
+  const length = points[n].x - x0;
+  let a = 0;
+  let b = 0;
+  if (restraint.type === 'pinned') {
+    b = -z[n] / length;
+  } else if (restraint.type === 'fixed-left') {
+    b = restraint.slope;
+  } else {
+    b = restraint.slope - slope[n];
+    a = -z[n] - b * length;
+  }
+
+  return {
+    deflection: z.map((zi, i) => (zi + a + b * (points[i].x - x0)) * 1000),
+    slopeLeft: slope[0] + b,
+    slopeRight: slope[n] + b
+  };
+}
+
+// Linear interpolation of a diagram ordinate at x
+function interpolate(points: { x: number }[], values: number[], x: number): number {
+  const i = points.findIndex(p => p.x >= x);
+  if (i <= 0) return values[Math.max(i, 0)];
+  const x1 = points[i - 1].x;
+  const x2 = points[i].x;
+  return x2 === x1 ? values[i] : values[i - 1] + (values[i] - values[i - 1]) * (x - x1) / (x2 - x1);
+}
+
+// Single beam - ultimate BMD/SFD, deflected shape under the characteristic loads
+export function singleSpanDiagram(
+  title: string,
+  ultimate: SpanAnalysisResult,
+  service: SpanAnalysisResult,
+  EI: number,
+  cantilever: boolean
+): MemberDiagram {
+  const shape = deflectedShape(service.points, EI, cantilever ? { type: 'fixed-left', slope: 0 } : { type: 'pinned' });
+  const length = ultimate.points[ultimate.points.length - 1].x;
+  return {
+    title,
+    stations: ultimate.points.map(p => ({
+      x: p.x,
+      moment: p.moment,
+      shear: p.shear,
+      deflection: interpolate(service.points, shape.deflection, p.x)
+    })),
+    supports: cantilever ? [0] : [0, length],
+    envelope: false,
+    perMetre: false,
+    deflectionBasis: "Gk + Qk, gross section (short-term)"
+  };
+}
+
+export interface ContinuousDiagramMember {
+  length: number; // m
+  envelope: SpanEnvelope; // ultimate pattern-loading envelope
+  service: SpanAnalysisResult; // characteristic loads, all spans loaded
+  EI: number; // kNm²
+}
+
+// Continuous beam - envelopes of the pattern load cases laid end to end. Each span is pinned at
+// its supports under its own end moments; cantilevers rotate with the adjacent span end.
+export function continuousBeamDiagram(
+  spans: ContinuousDiagramMember[],
+  cantilevers: { left?: ContinuousDiagramMember; right?: ContinuousDiagramMember }
+): MemberDiagram {
+  const spanShapes = spans.map(span => deflectedShape(span.service.points, span.EI, { type: 'pinned' }));
+  const members: { member: ContinuousDiagramMember; deflection: number[] }[] = [];
+
+  if (cantilevers.left) {
+    const shape = deflectedShape(cantilevers.left.service.points, cantilevers.left.EI, { type: 'fixed-right', slope: spanShapes[0].slopeLeft });
+    members.push({ member: cantilevers.left, deflection: shape.deflection });
+  }
+  spans.forEach((span, i) => members.push({ member: span, deflection: spanShapes[i].deflection }));
+  if (cantilevers.right) {
+    const shape = deflectedShape(cantilevers.right.service.points, cantilevers.right.EI, { type: 'fixed-left', slope: spanShapes[spanShapes.length - 1].slopeRight });
+    members.push({ member: cantilevers.right, deflection: shape.deflection });
+  }
+
+  const stations: DiagramStation[] = [];
+  const supports: number[] = [];
+  let offset = 0;
+  members.forEach(({ member, deflection }) => {
+    const isSpan = spans.includes(member);
+    if (isSpan && supports.length === 0) supports.push(offset);
+    member.envelope.points.forEach(p => stations.push({
+      x: offset + p.x,
+      moment: p.maxMoment,
+      minMoment: p.minMoment,
+      shear: p.maxShear,
+      minShear: p.minShear,
+      deflection: interpolate(member.service.points, deflection, p.x)
+    }));
+    offset += member.length;
+    if (isSpan) supports.push(offset);
+  });
+
+  return {
+    title: "Continuous Beam",
+    stations,
+    supports,
+    envelope: true,
+    perMetre: false,
+    deflectionBasis: "Gk + Qk on all spans, gross section (short-term)"
+  };
+}
+
+// One-way slab - 1 m strip carrying n (kN/m²) with the Table 3.12 design moments (kNm/m).
+// The coefficients are an envelope, so the strip is drawn for two cases: full support moments,
+// and support moments relaxed until the statical sagging moment reaches the design value.
+export function slabStripDiagram(
+  title: string,
+  span: number,
+  ultimateLoad: number,
+  serviceLoad: number,
+  moments: { sagging: number; left: number; right: number },
+  cantilever: boolean,
+  EI: number
+): MemberDiagram {
+  const udl = (w: number): AppliedLoad[] => [{ type: 'distributed', start: 0, end: span, startValue: w, endValue: w }];
+  const serviceRatio = ultimateLoad > 0 ? serviceLoad / ultimateLoad : 0;
+  const strip = (w: number, share: number) => cantilever
+    ? analyseCantilever(span, udl(w))
+    : analyseSpanWithEndMoments(span, udl(w), moments.left * share, moments.right * share);
+
+  // Bisection on the share of the support moments - the sagging moment falls as it rises
+  let share = 1;
+  if (!cantilever && strip(ultimateLoad, 1).maxSagging < moments.sagging) {
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 40; i++) {
+      const mid = (low + high) / 2;
+      if (strip(ultimateLoad, mid).maxSagging < moments.sagging) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+    share = low;
+  }
+
+  const hogging = strip(ultimateLoad, 1);
+  const sagging = strip(ultimateLoad, share);
+  const diagram = singleSpanDiagram(title, sagging, strip(serviceLoad, share * serviceRatio), EI, cantilever);
+  const envelope = share < 1;
+
+  return {
+    ...diagram,
+    stations: diagram.stations.map((station, k) => envelope
+      ? {
+        ...station,
+        moment: Math.max(station.moment, hogging.points[k].moment),
+        minMoment: Math.min(station.moment, hogging.points[k].moment),
+        shear: Math.max(station.shear, hogging.points[k].shear),
+        minShear: Math.min(station.shear, hogging.points[k].shear)
+      }
+      : station),
+    envelope,
+    perMetre: true,
+    deflectionBasis: "Gk + Qk, 1 m strip, gross section (short-term)"
+  };
+}
+
+// Labelled peak values: sagging and hogging moments, shear and deflection
+export function diagramPeaks(diagram: MemberDiagram): DiagramPeak[] {
+  const extreme = (value: (s: DiagramStation) => number, pick: (a: number, b: number) => boolean) =>
+    diagram.stations.reduce((best, s) => pick(value(s), value(best)) ? s : best);
+  const peaks: DiagramPeak[] = [];
+
+  const sagging = extreme(s => s.moment, (a, b) => a > b);
+  if (sagging.moment > 1e-6) peaks.push({ quantity: 'moment', label: 'Max sagging', x: sagging.x, value: sagging.moment });
+  const hogging = extreme(s => s.minMoment ?? s.moment, (a, b) => a < b);
+  const hoggingValue = hogging.minMoment ?? hogging.moment;
+  if (hoggingValue < -1e-6) peaks.push({ quantity: 'moment', label: 'Max hogging', x: hogging.x, value: hoggingValue });
+
+  const positiveShear = extreme(s => s.shear, (a, b) => a > b);
+  const negativeShear = extreme(s => s.minShear ?? s.shear, (a, b) => a < b);
+  const negativeValue = negativeShear.minShear ?? negativeShear.shear;
+  peaks.push(positiveShear.shear >= -negativeValue
+    ? { quantity: 'shear', label: 'Max shear', x: positiveShear.x, value: positiveShear.shear }
+    : { quantity: 'shear', label: 'Max shear', x: negativeShear.x, value: negativeValue });
+
+  const deflection = extreme(s => Math.abs(s.deflection), (a, b) => a > b);
+  peaks.push({ quantity: 'deflection', label: 'Max deflection', x: deflection.x, value: deflection.deflection });
+
+  return peaks;
+}
+
+// Plain-text rendering for the clipboard export - peaks and ordinates at tenth points
+export function diagramText(diagram: MemberDiagram): string[] {
+  const momentUnit = diagram.perMetre ? 'kNm/m' : 'kNm';
+  const shearUnit = diagram.perMetre ? 'kN/m' : 'kN';
+  const units: Record<DiagramPeak['quantity'], string> = { moment: momentUnit, shear: shearUnit, deflection: 'mm' };
+  const length = diagram.stations[diagram.stations.length - 1].x - diagram.stations[0].x;
+  const lines = [
+    `${diagram.title}: supports at x = ${diagram.supports.map(x => x.toFixed(2)).join(', ')} m`,
+    ...diagramPeaks(diagram).map(peak => `  ${peak.label}: ${peak.value.toFixed(2)} ${units[peak.quantity]} at x = ${peak.x.toFixed(2)} m`),
+    `  x (m)\tM (${momentUnit})${diagram.envelope ? ' max/min' : ''}\tV (${shearUnit})${diagram.envelope ? ' max/min' : ''}\tδ (mm)`
+  ];
+
+  for (let i = 0; i <= 10; i++) {
+    const x = diagram.stations[0].x + length * i / 10;
+    const station = diagram.stations.reduce((best, s) => Math.abs(s.x - x) < Math.abs(best.x - x) ? s : best);
+    const moment = diagram.envelope ? `${station.moment.toFixed(1)}/${(station.minMoment ?? station.moment).toFixed(1)}` : station.moment.toFixed(1);
+    const shear = diagram.envelope ? `${station.shear.toFixed(1)}/${(station.minShear ?? station.shear).toFixed(1)}` : station.shear.toFixed(1);
+    lines.push(`  ${station.x.toFixed(2)}\t${moment}\t${shear}\t${station.deflection.toFixed(2)}`);
+  }
+  lines.push(`  Deflected shape: ${diagram.deflectionBasis}`);
+  return lines;
+}
@@ -0,0 +1,195 @@
+// Durability & Fire Resistance - BS 8110 Tables 3.3 - 3.5
+// Nominal cover, limiting concrete quality and minimum dimensions for exposure and fire period
+
+import type { CalculationStep } from "./beamCalculations";
+
+export type ExposureCondition = 'mild' | 'moderate' | 'severe' | 'very-severe' | 'most-severe';
+
+// Fire resistance in hours (Table 3.4 / 3.5 columns)
+export type FireResistancePeriod = 0.5 | 1 | 1.5 | 2 | 3 | 4;
+
+// Member type for the fire tables
+export type FireMemberType = 'beam' | 'floor' | 'rib';
+
+export interface DurabilityInput {
+  exposure: ExposureCondition;
+  fireResistance: FireResistancePeriod;
+  memberType: FireMemberType;
+  continuous: boolean; // continuous members take the lower fire covers
+  fcu: number; // N/mm²
+  cover: number; // mm (nominal cover entered, to all reinforcement including links)
+  width?: number; // mm (beam or rib width)
+  thickness?: number; // mm (slab thickness)
+}
+
+export interface DurabilityResult {
+  exposure: ExposureCondition;
+  fireResistance: FireResistancePeriod;
+  durabilityCover?: number; // mm (Table 3.3; undefined where the grade is not permitted)
+  fireCover: number; // mm (Table 3.4)
+  nominalCover: number; // mm (greater of the two)
+  cover: number; // mm (provided)
+  minimumGrade: number; // N/mm² (lowest grade permitted for the exposure)
+  maxWaterCement: number; // free water/cement ratio for the grade used
+  minCementContent: number; // kg/m³
+  minimumDimension: number; // mm (Table 3.5 - width for beams and ribs, thickness for floors)
+  dimension?: number; // mm (provided width or thickness)
+  status: 'safe' | 'review' | 'unsafe';
+  steps: CalculationStep[];
+  failureReasons: string[];
+}
+
+export const exposureLabels: Record<ExposureCondition, string> = {
+  'mild': 'Mild',
+  'moderate': 'Moderate',
+  'severe': 'Severe',
+  'very-severe': 'Very Severe',
+  'most-severe': 'Most Severe'
+};
+
+export const fireResistancePeriods: FireResistancePeriod[] = [0.5, 1, 1.5, 2, 3, 4];
+
+// BS8110 Table 3.3 - Nominal cover to all reinforcement (null = grade not permitted)
+const durabilityGrades = [
+  { fcu: 30, waterCement: 0.65, cement: 275 },
+  { fcu: 35, waterCement: 0.60, cement: 300 },
+  { fcu: 40, waterCement: 0.55, cement: 325 },
+  { fcu: 45, waterCement: 0.50, cement: 350 },
+  { fcu: 50, waterCement: 0.45, cement: 400 }
+];
+
+const durabilityCovers: Record<ExposureCondition, (number | null)[]> = {
+  'mild': [25, 20, 20, 20, 20],
+  'moderate': [null, 35, 30, 25, 20],
+  'severe': [null, null, 40, 30, 25],
+  'very-severe': [null, null, 50, 40, 30],
+  'most-severe': [null, null, null, null, 50]
+};
+
+// BS8110 Table 3.4 - Nominal cover for fire resistance [0.5, 1, 1.5, 2, 3, 4 h]
+const fireCovers: Record<FireMemberType, { simple: number[]; continuous: number[] }> = {
+  beam: { simple: [20, 20, 20, 40, 60, 70], continuous: [20, 20, 20, 30, 40, 50] },
+  floor: { simple: [20, 20, 25, 35, 45, 55], continuous: [20, 20, 20, 25, 35, 45] },
+  rib: { simple: [20, 20, 35, 45, 55, 65], continuous: [20, 20, 20, 35, 45, 55] }
+};
+
+// BS8110 Table 3.5 - Minimum beam/rib width and floor thickness for fire resistance
+const fireDimensions: Record<FireMemberType, number[]> = {
+  beam: [200, 200, 200, 200, 240, 280],
+  floor: [75, 95, 110, 125, 150, 170],
+  rib: [125, 125, 125, 125, 150, 175]
+};
+
+// Table 3.3 - cover for the highest tabulated grade not exceeding fcu
+export function getDurabilityCover(exposure: ExposureCondition, fcu: number): number | undefined {
+  const index = durabilityGrades.filter(grade => grade.fcu <= fcu).length - 1;
+  return index < 0 ? undefined : durabilityCovers[exposure][index] ?? undefined;
+}
+
+export function getMinimumGrade(exposure: ExposureCondition): number {
+  return durabilityGrades[durabilityCovers[exposure].findIndex(cover => cover !== null)].fcu;
+}
+
+export function getFireCover(memberType: FireMemberType, continuous: boolean, period: FireResistancePeriod): number {
+  const covers = fireCovers[memberType][continuous ? 'continuous' : 'simple'];
+  return covers[fireResistancePeriods.indexOf(period)];
+}
+
+export function getFireMinimumDimension(memberType: FireMemberType, period: FireResistancePeriod): number {
+  return fireDimensions[memberType][fireResistancePeriods.indexOf(period)];
+}
+
+// Nominal cover required by both tables; the minimum grade's cover where fcu is too low
+export function getNominalCover(
+  exposure: ExposureCondition,
+  fireResistance: FireResistancePeriod,
+  memberType: FireMemberType,
+  continuous: boolean,
+  fcu: number
+): number {
+  const durabilityCover = getDurabilityCover(exposure, fcu) ?? getDurabilityCover(exposure, getMinimumGrade(exposure))!;
+  return Math.max(durabilityCover, getFireCover(memberType, continuous, fireResistance));
+}
+
+export function checkDurability(input: DurabilityInput): DurabilityResult {
+  const steps: CalculationStep[] = [];
+  const failureReasons: string[] = [];
+  const { exposure, fireResistance, memberType, fcu } = input;
+
+  const minimumGrade = getMinimumGrade(exposure);
+  const durabilityCover = getDurabilityCover(exposure, fcu);
+  const gradeOK = durabilityCover !== undefined;
+  const mix = durabilityGrades.filter(grade => grade.fcu <= Math.max(fcu, minimumGrade)).pop()!;
+  const fireCover = getFireCover(memberType, input.continuous, fireResistance);
+  const nominalCover = getNominalCover(exposure, fireResistance, memberType, input.continuous, fcu);
+  const coverOK = input.cover >= nominalCover;
+
+  steps.push({
+    title: "Durability & Fire Cover",
+    formula: "Nominal cover = max(Table 3.3 durability, Table 3.4 fire)",
+    substitution: `${exposureLabels[exposure]} exposure, C${fcu}: ${gradeOK ? `${durabilityCover} mm` : `not permitted below C${minimumGrade}`}
+${fireResistance} h fire, ${input.continuous ? 'continuous' : 'simply supported'} ${memberType}: ${fireCover} mm
+Concrete: max free w/c = ${mix.waterCement.toFixed(2)}, min cement content = ${mix.cement} kg/m³ (C${mix.fcu})`,
+    result: `Nominal cover required = ${nominalCover} mm, provided = ${input.cover} mm`,
+    isCheck: true,
+    checkPassed: gradeOK && coverOK,
+    status: gradeOK && coverOK ? 'safe' : 'unsafe',
+    explanation: !gradeOK
+      ? `Concrete grade must be at least C${minimumGrade} for ${exposureLabels[exposure].toLowerCase()} exposure`
+      : coverOK
+        ? "Cover satisfies durability and fire requirements ✓"
+        : "Increase the nominal cover to the required value",
+    bsReference: "BS8110 Tables 3.3 & 3.4, Cl. 3.3"
+  });
+
+  if (!gradeOK) {
+    failureReasons.push(`Concrete grade C${fcu} is below the minimum C${minimumGrade} for ${exposureLabels[exposure].toLowerCase()} exposure`);
+  }
+  if (!coverOK) {
+    failureReasons.push(`Nominal cover ${input.cover} mm is less than the ${nominalCover} mm required for durability and fire`);
+  }
+
+  // Table 3.5 - width of beams and ribs, thickness of floors
+  const minimumDimension = getFireMinimumDimension(memberType, fireResistance);
+  const dimension = memberType === 'floor' ? input.thickness : input.width;
+  const dimensionName = memberType === 'floor' ? 'thickness' : 'width';
+  const dimensionOK = dimension === undefined || dimension >= minimumDimension;
+  const spalling = fireCover > 40;
+
+  steps.push({
+    title: "Fire Resistance - Minimum Dimensions",
+    formula: `${memberType} ${dimensionName} ≥ Table 3.5 minimum`,
+    substitution: `${fireResistance} h fire resistance: minimum ${dimensionName} = ${minimumDimension} mm`,
+    result: `${memberType === 'floor' ? 'h' : 'b'} = ${dimension ?? '-'} mm ${dimensionOK ? '≥' : '<'} ${minimumDimension} mm`,
+    isCheck: true,
+    checkPassed: dimensionOK,
+    status: !dimensionOK ? 'unsafe' : spalling ? 'review' : 'safe',
+    explanation: !dimensionOK
+      ? `Increase the ${dimensionName} for ${fireResistance} h fire resistance`
+      : spalling
+        ? "Fire cover exceeds 40 mm - additional measures against spalling may be required (Cl. 3.3.6)"
+        : "Minimum dimensions for fire resistance satisfied ✓",
+    bsReference: "BS8110 Table 3.5, Cl. 3.3.6"
+  });
+
+  if (!dimensionOK) {
+    failureReasons.push(`Member ${dimensionName} ${dimension} mm is less than the ${minimumDimension} mm required for ${fireResistance} h fire resistance`);
+  }
+
+  return {
+    exposure,
+    fireResistance,
+    durabilityCover,
+    fireCover,
+    nominalCover,
+    cover: input.cover,
+    minimumGrade,
+    maxWaterCement: mix.waterCement,
+    minCementContent: mix.cement,
+    minimumDimension,
+    dimension,
+    status: failureReasons.length > 0 ? 'unsafe' : spalling ? 'review' : 'safe',
+    steps,
+    failureReasons
+  };
+}
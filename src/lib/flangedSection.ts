@@ -0,0 +1,173 @@
+// Flanged (T and L) Section Design - BS 8110 Cl. 3.4.1.5 & 3.4.4.5
+// Used for sagging regions where the flange is in compression
+
+import type { CalculationStep } from "./beamCalculations";
+
+export type SectionType = 'rectangular' | 'T' | 'L';
+
+export interface FlangedSectionInput {
+  sectionType: Exclude<SectionType, 'rectangular'>;
+  moment: number; // kNm
+  webWidth: number; // mm (bw)
+  flangeThickness: number; // mm (hf)
+  flangeWidthLimit: number; // mm (actual flange width available, e.g. beam spacing)
+  zeroMomentLength: number; // m (lz - distance between points of zero moment)
+  effectiveDepth: number; // mm
+  compressionSteelDepth: number; // mm (d')
+  fcu: number; // N/mm²
+  fy: number; // N/mm²
+}
+
+export interface FlangedSectionResult {
+  effectiveFlangeWidth: number; // mm
+  flangeMoment: number; // kNm - moment of resistance with 0.9x = hf
+  neutralAxisInFlange: boolean;
+  betaF: number;
+  leverArm: number; // mm
+  tensionSteel: number; // mm²
+  compressionSteel: number; // mm²
+  isDoublyReinforced: boolean;
+  steps: CalculationStep[];
+}
+
+export const sectionTypeLabels: Record<SectionType, string> = {
+  'rectangular': 'Rectangular',
+  'T': 'T-beam',
+  'L': 'L-beam'
+};
+
+// BS8110 Cl. 3.4.1.5 - Effective width of flanged beams
+export function getEffectiveFlangeWidth(
+  sectionType: Exclude<SectionType, 'rectangular'>,
+  webWidth: number,
+  zeroMomentLength: number,
+  flangeWidthLimit: number
+): number {
+  const divisor = sectionType === 'T' ? 5 : 10;
+  const width = webWidth + (zeroMomentLength * 1000) / divisor;
+  return flangeWidthLimit > 0 ? Math.min(width, flangeWidthLimit) : width;
+}
+
+// BS8110 Table 3.25 - Minimum tension steel for flanged beams (flange in compression)
+export function getFlangedMinSteelRatio(webWidth: number, flangeWidth: number, fy: number): number {
+  if (webWidth / flangeWidth >= 0.4) {
+    return fy >= 460 ? 0.0013 : 0.0024;
+  }
+  return fy >= 460 ? 0.0018 : 0.0032;
+}
+
+// BS8110 Cl. 3.4.6.3 - Basic span/depth ratio reduction for flanged beams
+export function getFlangedBasicRatioFactor(webWidth: number, flangeWidth: number): number {
+  const ratio = webWidth / flangeWidth;
+  if (ratio <= 0.3) return 0.8;
+  if (ratio >= 1) return 1;
+  return 0.8 + (ratio - 0.3) * (0.2 / 0.7);
+}
+
+export function designFlangedSection(input: FlangedSectionInput): FlangedSectionResult {
+  const steps: CalculationStep[] = [];
+  const { webWidth: bw, flangeThickness: hf, effectiveDepth: d, fcu, fy } = input;
+  const divisor = input.sectionType === 'T' ? 5 : 10;
+  const bf = getEffectiveFlangeWidth(input.sectionType, bw, input.zeroMomentLength, input.flangeWidthLimit);
+  const M_Nmm = input.moment * 1e6;
+
+  steps.push({
+    title: "Effective Flange Width",
+    formula: `b = bw + lz/${divisor} (${sectionTypeLabels[input.sectionType]})`,
+    substitution: `b = ${bw} + ${(input.zeroMomentLength * 1000).toFixed(0)}/${divisor}${input.flangeWidthLimit > 0 ? ` ≤ ${input.flangeWidthLimit} (actual flange)` : ''}`,
+    result: `b = ${bf.toFixed(0)} mm`,
+    explanation: `lz = ${input.zeroMomentLength.toFixed(2)} m is the distance between points of zero moment`,
+    bsReference: "BS8110 Cl. 3.4.1.5"
+  });
+
+  // Moment of resistance when the stress block just fills the flange (0.9x = hf)
+  const Mf = 0.45 * fcu * bf * hf * (d - hf / 2);
+  const neutralAxisInFlange = M_Nmm <= Mf;
+
+  steps.push({
+    title: "Neutral Axis Position",
+    formula: "Mf = 0.45fcu·b·hf(d - hf/2)",
+    substitution: `Mf = 0.45 × ${fcu} × ${bf.toFixed(0)} × ${hf} × (${d.toFixed(0)} - ${hf}/2) = ${(Mf / 1e6).toFixed(2)} kN·m`,
+    result: neutralAxisInFlange
+      ? `M = ${input.moment.toFixed(2)} ≤ Mf = ${(Mf / 1e6).toFixed(2)} kN·m → Neutral axis within flange`
+      : `M = ${input.moment.toFixed(2)} > Mf = ${(Mf / 1e6).toFixed(2)} kN·m → Neutral axis in web`,
+    isCheck: true,
+    checkPassed: neutralAxisInFlange,
+    status: neutralAxisInFlange ? 'safe' : 'review',
+    explanation: neutralAxisInFlange
+      ? "Design as a rectangular section of width b"
+      : "Design the web to Cl. 3.4.4.5",
+    bsReference: "BS8110 Cl. 3.4.4.5"
+  });
+
+  if (neutralAxisInFlange) {
+    const K = M_Nmm / (bf * d * d * fcu);
+    const z = Math.min(d * (0.5 + Math.sqrt(0.25 - K / 0.9)), 0.95 * d);
+    const As = M_Nmm / (0.87 * fy * z);
+    const x = (d - z) / 0.45;
+
+    steps.push({
+      title: "Flanged Section - Tension Steel",
+      formula: "K = M/(b·d²·fcu), z = d[0.5 + √(0.25 - K/0.9)], As = M/(0.87fy·z)",
+      substitution: `K = ${input.moment.toFixed(2)} × 10⁶ / (${bf.toFixed(0)} × ${d.toFixed(0)}² × ${fcu}) = ${K.toFixed(4)}
+z = ${z.toFixed(1)} mm, x = (d - z)/0.45 = ${x.toFixed(1)} mm ${0.9 * x <= hf ? '≤' : '>'} hf/0.9`,
+      result: `As = ${As.toFixed(0)} mm²`,
+      bsReference: "BS8110 Cl. 3.4.4.4"
+    });
+
+    return {
+      effectiveFlangeWidth: bf,
+      flangeMoment: Mf / 1e6,
+      neutralAxisInFlange,
+      betaF: 0,
+      leverArm: z,
+      tensionSteel: As,
+      compressionSteel: 0,
+      isDoublyReinforced: false,
+      steps
+    };
+  }
+
+  // Neutral axis in the web - Cl. 3.4.4.5 equation 1
+  const betaF = 0.45 * (hf / d) * (1 - bw / bf) * (1 - hf / (2 * d)) + 0.15 * (bw / bf);
+  const MLimit = betaF * fcu * bf * d * d;
+  const isDoublyReinforced = M_Nmm > MLimit;
+  const designMoment = Math.min(M_Nmm, MLimit);
+  const webTerm = 0.1 * fcu * bw * d * (0.45 * d - hf);
+  let compressionSteel = 0;
+
+  if (isDoublyReinforced) {
+    compressionSteel = (M_Nmm - MLimit) / (0.87 * fy * (d - input.compressionSteelDepth));
+  }
+  const tensionSteel = (designMoment + webTerm) / (0.87 * fy * (d - 0.5 * hf)) + compressionSteel;
+
+  steps.push({
+    title: "Flanged Section - Web Design",
+    formula: "βf = 0.45(hf/d)(1 - bw/b)(1 - hf/2d) + 0.15(bw/b); As = [M + 0.1fcu·bw·d(0.45d - hf)] / [0.87fy(d - 0.5hf)]",
+    substitution: `βf = 0.45 × (${hf}/${d.toFixed(0)}) × (1 - ${bw}/${bf.toFixed(0)}) × (1 - ${hf}/${(2 * d).toFixed(0)}) + 0.15 × ${bw}/${bf.toFixed(0)} = ${betaF.toFixed(4)}
+βf·fcu·b·d² = ${(MLimit / 1e6).toFixed(2)} kN·m ${isDoublyReinforced ? '<' : '≥'} M = ${input.moment.toFixed(2)} kN·m${isDoublyReinforced
+  ? `\nAs' = (M - βf·fcu·b·d²) / [0.87fy(d - d')] = ${compressionSteel.toFixed(0)} mm²`
+  : ''}
+As = [${(designMoment / 1e6).toFixed(2)} × 10⁶ + 0.1 × ${fcu} × ${bw} × ${d.toFixed(0)} × (0.45 × ${d.toFixed(0)} - ${hf})] / [0.87 × ${fy} × (${d.toFixed(0)} - 0.5 × ${hf})]${isDoublyReinforced ? ' + As\'' : ''}`,
+    result: `As = ${tensionSteel.toFixed(0)} mm²${isDoublyReinforced ? `, As' = ${compressionSteel.toFixed(0)} mm²` : ''}`,
+    isCheck: true,
+    checkPassed: !isDoublyReinforced,
+    status: isDoublyReinforced ? 'review' : 'safe',
+    explanation: isDoublyReinforced
+      ? "M exceeds βf·fcu·b·d²: compression reinforcement required for the excess moment"
+      : "Valid for hf < 0.45d with the web carrying the remaining compression",
+    bsReference: "BS8110 Cl. 3.4.4.5"
+  });
+
+  return {
+    effectiveFlangeWidth: bf,
+    flangeMoment: Mf / 1e6,
+    neutralAxisInFlange,
+    betaF,
+    leverArm: d - 0.5 * hf,
+    tensionSteel,
+    compressionSteel,
+    isDoublyReinforced,
+    steps
+  };
+}
@@ -0,0 +1,619 @@
+import { getTensionModificationFactor } from "./calculatedDeflection";
+import { checkDurability, type DurabilityResult, type ExposureCondition, type FireResistancePeriod } from "./durability";
+import type { CalculationStep } from "./slabCalculations";
+import { describeSlabBars, selectSlabBars } from "./slabReinforcement";
+
+export type ColumnPosition = 'interior' | 'edge' | 'corner';
+export type EdgeBendingAxis = 'parallel' | 'perpendicular';
+export type FlatSlabEdgeSupport = 'simple' | 'continuous';
+export type FlatSlabMomentLocation = 'outer-support' | 'end-span' | 'first-interior-support' | 'interior-span' | 'interior-support';
+
+export interface FlatSlabInput {
+  shortSpan: number; // m (lx) - column centres
+  longSpan: number; // m (ly) - column centres
+  columnWidth: number; // mm (cx, measured along lx)
+  columnDepth: number; // mm (cy, measured along ly)
+  columnPosition: ColumnPosition; // column checked for punching shear
+  edgeBendingAxis: EdgeBendingAxis; // edge columns - axis of bending relative to the free edge (Cl. 3.7.6.3)
+  edgeSupport: FlatSlabEdgeSupport; // Table 3.12 - slab/edge column connection
+  deadLoad: number; // kN/m²
+  liveLoad: number; // kN/m²
+  fcu: number; // N/mm²
+  fy: number; // N/mm²
+  fyv: number; // N/mm² - punching shear links
+  linkDiameter: number; // mm
+  slabThickness: number; // mm
+  cover: number; // mm
+  exposure: ExposureCondition; // Table 3.3
+  fireResistance: FireResistancePeriod; // hours (Tables 3.4 & 3.5)
+}
+
+// Design of one strip (column or middle) at one Table 3.12 location, per metre width
+export interface FlatSlabStripDesign {
+  width: number; // m
+  moment: number; // kNm/m
+  k: number;
+  z: number; // mm
+  steel: number; // mm²/m, at least As,min where moment > 0
+  bars: string;
+}
+
+export interface FlatSlabStripMoment {
+  location: FlatSlabMomentLocation;
+  label: string;
+  face: 'sagging' | 'hogging';
+  coefficient: number; // Table 3.12, × F·l
+  totalMoment: number; // kNm across the full panel width, after the 0.15F·hc reduction
+  columnShare: number; // Table 3.18
+  columnStrip: FlatSlabStripDesign;
+  middleStrip: FlatSlabStripDesign;
+  centralSteel?: number; // mm²/m - 2/3 of the column strip hogging steel in its central half (Cl. 3.7.3.1)
+  centralBars?: string;
+}
+
+export interface FlatSlabDirection {
+  span: number; // m - column centres
+  effectiveSpan: number; // m - l = L - 2hc/3
+  panelWidth: number; // m
+  effectiveDepth: number; // mm
+  totalLoad: number; // kN - F
+  moments: FlatSlabStripMoment[];
+}
+
+export interface PunchingPerimeter {
+  distance: number; // mm from the column face
+  length: number; // mm - u
+  shear: number; // kN - effective shear at the perimeter
+  stress: number; // N/mm²
+  status: 'none' | 'reinforced' | 'unsafe';
+  reinforcement?: number; // mm² - ΣAsv sin α
+  legs?: number;
+}
+
+export interface FlatSlabResult {
+  steps: CalculationStep[];
+  summary: {
+    // Input values
+    shortSpan: number;
+    longSpan: number;
+    thickness: number;
+    fcu: number;
+    fy: number;
+    fyv: number;
+    deadLoad: number;
+    liveLoad: number;
+    cover: number;
+    columnWidth: number;
+    columnDepth: number;
+    columnPosition: ColumnPosition;
+    edgeSupport: FlatSlabEdgeSupport;
+    linkDiameter: number;
+    // Calculated values
+    spanRatio: number;
+    ultimateLoad: number;
+    headDiameter: number; // mm - hc
+    columnStripWidth: number; // m
+    shortDirection: FlatSlabDirection; // bars spanning lx (inner layer)
+    longDirection: FlatSlabDirection; // bars spanning ly (outer layer)
+    kPrime: number;
+    minSteel: number;
+    // Punching shear values
+    punchingDepth: number; // mm - mean of the two layers
+    transferredShear: number; // kN - Vt
+    effectiveShearFactor: number;
+    effectiveShear: number; // kN - Veff
+    faceShearStress: number;
+    maxShearStress: number;
+    punchingSteel: number; // mm²/m - top steel used for vc
+    permissibleShear: number; // vc
+    perimeters: PunchingPerimeter[];
+    // Deflection values
+    basicSpanDepthRatio: number;
+    tensionModificationFactor: number;
+    allowableSpanDepthRatio: number;
+    actualSpanDepthRatio: number;
+    // Status values
+    kStatus: 'safe' | 'unsafe';
+    faceShearStatus: 'safe' | 'unsafe';
+    punchingStatus: 'safe' | 'unsafe';
+    deflectionStatus: 'safe' | 'unsafe';
+    durability: DurabilityResult;
+    designValid: boolean;
+    // Failure tracking
+    failureReasons: string[];
+  };
+}
+
+// BS8110 Table 3.12 - Ultimate bending moments in flat slabs (× F·l)
+const flatSlabMomentCoefficients: Record<FlatSlabEdgeSupport, Record<FlatSlabMomentLocation, number>> = {
+  simple: {
+    'outer-support': 0,
+    'end-span': 0.086,
+    'first-interior-support': 0.086,
+    'interior-span': 0.063,
+    'interior-support': 0.063
+  },
+  continuous: {
+    'outer-support': 0.040,
+    'end-span': 0.075,
+    'first-interior-support': 0.086,
+    'interior-span': 0.063,
+    'interior-support': 0.063
+  }
+};
+
+const momentLocations: { location: FlatSlabMomentLocation; label: string; face: 'sagging' | 'hogging' }[] = [
+  { location: 'outer-support', label: 'Outer support', face: 'hogging' },
+  { location: 'end-span', label: 'Near middle of end span', face: 'sagging' },
+  { location: 'first-interior-support', label: 'First interior support', face: 'hogging' },
+  { location: 'interior-span', label: 'Middle of interior span', face: 'sagging' },
+  { location: 'interior-support', label: 'Interior support', face: 'hogging' }
+];
+
+// BS8110 Table 3.18 - Share of the panel moment taken by the column strip
+const columnStripShare: Record<'sagging' | 'hogging', number> = {
+  hogging: 0.75,
+  sagging: 0.55
+};
+
+// BS8110 Cl. 3.7.6.2 & 3.7.6.3 - Veff = factor × Vt for approximately equal spans
+function effectiveShearFactor(position: ColumnPosition, axis: EdgeBendingAxis): number {
+  if (position === 'interior') return 1.15;
+  if (position === 'corner') return 1.25;
+  return axis === 'parallel' ? 1.25 : 1.4;
+}
+
+// Share of the panel area carried by the column, to the panel centre lines
+const tributaryShare: Record<ColumnPosition, number> = {
+  interior: 1,
+  edge: 0.5,
+  corner: 0.25
+};
+
+// Rectangular perimeter a mm from the column faces, with edge and corner columns flush with the slab edges
+// (the cx face on the free edge). Returns the perimeter length and the enclosed plan area (mm²).
+function punchingPerimeter(position: ColumnPosition, cx: number, cy: number, a: number): { length: number; area: number } {
+  switch (position) {
+    case 'interior':
+      return { length: 2 * (cx + 2 * a) + 2 * (cy + 2 * a), area: (cx + 2 * a) * (cy + 2 * a) };
+    case 'edge':
+      return { length: (cx + 2 * a) + 2 * (cy + a), area: (cx + 2 * a) * (cy + a) };
+    case 'corner':
+      return { length: (cx + a) + (cy + a), area: (cx + a) * (cy + a) };
+  }
+}
+
+// Calculate permissible shear stress vc (BS8110 Table 3.8)
+function calculateVc(As: number, b: number, d: number, fcu: number): number {
+  const ratio = Math.min((100 * As) / (b * d), 3);
+  const depthFactor = Math.pow(400 / d, 0.25);
+  const fcuFactor = Math.pow(Math.min(fcu, 40) / 25, 1/3);
+  return (0.79 * Math.pow(ratio, 1/3) * Math.max(depthFactor, 0.67) * fcuFactor) / 1.25;
+}
+
+function suggestBars(input: FlatSlabInput, area: number, effectiveDepth: number): string {
+  if (area <= 0) return 'None required';
+  return describeSlabBars(selectSlabBars({ requiredArea: area, effectiveDepth, thickness: input.slabThickness, fy: input.fy }));
+}
+
+export function calculateFlatSlabDesign(input: FlatSlabInput): FlatSlabResult {
+  const steps: CalculationStep[] = [];
+  const failureReasons: string[] = [];
+  const gamma_dead = 1.4;
+  const gamma_live = 1.6;
+  const K_prime = 0.156;
+
+  // Assume 12mm bars; the long-span bars are the outer layer (top and bottom)
+  const barDiameter = 12;
+  const effectiveDepthLong = input.slabThickness - input.cover - barDiameter / 2;
+  const effectiveDepthShort = effectiveDepthLong - barDiameter;
+  const punchingDepth = (effectiveDepthLong + effectiveDepthShort) / 2;
+  const spanRatio = input.longSpan / input.shortSpan;
+  const minSteel = 0.0013 * 1000 * input.slabThickness;
+  let designValid = true;
+
+  const positionLabels: Record<ColumnPosition, string> = {
+    interior: 'Interior column',
+    edge: 'Edge column',
+    corner: 'Corner column'
+  };
+
+  // STEP 0: Flat Slab Declaration
+  steps.push({
+    title: "FLAT SLAB DECLARATION",
+    result: `Type: FLAT SLAB (no drops or column heads)
+Panel: ${input.shortSpan} m × ${input.longSpan} m between column centres
+Column: ${input.columnWidth} × ${input.columnDepth} mm, ${positionLabels[input.columnPosition].toLowerCase()} checked for punching
+Edge connection: ${input.edgeSupport === 'simple' ? 'simple' : 'continuous'} (Table 3.12)`,
+    explanation: "This flat slab design is in accordance with BS 8110-1:1997",
+    bsReference: 'Cl. 3.7, Tables 3.12 & 3.18',
+    status: 'safe'
+  });
+
+  // Step 1: Ultimate Design Load
+  const ultimateLoad = gamma_dead * input.deadLoad + gamma_live * input.liveLoad;
+
+  steps.push({
+    title: "Step 1: Ultimate Design Load",
+    formula: "n = γf,dead × Gk + γf,live × Qk",
+    substitution: `n = 1.4 × ${input.deadLoad} + 1.6 × ${input.liveLoad}`,
+    result: `n = ${ultimateLoad.toFixed(2)} kN/m²`,
+    bsReference: 'BS8110 Cl. 2.4.3'
+  });
+
+  // Step 2: Effective Depth
+  steps.push({
+    title: "Step 2: Effective Depth Calculation",
+    formula: "d = h - cover - φ/2",
+    substitution: `d = ${input.slabThickness} - ${input.cover} - ${barDiameter}/2`,
+    result: `d (long span, outer layer) = ${effectiveDepthLong.toFixed(0)} mm
+d (short span, inner layer) = ${effectiveDepthShort.toFixed(0)} mm
+d (punching, mean) = ${punchingDepth.toFixed(0)} mm`,
+    bsReference: 'BS8110 Cl. 3.4.4.1'
+  });
+
+  // Step 2a-b: Durability and fire resistance (floor, Tables 3.3 - 3.5)
+  const durability = checkDurability({
+    exposure: input.exposure,
+    fireResistance: input.fireResistance,
+    memberType: 'floor',
+    continuous: true,
+    fcu: input.fcu,
+    cover: input.cover,
+    thickness: input.slabThickness
+  });
+  durability.steps.forEach((step, i) => {
+    steps.push({ ...step, title: `Step 2${String.fromCharCode(97 + i)}: ${step.title}` });
+  });
+  failureReasons.push(...durability.failureReasons);
+  if (durability.status === 'unsafe') designValid = false;
+
+  // Step 3: Conditions for the simplified coefficients (Cl. 3.7.2.7 referring to Cl. 3.5.2.3)
+  const bayArea = input.shortSpan * input.longSpan;
+  const conditionsMet = bayArea >= 30 && input.liveLoad <= 1.25 * input.deadLoad && input.liveLoad <= 5 && spanRatio <= 2;
+
+  steps.push({
+    title: "Step 3: Conditions for Table 3.12",
+    formula: "Bay area ≥ 30 m², Qk/Gk ≤ 1.25, Qk ≤ 5 kN/m², ly/lx ≤ 2",
+    substitution: `Bay area = ${input.shortSpan} × ${input.longSpan} = ${bayArea.toFixed(1)} m²
+Qk/Gk = ${input.liveLoad} / ${input.deadLoad} = ${(input.liveLoad / input.deadLoad).toFixed(2)}
+ly/lx = ${spanRatio.toFixed(2)}`,
+    result: conditionsMet ? 'Simplified coefficients applicable ✓' : 'Conditions not all met - confirm moments by frame analysis',
+    isCheck: true,
+    checkPassed: conditionsMet,
+    status: conditionsMet ? 'safe' : 'review',
+    explanation: "Single load case with all spans loaded; at least three rows of panels of approximately equal span assumed",
+    bsReference: 'BS8110 Cl. 3.7.2.7 & 3.5.2.3'
+  });
+
+  // Step 4: Division into column and middle strips (Cl. 3.7.2.8)
+  const columnStripWidth = input.shortSpan / 2;
+  const headDiameter = Math.sqrt(4 * input.columnWidth * input.columnDepth / Math.PI);
+
+  steps.push({
+    title: "Step 4: Column and Middle Strips",
+    formula: "Column strip = lx/2 (lx/4 either side of the column line); middle strip = panel width - lx/2",
+    substitution: `Column strip = ${input.shortSpan} / 2 = ${columnStripWidth.toFixed(2)} m
+Middle strip (bars spanning lx) = ${input.longSpan} - ${columnStripWidth.toFixed(2)} = ${(input.longSpan - columnStripWidth).toFixed(2)} m
+Middle strip (bars spanning ly) = ${input.shortSpan} - ${columnStripWidth.toFixed(2)} = ${(input.shortSpan - columnStripWidth).toFixed(2)} m`,
+    result: `Column strip = ${columnStripWidth.toFixed(2)} m in both directions
+hc = √(4·cx·cy/π) = ${headDiameter.toFixed(0)} mm (equivalent diameter, no column head)`,
+    bsReference: 'BS8110 Cl. 3.7.2.8 & Fig. 3.12'
+  });
+
+  let kStatus: 'safe' | 'unsafe' = 'safe';
+
+  // Strip design for one location, per metre width
+  const designStrip = (moment: number, width: number, d: number, label: string): FlatSlabStripDesign => {
+    const perMetre = moment / width;
+    const k = perMetre * 1e6 / (1000 * d * d * input.fcu);
+    const z = Math.min(d * (0.5 + Math.sqrt(Math.max(0.25 - k / 0.9, 0))), 0.95 * d);
+    const required = perMetre * 1e6 / (0.87 * input.fy * z);
+    const steel = perMetre > 0 ? Math.max(required, minSteel) : 0;
+    if (k > K_prime) {
+      kStatus = 'unsafe';
+      designValid = false;
+      failureReasons.push(`${label}: K (${k.toFixed(4)}) exceeds K' (${K_prime}) - increase slab thickness or add drops`);
+    }
+    return { width, moment: perMetre, k, z, steel, bars: suggestBars(input, steel, d) };
+  };
+
+  // Steps 5 & 6: Moments along each direction, split between strips (Tables 3.12 & 3.18)
+  const designDirection = (stepNumber: number, name: string, span: number, panelWidth: number, d: number): FlatSlabDirection => {
+    const effectiveSpan = span - 2 * headDiameter / 3000;
+    const totalLoad = ultimateLoad * panelWidth * effectiveSpan;
+    const reduction = 0.15 * totalLoad * headDiameter / 1000;
+    const middleWidth = panelWidth - columnStripWidth;
+
+    steps.push({
+      title: `Step ${stepNumber}: ${name} - Total Load and Effective Span`,
+      formula: "l = L - 2hc/3, F = n × l₂ × l",
+      substitution: `l = ${span} - 2 × ${(headDiameter / 1000).toFixed(3)}/3 = ${effectiveSpan.toFixed(3)} m
+F = ${ultimateLoad.toFixed(2)} × ${panelWidth} × ${effectiveSpan.toFixed(3)}`,
+      result: `F = ${totalLoad.toFixed(1)} kN, F·l = ${(totalLoad * effectiveSpan).toFixed(1)} kNm
+Support moment reduction 0.15F·hc = ${reduction.toFixed(1)} kNm`,
+      bsReference: 'BS8110 Cl. 3.7.2.7'
+    });
+
+    const moments = momentLocations.map(({ location, label, face }, i) => {
+      const coefficient = flatSlabMomentCoefficients[input.edgeSupport][location];
+      const interiorSupport = location === 'first-interior-support' || location === 'interior-support';
+      const totalMoment = Math.max(coefficient * totalLoad * effectiveSpan - (interiorSupport ? reduction : 0), 0);
+      const columnShare = columnStripShare[face];
+      const columnStrip = designStrip(totalMoment * columnShare, columnStripWidth, d, `${name} ${label.toLowerCase()} (column strip)`);
+      const middleStrip = designStrip(totalMoment * (1 - columnShare), middleWidth, d, `${name} ${label.toLowerCase()} (middle strip)`);
+      const centralSteel = face === 'hogging' && columnStrip.steel > 0 ? columnStrip.steel * 4 / 3 : undefined;
+
+      steps.push({
+        title: `Step ${stepNumber}${String.fromCharCode(97 + i)}: ${name} - ${label}`,
+        formula: `M = ${face === 'hogging' ? '-' : '+'}${coefficient.toFixed(3)}F·l${interiorSupport ? ' - 0.15F·hc' : ''}; column strip ${columnShare * 100}%, middle strip ${(1 - columnShare) * 100}%`,
+        substitution: `M = ${totalMoment.toFixed(1)} kNm
+Column strip: ${(totalMoment * columnShare).toFixed(1)} / ${columnStripWidth.toFixed(2)} = ${columnStrip.moment.toFixed(1)} kNm/m, K = ${columnStrip.k.toFixed(4)}
+Middle strip: ${(totalMoment * (1 - columnShare)).toFixed(1)} / ${middleWidth.toFixed(2)} = ${middleStrip.moment.toFixed(1)} kNm/m, K = ${middleStrip.k.toFixed(4)}`,
+        result: `Column strip (${face === 'hogging' ? 'top' : 'bottom'}): As = ${columnStrip.steel.toFixed(0)} mm²/m → ${columnStrip.bars}
+Middle strip (${face === 'hogging' ? 'top' : 'bottom'}): As = ${middleStrip.steel.toFixed(0)} mm²/m → ${middleStrip.bars}`,
+        explanation: centralSteel
+          ? `Two-thirds of the column strip steel in its central half: ${centralSteel.toFixed(0)} mm²/m → ${suggestBars(input, centralSteel, d)}`
+          : undefined,
+        isCheck: true,
+        checkPassed: Math.max(columnStrip.k, middleStrip.k) <= K_prime,
+        status: Math.max(columnStrip.k, middleStrip.k) <= K_prime ? 'safe' : 'unsafe',
+        bsReference: 'BS8110 Tables 3.12 & 3.18, Cl. 3.7.3.1'
+      });
+
+      return {
+        location,
+        label,
+        face,
+        coefficient,
+        totalMoment,
+        columnShare,
+        columnStrip,
+        middleStrip,
+        centralSteel,
+        centralBars: centralSteel ? suggestBars(input, centralSteel, d) : undefined
+      };
+    });
+
+    return { span, effectiveSpan, panelWidth, effectiveDepth: d, totalLoad, moments };
+  };
+
+  const shortDirection = designDirection(5, 'Short span (lx)', input.shortSpan, input.longSpan, effectiveDepthShort);
+  const longDirection = designDirection(6, 'Long span (ly)', input.longSpan, input.shortSpan, effectiveDepthLong);
+
+  // Step 7: Deflection - longer span, column strip of the end span, 0.9 × Table 3.9 without drops (Cl. 3.7.8)
+  const endSpan = longDirection.moments.find(m => m.location === 'end-span')!;
+  const basicRatio = 26 * 0.9;
+  const endSpanSteel = endSpan.columnStrip.steel;
+  const tensionMod = getTensionModificationFactor(
+    endSpan.columnStrip.moment * 1e6,
+    1000,
+    effectiveDepthLong,
+    endSpanSteel,
+    selectSlabBars({ requiredArea: endSpanSteel, effectiveDepth: effectiveDepthLong, thickness: input.slabThickness, fy: input.fy }).bars?.area ?? endSpanSteel,
+    input.fy
+  );
+  const allowableRatio = basicRatio * tensionMod;
+  const actualRatio = (input.longSpan * 1000) / effectiveDepthLong;
+  const deflectionStatus = actualRatio <= allowableRatio ? 'safe' : 'unsafe';
+
+  steps.push({
+    title: "Step 7: Deflection Check",
+    formula: "Longer span/d ≤ 0.9 × Basic ratio × Modification factor",
+    substitution: `Basic ratio = 0.9 × 26 = ${basicRatio.toFixed(1)} (flat slab without drops)
+Tension modification factor = ${tensionMod.toFixed(2)} (column strip, end span)
+Allowable span/d = ${basicRatio.toFixed(1)} × ${tensionMod.toFixed(2)} = ${allowableRatio.toFixed(1)}`,
+    result: `Actual span/d = ${input.longSpan * 1000} / ${effectiveDepthLong.toFixed(0)} = ${actualRatio.toFixed(1)}
+Allowable span/d = ${allowableRatio.toFixed(1)}`,
+    isCheck: true,
+    checkPassed: deflectionStatus === 'safe',
+    status: deflectionStatus,
+    explanation: deflectionStatus === 'safe'
+      ? `Actual ≤ Allowable → Deflection OK ✓`
+      : `Actual > Allowable → Increase slab thickness or add drops`,
+    bsReference: 'BS8110 Cl. 3.7.8 & Table 3.9'
+  });
+
+  if (deflectionStatus === 'unsafe') {
+    designValid = false;
+    failureReasons.push(`Deflection check failed: L/d = ${actualRatio.toFixed(1)} > ${allowableRatio.toFixed(1)}`);
+  }
+
+  // Step 8: Shear transferred to the column and effective shear (Cl. 3.7.6.2 & 3.7.6.3)
+  const transferredShear = ultimateLoad * bayArea * tributaryShare[input.columnPosition];
+  const shearFactor = effectiveShearFactor(input.columnPosition, input.edgeBendingAxis);
+  const effectiveShear = shearFactor * transferredShear;
+
+  steps.push({
+    title: "Step 8: Effective Design Shear",
+    formula: "Veff = factor × Vt (1.15 interior, 1.25 corner or edge bending parallel to the edge, 1.4 edge bending perpendicular)",
+    substitution: `Vt = ${ultimateLoad.toFixed(2)} × ${bayArea.toFixed(2)} × ${tributaryShare[input.columnPosition]} = ${transferredShear.toFixed(1)} kN (all panels loaded)
+Veff = ${shearFactor} × ${transferredShear.toFixed(1)}`,
+    result: `Veff = ${effectiveShear.toFixed(1)} kN`,
+    explanation: input.columnPosition === 'interior'
+      ? 'Interior column with approximately equal spans'
+      : input.columnPosition === 'corner'
+        ? 'Corner column'
+        : `Edge column, bending about an axis ${input.edgeBendingAxis} to the free edge`,
+    bsReference: 'BS8110 Cl. 3.7.6.2 & 3.7.6.3'
+  });
+
+  // Step 9: Maximum shear at the column face (Cl. 3.7.6.4)
+  const face = punchingPerimeter(input.columnPosition, input.columnWidth, input.columnDepth, 0);
+  const faceShearStress = effectiveShear * 1000 / (face.length * punchingDepth);
+  const maxShearStress = Math.min(0.8 * Math.sqrt(input.fcu), 5);
+  const faceShearStatus = faceShearStress <= maxShearStress ? 'safe' : 'unsafe';
+
+  steps.push({
+    title: "Step 9: Maximum Shear at Column Face",
+    formula: "vmax = Veff / (u₀d) ≤ 0.8√fcu or 5 N/mm²",
+    substitution: `u₀ = ${face.length.toFixed(0)} mm
+vmax = ${(effectiveShear * 1000).toFixed(0)} / (${face.length.toFixed(0)} × ${punchingDepth.toFixed(0)})`,
+    result: `vmax = ${faceShearStress.toFixed(2)} N/mm² (limit ${maxShearStress.toFixed(2)} N/mm²)`,
+    isCheck: true,
+    checkPassed: faceShearStatus === 'safe',
+    status: faceShearStatus,
+    explanation: faceShearStatus === 'safe'
+      ? 'Shear at the column face within limit ✓'
+      : 'Shear at the column face exceeds limit → increase slab thickness, column size or add a column head',
+    bsReference: 'BS8110 Cl. 3.7.6.4'
+  });
+
+  if (faceShearStatus === 'unsafe') {
+    designValid = false;
+    failureReasons.push(`Shear at the column face (${faceShearStress.toFixed(2)} N/mm²) exceeds ${maxShearStress.toFixed(2)} N/mm²`);
+  }
+
+  // Top steel crossing the perimeters - the lesser column strip steel of the two directions at this column
+  const supportLocation: FlatSlabMomentLocation = input.columnPosition === 'interior' ? 'interior-support' : 'outer-support';
+  const supportSteel = (direction: FlatSlabDirection) =>
+    direction.moments.find(m => m.location === supportLocation)!.columnStrip.steel;
+  const punchingSteel = Math.max(Math.min(supportSteel(shortDirection), supportSteel(longDirection)), minSteel);
+  const vc = calculateVc(punchingSteel, 1000, punchingDepth, input.fcu);
+
+  // Step 10a...: Perimeters at 1.5d from the face, then at 0.75d intervals until v ≤ vc (Cl. 3.7.7)
+  const perimeters: PunchingPerimeter[] = [];
+  const legArea = Math.PI * Math.pow(input.linkDiameter, 2) / 4;
+  let punchingStatus: 'safe' | 'unsafe' = 'safe';
+
+  for (let i = 0; i < 12; i++) {
+    const distance = 1.5 * punchingDepth + i * 0.75 * punchingDepth;
+    const { length, area } = punchingPerimeter(input.columnPosition, input.columnWidth, input.columnDepth, distance);
+    const shear = shearFactor * Math.max(transferredShear - ultimateLoad * area / 1e6, 0);
+    const stress = shear * 1000 / (length * punchingDepth);
+    const perimeter: PunchingPerimeter = { distance, length, shear, stress, status: 'none' };
+
+    if (stress > 2 * vc) {
+      perimeter.status = 'unsafe';
+    } else if (stress > vc) {
+      perimeter.status = 'reinforced';
+      const stressExcess = stress <= 1.6 * vc ? Math.max(stress - vc, 0.4) : Math.max(5 * (0.7 * stress - vc), 0.4);
+      perimeter.reinforcement = stressExcess * length * punchingDepth / (0.87 * input.fyv);
+      perimeter.legs = Math.max(Math.ceil(perimeter.reinforcement / legArea), 2 * Math.ceil(length / (1.5 * punchingDepth)));
+    }
+    perimeters.push(perimeter);
+
+    const formula = stress <= 1.6 * vc
+      ? "ΣAsv sin α ≥ (v - vc)ud / 0.87fyv, (v - vc) ≥ 0.4 N/mm²"
+      : "ΣAsv sin α ≥ 5(0.7v - vc)ud / 0.87fyv";
+
+    steps.push({
+      title: `Step 10${String.fromCharCode(97 + i)}: Punching Perimeter at ${i === 0 ? '1.5d' : `${(1.5 + i * 0.75).toFixed(2)}d`}`,
+      formula: perimeter.status === 'reinforced' ? formula : "v = V / (ud) ≤ vc",
+      substitution: `u = ${length.toFixed(0)} mm at ${distance.toFixed(0)} mm from the face
+V = ${shearFactor} × (${transferredShear.toFixed(1)} - ${ultimateLoad.toFixed(2)} × ${(area / 1e6).toFixed(3)}) = ${shear.toFixed(1)} kN
+v = ${(shear * 1000).toFixed(0)} / (${length.toFixed(0)} × ${punchingDepth.toFixed(0)}) = ${stress.toFixed(3)} N/mm²`,
+      result: perimeter.status === 'none'
+        ? `v = ${stress.toFixed(3)} ≤ vc = ${vc.toFixed(3)} N/mm² → No shear reinforcement required`
+        : perimeter.status === 'reinforced'
+          ? `ΣAsv = ${perimeter.reinforcement!.toFixed(0)} mm² → ${perimeter.legs} legs of T${input.linkDiameter} (${(perimeter.legs! * legArea).toFixed(0)} mm²)`
+          : `v = ${stress.toFixed(3)} > 2vc = ${(2 * vc).toFixed(3)} N/mm² → Shear reinforcement not permitted`,
+      isCheck: true,
+      checkPassed: perimeter.status !== 'unsafe',
+      status: perimeter.status === 'unsafe' ? 'unsafe' : perimeter.status === 'reinforced' ? 'review' : 'safe',
+      explanation: perimeter.status === 'reinforced'
+        ? `vc < v ≤ ${stress <= 1.6 * vc ? '1.6vc' : '2vc'}; links spread over at least two perimeters within 1.5d inside this one, at ≤ 1.5d around and ≤ 0.75d radially`
+        : undefined,
+      bsReference: 'BS8110 Cl. 3.7.7.4 & 3.7.7.5'
+    });
+
+    if (perimeter.status === 'unsafe') {
+      punchingStatus = 'unsafe';
+      designValid = false;
+      failureReasons.push(`Punching shear at ${distance.toFixed(0)} mm from the column face (v = ${stress.toFixed(3)} N/mm²) exceeds 2vc (${(2 * vc).toFixed(3)} N/mm²) - increase slab thickness or add drops`);
+      break;
+    }
+    if (perimeter.status === 'none') break;
+  }
+
+  // The perimeters stop at 12 - shear still above vc there leaves the reinforced zone open
+  const lastPerimeter = perimeters[perimeters.length - 1];
+  if (lastPerimeter?.status === 'reinforced') {
+    punchingStatus = 'unsafe';
+    designValid = false;
+    steps.push({
+      title: `Step 10${String.fromCharCode(97 + perimeters.length)}: Outer Perimeter Not Reached`,
+      formula: "v = V / (ud) ≤ vc at the outermost perimeter",
+      result: `v = ${lastPerimeter.stress.toFixed(3)} > vc = ${vc.toFixed(3)} N/mm² at ${lastPerimeter.distance.toFixed(0)} mm from the face after ${perimeters.length} perimeters`,
+      isCheck: true,
+      checkPassed: false,
+      status: 'unsafe',
+      explanation: 'Shear reinforcement would extend beyond the checked perimeters → increase slab thickness or add drops',
+      bsReference: 'BS8110 Cl. 3.7.7.4'
+    });
+    failureReasons.push(`Punching shear still exceeds vc at ${lastPerimeter.distance.toFixed(0)} mm from the column face after ${perimeters.length} perimeters - increase slab thickness or add drops`);
+  }
+
+  // Step 11: Shear reinforcement provision
+  const reinforced = perimeters.filter(p => p.status === 'reinforced');
+  if (reinforced.length > 0 && input.slabThickness < 200) {
+    punchingStatus = 'unsafe';
+    designValid = false;
+    failureReasons.push(`Punching shear reinforcement is not effective in slabs less than 200 mm thick (h = ${input.slabThickness} mm)`);
+  }
+
+  steps.push({
+    title: "Step 11: Punching Shear Reinforcement",
+    formula: "vc from the top steel crossing the perimeters (Table 3.8)",
+    substitution: `As = ${punchingSteel.toFixed(0)} mm²/m, 100As/bd = ${(100 * punchingSteel / (1000 * punchingDepth)).toFixed(3)}%
+vc = ${vc.toFixed(3)} N/mm²`,
+    result: reinforced.length > 0
+      ? reinforced.map(p => `${p.distance.toFixed(0)} mm perimeter: ${p.legs} legs T${input.linkDiameter} (fyv = ${input.fyv})`).join('\n')
+      : 'No punching shear reinforcement required',
+    isCheck: true,
+    checkPassed: punchingStatus === 'safe',
+    status: punchingStatus === 'unsafe' ? 'unsafe' : reinforced.length > 0 ? 'review' : 'safe',
+    explanation: reinforced.length > 0
+      ? `Shear reinforcement requires h ≥ 200 mm (h = ${input.slabThickness} mm)`
+      : undefined,
+    bsReference: 'BS8110 Cl. 3.7.7.5'
+  });
+
+  return {
+    steps,
+    summary: {
+      shortSpan: input.shortSpan,
+      longSpan: input.longSpan,
+      thickness: input.slabThickness,
+      fcu: input.fcu,
+      fy: input.fy,
+      fyv: input.fyv,
+      deadLoad: input.deadLoad,
+      liveLoad: input.liveLoad,
+      cover: input.cover,
+      columnWidth: input.columnWidth,
+      columnDepth: input.columnDepth,
+      columnPosition: input.columnPosition,
+      edgeSupport: input.edgeSupport,
+      linkDiameter: input.linkDiameter,
+      spanRatio,
+      ultimateLoad,
+      headDiameter,
+      columnStripWidth,
+      shortDirection,
+      longDirection,
+      kPrime: K_prime,
+      minSteel,
+      punchingDepth,
+      transferredShear,
+      effectiveShearFactor: shearFactor,
+      effectiveShear,
+      faceShearStress,
+      maxShearStress,
+      punchingSteel,
+      permissibleShear: vc,
+      perimeters,
+      basicSpanDepthRatio: basicRatio,
+      tensionModificationFactor: tensionMod,
+      allowableSpanDepthRatio: allowableRatio,
+      actualSpanDepthRatio: actualRatio,
+      kStatus,
+      faceShearStatus,
+      punchingStatus,
+      deflectionStatus,
+      durability,
+      designValid,
+      failureReasons
+    }
+  };
+}
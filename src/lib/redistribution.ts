@@ -0,0 +1,28 @@
+// Moment Redistribution - BS 8110 Cl. 3.2.2 & 3.4.4.4
+// Limits on K' and the neutral axis depth for a section whose moment has been redistributed
+
+export const MAX_REDISTRIBUTION = 30; // % (Cl. 3.2.2.1 c)
+
+export interface RedistributionLimits {
+  betaB: number; // moment after / moment before redistribution
+  kPrime: number; // K'
+  neutralAxisRatio: number; // limiting x/d
+}
+
+// Cl. 3.4.4.4 - K' = 0.402(βb - 0.4) - 0.18(βb - 0.4)² where βb < 0.9, otherwise 0.156.
+// Cl. 3.2.2.1 - x ≤ (βb - 0.4)d, never more than 0.5d.
+export function getRedistributionLimits(betaB: number): RedistributionLimits {
+  const b = Math.min(betaB, 1);
+  const kPrime = b < 0.9 ? 0.402 * (b - 0.4) - 0.18 * Math.pow(b - 0.4, 2) : 0.156;
+  return {
+    betaB,
+    kPrime,
+    neutralAxisRatio: Math.min(b - 0.4, 0.5)
+  };
+}
+
+// Neutral axis depth ratio x/d of a singly reinforced section: x = (d - z)/0.45
+export function getNeutralAxisRatio(K: number): number {
+  const zRatio = Math.min(0.5 + Math.sqrt(Math.max(0.25 - K / 0.9, 0)), 0.95);
+  return (1 - zRatio) / 0.45;
+}
@@ -0,0 +1,397 @@
+// Reinforcement drawings - scaled cross-sections and elevations built from the design results
+// Section coordinates are mm from the top-left corner; elevation x is m from the left end of the member.
+
+import type { CurtailmentPoint } from "./anchorage";
+import { getLayerGap } from "./barSpacing";
+import type { BeamInput, BeamResult, ProvidedBars } from "./beamCalculations";
+import type { ContinuousBeamResult } from "./continuousBeamCalculations";
+import type { MemberDiagram } from "./diagrams";
+import type { SlabResult } from "./slabCalculations";
+
+export interface DrawnBar {
+  x: number; // mm
+  y: number; // mm
+  diameter: number; // mm
+  face: 'top' | 'bottom' | 'side';
+}
+
+export interface SectionDrawing {
+  title: string;
+  width: number; // mm (overall, including any flange)
+  depth: number; // mm
+  webWidth: number; // mm
+  flangeThickness?: number; // mm (flanged sections only)
+  cover: number; // mm
+  linkDiameter?: number; // mm (beams only)
+  bars: DrawnBar[];
+  runningBars?: { y: number; diameter: number }[]; // bars cut along their length (slab distribution steel)
+  notes: string[]; // callouts listed beside the section
+}
+
+export interface ElevationBar {
+  face: 'top' | 'bottom';
+  start: number; // m
+  end: number; // m
+  label: string;
+}
+
+export interface LinkZone {
+  start: number; // m
+  end: number; // m
+  spacing: number; // mm
+  label: string;
+}
+
+export interface ElevationDrawing {
+  title: string;
+  length: number; // m
+  depth: number; // mm
+  supports: number[]; // m
+  bars: ElevationBar[];
+  linkZones: LinkZone[];
+}
+
+export interface MemberDrawings {
+  sections: SectionDrawing[];
+  elevation: ElevationDrawing;
+}
+
+const HANGER_DIAMETER = 12; // mm (nominal bars carrying the links where no steel is required)
+const DEFAULT_AGGREGATE = 20; // mm
+
+const barLabel = (count: number, diameter: number) => `${count}T${diameter}`;
+
+// Bars in layers from the face inwards, spread across the width inside the links
+function placeBars(
+  face: 'top' | 'bottom',
+  barsPerLayer: number[],
+  diameter: number,
+  section: { webLeft: number; webWidth: number; depth: number; cover: number; linkDiameter: number; aggregateSize: number }
+): DrawnBar[] {
+  const edge = section.cover + section.linkDiameter + diameter / 2;
+  const gap = getLayerGap(diameter, section.aggregateSize);
+  return barsPerLayer.flatMap((count, layer) => {
+    const depth = edge + layer * (diameter + gap);
+    const y = face === 'bottom' ? section.depth - depth : depth;
+    return Array.from({ length: count }, (_, i) => ({
+      x: section.webLeft + (count === 1 ? section.webWidth / 2 : edge + i * (section.webWidth - 2 * edge) / (count - 1)),
+      y,
+      diameter,
+      face
+    }));
+  });
+}
+
+// Bars at a face, in layers of at most `perLayer`
+function layersOf(count: number, perLayer: number): number[] {
+  const layers: number[] = [];
+  for (let remaining = count; remaining > 0; remaining -= perLayer) {
+    layers.push(Math.min(remaining, perLayer));
+  }
+  return layers;
+}
+
+// Main bars of one face along a member, split at the curtailment points (Cl. 3.12.10.2).
+// Bottom bars are stopped short of the supports; top bars run from each support into the span.
+// Stopped bar counts are rounded down so the bars continuing never fall below the proportion required.
+function curtailedBars(
+  face: 'top' | 'bottom',
+  bars: ProvidedBars,
+  points: CurtailmentPoint[],
+  start: number,
+  length: number
+): ElevationBar[] {
+  const facePoints = points.filter(point => point.face === face);
+  const stopped = (proportion: number) => Math.floor(bars.count * proportion);
+  const result: ElevationBar[] = [];
+  let continuing = bars.count;
+
+  if (face === 'bottom') {
+    const left = facePoints.find(point => point.support === 'left');
+    const right = facePoints.find(point => point.support === 'right');
+    const count = stopped(Math.max(left?.proportion ?? 0, right?.proportion ?? 0));
+    if (count > 0) {
+      continuing -= count;
+      result.push({
+        face,
+        start: start + (left?.distance ?? 0),
+        end: start + length - (right?.distance ?? 0),
+        label: `${barLabel(count, bars.diameter)} (curtailed)`
+      });
+    }
+  } else {
+    (['left', 'right'] as const).forEach(support => {
+      let remaining = bars.count;
+      facePoints.filter(point => point.support === support).forEach(point => {
+        const count = stopped(point.proportion);
+        if (count === 0) return;
+        remaining -= count;
+        result.push({
+          face,
+          start: support === 'left' ? start : start + length - point.distance,
+          end: support === 'left' ? start + point.distance : start + length,
+          label: `${barLabel(count, bars.diameter)} to ${point.distance.toFixed(2)} m`
+        });
+      });
+      continuing = Math.min(continuing, remaining);
+    });
+  }
+
+  return [{ face, start, end: start + length, label: barLabel(continuing, bars.diameter) }, ...result];
+}
+
+// Designed links where v > vc, nominal links elsewhere - zones follow the shear force diagram
+function shearLinkZones(
+  diagram: MemberDiagram,
+  shearCapacity: number, // kN (vc·b·d)
+  designed: { size: number; spacing: number },
+  nominal: { size: number; spacing: number }
+): LinkZone[] {
+  const zones: LinkZone[] = [];
+  diagram.stations.forEach((station, i) => {
+    if (i === 0) return;
+    const previous = diagram.stations[i - 1];
+    const shear = Math.max(Math.abs(previous.shear), Math.abs(station.shear), Math.abs(previous.minShear ?? 0), Math.abs(station.minShear ?? 0));
+    const links = shear > shearCapacity ? designed : nominal;
+    const last = zones[zones.length - 1];
+    if (last && last.spacing === links.spacing && last.label.startsWith(`T${links.size}`)) {
+      last.end = station.x;
+    } else {
+      zones.push({
+        start: previous.x,
+        end: station.x,
+        spacing: links.spacing,
+        label: `T${links.size} @ ${links.spacing}${links === nominal ? ' (nominal)' : ''}`
+      });
+    }
+  });
+  return zones;
+}
+
+export function beamDrawings(input: BeamInput, result: BeamResult): MemberDrawings {
+  const s = result.summary;
+  const flangeWidth = s.effectiveFlangeWidth && s.flangeThickness ? s.effectiveFlangeWidth : undefined;
+  const width = flangeWidth ?? s.width;
+  const geometry = {
+    webLeft: (width - s.width) / 2,
+    webWidth: s.width,
+    depth: s.overallDepth,
+    cover: s.cover,
+    linkDiameter: input.linkDiameter,
+    aggregateSize: input.aggregateSize || DEFAULT_AGGREGATE
+  };
+  const compressionFace: 'top' | 'bottom' = s.tensionFace === 'top' ? 'bottom' : 'top';
+  // Opposite-face tension bars (fixed and propped beams) also serve as the compression steel
+  const oppositeBars = s.oppositeFace?.bars ?? s.compressionBars;
+  const compression: ProvidedBars = oppositeBars ?? { count: 2, diameter: HANGER_DIAMETER };
+  const compressionLabel = oppositeBars ? oppositeBars.description : `${barLabel(2, HANGER_DIAMETER)} hangers`;
+
+  const bars = [
+    ...placeBars(s.tensionFace, s.tensionBars.barsPerLayer, s.tensionBars.diameter, geometry),
+    ...placeBars(compressionFace, oppositeBars?.barsPerLayer ?? [2], compression.diameter, geometry)
+  ];
+
+  // Side bars in the tension zone (Cl. 3.12.11.2.6), both faces between the main bar layers
+  if (s.sideBars) {
+    const edge = s.cover + input.linkDiameter + s.sideBars.diameter / 2;
+    const count = Math.floor((s.sideBars.zoneDepth - edge) / s.sideBars.spacing);
+    for (let i = 1; i <= count; i++) {
+      const fromFace = edge + i * s.sideBars.spacing;
+      const y = s.tensionFace === 'bottom' ? s.overallDepth - fromFace : fromFace;
+      bars.push({ x: geometry.webLeft + edge, y, diameter: s.sideBars.diameter, face: 'side' });
+      bars.push({ x: geometry.webLeft + s.width - edge, y, diameter: s.sideBars.diameter, face: 'side' });
+    }
+  }
+
+  const section: SectionDrawing = {
+    title: `${s.supportLabel} Beam - Critical Section`,
+    width,
+    depth: s.overallDepth,
+    webWidth: s.width,
+    flangeThickness: flangeWidth ? s.flangeThickness : undefined,
+    cover: s.cover,
+    linkDiameter: input.linkDiameter,
+    bars,
+    notes: [
+      `${s.tensionFace === 'bottom' ? 'Bottom' : 'Top'}: ${s.tensionBars.description}`,
+      `${compressionFace === 'bottom' ? 'Bottom' : 'Top'}: ${compressionLabel}`,
+      `Links: T${s.linkSize} @ ${s.linkSpacing}`,
+      ...(s.sideBars ? [`Side bars: T${s.sideBars.diameter} @ ${s.sideBars.spacing} each face`] : []),
+      `Cover: ${s.cover} mm, d = ${s.effectiveDepth.toFixed(0)} mm`
+    ]
+  };
+
+  const tensionBars: ProvidedBars = { count: s.tensionBars.count, diameter: s.tensionBars.diameter };
+  const compressionBars: ProvidedBars = oppositeBars
+    ? { count: oppositeBars.count, diameter: oppositeBars.diameter }
+    : compression;
+
+  // Designed links only where v > vc; torsion links and checked links run the full length
+  const fullLength = !!s.capacityCheck || !!s.torsion?.torsionRequired || s.shearStress <= s.vc;
+  const designed = { size: s.linkSize, spacing: s.linkSpacing };
+  const linkZones = fullLength
+    ? [{ start: 0, end: s.span, spacing: s.linkSpacing, label: `T${s.linkSize} @ ${s.linkSpacing}` }]
+    : shearLinkZones(result.diagram, s.vc * s.width * s.effectiveDepth / 1000, designed, { size: input.linkDiameter, spacing: 300 });
+
+  return {
+    sections: [section],
+    elevation: {
+      title: `${s.supportLabel} Beam - Elevation`,
+      length: s.span,
+      depth: s.overallDepth,
+      supports: s.supportCondition === 'cantilever' ? [0] : [0, s.span],
+      bars: [
+        ...curtailedBars(s.tensionFace, tensionBars, s.curtailment, 0, s.span),
+        ...(oppositeBars
+          ? curtailedBars(compressionFace, compressionBars, s.curtailment, 0, s.span)
+          : [{ face: compressionFace, start: 0, end: s.span, label: compressionLabel }])
+      ],
+      linkZones
+    }
+  };
+}
+
+// Continuous beam - one section per span (support top steel and span bottom steel) and the
+// whole beam in elevation, with the cantilevers at either end
+export function continuousBeamDrawings(result: ContinuousBeamResult): MemberDrawings {
+  const left = result.cantileverResults.find(c => c.side === 'left');
+  const right = result.cantileverResults.find(c => c.side === 'right');
+  const hangers: ProvidedBars = { count: 2, diameter: HANGER_DIAMETER };
+  const cover = result.summary.cover ?? 0;
+  const maxPerLayer = 5;
+
+  const sections: SectionDrawing[] = result.spanResults.map(span => {
+    const top = span.topBars ?? hangers;
+    const bottom = span.bottomBars ?? hangers;
+    const geometry = {
+      webLeft: 0,
+      webWidth: span.section.width,
+      depth: span.section.beamDepth,
+      cover,
+      linkDiameter: span.linkSize,
+      aggregateSize: DEFAULT_AGGREGATE
+    };
+    return {
+      title: `Span ${span.spanIndex}`,
+      width: span.section.width,
+      depth: span.section.beamDepth,
+      webWidth: span.section.width,
+      cover,
+      linkDiameter: span.linkSize,
+      bars: [
+        ...placeBars('top', layersOf(top.count, maxPerLayer), top.diameter, geometry),
+        ...placeBars('bottom', layersOf(bottom.count, maxPerLayer), bottom.diameter, geometry)
+      ],
+      notes: [
+        `Top (supports): ${span.topBars ? barLabel(top.count, top.diameter) : span.topSteel ?? '-'}`,
+        `Bottom (span): ${span.bottomBars ? barLabel(bottom.count, bottom.diameter) : span.bottomSteel ?? '-'}`,
+        `Links: T${span.linkSize} @ ${span.linkSpacing}`,
+        `${span.section.width} × ${span.section.beamDepth}, d = ${span.section.effectiveDepth} mm`
+      ]
+    };
+  });
+
+  const bars: ElevationBar[] = [];
+  const linkZones: LinkZone[] = [];
+  const supports: number[] = [];
+  let offset = 0;
+
+  if (left) {
+    const top = left.topBars ?? hangers;
+    bars.push({ face: 'top', start: 0, end: left.length, label: barLabel(top.count, top.diameter) });
+    bars.push({ face: 'bottom', start: 0, end: left.length, label: barLabel(hangers.count, hangers.diameter) });
+    linkZones.push({ start: 0, end: left.length, spacing: left.linkSpacing, label: `T${left.linkSize} @ ${left.linkSpacing}` });
+    offset = left.length;
+  }
+  result.spanResults.forEach(span => {
+    supports.push(offset);
+    bars.push(...curtailedBars('top', span.topBars ?? hangers, span.curtailment, offset, span.length));
+    bars.push(...curtailedBars('bottom', span.bottomBars ?? hangers, span.curtailment, offset, span.length));
+    linkZones.push({ start: offset, end: offset + span.length, spacing: span.linkSpacing, label: `T${span.linkSize} @ ${span.linkSpacing}` });
+    offset += span.length;
+  });
+  supports.push(offset);
+  if (right) {
+    const top = right.topBars ?? hangers;
+    bars.push({ face: 'top', start: offset, end: offset + right.length, label: barLabel(top.count, top.diameter) });
+    bars.push({ face: 'bottom', start: offset, end: offset + right.length, label: barLabel(hangers.count, hangers.diameter) });
+    linkZones.push({ start: offset, end: offset + right.length, spacing: right.linkSpacing, label: `T${right.linkSize} @ ${right.linkSpacing}` });
+    offset += right.length;
+  }
+
+  return {
+    sections,
+    elevation: {
+      title: `Continuous Beam - Elevation (${result.spanResults.length} spans)`,
+      length: offset,
+      depth: Math.max(...result.spanResults.map(span => span.section.beamDepth)),
+      supports,
+      bars,
+      linkZones
+    }
+  };
+}
+
+// One-way slab - 1 m strip with the main bars across the span and distribution bars in the chosen layer.
+// Top bars over continuous supports run to 0.15L (Cl. 3.12.10.3).
+export function slabStripDrawings(result: SlabResult): MemberDrawings | undefined {
+  const s = result.summary;
+  if (!s.mainBars) return undefined;
+
+  const supportCondition = s.supportCondition;
+  const cantilever = supportCondition === 'cantilever';
+  const mainFace = cantilever ? 'top' : 'bottom';
+  const topSteel = s.supportSteel?.find(steel => steel.direction === 'short');
+  const top = topSteel?.provided ?? s.mainBars;
+  const main = cantilever ? top : s.mainBars;
+  const distribution = s.distributionBars ?? main;
+  const stripWidth = 1000;
+  const barsAcross = (spacing: number) => Math.floor(stripWidth / spacing);
+  const distributionOuter = s.depthAssumption?.outerLayer === 'long';
+  const mainDepth = s.cover + (distributionOuter ? distribution.diameter : 0) + main.diameter / 2;
+  const distributionDepth = s.cover + (distributionOuter ? 0 : main.diameter) + distribution.diameter / 2;
+  const at = (depth: number) => cantilever ? depth : s.thickness - depth;
+
+  const bars: DrawnBar[] = Array.from({ length: barsAcross(main.spacing) }, (_, i) => ({
+    x: main.spacing / 2 + i * main.spacing,
+    y: at(mainDepth),
+    diameter: main.diameter,
+    face: mainFace
+  }));
+
+  const span = s.shortSpan;
+  const label = (bars: { diameter: number; spacing: number }) => `T${bars.diameter} @ ${bars.spacing}`;
+  const topLength = Math.max(0.15 * span, 45 * top.diameter / 1000);
+  const elevationBars: ElevationBar[] = [{ face: mainFace, start: 0, end: span, label: label(main) }];
+  if (supportCondition === 'continuous-both-ends') {
+    elevationBars.push({ face: 'top', start: 0, end: topLength, label: `${label(top)} to ${topLength.toFixed(2)} m` });
+  }
+  if (supportCondition === 'continuous-one-end' || supportCondition === 'continuous-both-ends') {
+    elevationBars.push({ face: 'top', start: span - topLength, end: span, label: `${label(top)} to ${topLength.toFixed(2)} m` });
+  }
+
+  return {
+    sections: [{
+      title: '1 m Slab Strip',
+      width: stripWidth,
+      depth: s.thickness,
+      webWidth: stripWidth,
+      cover: s.cover,
+      bars,
+      runningBars: [{ y: at(distributionDepth), diameter: distribution.diameter }],
+      notes: [
+        `Main (${mainFace}): ${label(main)}`,
+        `Distribution: ${label(distribution)}`,
+        `Cover: ${s.cover} mm, d = ${(cantilever && topSteel ? topSteel.effectiveDepth : s.effectiveDepthShort).toFixed(0)} mm`
+      ]
+    }],
+    elevation: {
+      title: '1 m Slab Strip - Elevation',
+      length: span,
+      depth: s.thickness,
+      supports: cantilever ? [0] : [0, span],
+      bars: elevationBars,
+      linkZones: []
+    }
+  };
+}
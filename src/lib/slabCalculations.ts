@@ -1,12 +1,25 @@
-export type SlabType = 'one-way' | 'two-way';
-export type PanelType = 'interior' | 'edge' | 'corner' | 'cantilever';
+import {
+  calculateDeflection,
+  getTensionModificationFactor,
+  type CalculatedDeflectionResult,
+  type DeflectionSettings,
+  type DeflectionSupport
+} from "./calculatedDeflection";
+import { checkDurability, type DurabilityResult, type ExposureCondition, type FireResistancePeriod } from "./durability";
+import { grossFlexuralRigidity, slabStripDiagram, type MemberDiagram } from "./diagrams";
+import { designFlangedSection, getFlangedBasicRatioFactor, getFlangedMinSteelRatio } from "./flangedSection";
+import { describeSlabBars, selectSlabBars, type SlabBarSelection } from "./slabReinforcement";
+
+export type SlabType = 'one-way' | 'two-way' | 'ribbed' | 'waffle';
 export type EdgeContinuity = 'continuous' | 'discontinuous';
+// Panel edges - the long edges (length ly) support the short span, the short edges (length lx) the long span
+export type SlabEdge = 'longEdge1' | 'longEdge2' | 'shortEdge1' | 'shortEdge2';
+export type SlabEdgeContinuity = Record<SlabEdge, EdgeContinuity>;
+export type SlabBarLayer = 'short' | 'long';
 
 export interface SlabInput {
   slabType: SlabType;
-  panelType: PanelType;
-  shortEdgeContinuity: EdgeContinuity;
-  longEdgeContinuity: EdgeContinuity;
+  edgeContinuity: SlabEdgeContinuity;
   shortSpan: number; // m (lx)
   longSpan: number; // m (ly)
   deadLoad: number; // kN/m²
@@ -15,7 +28,20 @@ export interface SlabInput {
   fy: number; // N/mm²
   slabThickness: number; // mm
   cover: number; // mm
+  shortSpanBarDiameter: number; // mm - assumed for d, top and bottom
+  longSpanBarDiameter: number; // mm - long span or distribution bars
+  outerLayer: SlabBarLayer; // bars nearest the face, top and bottom
   supportCondition: 'simply-supported' | 'continuous-one-end' | 'continuous-both-ends' | 'cantilever';
+  deflectionSettings: DeflectionSettings; // calculated deflection (BS8110-2) alongside span/depth
+  exposure: ExposureCondition; // Table 3.3
+  fireResistance: FireResistancePeriod; // hours (Tables 3.4 & 3.5)
+  // Ribbed (one-way) and waffle (two-way) slabs - slabThickness is the overall depth
+  ribWidth: number; // mm (bw)
+  ribSpacing: number; // mm - rib centres
+  toppingThickness: number; // mm (hf)
+  hollowBlocks: boolean; // permanent hollow blocks between the ribs
+  blockWallThickness: number; // mm - block wall added to bv for shear (Cl. 3.6.4.2)
+  fabricAlternatives: boolean; // offer BS 4483 fabric alongside the bar selections
 }
 
 export interface CalculationStep {
@@ -30,8 +56,91 @@ export interface CalculationStep {
   bsReference?: string;
 }
 
+// One direction of ribs, per rib
+export interface RibDesign {
+  direction: 'short' | 'long';
+  span: number; // m
+  effectiveDepth: number; // mm
+  flangeWidth: number; // mm - effective flange, ≤ rib spacing
+  saggingMoment: number; // kNm
+  hoggingMoment: number; // kNm
+  neutralAxisInFlange: boolean;
+  kHogging: number; // rib width in compression at the supports
+  saggingSteel: number; // mm², at least the Table 3.25 minimum
+  hoggingSteel: number; // mm²
+  saggingBars: string;
+  hoggingBars?: string;
+}
+
+export interface RibbedSlabSummary {
+  ribWidth: number;
+  ribSpacing: number;
+  toppingThickness: number;
+  hollowBlocks: boolean;
+  loadPerRib: number; // kN/m
+  ribs: RibDesign[];
+  shearWidth: number; // mm - bv
+  shearDepth: number; // mm - d of the ribs at the governing support
+  linkRequirement?: number; // Asv/sv (mm²/mm) where v > vc
+  maxShearStress: number; // N/mm²
+  toppingMinimum: number; // mm
+  toppingSteel: number; // mm²/m each way
+  toppingBars: string;
+  deflectionFactor: number; // Cl. 3.4.6.3 - bw/b
+}
+
+// Table 3.15 shear along one panel edge - also the load per metre run on the supporting beam
+export interface EdgeReaction {
+  edge: SlabEdge;
+  continuity: EdgeContinuity;
+  length: number; // m
+  coefficient: number; // βvx on the long edges, βvy on the short edges
+  load: number; // kN/m - ultimate
+  governing: boolean; // edge checked for shear
+}
+
+// Cl. 3.5.3.5 torsion reinforcement at a corner where a discontinuous edge meets another edge
+export interface CornerTorsion {
+  longEdge: SlabEdge;
+  shortEdge: SlabEdge;
+  factor: number; // 3/4 with both edges discontinuous, 3/8 with one
+  area: number; // mm²/m in each of the four layers (top and bottom, both directions)
+  extent: number; // m - lx/5 from the corner in each direction
+  bars: string;
+}
+
+// Bar diameters on each face, per direction - those assumed for d and those selected
+export interface SlabBarLayers {
+  bottomShort: number; // mm
+  bottomLong: number; // mm
+  topShort: number; // mm - over the supports
+  topLong: number; // mm
+}
+
+// Effective depth assumption behind the design, after redesigning until the selected bars match
+export interface EffectiveDepthAssumption {
+  outerLayer: SlabBarLayer;
+  assumed: SlabBarLayers;
+  selected: SlabBarLayers;
+  iterations: number;
+  converged: boolean;
+}
+
+// Top steel over the supports in one direction, on the top-layer effective depth
+export interface SupportSteel {
+  direction: SlabBarLayer;
+  moment: number; // kNm/m - hogging
+  effectiveDepth: number; // mm
+  k: number;
+  leverArm: number; // mm
+  area: number; // mm²/m, at least the minimum
+  bars: string;
+  provided?: { diameter: number; spacing: number };
+}
+
 export interface SlabResult {
   steps: CalculationStep[];
+  diagram?: MemberDiagram; // one-way slabs - 1 m strip across the short span
   summary: {
     // Input values
     slabType: string;
@@ -45,13 +154,13 @@ export interface SlabResult {
     liveLoad: number;
     cover: number;
     supportCondition: string;
-    shortEdgeContinuity: string;
-    longEdgeContinuity: string;
+    edgeContinuity: SlabEdgeContinuity;
     // Calculated values
     spanRatio: number;
     ultimateLoad: number;
     effectiveDepthShort: number;
     effectiveDepthLong?: number;
+    depthAssumption?: EffectiveDepthAssumption; // solid slabs - bars behind the effective depths
     // Moment values
     shortSpanMoment: number;
     longSpanMoment?: number;
@@ -76,19 +185,28 @@ export interface SlabResult {
     minSteel: number;
     shortSpanBarSuggestion: string;
     longSpanBarSuggestion?: string;
+    torsionBarSuggestion?: string; // restrained two-way slabs - corner torsion mesh
+    mainBars?: { diameter: number; spacing: number }; // one-way - selected short-span bars
+    distributionBars?: { diameter: number; spacing: number }; // one-way
+    cornerTorsion?: CornerTorsion[]; // restrained two-way slabs, corners with a discontinuous edge
+    supportSteel?: SupportSteel[]; // solid slabs - top steel where there is a hogging moment
     // Shear values
     shearForce: number;
     shearStress: number;
     permissibleShear: number;
+    edgeReactions?: EdgeReaction[]; // two-way and waffle slabs - loads on the supporting beams
     // Deflection values
     basicSpanDepthRatio: number;
     tensionModificationFactor: number;
     allowableSpanDepthRatio: number;
     actualSpanDepthRatio: number;
+    calculatedDeflection?: CalculatedDeflectionResult;
+    rib?: RibbedSlabSummary; // ribbed and waffle slabs - per-rib design
     // Status values
     shearStatus: 'safe' | 'unsafe';
     deflectionStatus: 'safe' | 'unsafe';
     kStatus: 'safe' | 'unsafe';
+    durability: DurabilityResult;
     designValid: boolean;
     // Failure tracking
     failureReasons: string[];
@@ -107,54 +225,192 @@ const twoWaySimplySupported: Record<number, { msx: number; msy: number }> = {
   2.0: { msx: 0.118, msy: 0.029 },
 };
 
-// BS8110 Table 3.14 - Interior panels (all edges continuous)
-const twoWayInterior: Record<number, { bsx_neg: number; bsx_pos: number; bsy_neg: number; bsy_pos: number }> = {
-  1.0: { bsx_neg: 0.031, bsx_pos: 0.024, bsy_neg: 0.031, bsy_pos: 0.024 },
-  1.1: { bsx_neg: 0.037, bsx_pos: 0.028, bsy_neg: 0.030, bsy_pos: 0.023 },
-  1.2: { bsx_neg: 0.042, bsx_pos: 0.032, bsy_neg: 0.029, bsy_pos: 0.022 },
-  1.3: { bsx_neg: 0.046, bsx_pos: 0.035, bsy_neg: 0.028, bsy_pos: 0.021 },
-  1.4: { bsx_neg: 0.050, bsx_pos: 0.037, bsy_neg: 0.027, bsy_pos: 0.020 },
-  1.5: { bsx_neg: 0.053, bsx_pos: 0.040, bsy_neg: 0.026, bsy_pos: 0.019 },
-  1.75: { bsx_neg: 0.059, bsx_pos: 0.044, bsy_neg: 0.024, bsy_pos: 0.017 },
-  2.0: { bsx_neg: 0.063, bsx_pos: 0.048, bsy_neg: 0.022, bsy_pos: 0.015 },
-};
+// BS8110 Tables 3.14 & 3.15 - the nine restraint cases. Short span coefficients at each ly/lx in spanRatios,
+// long span coefficients for all ratios; zero where the case has no edge of that kind.
+interface RestrainedPanelCase {
+  label: string;
+  bsx_neg: number[];
+  bsx_pos: number[];
+  bsy_neg: number;
+  bsy_pos: number;
+  bvx_continuous: number[]; // shear on a continuous long edge
+  bvx_discontinuous: number[];
+  bvy_continuous: number; // shear on a continuous short edge
+  bvy_discontinuous: number;
+}
 
-// BS8110 Table 3.14 - Edge panels (one short edge discontinuous)
-const twoWayEdgeShort: Record<number, { bsx_neg: number; bsx_pos: number; bsy_neg: number; bsy_pos: number }> = {
-  1.0: { bsx_neg: 0.039, bsx_pos: 0.030, bsy_neg: 0.039, bsy_pos: 0.030 },
-  1.1: { bsx_neg: 0.044, bsx_pos: 0.034, bsy_neg: 0.037, bsy_pos: 0.028 },
-  1.2: { bsx_neg: 0.049, bsx_pos: 0.037, bsy_neg: 0.036, bsy_pos: 0.027 },
-  1.3: { bsx_neg: 0.053, bsx_pos: 0.040, bsy_neg: 0.034, bsy_pos: 0.026 },
-  1.4: { bsx_neg: 0.057, bsx_pos: 0.043, bsy_neg: 0.033, bsy_pos: 0.025 },
-  1.5: { bsx_neg: 0.060, bsx_pos: 0.045, bsy_neg: 0.031, bsy_pos: 0.024 },
-  1.75: { bsx_neg: 0.065, bsx_pos: 0.049, bsy_neg: 0.028, bsy_pos: 0.021 },
-  2.0: { bsx_neg: 0.069, bsx_pos: 0.052, bsy_neg: 0.025, bsy_pos: 0.019 },
-};
+const notApplicable = [0, 0, 0, 0, 0, 0, 0, 0];
 
-// BS8110 Table 3.14 - Edge panels (one long edge discontinuous)
-const twoWayEdgeLong: Record<number, { bsx_neg: number; bsx_pos: number; bsy_neg: number; bsy_pos: number }> = {
-  1.0: { bsx_neg: 0.039, bsx_pos: 0.030, bsy_neg: 0.039, bsy_pos: 0.030 },
-  1.1: { bsx_neg: 0.046, bsx_pos: 0.035, bsy_neg: 0.039, bsy_pos: 0.030 },
-  1.2: { bsx_neg: 0.052, bsx_pos: 0.039, bsy_neg: 0.039, bsy_pos: 0.030 },
-  1.3: { bsx_neg: 0.057, bsx_pos: 0.043, bsy_neg: 0.039, bsy_pos: 0.030 },
-  1.4: { bsx_neg: 0.062, bsx_pos: 0.046, bsy_neg: 0.039, bsy_pos: 0.030 },
-  1.5: { bsx_neg: 0.066, bsx_pos: 0.049, bsy_neg: 0.039, bsy_pos: 0.030 },
-  1.75: { bsx_neg: 0.073, bsx_pos: 0.055, bsy_neg: 0.039, bsy_pos: 0.030 },
-  2.0: { bsx_neg: 0.078, bsx_pos: 0.059, bsy_neg: 0.039, bsy_pos: 0.030 },
+const restrainedPanelCases: Record<number, RestrainedPanelCase> = {
+  1: {
+    label: 'Interior panel',
+    bsx_neg: [0.031, 0.037, 0.042, 0.046, 0.050, 0.053, 0.059, 0.063],
+    bsx_pos: [0.024, 0.028, 0.032, 0.035, 0.037, 0.040, 0.044, 0.048],
+    bsy_neg: 0.032,
+    bsy_pos: 0.024,
+    bvx_continuous: [0.33, 0.36, 0.39, 0.41, 0.43, 0.45, 0.48, 0.50],
+    bvx_discontinuous: notApplicable,
+    bvy_continuous: 0.33,
+    bvy_discontinuous: 0
+  },
+  2: {
+    label: 'One short edge discontinuous',
+    bsx_neg: [0.039, 0.044, 0.048, 0.052, 0.055, 0.058, 0.063, 0.067],
+    bsx_pos: [0.029, 0.033, 0.036, 0.039, 0.041, 0.043, 0.047, 0.050],
+    bsy_neg: 0.037,
+    bsy_pos: 0.028,
+    bvx_continuous: [0.36, 0.39, 0.42, 0.44, 0.45, 0.47, 0.50, 0.52],
+    bvx_discontinuous: notApplicable,
+    bvy_continuous: 0.36,
+    bvy_discontinuous: 0.24
+  },
+  3: {
+    label: 'One long edge discontinuous',
+    bsx_neg: [0.039, 0.049, 0.056, 0.062, 0.068, 0.073, 0.082, 0.089],
+    bsx_pos: [0.030, 0.036, 0.042, 0.047, 0.051, 0.055, 0.062, 0.067],
+    bsy_neg: 0.037,
+    bsy_pos: 0.028,
+    bvx_continuous: [0.36, 0.40, 0.44, 0.47, 0.49, 0.51, 0.55, 0.59],
+    bvx_discontinuous: [0.24, 0.27, 0.29, 0.31, 0.32, 0.34, 0.36, 0.38],
+    bvy_continuous: 0.36,
+    bvy_discontinuous: 0
+  },
+  4: {
+    label: 'Two adjacent edges discontinuous',
+    bsx_neg: [0.047, 0.056, 0.063, 0.069, 0.074, 0.078, 0.087, 0.093],
+    bsx_pos: [0.036, 0.042, 0.047, 0.051, 0.055, 0.059, 0.065, 0.070],
+    bsy_neg: 0.045,
+    bsy_pos: 0.034,
+    bvx_continuous: [0.40, 0.44, 0.47, 0.50, 0.52, 0.54, 0.57, 0.60],
+    bvx_discontinuous: [0.26, 0.29, 0.31, 0.33, 0.34, 0.35, 0.38, 0.40],
+    bvy_continuous: 0.40,
+    bvy_discontinuous: 0.26
+  },
+  5: {
+    label: 'Two short edges discontinuous',
+    bsx_neg: [0.046, 0.050, 0.054, 0.057, 0.060, 0.062, 0.067, 0.070],
+    bsx_pos: [0.034, 0.038, 0.040, 0.043, 0.045, 0.047, 0.050, 0.053],
+    bsy_neg: 0,
+    bsy_pos: 0.034,
+    bvx_continuous: [0.40, 0.43, 0.45, 0.47, 0.48, 0.49, 0.52, 0.54],
+    bvx_discontinuous: notApplicable,
+    bvy_continuous: 0,
+    bvy_discontinuous: 0.26
+  },
+  6: {
+    label: 'Two long edges discontinuous',
+    bsx_neg: notApplicable,
+    bsx_pos: [0.034, 0.046, 0.056, 0.065, 0.072, 0.078, 0.091, 0.100],
+    bsy_neg: 0.045,
+    bsy_pos: 0.034,
+    bvx_continuous: notApplicable,
+    bvx_discontinuous: [0.26, 0.30, 0.33, 0.36, 0.38, 0.40, 0.44, 0.47],
+    bvy_continuous: 0.40,
+    bvy_discontinuous: 0
+  },
+  7: {
+    label: 'Three edges discontinuous (one long edge continuous)',
+    bsx_neg: [0.057, 0.065, 0.071, 0.076, 0.081, 0.084, 0.092, 0.098],
+    bsx_pos: [0.043, 0.048, 0.053, 0.057, 0.060, 0.063, 0.069, 0.074],
+    bsy_neg: 0,
+    bsy_pos: 0.044,
+    bvx_continuous: [0.45, 0.48, 0.51, 0.53, 0.55, 0.57, 0.60, 0.63],
+    bvx_discontinuous: [0.30, 0.32, 0.34, 0.35, 0.36, 0.37, 0.39, 0.41],
+    bvy_continuous: 0,
+    bvy_discontinuous: 0.29
+  },
+  8: {
+    label: 'Three edges discontinuous (one short edge continuous)',
+    bsx_neg: notApplicable,
+    bsx_pos: [0.042, 0.054, 0.063, 0.071, 0.078, 0.084, 0.096, 0.105],
+    bsy_neg: 0.058,
+    bsy_pos: 0.044,
+    bvx_continuous: notApplicable,
+    bvx_discontinuous: [0.29, 0.33, 0.36, 0.38, 0.40, 0.42, 0.45, 0.48],
+    bvy_continuous: 0.45,
+    bvy_discontinuous: 0.30
+  },
+  9: {
+    label: 'Four edges discontinuous',
+    bsx_neg: notApplicable,
+    bsx_pos: [0.055, 0.065, 0.074, 0.081, 0.087, 0.092, 0.103, 0.111],
+    bsy_neg: 0,
+    bsy_pos: 0.056,
+    bvx_continuous: notApplicable,
+    bvx_discontinuous: [0.33, 0.36, 0.39, 0.41, 0.43, 0.45, 0.48, 0.50],
+    bvy_continuous: 0,
+    bvy_discontinuous: 0.33
+  },
 };
 
-// BS8110 Table 3.14 - Corner panels (two adjacent edges discontinuous)
-const twoWayCorner: Record<number, { bsx_neg: number; bsx_pos: number; bsy_neg: number; bsy_pos: number }> = {
-  1.0: { bsx_neg: 0.047, bsx_pos: 0.036, bsy_neg: 0.047, bsy_pos: 0.036 },
-  1.1: { bsx_neg: 0.053, bsx_pos: 0.040, bsy_neg: 0.045, bsy_pos: 0.034 },
-  1.2: { bsx_neg: 0.059, bsx_pos: 0.044, bsy_neg: 0.044, bsy_pos: 0.033 },
-  1.3: { bsx_neg: 0.064, bsx_pos: 0.048, bsy_neg: 0.042, bsy_pos: 0.031 },
-  1.4: { bsx_neg: 0.068, bsx_pos: 0.051, bsy_neg: 0.040, bsy_pos: 0.030 },
-  1.5: { bsx_neg: 0.072, bsx_pos: 0.054, bsy_neg: 0.039, bsy_pos: 0.028 },
-  1.75: { bsx_neg: 0.079, bsx_pos: 0.059, bsy_neg: 0.034, bsy_pos: 0.025 },
-  2.0: { bsx_neg: 0.085, bsx_pos: 0.064, bsy_neg: 0.030, bsy_pos: 0.022 },
+// Table 3.14 case by the number of discontinuous short edges (row) and long edges (column)
+const panelCaseByDiscontinuity = [
+  [1, 3, 6],
+  [2, 4, 8],
+  [5, 7, 9],
+];
+
+export const edgeLabels: Record<SlabEdge, string> = {
+  longEdge1: 'Long edge 1',
+  longEdge2: 'Long edge 2',
+  shortEdge1: 'Short edge 1',
+  shortEdge2: 'Short edge 2'
 };
 
+const discontinuousCount = (edges: SlabEdgeContinuity, keys: SlabEdge[]) =>
+  keys.filter(edge => edges[edge] === 'discontinuous').length;
+
+// Table 3.14 restraint case for the four edges
+export function selectPanelCase(edges: SlabEdgeContinuity): { caseNumber: number; label: string } {
+  const caseNumber = panelCaseByDiscontinuity[discontinuousCount(edges, ['shortEdge1', 'shortEdge2'])][discontinuousCount(edges, ['longEdge1', 'longEdge2'])];
+  return { caseNumber, label: restrainedPanelCases[caseNumber].label };
+}
+
+const spansTwoWays = (input: Pick<SlabInput, 'slabType' | 'shortSpan' | 'longSpan'>) =>
+  (input.slabType === 'two-way' || input.slabType === 'waffle') && input.longSpan / input.shortSpan <= 2;
+
+// Edge continuity that contradicts the support condition; undefined when the combination is possible
+export function getEdgeContinuityError(input: Pick<SlabInput, 'slabType' | 'supportCondition' | 'edgeContinuity' | 'shortSpan' | 'longSpan'>): string | undefined {
+  const edges = input.edgeContinuity;
+  const continuousEdges = (Object.keys(edgeLabels) as SlabEdge[]).filter(edge => edges[edge] === 'continuous');
+  const continuousLongEdges = 2 - discontinuousCount(edges, ['longEdge1', 'longEdge2']);
+
+  if (spansTwoWays(input)) {
+    if (input.supportCondition === 'cantilever') {
+      return 'A two-way panel needs support on all four edges (Table 3.14) - design a cantilever as a one-way slab';
+    }
+    if (input.supportCondition === 'simply-supported' && continuousEdges.length > 0) {
+      return `A simply supported panel (Table 3.13) cannot have continuous edges: ${continuousEdges.map(edge => edgeLabels[edge].toLowerCase()).join(', ')} - set them discontinuous or choose a continuous support condition`;
+    }
+    return undefined;
+  }
+
+  // One-way slabs span lx between the long edges
+  const expected: Record<SlabInput['supportCondition'], number | undefined> = {
+    'simply-supported': 0,
+    'continuous-one-end': 1,
+    'continuous-both-ends': 2,
+    'cantilever': undefined
+  };
+  const required = expected[input.supportCondition];
+  if (required !== undefined && required !== continuousLongEdges) {
+    return `A one-way slab spans between its long edges - '${input.supportCondition}' needs ${required === 0 ? 'no' : required} continuous long edge${required === 1 ? '' : 's'}, but ${continuousLongEdges === 0 ? 'none are' : continuousLongEdges === 1 ? '1 is' : 'both are'} continuous`;
+  }
+  return undefined;
+}
+
+// Support condition of the lx strip - the basic span/depth ratio, fire continuity and calculated
+// deflection follow it. One-way slabs are already checked against their long edges; restrained
+// two-way and waffle panels take it from the long edges, so 'continuous' with every edge
+// discontinuous is treated as simply supported
+function getSpanSupport(input: SlabInput): SlabInput['supportCondition'] {
+  if (!spansTwoWays(input) || input.supportCondition === 'simply-supported' || input.supportCondition === 'cantilever') {
+    return input.supportCondition;
+  }
+  const continuousLongEdges = 2 - discontinuousCount(input.edgeContinuity, ['longEdge1', 'longEdge2']);
+  return continuousLongEdges === 2 ? 'continuous-both-ends' : continuousLongEdges === 1 ? 'continuous-one-end' : 'simply-supported';
+}
+
 const spanRatios = [1.0, 1.1, 1.2, 1.3, 1.4, 1.5, 1.75, 2.0];
 
 function interpolateValue(ratio: number, values: number[]): number {
@@ -171,43 +427,72 @@ function interpolateValue(ratio: number, values: number[]): number {
 }
 
 function getTableCoefficients(
-  panelType: PanelType, 
-  shortEdgeCont: EdgeContinuity, 
-  longEdgeCont: EdgeContinuity,
+  edges: SlabEdgeContinuity,
   spanRatio: number
 ): { bsx_neg: number; bsx_pos: number; bsy_neg: number; bsy_pos: number; tableName: string } {
-  let table: Record<number, { bsx_neg: number; bsx_pos: number; bsy_neg: number; bsy_pos: number }>;
-  let tableName: string;
-  
-  if (panelType === 'interior' || (shortEdgeCont === 'continuous' && longEdgeCont === 'continuous')) {
-    table = twoWayInterior;
-    tableName = 'Table 3.14 - Interior Panel (All edges continuous)';
-  } else if (panelType === 'corner' || (shortEdgeCont === 'discontinuous' && longEdgeCont === 'discontinuous')) {
-    table = twoWayCorner;
-    tableName = 'Table 3.14 - Corner Panel (Two adjacent edges discontinuous)';
-  } else if (shortEdgeCont === 'discontinuous') {
-    table = twoWayEdgeShort;
-    tableName = 'Table 3.14 - Edge Panel (Short edge discontinuous)';
-  } else {
-    table = twoWayEdgeLong;
-    tableName = 'Table 3.14 - Edge Panel (Long edge discontinuous)';
-  }
-  
-  const ratioKeys = Object.keys(table).map(Number);
-  const bsx_neg_vals = ratioKeys.map(k => table[k].bsx_neg);
-  const bsx_pos_vals = ratioKeys.map(k => table[k].bsx_pos);
-  const bsy_neg_vals = ratioKeys.map(k => table[k].bsy_neg);
-  const bsy_pos_vals = ratioKeys.map(k => table[k].bsy_pos);
-  
+  const { caseNumber, label } = selectPanelCase(edges);
+  const panelCase = restrainedPanelCases[caseNumber];
+
   return {
-    bsx_neg: interpolateValue(spanRatio, bsx_neg_vals),
-    bsx_pos: interpolateValue(spanRatio, bsx_pos_vals),
-    bsy_neg: interpolateValue(spanRatio, bsy_neg_vals),
-    bsy_pos: interpolateValue(spanRatio, bsy_pos_vals),
-    tableName
+    bsx_neg: interpolateValue(spanRatio, panelCase.bsx_neg),
+    bsx_pos: interpolateValue(spanRatio, panelCase.bsx_pos),
+    bsy_neg: panelCase.bsy_neg,
+    bsy_pos: panelCase.bsy_pos,
+    tableName: `Table 3.14 - Case ${caseNumber} (${label})`
   };
 }
 
+const allEdgesDiscontinuous: SlabEdgeContinuity = {
+  longEdge1: 'discontinuous',
+  longEdge2: 'discontinuous',
+  shortEdge1: 'discontinuous',
+  shortEdge2: 'discontinuous'
+};
+
+// BS8110 Table 3.15 - vsx = βvx·n·lx on the long edges, vsy = βvy·n·lx on the short edges.
+// Corners free to lift (Table 3.13) take the four-edges-discontinuous coefficients.
+function getEdgeReactions(input: SlabInput, ultimateLoad: number, spanRatio: number): EdgeReaction[] {
+  const edges = input.supportCondition === 'simply-supported' ? allEdgesDiscontinuous : input.edgeContinuity;
+  const panelCase = restrainedPanelCases[selectPanelCase(edges).caseNumber];
+
+  return (Object.keys(edgeLabels) as SlabEdge[]).map(edge => {
+    const continuous = edges[edge] === 'continuous';
+    const longEdge = edge === 'longEdge1' || edge === 'longEdge2';
+    const coefficient = longEdge
+      ? interpolateValue(spanRatio, continuous ? panelCase.bvx_continuous : panelCase.bvx_discontinuous)
+      : continuous ? panelCase.bvy_continuous : panelCase.bvy_discontinuous;
+    return {
+      edge,
+      continuity: edges[edge],
+      length: longEdge ? input.longSpan : input.shortSpan,
+      coefficient,
+      load: coefficient * ultimateLoad * input.shortSpan,
+      governing: false
+    };
+  });
+}
+
+// Cl. 3.5.3.5 - each corner meets one long and one short edge. Torsion steel in four layers over lx/5,
+// 3/4 of the mid-span steel with both edges discontinuous and 3/8 with one; none where both are continuous.
+function getCornerTorsion(input: SlabInput, midSpanSteel: number, effectiveDepth: number): CornerTorsion[] {
+  const edges = input.edgeContinuity;
+  const corners: [SlabEdge, SlabEdge][] = [
+    ['longEdge1', 'shortEdge1'],
+    ['longEdge1', 'shortEdge2'],
+    ['longEdge2', 'shortEdge1'],
+    ['longEdge2', 'shortEdge2'],
+  ];
+
+  return corners
+    .map(([longEdge, shortEdge]) => ({ longEdge, shortEdge, discontinuous: discontinuousCount(edges, [longEdge, shortEdge]) }))
+    .filter(corner => corner.discontinuous > 0)
+    .map(({ longEdge, shortEdge, discontinuous }) => {
+      const factor = discontinuous === 2 ? 0.75 : 0.375;
+      const area = factor * midSpanSteel;
+      return { longEdge, shortEdge, factor, area, extent: input.shortSpan / 5, bars: suggestBars(input, area, effectiveDepth) };
+    });
+}
+
 function getSimplySupported(spanRatio: number): { msx: number; msy: number } {
   const ratioKeys = Object.keys(twoWaySimplySupported).map(Number);
   const msx_vals = ratioKeys.map(k => twoWaySimplySupported[k].msx);
@@ -219,7 +504,7 @@ function getSimplySupported(spanRatio: number): { msx: number; msy: number } {
   };
 }
 
-// One-way slab moment coefficients (BS8110 Table 3.10)
+// One-way slab moment coefficients (BS8110 Table 3.12)
 function getOneWayMomentCoefficient(support: string): { positive: number; negative: number } {
   switch (support) {
     case 'simply-supported': return { positive: 0.125, negative: 0 };
@@ -241,13 +526,6 @@ function getBasicSpanDepthRatio(supportCondition: string): number {
   }
 }
 
-// Calculate tension reinforcement modification factor (BS8110 Cl. 3.4.6.5)
-function getTensionModificationFactor(M: number, b: number, d: number, fy: number): number {
-  const fs = (2 * fy * M) / (3 * b * d * d);
-  const factor = 0.55 + (477 - fs) / (120 * (0.9 + M / (b * d * d)));
-  return Math.min(Math.max(factor, 0.55), 2.0);
-}
-
 // Calculate permissible shear stress vc (BS8110 Cl. 3.4.5.4)
 function calculateVc(As: number, b: number, d: number, fcu: number): number {
   const ratio = Math.min((100 * As) / (b * d), 3);
@@ -256,62 +534,634 @@ function calculateVc(As: number, b: number, d: number, fcu: number): number {
   return (0.79 * Math.pow(ratio, 1/3) * Math.max(depthFactor, 0.67) * Math.min(fcuFactor, 1.0)) / 1.25;
 }
 
-// Suggest bar configuration for slabs
-function suggestBars(area: number): string {
-  const options = [
-    { dia: 8, spacing: 150, area: 335 },
-    { dia: 8, spacing: 200, area: 251 },
-    { dia: 10, spacing: 150, area: 524 },
-    { dia: 10, spacing: 200, area: 393 },
-    { dia: 10, spacing: 250, area: 314 },
-    { dia: 12, spacing: 150, area: 754 },
-    { dia: 12, spacing: 200, area: 566 },
-    { dia: 12, spacing: 250, area: 452 },
-    { dia: 16, spacing: 150, area: 1340 },
-    { dia: 16, spacing: 200, area: 1005 },
-  ];
-  
-  for (const opt of options) {
-    if (opt.area >= area) {
-      return `T${opt.dia}@${opt.spacing}mm c/c (${opt.area} mm²/m)`;
+// Bar size and spacing per metre width within the Cl. 3.12.11.2.7 spacing limits
+function slabBars(input: SlabInput, area: number, effectiveDepth: number, thickness = input.slabThickness): SlabBarSelection {
+  return selectSlabBars({
+    requiredArea: area,
+    effectiveDepth,
+    thickness,
+    fy: input.fy,
+    fabric: input.fabricAlternatives
+  });
+}
+
+function suggestBars(input: SlabInput, area: number, effectiveDepth: number, thickness?: number): string {
+  return describeSlabBars(slabBars(input, area, effectiveDepth, thickness));
+}
+
+function barsOf(selection: SlabBarSelection): { diameter: number; spacing: number } | undefined {
+  return selection.bars && { diameter: selection.bars.diameter, spacing: selection.bars.spacing };
+}
+
+// d to the short and long span bars on one face - the outer layer sits on the cover, the other inside it
+function layerDepths(input: SlabInput, shortBar: number, longBar: number): Record<SlabBarLayer, number> {
+  const outerBar = input.outerLayer === 'short' ? shortBar : longBar;
+  const depth = (bar: number, layer: SlabBarLayer) =>
+    input.slabThickness - input.cover - (layer === input.outerLayer ? bar / 2 : outerBar + bar / 2);
+  return { short: depth(shortBar, 'short'), long: depth(longBar, 'long') };
+}
+
+function depthAssumption(input: SlabInput, assumed: SlabBarLayers, selected: SlabBarLayers, iteration: number): EffectiveDepthAssumption {
+  return {
+    outerLayer: input.outerLayer,
+    assumed,
+    selected,
+    iterations: iteration,
+    converged: (Object.keys(assumed) as (keyof SlabBarLayers)[]).every(key => assumed[key] === selected[key])
+  };
+}
+
+function describeAssumption(assumption: EffectiveDepthAssumption): string {
+  const { assumed, selected } = assumption;
+  const layers = `${assumption.outerLayer === 'short' ? 'Short' : 'Long'} span bars in the outer layer, top and bottom`;
+  return assumption.converged
+    ? `${layers}. Selected bars match those assumed for d ✓`
+    : `${layers}. Selected bars (bottom T${selected.bottomShort}/T${selected.bottomLong}, top T${selected.topShort}/T${selected.topLong}) still differ from those assumed for d (bottom T${assumed.bottomShort}/T${assumed.bottomLong}, top T${assumed.topShort}/T${assumed.topLong}) after ${assumption.iterations} iterations`;
+}
+
+// Top steel over the supports - the hogging moment on the top-layer d, at least the minimum steel
+function designSupportSteel(
+  input: SlabInput,
+  direction: SlabBarLayer,
+  moment: number,
+  effectiveDepth: number,
+  minSteel: number,
+  kPrime: number,
+  stepLabel: string,
+  steps: CalculationStep[]
+): SupportSteel {
+  const k = (moment * 1e6) / (1000 * Math.pow(effectiveDepth, 2) * input.fcu);
+  const leverArm = Math.min(effectiveDepth * (0.5 + Math.sqrt(Math.max(0.25 - k / 0.9, 0))), 0.95 * effectiveDepth);
+  const required = (moment * 1e6) / (0.87 * input.fy * leverArm);
+  const area = Math.max(required, minSteel);
+  const selection = slabBars(input, area, effectiveDepth);
+  const bars = describeSlabBars(selection);
+
+  steps.push({
+    title: `${stepLabel}: Top Steel Over Supports - ${direction === 'short' ? 'Short' : 'Long'} Span`,
+    formula: "K = M⁻ / (bd²fcu), As = M⁻ / (0.87fy × z) ≥ As,min",
+    substitution: `d (top) = ${effectiveDepth.toFixed(0)} mm
+K = ${moment.toFixed(2)} × 10⁶ / (1000 × ${effectiveDepth.toFixed(0)}² × ${input.fcu}) = ${k.toFixed(4)}
+As = ${moment.toFixed(2)} × 10⁶ / (0.87 × ${input.fy} × ${leverArm.toFixed(1)}) = ${required.toFixed(0)} mm²/m`,
+    result: `As = ${area.toFixed(0)} mm²/m → ${bars}`,
+    isCheck: true,
+    checkPassed: k <= kPrime,
+    status: k <= kPrime ? 'safe' : 'unsafe',
+    explanation: k <= kPrime
+      ? `K < K' = ${kPrime} → Singly reinforced ✓`
+      : `K > K' → Increase depth`,
+    bsReference: 'BS8110 Cl. 3.4.4.4'
+  });
+
+  return { direction, moment, effectiveDepth, k, leverArm, area, bars, provided: barsOf(selection) };
+}
+
+// Rib bars - one or two bars of a size providing at least the required area
+function suggestRibBars(area: number): string {
+  const options = [1, 2].flatMap(count => [10, 12, 16, 20, 25].map(dia => ({ count, dia, area: count * Math.PI * dia * dia / 4 })))
+    .sort((a, b) => a.area - b.area);
+  const bars = options.find(opt => opt.area >= area);
+  return bars ? `${bars.count}T${bars.dia} (${bars.area.toFixed(0)} mm²)` : "2T25 exceeded - increase rib size";
+}
+
+// Declaration text for the four edges, and the Table 3.14 case they select
+function describeEdges(edges: SlabEdgeContinuity): string {
+  return (Object.keys(edgeLabels) as SlabEdge[]).map(edge => `${edgeLabels[edge]}: ${edges[edge]}`).join('\n');
+}
+
+const deflectionSupports: Record<SlabInput['supportCondition'], DeflectionSupport> = {
+  'simply-supported': 'simply-supported',
+  'continuous-one-end': 'one-end-continuous',
+  'continuous-both-ends': 'both-ends-continuous',
+  'cantilever': 'cantilever'
+};
+
+// Calculated deflection (BS8110-2 Cl. 3.7) of a 1 m strip spanning lx, with service moments
+// from the same coefficients as the ultimate design and the main bars provided
+function calculateSlabDeflection(
+  input: SlabInput,
+  coeffs: { positive: number; negative: number },
+  effectiveDepth: number,
+  requiredSteel: number,
+  stepNumber: number,
+  steps: CalculationStep[]
+): CalculatedDeflectionResult | undefined {
+  if (!input.deflectionSettings.enabled) return undefined;
+
+  const support = deflectionSupports[getSpanSupport(input)];
+  const coefficient = support === 'cantilever' ? coeffs.negative : coeffs.positive;
+  const continuousEnds = support === 'both-ends-continuous' ? 2 : support === 'one-end-continuous' ? 1 : 0;
+  const lx2 = Math.pow(input.shortSpan, 2);
+
+  const result = calculateDeflection({
+    span: input.shortSpan,
+    support,
+    beta: coeffs.positive > 0 ? (continuousEnds * coeffs.negative) / coeffs.positive : 0,
+    width: 1000,
+    overallDepth: input.slabThickness,
+    effectiveDepth,
+    tensionSteel: slabBars(input, requiredSteel, effectiveDepth).bars?.area ?? requiredSteel,
+    compressionSteel: 0,
+    compressionSteelDepth: input.cover,
+    fcu: input.fcu,
+    deadMoment: coefficient * input.deadLoad * lx2,
+    liveMoment: coefficient * input.liveLoad * lx2,
+    settings: input.deflectionSettings
+  });
+
+  result.steps.forEach((step, i) => {
+    steps.push({ ...step, title: `Step ${stepNumber}${String.fromCharCode(97 + i)}: ${step.title}` });
+  });
+
+  return result;
+}
+
+// Ribbed (one-way) and waffle (two-way) slabs - BS8110 Cl. 3.6. Each rib is designed as a T-section
+// in sagging and on the rib width at the supports; loads are shared between ribs by their spacing.
+function calculateRibbedSlabDesign(input: SlabInput): SlabResult {
+  const steps: CalculationStep[] = [];
+  const failureReasons: string[] = [];
+  const gamma_dead = 1.4;
+  const gamma_live = 1.6;
+  const K_prime = 0.156;
+
+  const bw = input.ribWidth;
+  const spacing = input.ribSpacing;
+  const hf = input.toppingThickness;
+  const h = input.slabThickness;
+  const spanRatio = input.longSpan / input.shortSpan;
+  const isWaffle = input.slabType === 'waffle' && spanRatio <= 2;
+  const slabLabel = isWaffle ? 'Waffle Slab' : 'Ribbed Slab';
+  const support = getSpanSupport(input);
+  const continuous = support === 'continuous-one-end' || support === 'continuous-both-ends';
+  const cantilever = support === 'cantilever';
+  // Rib bars as entered - one-way ribs carry no long span bars, so theirs sit on the cover
+  const outerLayer: SlabBarLayer = isWaffle ? input.outerLayer : 'short';
+  const ribDepths = layerDepths({ ...input, outerLayer }, input.shortSpanBarDiameter, input.longSpanBarDiameter);
+  const effectiveDepthShort = ribDepths.short;
+  const effectiveDepthLong = ribDepths.long;
+  const panelCase = selectPanelCase(input.edgeContinuity);
+  const edgeError = getEdgeContinuityError(input);
+  let designValid = !edgeError;
+  let kStatus: 'safe' | 'unsafe' = 'safe';
+  if (edgeError) failureReasons.push(edgeError);
+
+  // STEP 0: Slab Declaration
+  steps.push({
+    title: "SLAB DECLARATION",
+    result: `Type: ${slabLabel.toUpperCase()}${input.slabType === 'waffle' && !isWaffle ? ' (ly/lx > 2 - ribs span lx only)' : ''}
+Ribs: ${bw} mm wide at ${spacing} mm centres, ${h} mm overall
+Topping: ${hf} mm${input.hollowBlocks ? ', permanent hollow blocks' : ''}
+Support: ${input.supportCondition}
+${describeEdges(input.edgeContinuity)}`,
+    explanation: edgeError ?? "This slab design is in accordance with BS 8110-1:1997",
+    bsReference: isWaffle ? 'Cl. 3.6, Table 3.14' : 'Cl. 3.6, Table 3.12',
+    status: edgeError ? 'unsafe' : 'safe'
+  });
+
+  // Step 1: Rib geometry limits for design as a ribbed slab
+  const ribDepth = h - hf;
+  const geometryOK = spacing <= 1500 && ribDepth <= 4 * bw && bw >= 65;
+
+  steps.push({
+    title: "Step 1: Rib Geometry",
+    formula: "Rib centres ≤ 1500 mm, rib depth below topping ≤ 4bw, bw ≥ 65 mm",
+    substitution: `Centres = ${spacing} mm
+Rib depth = ${h} - ${hf} = ${ribDepth} mm, 4bw = ${4 * bw} mm`,
+    result: geometryOK ? 'Ribbed slab rules apply ✓' : 'Outside the ribbed slab limits - design the ribs as beams',
+    isCheck: true,
+    checkPassed: geometryOK,
+    status: geometryOK ? 'safe' : 'review',
+    bsReference: 'BS8110 Cl. 3.6.1'
+  });
+
+  // Step 2: Ultimate load and load per rib
+  const ultimateLoad = gamma_dead * input.deadLoad + gamma_live * input.liveLoad;
+  const loadPerRib = ultimateLoad * spacing / 1000;
+
+  steps.push({
+    title: "Step 2: Ultimate Design Load",
+    formula: "n = 1.4Gk + 1.6Qk, w = n × rib centres",
+    substitution: `n = 1.4 × ${input.deadLoad} + 1.6 × ${input.liveLoad} = ${ultimateLoad.toFixed(2)} kN/m²
+w = ${ultimateLoad.toFixed(2)} × ${(spacing / 1000).toFixed(3)}`,
+    result: `w = ${loadPerRib.toFixed(2)} kN/m per rib`,
+    explanation: "Gk includes the self-weight of the ribs, topping and any blocks",
+    bsReference: 'BS8110 Cl. 2.4.3'
+  });
+
+  // Step 3: Effective Depth
+  steps.push({
+    title: "Step 3: Effective Depth Calculation",
+    formula: isWaffle ? "d = h - cover - φ/2 (outer layer), d = h - cover - φouter - φ/2 (inner layer)" : "d = h - cover - φ/2",
+    substitution: isWaffle
+      ? `${outerLayer === 'short' ? 'Short' : 'Long'} span bars outermost, T${input.shortSpanBarDiameter} short span and T${input.longSpanBarDiameter} long span bars assumed`
+      : `d = ${h} - ${input.cover} - ${input.shortSpanBarDiameter}/2`,
+    result: isWaffle
+      ? `d (short span ribs) = ${effectiveDepthShort.toFixed(0)} mm${outerLayer === 'long' ? ' (second layer)' : ''}
+d (long span ribs) = ${effectiveDepthLong.toFixed(0)} mm${outerLayer === 'short' ? ' (second layer)' : ''}`
+      : `d = ${effectiveDepthShort.toFixed(0)} mm`,
+    bsReference: 'BS8110 Cl. 3.4.4.1'
+  });
+
+  // Step 3a-b: Durability and fire resistance (rib width, Tables 3.3 - 3.5)
+  const durability = checkDurability({
+    exposure: input.exposure,
+    fireResistance: input.fireResistance,
+    memberType: 'rib',
+    continuous,
+    fcu: input.fcu,
+    cover: input.cover,
+    width: bw
+  });
+  durability.steps.forEach((step, i) => {
+    steps.push({ ...step, title: `Step 3${String.fromCharCode(97 + i)}: ${step.title}` });
+  });
+  failureReasons.push(...durability.failureReasons);
+  if (durability.status === 'unsafe') designValid = false;
+
+  // Step 4: Moment coefficients - one-way ribs as continuous beams, waffles as two-way slabs
+  let coeffs: { bsx_neg: number; bsx_pos: number; bsy_neg: number; bsy_pos: number };
+  let tableName: string;
+
+  if (!isWaffle) {
+    const oneWay = getOneWayMomentCoefficient(input.supportCondition);
+    coeffs = { bsx_neg: oneWay.negative, bsx_pos: oneWay.positive, bsy_neg: 0, bsy_pos: 0 };
+    tableName = 'Table 3.12';
+  } else if (input.supportCondition === 'simply-supported') {
+    const ssCoeffs = getSimplySupported(spanRatio);
+    coeffs = { bsx_neg: 0, bsx_pos: ssCoeffs.msx, bsy_neg: 0, bsy_pos: ssCoeffs.msy };
+    tableName = 'Table 3.13 - Simply Supported (No restraint at corners)';
+  } else {
+    const tableCoeffs = getTableCoefficients(input.edgeContinuity, spanRatio);
+    coeffs = tableCoeffs;
+    tableName = tableCoeffs.tableName;
+  }
+
+  steps.push({
+    title: "Step 4: Moment Coefficients",
+    formula: `Coefficients from BS8110 ${tableName}`,
+    result: isWaffle
+      ? `βsx⁺ = ${coeffs.bsx_pos.toFixed(4)}, βsx⁻ = ${coeffs.bsx_neg.toFixed(4)}
+βsy⁺ = ${coeffs.bsy_pos.toFixed(4)}, βsy⁻ = ${coeffs.bsy_neg.toFixed(4)}`
+      : `Positive moment coefficient: ${coeffs.bsx_pos}
+Negative moment coefficient: ${coeffs.bsx_neg}`,
+    explanation: isWaffle ? 'Waffle slab designed as a two-way slab with the ribs at their spacing' : undefined,
+    bsReference: isWaffle ? 'BS8110 Cl. 3.6.2 & Table 3.14' : 'BS8110 Cl. 3.6.2 & Table 3.12'
+  });
+
+  // Step 5: Moments per rib (per metre values for the slab summary)
+  const lx2 = Math.pow(input.shortSpan, 2);
+  const perRib = (beta: number) => beta * loadPerRib * lx2;
+  const perMetre = (beta: number) => beta * ultimateLoad * lx2;
+
+  steps.push({
+    title: "Step 5: Design Moments per Rib",
+    formula: isWaffle ? "M = β × w × lx²" : "M = β × w × l²",
+    substitution: `M⁺ = ${coeffs.bsx_pos.toFixed(4)} × ${loadPerRib.toFixed(2)} × ${input.shortSpan}²
+M⁻ = ${coeffs.bsx_neg.toFixed(4)} × ${loadPerRib.toFixed(2)} × ${input.shortSpan}²`,
+    result: `Short span ribs: M⁺ = ${perRib(coeffs.bsx_pos).toFixed(2)} kNm, M⁻ = ${perRib(coeffs.bsx_neg).toFixed(2)} kNm${isWaffle
+      ? `\nLong span ribs: M⁺ = ${perRib(coeffs.bsy_pos).toFixed(2)} kNm, M⁻ = ${perRib(coeffs.bsy_neg).toFixed(2)} kNm`
+      : ''}`
+  });
+
+  // Step 6/7: Rib design - T-section in sagging, rib width at the supports
+  const zeroMomentFactor = support === 'continuous-both-ends' ? 0.7 : support === 'continuous-one-end' ? 0.85 : 1;
+  const designRib = (stepNumber: number, direction: 'short' | 'long', span: number, d: number, positive: number, negative: number): RibDesign => {
+    const saggingMoment = perRib(positive);
+    const hoggingMoment = perRib(negative);
+    const name = direction === 'short' ? 'Short Span Ribs' : 'Long Span Ribs';
+    let flangeWidth = spacing;
+    let neutralAxisInFlange = true;
+    let saggingSteel = 0;
+    const substeps: CalculationStep[] = [];
+
+    if (saggingMoment > 0) {
+      const flanged = designFlangedSection({
+        sectionType: 'T',
+        moment: saggingMoment,
+        webWidth: bw,
+        flangeThickness: hf,
+        flangeWidthLimit: spacing,
+        zeroMomentLength: zeroMomentFactor * span,
+        effectiveDepth: d,
+        compressionSteelDepth: input.cover + (direction === 'short' ? input.shortSpanBarDiameter : input.longSpanBarDiameter) / 2,
+        fcu: input.fcu,
+        fy: input.fy
+      });
+      flangeWidth = flanged.effectiveFlangeWidth;
+      neutralAxisInFlange = flanged.neutralAxisInFlange;
+      saggingSteel = flanged.tensionSteel;
+      substeps.push(...flanged.steps);
+
+      if (flanged.isDoublyReinforced) {
+        kStatus = 'unsafe';
+        designValid = false;
+        failureReasons.push(`${name}: sagging moment needs compression steel - increase the rib depth or width`);
+      }
+    }
+
+    // Hogging - compression in the rib; a solid section is needed at the support if K > K'
+    const kHogging = hoggingMoment * 1e6 / (bw * d * d * input.fcu);
+    const zHogging = Math.min(d * (0.5 + Math.sqrt(Math.max(0.25 - kHogging / 0.9, 0))), 0.95 * d);
+    const hoggingSteel = hoggingMoment > 0 ? hoggingMoment * 1e6 / (0.87 * input.fy * zHogging) : 0;
+
+    if (hoggingMoment > 0) {
+      substeps.push({
+        title: "Support Section (Rib Width)",
+        formula: "K = M / (bw·d²·fcu), As = M / (0.87fy × z)",
+        substitution: `K = ${hoggingMoment.toFixed(2)} × 10⁶ / (${bw} × ${d.toFixed(0)}² × ${input.fcu}) = ${kHogging.toFixed(4)}
+z = ${zHogging.toFixed(1)} mm`,
+        result: `As (top) = ${hoggingSteel.toFixed(0)} mm² per rib`,
+        isCheck: true,
+        checkPassed: kHogging <= K_prime,
+        status: kHogging <= K_prime ? 'safe' : 'unsafe',
+        explanation: kHogging <= K_prime
+          ? `K ≤ K' = ${K_prime} → Singly reinforced ✓`
+          : `K > K' → Form a solid section at the support or deepen the ribs`,
+        bsReference: 'BS8110 Cl. 3.4.4.4 & 3.6.2'
+      });
+
+      if (kHogging > K_prime) {
+        kStatus = 'unsafe';
+        designValid = false;
+        failureReasons.push(`${name}: support K (${kHogging.toFixed(4)}) exceeds K' (${K_prime}) on the rib width - form a solid section at the support`);
+      }
     }
+
+    // Table 3.25 minimum on the rib (flange in compression)
+    const minRibSteel = getFlangedMinSteelRatio(bw, flangeWidth, input.fy) * bw * h;
+    substeps.push({
+      title: "Minimum Rib Steel",
+      formula: "As,min from Table 3.25 (flanged, web in tension) × bw·h",
+      result: `As,min = ${minRibSteel.toFixed(0)} mm² per rib`,
+      isCheck: true,
+      checkPassed: saggingSteel >= minRibSteel,
+      status: saggingSteel >= minRibSteel ? 'safe' : 'review',
+      explanation: saggingSteel >= minRibSteel ? `As = ${saggingSteel.toFixed(0)} mm² ≥ As,min ✓` : `Use As,min = ${minRibSteel.toFixed(0)} mm²`,
+      bsReference: 'BS8110 Table 3.25'
+    });
+    saggingSteel = Math.max(saggingSteel, minRibSteel);
+
+    substeps.forEach((step, i) => {
+      steps.push({ ...step, title: `Step ${stepNumber}${String.fromCharCode(97 + i)}: ${name} - ${step.title}` });
+    });
+
+    return {
+      direction,
+      span,
+      effectiveDepth: d,
+      flangeWidth,
+      saggingMoment,
+      hoggingMoment,
+      neutralAxisInFlange,
+      kHogging,
+      saggingSteel,
+      hoggingSteel,
+      saggingBars: suggestRibBars(saggingSteel),
+      hoggingBars: hoggingSteel > 0 ? suggestRibBars(hoggingSteel) : undefined
+    };
+  };
+
+  const ribs = [designRib(6, 'short', input.shortSpan, effectiveDepthShort, coeffs.bsx_pos, coeffs.bsx_neg)];
+  if (isWaffle) {
+    ribs.push(designRib(7, 'long', input.longSpan, effectiveDepthLong, coeffs.bsy_pos, coeffs.bsy_neg));
+  }
+  const shortRib = ribs[0];
+  const lastRibStep = 5 + ribs.length;
+
+  // Shear in the ribs - bv may include one block wall (Cl. 3.6.4.2). Waffles take the Table 3.15
+  // edge shears, the governing edge being the one with the highest shear per unit depth.
+  const edgeReactions = isWaffle ? getEdgeReactions(input, ultimateLoad, spanRatio) : undefined;
+  const ribsAt = (reaction: EdgeReaction) => reaction.edge === 'longEdge1' || reaction.edge === 'longEdge2' ? shortRib : ribs[1];
+  const governingEdge = edgeReactions?.reduce((worst, reaction) =>
+    reaction.load / ribsAt(reaction).effectiveDepth > worst.load / ribsAt(worst).effectiveDepth ? reaction : worst);
+  if (governingEdge) governingEdge.governing = true;
+  const shearRib = governingEdge ? ribsAt(governingEdge) : shortRib;
+  const shearDepth = shearRib.effectiveDepth;
+  const shearCoefficient = governingEdge ? governingEdge.coefficient : cantilever ? 1 : continuous ? 0.6 : 0.5;
+  const shearForce = shearCoefficient * loadPerRib * input.shortSpan;
+  const shearWidth = bw + (input.hollowBlocks ? input.blockWallThickness : 0);
+  const shearStress = shearForce * 1000 / (shearWidth * shearDepth);
+  const maxShearStress = Math.min(0.8 * Math.sqrt(input.fcu), 5);
+  const shearSteel = shearRib.hoggingSteel > 0 ? shearRib.hoggingSteel : shearRib.saggingSteel;
+  const permissibleShear = calculateVc(shearSteel, shearWidth, shearDepth, input.fcu);
+  const shearStatus: 'safe' | 'unsafe' = shearStress <= maxShearStress ? 'safe' : 'unsafe';
+  const linkRequirement = shearStress > permissibleShear
+    ? shearWidth * Math.max(shearStress - permissibleShear, 0.4) / (0.87 * input.fy)
+    : undefined;
+
+  steps.push({
+    title: `Step ${lastRibStep + 1}: Shear in Ribs`,
+    formula: "v = V / (bv·d) ≤ vc, bv = bw + block wall (hollow blocks)",
+    substitution: `${governingEdge ? `Governing edge: ${edgeLabels[governingEdge.edge]} (${governingEdge.continuity}), Table 3.15\n` : ''}V = ${shearCoefficient.toFixed(3)} × ${loadPerRib.toFixed(2)} × ${input.shortSpan} = ${shearForce.toFixed(2)} kN
+bv = ${bw}${input.hollowBlocks ? ` + ${input.blockWallThickness}` : ''} = ${shearWidth} mm
+v = ${(shearForce * 1000).toFixed(0)} / (${shearWidth} × ${shearDepth.toFixed(0)})`,
+    result: `v = ${shearStress.toFixed(3)} N/mm²
+vc = ${permissibleShear.toFixed(3)} N/mm²`,
+    isCheck: true,
+    checkPassed: shearStatus === 'safe' && linkRequirement === undefined,
+    status: shearStatus === 'unsafe' ? 'unsafe' : linkRequirement === undefined ? 'safe' : 'review',
+    explanation: shearStatus === 'unsafe'
+      ? `v > ${maxShearStress.toFixed(2)} N/mm² → Widen the ribs or form a solid section at the support`
+      : linkRequirement === undefined
+        ? 'v ≤ vc → No links required in the ribs ✓'
+        : `v > vc → Links required: Asv/sv ≥ ${linkRequirement.toFixed(3)} mm²/mm (or form a solid section at the support)`,
+    bsReference: 'BS8110 Cl. 3.6.4.2'
+  });
+
+  if (shearStatus === 'unsafe') {
+    designValid = false;
+    failureReasons.push(`Rib shear stress (${shearStress.toFixed(3)} N/mm²) exceeds ${maxShearStress.toFixed(2)} N/mm²`);
+  }
+
+  // Topping thickness and reinforcement
+  const clearSpacing = spacing - bw;
+  const toppingMinimum = Math.max(input.hollowBlocks ? 30 : 50, clearSpacing / 10);
+  const toppingOK = hf >= toppingMinimum;
+  const toppingSteel = 0.0012 * 1000 * hf;
+  const toppingBars = suggestBars(input, toppingSteel, hf, hf);
+
+  steps.push({
+    title: `Step ${lastRibStep + 2}: Topping Check`,
+    formula: `hf ≥ ${input.hollowBlocks ? '30' : '50'} mm and ≥ clear rib spacing/10; topping steel ≥ 0.12% each way`,
+    substitution: `Clear spacing = ${spacing} - ${bw} = ${clearSpacing} mm → hf,min = ${toppingMinimum.toFixed(0)} mm
+As = 0.0012 × 1000 × ${hf} = ${toppingSteel.toFixed(0)} mm²/m`,
+    result: `hf = ${hf} mm ${toppingOK ? '≥' : '<'} ${toppingMinimum.toFixed(0)} mm
+Topping steel: ${toppingBars} each way, spacing ≤ ${spacing / 2} mm`,
+    isCheck: true,
+    checkPassed: toppingOK,
+    status: toppingOK ? 'safe' : 'unsafe',
+    explanation: input.hollowBlocks ? '25 mm is permitted where mortar-jointed blocks are at ≤ 500 mm centres' : undefined,
+    bsReference: 'BS8110 Cl. 3.6.1 & 3.6.6.2'
+  });
+
+  if (!toppingOK) {
+    designValid = false;
+    failureReasons.push(`Topping ${hf} mm is less than the ${toppingMinimum.toFixed(0)} mm minimum`);
+  }
+
+  // Deflection - Table 3.9 reduced for the flanged rib (Cl. 3.4.6.3)
+  const basicRatio = getBasicSpanDepthRatio(support);
+  const deflectionFactor = getFlangedBasicRatioFactor(bw, shortRib.flangeWidth);
+  const deflectionMoment = cantilever ? shortRib.hoggingMoment : shortRib.saggingMoment;
+  const deflectionSteel = cantilever ? shortRib.hoggingSteel : shortRib.saggingSteel;
+  const tensionMod = getTensionModificationFactor(deflectionMoment * 1e6, shortRib.flangeWidth, effectiveDepthShort, deflectionSteel, deflectionSteel, input.fy);
+  const allowableRatio = basicRatio * deflectionFactor * tensionMod;
+  const actualRatio = (input.shortSpan * 1000) / effectiveDepthShort;
+  const deflectionStatus = actualRatio <= allowableRatio ? 'safe' : 'unsafe';
+
+  steps.push({
+    title: `Step ${lastRibStep + 3}: Deflection Check`,
+    formula: "Actual span/d ≤ Basic ratio × Flanged factor × Modification factor",
+    substitution: `Basic ratio = ${basicRatio} (${support})
+Flanged factor (bw/b = ${(bw / shortRib.flangeWidth).toFixed(2)}) = ${deflectionFactor.toFixed(2)}
+Tension modification factor = ${tensionMod.toFixed(2)} (Table 3.10, As,req = As,prov = ${deflectionSteel.toFixed(0)} mm² per rib)`,
+    result: `Actual span/d = ${actualRatio.toFixed(1)}
+Allowable span/d = ${allowableRatio.toFixed(1)}`,
+    isCheck: true,
+    checkPassed: deflectionStatus === 'safe',
+    status: deflectionStatus,
+    explanation: deflectionStatus === 'safe'
+      ? `Actual ≤ Allowable → Deflection OK ✓`
+      : `Actual > Allowable → Increase the overall depth`,
+    bsReference: 'BS8110 Cl. 3.4.6.3 & 3.6.5'
+  });
+
+  if (deflectionStatus === 'unsafe') {
+    designValid = false;
+    failureReasons.push(`Deflection check failed: L/d = ${actualRatio.toFixed(1)} > ${allowableRatio.toFixed(1)}`);
   }
-  return "T16@125mm c/c or use larger bars";
+
+  steps.push({
+    title: `Step ${lastRibStep + 4}: Reinforcement Provision`,
+    result: ribs.map(rib => `${rib.direction === 'short' ? 'Short' : 'Long'} span ribs: ${rib.saggingBars} bottom${rib.hoggingBars ? `, ${rib.hoggingBars} top at supports` : ''}`).join('\n') + `
+Topping: ${toppingBars} each way`
+  });
+
+  const kSagging = (rib: RibDesign) => rib.saggingMoment * 1e6 / (rib.flangeWidth * Math.pow(rib.effectiveDepth, 2) * input.fcu);
+
+  return {
+    steps,
+    summary: {
+      slabType: slabLabel,
+      panelType: panelCase.label,
+      shortSpan: input.shortSpan,
+      longSpan: input.longSpan,
+      thickness: h,
+      fcu: input.fcu,
+      fy: input.fy,
+      deadLoad: input.deadLoad,
+      liveLoad: input.liveLoad,
+      cover: input.cover,
+      supportCondition: input.supportCondition,
+      edgeContinuity: input.edgeContinuity,
+      spanRatio,
+      ultimateLoad,
+      effectiveDepthShort,
+      effectiveDepthLong: isWaffle ? effectiveDepthLong : undefined,
+      shortSpanMoment: perMetre(coeffs.bsx_pos),
+      negativeShortMoment: perMetre(coeffs.bsx_neg),
+      longSpanMoment: isWaffle ? perMetre(coeffs.bsy_pos) : undefined,
+      negativeLongMoment: isWaffle ? perMetre(coeffs.bsy_neg) : undefined,
+      bsx_pos: coeffs.bsx_pos,
+      bsx_neg: coeffs.bsx_neg,
+      bsy_pos: isWaffle ? coeffs.bsy_pos : undefined,
+      bsy_neg: isWaffle ? coeffs.bsy_neg : undefined,
+      tableName,
+      kShort: Math.max(kSagging(shortRib), shortRib.kHogging),
+      kLong: isWaffle ? Math.max(kSagging(ribs[1]), ribs[1].kHogging) : undefined,
+      kPrime: K_prime,
+      zShort: effectiveDepthShort - hf / 2,
+      shortSpanSteel: shortRib.saggingSteel,
+      longSpanSteel: isWaffle ? ribs[1].saggingSteel : undefined,
+      minSteel: toppingSteel,
+      shortSpanBarSuggestion: `${shortRib.saggingBars} per rib`,
+      longSpanBarSuggestion: isWaffle ? `${ribs[1].saggingBars} per rib` : undefined,
+      shearForce,
+      shearStress,
+      permissibleShear,
+      edgeReactions,
+      basicSpanDepthRatio: basicRatio,
+      tensionModificationFactor: tensionMod,
+      allowableSpanDepthRatio: allowableRatio,
+      actualSpanDepthRatio: actualRatio,
+      rib: {
+        ribWidth: bw,
+        ribSpacing: spacing,
+        toppingThickness: hf,
+        hollowBlocks: input.hollowBlocks,
+        loadPerRib,
+        ribs,
+        shearWidth,
+        shearDepth,
+        linkRequirement,
+        maxShearStress,
+        toppingMinimum,
+        toppingSteel,
+        toppingBars,
+        deflectionFactor
+      },
+      shearStatus,
+      deflectionStatus,
+      kStatus,
+      durability,
+      designValid,
+      failureReasons
+    }
+  };
 }
 
 export function calculateSlabDesign(input: SlabInput): SlabResult {
+  if (input.slabType === 'ribbed' || input.slabType === 'waffle') {
+    return calculateRibbedSlabDesign(input);
+  }
+
+  // d depends on the bars selected, so redesign until the selected bars match those assumed
+  let layers: SlabBarLayers = {
+    bottomShort: input.shortSpanBarDiameter,
+    bottomLong: input.longSpanBarDiameter,
+    topShort: input.shortSpanBarDiameter,
+    topLong: input.longSpanBarDiameter
+  };
+  let result = designSolidSlab(input, layers, 1);
+  for (let iteration = 2; iteration <= 5; iteration++) {
+    const { converged, selected } = result.summary.depthAssumption;
+    if (converged) break;
+    layers = selected;
+    result = designSolidSlab(input, layers, iteration);
+  }
+  return result;
+}
+
+function designSolidSlab(input: SlabInput, layers: SlabBarLayers, iteration: number): SlabResult {
   const steps: CalculationStep[] = [];
   const failureReasons: string[] = [];
   const gamma_dead = 1.4;
   const gamma_live = 1.6;
   const K_prime = 0.156;
 
-  // Assume 10mm bars for effective depth calculation
-  const barDiameter = 10;
-  const effectiveDepthShort = input.slabThickness - input.cover - barDiameter / 2;
-  const effectiveDepthLong = effectiveDepthShort - barDiameter;
+  // Effective depths to each layer - bottom for the spans, top over the supports
+  const bottom = layerDepths(input, layers.bottomShort, layers.bottomLong);
+  const top = layerDepths(input, layers.topShort, layers.topLong);
+  const effectiveDepthShort = bottom.short;
+  const effectiveDepthLong = bottom.long;
 
   // Span ratio and slab type determination
   const spanRatio = input.longSpan / input.shortSpan;
   const actualSlabType = spanRatio > 2 ? 'one-way' : input.slabType;
-  
-  const panelTypeLabels: Record<PanelType, string> = {
-    'interior': 'Interior Panel',
-    'edge': 'Edge Panel',
-    'corner': 'Corner Panel',
-    'cantilever': 'Cantilever Panel'
-  };
+  const panelCase = selectPanelCase(input.edgeContinuity);
+  const edgeError = getEdgeContinuityError(input);
+  if (edgeError) failureReasons.push(edgeError);
 
   // STEP 0: Slab Declaration
   steps.push({
     title: "SLAB DECLARATION",
     result: `Type: ${actualSlabType === 'one-way' ? 'ONE-WAY SLAB' : 'TWO-WAY SLAB'}
-Panel: ${panelTypeLabels[input.panelType]}
-Short Edge: ${input.shortEdgeContinuity}
-Long Edge: ${input.longEdgeContinuity}`,
-    explanation: "This slab design is in accordance with BS 8110-1:1997",
-    bsReference: actualSlabType === 'one-way' ? 'Table 3.10' : 'Tables 3.14 & 3.15',
-    status: 'safe'
+Panel: ${panelCase.label}
+${describeEdges(input.edgeContinuity)}`,
+    explanation: edgeError ?? "This slab design is in accordance with BS 8110-1:1997",
+    bsReference: actualSlabType === 'one-way' ? 'Table 3.12' : 'Tables 3.14 & 3.15',
+    status: edgeError ? 'unsafe' : 'safe'
   });
 
   // Step 1: Span Ratio Verification
@@ -338,15 +1188,40 @@ Long Edge: ${input.longEdgeContinuity}`,
   });
 
   // Step 3: Effective Depth
+  const oneWay = actualSlabType === 'one-way';
+  const longLabel = oneWay ? 'distribution' : 'long span';
+  const layerLabel = (layer: SlabBarLayer) => layer === input.outerLayer ? 'outer layer' : 'inner layer';
   steps.push({
     title: "Step 3: Effective Depth Calculation",
-    formula: "d = h - cover - φ/2",
-    substitution: `d = ${input.slabThickness} - ${input.cover} - ${barDiameter}/2`,
-    result: `d (short span) = ${effectiveDepthShort.toFixed(0)} mm
-d (long span) = ${effectiveDepthLong.toFixed(0)} mm (second layer)`,
+    formula: "d = h - cover - φ/2 (outer layer), d = h - cover - φouter - φ/2 (inner layer)",
+    substitution: `Bottom: T${layers.bottomShort} short span, T${layers.bottomLong} ${longLabel}, ${input.outerLayer === 'short' ? 'short span' : longLabel} bars outermost
+Top over supports: T${layers.topShort} short span, T${layers.topLong} ${longLabel}`,
+    result: `d (short span) = ${effectiveDepthShort.toFixed(0)} mm (${layerLabel('short')})
+d (${longLabel}) = ${effectiveDepthLong.toFixed(0)} mm (${layerLabel('long')})
+d (top, short span) = ${top.short.toFixed(0)} mm${oneWay ? '' : `
+d (top, long span) = ${top.long.toFixed(0)} mm`}`,
+    explanation: iteration > 1
+      ? `Recomputed from the selected bars (iteration ${iteration}, T${input.shortSpanBarDiameter} short span and T${input.longSpanBarDiameter} ${longLabel} bars assumed initially)`
+      : `T${input.shortSpanBarDiameter} short span and T${input.longSpanBarDiameter} ${longLabel} bars assumed - redesigned if the selected bars differ`,
     bsReference: 'BS8110 Cl. 3.4.4.1'
   });
 
+  // Step 3a-b: Durability and fire resistance (floor, Tables 3.3 - 3.5)
+  const support = getSpanSupport(input);
+  const durability = checkDurability({
+    exposure: input.exposure,
+    fireResistance: input.fireResistance,
+    memberType: 'floor',
+    continuous: support === 'continuous-one-end' || support === 'continuous-both-ends',
+    fcu: input.fcu,
+    cover: input.cover,
+    thickness: input.slabThickness
+  });
+  durability.steps.forEach((step, i) => {
+    steps.push({ ...step, title: `Step 3${String.fromCharCode(97 + i)}: ${step.title}` });
+  });
+  failureReasons.push(...durability.failureReasons);
+
   let shortSpanMoment: number = 0;
   let longSpanMoment: number | undefined;
   let negativeShortMoment: number | undefined;
@@ -362,7 +1237,7 @@ d (long span) = ${effectiveDepthLong.toFixed(0)} mm (second layer)`,
   let bsy_pos: number | undefined;
   let bsy_neg: number | undefined;
   let tableName: string | undefined;
-  let designValid = true;
+  let designValid = durability.status !== 'unsafe' && !edgeError;
   let shearStatus: 'safe' | 'unsafe' = 'safe';
   let deflectionStatus: 'safe' | 'unsafe' = 'safe';
   let kStatus: 'safe' | 'unsafe' = 'safe';
@@ -370,7 +1245,7 @@ d (long span) = ${effectiveDepthLong.toFixed(0)} mm (second layer)`,
   let shearStress = 0;
   let permissibleShear = 0;
   const minSteel = 0.0013 * 1000 * input.slabThickness;
-  const basicRatio = getBasicSpanDepthRatio(input.supportCondition);
+  const basicRatio = getBasicSpanDepthRatio(support);
 
   if (actualSlabType === 'one-way') {
     // ONE-WAY SLAB DESIGN
@@ -460,6 +1335,15 @@ M⁻ (support) = ${negativeShortMoment.toFixed(2)} kNm/m`
     shortSpanSteel = Math.max(shortSpanSteel, minSteel);
     longSpanSteel = minSteel; // Distribution steel
 
+    const supportSteel = negativeShortMoment > 0
+      ? [designSupportSteel(input, 'short', negativeShortMoment, top.short, minSteel, K_prime, 'Step 9a', steps)]
+      : [];
+    supportSteel.filter(steel => steel.k > K_prime).forEach(steel => {
+      designValid = false;
+      kStatus = 'unsafe';
+      failureReasons.push(`Top steel K value (${steel.k.toFixed(4)}) exceeds K' (${K_prime}) over the supports`);
+    });
+
     shearForce = 0.5 * ultimateLoad * input.shortSpan;
     shearStress = (shearForce * 1000) / (1000 * effectiveDepthShort);
     permissibleShear = calculateVc(shortSpanSteel, 1000, effectiveDepthShort, input.fcu);
@@ -486,7 +1370,9 @@ vc = ${permissibleShear.toFixed(3)} N/mm²`,
       failureReasons.push(`Shear stress (${shearStress.toFixed(3)} N/mm²) exceeds vc (${permissibleShear.toFixed(3)} N/mm²)`);
     }
 
-    const tensionMod = getTensionModificationFactor(shortSpanMoment * 1e6, 1000, effectiveDepthShort, input.fy);
+    const mainSelection = slabBars(input, shortSpanSteel, effectiveDepthShort);
+    const mainProvided = mainSelection.bars?.area ?? shortSpanSteel;
+    const tensionMod = getTensionModificationFactor(shortSpanMoment * 1e6, 1000, effectiveDepthShort, shortSpanSteel, mainProvided, input.fy);
     const allowableRatio = basicRatio * tensionMod;
     const actualRatio = (input.shortSpan * 1000) / effectiveDepthShort;
     deflectionStatus = actualRatio <= allowableRatio ? 'safe' : 'unsafe';
@@ -495,7 +1381,7 @@ vc = ${permissibleShear.toFixed(3)} N/mm²`,
       title: "Step 11: Deflection Check",
       formula: "Actual span/d ≤ Basic ratio × Modification factor",
       substitution: `Basic ratio = ${basicRatio}
-Tension modification factor = ${tensionMod.toFixed(2)}
+Tension modification factor = ${tensionMod.toFixed(2)} (Table 3.10, As,req/As,prov = ${shortSpanSteel.toFixed(0)}/${mainProvided.toFixed(0)} mm²/m)
 Allowable span/d = ${basicRatio} × ${tensionMod.toFixed(2)} = ${allowableRatio.toFixed(1)}`,
       result: `Actual span/d = ${actualRatio.toFixed(1)}
 Allowable span/d = ${allowableRatio.toFixed(1)}`,
@@ -513,20 +1399,65 @@ Allowable span/d = ${allowableRatio.toFixed(1)}`,
       failureReasons.push(`Deflection check failed: L/d = ${actualRatio.toFixed(1)} > ${allowableRatio.toFixed(1)}`);
     }
 
-    const mainBars = suggestBars(shortSpanSteel);
-    const distBars = suggestBars(minSteel);
+    const calculatedDeflection = calculateSlabDeflection(input, coeffs, effectiveDepthShort, shortSpanSteel, 11, steps);
+    if (calculatedDeflection?.status === 'unsafe') {
+      designValid = false;
+      failureReasons.push(...calculatedDeflection.failureReasons);
+    }
+
+    const distSelection = slabBars(input, minSteel, effectiveDepthLong);
+    const mainBars = describeSlabBars(mainSelection);
+    const distBars = describeSlabBars(distSelection);
+    const barsFit = !!mainSelection.bars && !!distSelection.bars && supportSteel.every(steel => steel.provided);
+    const assumption = depthAssumption(input, layers, {
+      bottomShort: mainSelection.bars?.diameter ?? layers.bottomShort,
+      bottomLong: distSelection.bars?.diameter ?? layers.bottomLong,
+      topShort: supportSteel[0]?.provided?.diameter ?? layers.topShort,
+      topLong: distSelection.bars?.diameter ?? layers.topLong
+    }, iteration);
     
     steps.push({
       title: "Step 12: Reinforcement Provision",
-      result: `Main Steel (Short Span): ${mainBars}
-Distribution Steel: ${distBars}`
+      formula: "Clear spacing ≥ max(hagg + 5, φ) and ≤ the Cl. 3.12.11.2.7 limit",
+      substitution: `Main steel: smax = ${mainSelection.spacingRule}
+Distribution steel (d = ${effectiveDepthLong.toFixed(0)} mm): smax = ${distSelection.spacingRule}`,
+      result: `Main Steel (Short Span, ${layerLabel('short')}): ${mainBars}
+Distribution Steel (${layerLabel('long')}): ${distBars}${supportSteel.map(steel => `
+Top Over Supports: ${steel.bars}`).join('')}`,
+      explanation: describeAssumption(assumption),
+      isCheck: true,
+      checkPassed: barsFit,
+      status: barsFit ? 'safe' : 'unsafe',
+      bsReference: 'BS8110 Cl. 3.12.11.2.7'
     });
 
+    if (!barsFit) {
+      designValid = false;
+      failureReasons.push('No bar size and spacing provides the steel within the Cl. 3.12.11.2.7 spacing limits');
+    }
+
+    // Strip diagram - 'continuous-one-end' is drawn continuous over the right-hand support
+    const supportMoment = negativeShortMoment ?? 0;
+    const diagram = slabStripDiagram(
+      '1 m Slab Strip',
+      input.shortSpan,
+      ultimateLoad,
+      input.deadLoad + input.liveLoad,
+      {
+        sagging: shortSpanMoment,
+        left: input.supportCondition === 'continuous-both-ends' ? supportMoment : 0,
+        right: input.supportCondition === 'continuous-one-end' || input.supportCondition === 'continuous-both-ends' ? supportMoment : 0
+      },
+      input.supportCondition === 'cantilever',
+      grossFlexuralRigidity(1000, input.slabThickness, input.fcu)
+    );
+
     return {
       steps,
+      diagram,
       summary: {
         slabType: 'One-Way Slab',
-        panelType: panelTypeLabels[input.panelType],
+        panelType: panelCase.label,
         shortSpan: input.shortSpan,
         longSpan: input.longSpan,
         thickness: input.slabThickness,
@@ -536,11 +1467,11 @@ Distribution Steel: ${distBars}`
         liveLoad: input.liveLoad,
         cover: input.cover,
         supportCondition: input.supportCondition,
-        shortEdgeContinuity: input.shortEdgeContinuity,
-        longEdgeContinuity: input.longEdgeContinuity,
+        edgeContinuity: input.edgeContinuity,
         spanRatio,
         ultimateLoad,
         effectiveDepthShort,
+        depthAssumption: assumption,
         shortSpanMoment,
         negativeShortMoment,
         bsx_pos,
@@ -554,16 +1485,21 @@ Distribution Steel: ${distBars}`
         minSteel,
         shortSpanBarSuggestion: mainBars,
         longSpanBarSuggestion: distBars,
+        mainBars: barsOf(mainSelection),
+        distributionBars: barsOf(distSelection),
+        supportSteel,
         shearForce,
         shearStress,
         permissibleShear,
         basicSpanDepthRatio: basicRatio,
-        tensionModificationFactor: getTensionModificationFactor(shortSpanMoment * 1e6, 1000, effectiveDepthShort, input.fy),
+        tensionModificationFactor: tensionMod,
         allowableSpanDepthRatio: allowableRatio,
         actualSpanDepthRatio: actualRatio,
+        calculatedDeflection,
         shearStatus,
         deflectionStatus,
         kStatus,
+        durability,
         designValid,
         failureReasons
       }
@@ -573,7 +1509,9 @@ Distribution Steel: ${distBars}`
     // TWO-WAY SLAB DESIGN
     steps.push({
       title: "Step 4: Two-Way Slab Declaration",
-      result: `This slab is designed as a ${panelTypeLabels[input.panelType].toLowerCase()} in accordance with BS 8110 Tables 3.14 and 3.15.`,
+      result: input.supportCondition === 'simply-supported'
+        ? 'This slab is designed as a simply supported panel with corners free to lift in accordance with BS 8110 Table 3.13.'
+        : `This slab is designed as a restrained panel - Table 3.14 case ${panelCase.caseNumber}: ${panelCase.label.toLowerCase()}.`,
       status: 'safe'
     });
 
@@ -582,9 +1520,9 @@ Distribution Steel: ${distBars}`
     if (input.supportCondition === 'simply-supported') {
       const ssCoeffs = getSimplySupported(spanRatio);
       coeffs = { bsx_neg: 0, bsx_pos: ssCoeffs.msx, bsy_neg: 0, bsy_pos: ssCoeffs.msy };
-      tableName = 'Table 3.14 - Simply Supported (No restraint at corners)';
+      tableName = 'Table 3.13 - Simply Supported (No restraint at corners)';
     } else {
-      const tableCoeffs = getTableCoefficients(input.panelType, input.shortEdgeContinuity, input.longEdgeContinuity, spanRatio);
+      const tableCoeffs = getTableCoefficients(input.edgeContinuity, spanRatio);
       coeffs = tableCoeffs;
       tableName = tableCoeffs.tableName;
     }
@@ -720,25 +1658,51 @@ Msy⁻ = ${negativeLongMoment.toFixed(2)} kNm/m`
     shortSpanSteel = Math.max(shortSpanSteel, minSteel);
     longSpanSteel = Math.max(longSpanSteel, minSteel);
 
-    shearForce = 0.5 * ultimateLoad * input.shortSpan;
-    shearStress = (shearForce * 1000) / (1000 * effectiveDepthShort);
-    permissibleShear = calculateVc(shortSpanSteel, 1000, effectiveDepthShort, input.fcu);
+    const hogging: [SlabBarLayer, number][] = [['short', negativeShortMoment], ['long', negativeLongMoment]];
+    const supportSteel = hogging
+      .filter(([, moment]) => moment > 0)
+      .map(([direction, moment], i) =>
+        designSupportSteel(input, direction, moment, top[direction], minSteel, K_prime, `Step 13${String.fromCharCode(97 + i)}`, steps));
+    supportSteel.filter(steel => steel.k > K_prime).forEach(steel => {
+      designValid = false;
+      kStatus = 'unsafe';
+      failureReasons.push(`Top steel K value (${steel.k.toFixed(4)}) exceeds K' (${K_prime}) over the ${steel.direction} span supports`);
+    });
+    const supportBars = (direction: SlabBarLayer) => supportSteel.find(steel => steel.direction === direction)?.provided;
+
+    // Shear on each edge - the long edges carry the short span steel, the short edges the long span steel
+    const edgeReactions = getEdgeReactions(input, ultimateLoad, spanRatio);
+    const edgeShear = edgeReactions.map(reaction => {
+      const longEdge = reaction.edge === 'longEdge1' || reaction.edge === 'longEdge2';
+      const d = longEdge ? effectiveDepthShort : effectiveDepthLong;
+      const v = (reaction.load * 1000) / (1000 * d);
+      const vc = calculateVc(longEdge ? shortSpanSteel : longSpanSteel, 1000, d, input.fcu);
+      return { reaction, d, v, vc };
+    });
+    const governingShear = edgeShear.reduce((worst, edge) => edge.v / edge.vc > worst.v / worst.vc ? edge : worst);
+    governingShear.reaction.governing = true;
+    shearForce = governingShear.reaction.load;
+    shearStress = governingShear.v;
+    permissibleShear = governingShear.vc;
     shearStatus = shearStress <= permissibleShear ? 'safe' : 'unsafe';
+    const governingLabel = `${edgeLabels[governingShear.reaction.edge]} (${governingShear.reaction.continuity})`;
     
     steps.push({
       title: "Step 14: Shear Check",
-      formula: "v = V / (bd) ≤ vc",
-      substitution: `V = 0.5 × ${ultimateLoad.toFixed(2)} × ${input.shortSpan} = ${shearForce.toFixed(2)} kN
-v = ${(shearForce * 1000).toFixed(0)} / (1000 × ${effectiveDepthShort.toFixed(0)})`,
-      result: `v = ${shearStress.toFixed(3)} N/mm²
+      formula: "vsx = βvx × n × lx (long edges), vsy = βvy × n × lx (short edges); v = V / (bd) ≤ vc",
+      substitution: edgeShear.map(({ reaction, d, v, vc }) =>
+        `${edgeLabels[reaction.edge]} (${reaction.continuity}): ${reaction.coefficient.toFixed(3)} × ${ultimateLoad.toFixed(2)} × ${input.shortSpan} = ${reaction.load.toFixed(2)} kN/m, d = ${d.toFixed(0)}, v = ${v.toFixed(3)}, vc = ${vc.toFixed(3)}`
+      ).join('\n'),
+      result: `Governing: ${governingLabel}
+v = ${shearStress.toFixed(3)} N/mm²
 vc = ${permissibleShear.toFixed(3)} N/mm²`,
       isCheck: true,
       checkPassed: shearStatus === 'safe',
       status: shearStatus,
       explanation: shearStatus === 'safe' 
-        ? `v < vc → Shear OK ✓` 
-        : `v > vc → Increase depth or provide shear reinforcement`,
-      bsReference: 'BS8110 Cl. 3.4.5'
+        ? `v < vc on every edge → Shear OK ✓` 
+        : `v > vc at ${governingLabel.toLowerCase()} → Increase depth or provide shear reinforcement`,
+      bsReference: 'BS8110 Cl. 3.5.3.7 & Table 3.15'
     });
 
     if (shearStatus === 'unsafe') {
@@ -746,7 +1710,9 @@ vc = ${permissibleShear.toFixed(3)} N/mm²`,
       failureReasons.push(`Shear stress (${shearStress.toFixed(3)} N/mm²) exceeds vc (${permissibleShear.toFixed(3)} N/mm²)`);
     }
 
-    const tensionMod = getTensionModificationFactor(shortSpanMoment * 1e6, 1000, effectiveDepthShort, input.fy);
+    const shortSelection = slabBars(input, shortSpanSteel, effectiveDepthShort);
+    const shortProvided = shortSelection.bars?.area ?? shortSpanSteel;
+    const tensionMod = getTensionModificationFactor(shortSpanMoment * 1e6, 1000, effectiveDepthShort, shortSpanSteel, shortProvided, input.fy);
     const allowableRatio = basicRatio * tensionMod;
     const actualRatio = (input.shortSpan * 1000) / effectiveDepthShort;
     deflectionStatus = actualRatio <= allowableRatio ? 'safe' : 'unsafe';
@@ -754,8 +1720,8 @@ vc = ${permissibleShear.toFixed(3)} N/mm²`,
     steps.push({
       title: "Step 15: Deflection Check",
       formula: "Actual span/d ≤ Basic ratio × Modification factor",
-      substitution: `Basic span/depth ratio = ${basicRatio} (${input.supportCondition})
-Tension modification factor = ${tensionMod.toFixed(2)}
+      substitution: `Basic span/depth ratio = ${basicRatio} (${support}${support !== input.supportCondition ? ', from the long edges' : ''})
+Tension modification factor = ${tensionMod.toFixed(2)} (Table 3.10, As,req/As,prov = ${shortSpanSteel.toFixed(0)}/${shortProvided.toFixed(0)} mm²/m)
 Allowable span/d = ${basicRatio} × ${tensionMod.toFixed(2)} = ${allowableRatio.toFixed(1)}`,
       result: `Actual span/d = ${actualRatio.toFixed(1)}
 Allowable span/d = ${allowableRatio.toFixed(1)}`,
@@ -773,21 +1739,93 @@ Allowable span/d = ${allowableRatio.toFixed(1)}`,
       failureReasons.push(`Deflection check failed: L/d = ${actualRatio.toFixed(1)} > ${allowableRatio.toFixed(1)}`);
     }
 
-    const shortBars = suggestBars(shortSpanSteel);
-    const longBars = suggestBars(longSpanSteel);
+    const calculatedDeflection = calculateSlabDeflection(
+      input,
+      { positive: coeffs.bsx_pos, negative: coeffs.bsx_neg },
+      effectiveDepthShort,
+      shortSpanSteel,
+      15,
+      steps
+    );
+    if (calculatedDeflection?.status === 'unsafe') {
+      designValid = false;
+      failureReasons.push(...calculatedDeflection.failureReasons);
+    }
+
+    // Corner torsion - restrained panels only; corners free to lift (Table 3.13) need none
+    const restrained = input.supportCondition !== 'simply-supported';
+    const cornerTorsion = restrained ? getCornerTorsion(input, shortSpanSteel, effectiveDepthShort) : [];
+    const cornerLabel = (corner: CornerTorsion) => `${edgeLabels[corner.longEdge]} / ${edgeLabels[corner.shortEdge].toLowerCase()}`;
+
+    steps.push({
+      title: "Step 16: Corner Torsion Reinforcement",
+      formula: "As,torsion = 3/4 × As,mid (both edges discontinuous) or 3/8 × As,mid (one edge discontinuous)",
+      substitution: `As,mid = ${shortSpanSteel.toFixed(0)} mm²/m (maximum mid-span moment, short span)`,
+      result: !restrained
+        ? 'Corners free to lift (Table 3.13) → no torsion reinforcement'
+        : cornerTorsion.length > 0
+          ? `${cornerTorsion.length} corner${cornerTorsion.length > 1 ? 's' : ''} with a discontinuous edge`
+          : 'All edges continuous → no torsion reinforcement',
+      explanation: cornerTorsion.length > 0 ? 'Top and bottom mesh, bars in both directions, over lx/5 from the corner' : undefined,
+      bsReference: 'BS8110 Cl. 3.5.3.5'
+    });
+
+    cornerTorsion.forEach((corner, i) => {
+      steps.push({
+        title: `Step 16${String.fromCharCode(97 + i)}: Corner Torsion - ${cornerLabel(corner)}`,
+        formula: `As = ${corner.factor === 0.75 ? '3/4' : '3/8'} × As,mid`,
+        substitution: `As = ${corner.factor} × ${shortSpanSteel.toFixed(0)}`,
+        result: `As = ${corner.area.toFixed(0)} mm²/m in each of four layers → ${corner.bars}
+Extent = lx/5 = ${corner.extent.toFixed(2)} m each way`,
+        explanation: corner.factor === 0.75 ? 'Both edges discontinuous at this corner' : 'One edge discontinuous at this corner',
+        bsReference: 'BS8110 Cl. 3.5.3.5'
+      });
+    });
+
+    const longSelection = slabBars(input, longSpanSteel, effectiveDepthLong);
+    const shortBars = describeSlabBars(shortSelection);
+    const longBars = describeSlabBars(longSelection);
+    const torsionBars = cornerTorsion.length > 0
+      ? [0.75, 0.375]
+        .map(factor => cornerTorsion.filter(corner => corner.factor === factor))
+        .filter(group => group.length > 0)
+        .map(group => `${group[0].bars} top & bottom both ways over ${group[0].extent.toFixed(2)} m at ${group.length} corner${group.length > 1 ? 's' : ''} with ${group[0].factor === 0.75 ? 'both edges' : 'one edge'} discontinuous`)
+        .join('; ')
+      : undefined;
+    const barsFit = !!shortSelection.bars && !!longSelection.bars && supportSteel.every(steel => steel.provided);
+    const assumption = depthAssumption(input, layers, {
+      bottomShort: shortSelection.bars?.diameter ?? layers.bottomShort,
+      bottomLong: longSelection.bars?.diameter ?? layers.bottomLong,
+      topShort: supportBars('short')?.diameter ?? layers.topShort,
+      topLong: supportBars('long')?.diameter ?? layers.topLong
+    }, iteration);
     
     steps.push({
-      title: "Step 16: Reinforcement Provision",
-      result: `Short Span (Bottom Layer): ${shortBars}
-Long Span (Top Layer): ${longBars}`,
-      explanation: "Short span bars placed as bottom layer for greater effective depth"
+      title: "Step 17: Reinforcement Provision",
+      formula: "Clear spacing ≥ max(hagg + 5, φ) and ≤ the Cl. 3.12.11.2.7 limit",
+      substitution: `Short span: smax = ${shortSelection.spacingRule}
+Long span: smax = ${longSelection.spacingRule}`,
+      result: `Short Span (Bottom, ${layerLabel('short')}): ${shortBars}
+Long Span (Bottom, ${layerLabel('long')}): ${longBars}${supportSteel.map(steel => `
+Top Over ${steel.direction === 'short' ? 'Long' : 'Short'} Edges (${steel.direction === 'short' ? 'Short' : 'Long'} Span): ${steel.bars}`).join('')}${torsionBars ? `
+Corner Torsion: ${torsionBars}` : ''}`,
+      explanation: describeAssumption(assumption),
+      isCheck: true,
+      checkPassed: barsFit,
+      status: barsFit ? 'safe' : 'unsafe',
+      bsReference: 'BS8110 Cl. 3.12.11.2.7'
     });
 
+    if (!barsFit) {
+      designValid = false;
+      failureReasons.push('No bar size and spacing provides the steel within the Cl. 3.12.11.2.7 spacing limits');
+    }
+
     return {
       steps,
       summary: {
         slabType: 'Two-Way Slab',
-        panelType: panelTypeLabels[input.panelType],
+        panelType: panelCase.label,
         shortSpan: input.shortSpan,
         longSpan: input.longSpan,
         thickness: input.slabThickness,
@@ -797,12 +1835,12 @@ Long Span (Top Layer): ${longBars}`,
         liveLoad: input.liveLoad,
         cover: input.cover,
         supportCondition: input.supportCondition,
-        shortEdgeContinuity: input.shortEdgeContinuity,
-        longEdgeContinuity: input.longEdgeContinuity,
+        edgeContinuity: input.edgeContinuity,
         spanRatio,
         ultimateLoad,
         effectiveDepthShort,
         effectiveDepthLong,
+        depthAssumption: assumption,
         shortSpanMoment,
         longSpanMoment,
         negativeShortMoment,
@@ -822,16 +1860,22 @@ Long Span (Top Layer): ${longBars}`,
         minSteel,
         shortSpanBarSuggestion: shortBars,
         longSpanBarSuggestion: longBars,
+        torsionBarSuggestion: torsionBars,
+        cornerTorsion,
+        supportSteel,
         shearForce,
         shearStress,
         permissibleShear,
+        edgeReactions,
         basicSpanDepthRatio: basicRatio,
         tensionModificationFactor: tensionMod,
         allowableSpanDepthRatio: allowableRatio,
         actualSpanDepthRatio: actualRatio,
+        calculatedDeflection,
         shearStatus,
         deflectionStatus,
         kStatus,
+        durability,
         designValid,
         failureReasons
       }
@@ -0,0 +1,105 @@
+// Slab Reinforcement - bar size and spacing per metre width, BS 8110 Cl. 3.12.11
+// Spacing limits for slab tension bars and BS 4483 fabric alternatives
+
+import { getMaxClearSpacing, getMinimumBarGap } from "./barSpacing";
+
+export interface SlabBarInput {
+  requiredArea: number; // mm²/m
+  effectiveDepth: number; // mm
+  thickness: number; // mm (h)
+  fy: number; // N/mm²
+  aggregateSize?: number; // mm (hagg), 20 mm if not given
+  redistributionRatio?: number; // βb, 1.0 if not given
+  fabric?: boolean; // also offer the lightest BS 4483 fabric
+}
+
+export interface SlabBars {
+  diameter: number; // mm
+  spacing: number; // mm centres
+  area: number; // mm²/m
+}
+
+export interface FabricMesh {
+  reference: string; // BS 4483 designation
+  mainDiameter: number; // mm
+  mainSpacing: number; // mm
+  mainArea: number; // mm²/m
+  crossDiameter: number; // mm
+  crossSpacing: number; // mm
+  crossArea: number; // mm²/m
+}
+
+export interface SlabBarSelection {
+  bars?: SlabBars; // lightest size and spacing within the limits
+  maxClearSpacing: number; // mm
+  spacingRule: string; // governing Cl. 3.12.11.2.7 limit
+  fabric?: FabricMesh;
+}
+
+const slabBarSizes = [8, 10, 12, 16, 20, 25];
+const slabBarSpacings = [100, 125, 150, 175, 200, 225, 250, 275, 300]; // mm - 100 mm practical minimum
+
+// BS 4483 square (A) and structural (B) fabrics - main wires first
+export const fabricMeshes: FabricMesh[] = [
+  { reference: 'A142', mainDiameter: 6, mainSpacing: 200, mainArea: 142, crossDiameter: 6, crossSpacing: 200, crossArea: 142 },
+  { reference: 'A193', mainDiameter: 7, mainSpacing: 200, mainArea: 193, crossDiameter: 7, crossSpacing: 200, crossArea: 193 },
+  { reference: 'A252', mainDiameter: 8, mainSpacing: 200, mainArea: 252, crossDiameter: 8, crossSpacing: 200, crossArea: 252 },
+  { reference: 'A393', mainDiameter: 10, mainSpacing: 200, mainArea: 393, crossDiameter: 10, crossSpacing: 200, crossArea: 393 },
+  { reference: 'B283', mainDiameter: 6, mainSpacing: 100, mainArea: 283, crossDiameter: 7, crossSpacing: 200, crossArea: 193 },
+  { reference: 'B385', mainDiameter: 7, mainSpacing: 100, mainArea: 385, crossDiameter: 7, crossSpacing: 200, crossArea: 193 },
+  { reference: 'B503', mainDiameter: 8, mainSpacing: 100, mainArea: 503, crossDiameter: 8, crossSpacing: 200, crossArea: 252 },
+  { reference: 'B785', mainDiameter: 10, mainSpacing: 100, mainArea: 785, crossDiameter: 8, crossSpacing: 200, crossArea: 252 },
+  { reference: 'B1131', mainDiameter: 12, mainSpacing: 100, mainArea: 1131, crossDiameter: 8, crossSpacing: 200, crossArea: 252 },
+];
+
+// Cl. 3.12.11.2.7 - clear spacing ≤ 3d or 750 mm. Unless h ≤ 250 mm (fy 250), h ≤ 200 mm (fy 460)
+// or 100As/bd < 0.3, Table 3.28 also applies, divided by 100As/bd where that is below 1.0.
+export function getSlabMaxClearSpacing(input: SlabBarInput): { clear: number; rule: string } {
+  const d = input.effectiveDepth;
+  const basic = Math.min(3 * d, 750);
+  const ratio = (100 * input.requiredArea) / (1000 * d);
+  const thinSlab = input.fy <= 250 ? input.thickness <= 250 : input.thickness <= 200;
+
+  if (thinSlab || ratio < 0.3) {
+    return {
+      clear: basic,
+      rule: `3d or 750 mm = ${basic.toFixed(0)} mm (${thinSlab ? `h = ${input.thickness} mm` : `100As/bd = ${ratio.toFixed(2)} < 0.3`})`
+    };
+  }
+
+  const table = getMaxClearSpacing(input.fy, input.redistributionRatio ?? 1);
+  const crackControl = ratio < 1 ? table / ratio : table;
+  return crackControl < basic
+    ? { clear: crackControl, rule: ratio < 1 ? `Table 3.28: ${table.toFixed(0)} / ${ratio.toFixed(2)} = ${crackControl.toFixed(0)} mm` : `Table 3.28 = ${crackControl.toFixed(0)} mm` }
+    : { clear: basic, rule: `3d or 750 mm = ${basic.toFixed(0)} mm` };
+}
+
+// Lightest bar size and spacing providing the required area, with clear spacing between
+// max(hagg + 5, φ) and the Cl. 3.12.11.2.7 limit; the wider spacing wins a tie
+export function selectSlabBars(input: SlabBarInput): SlabBarSelection {
+  const { clear: maxClearSpacing, rule: spacingRule } = getSlabMaxClearSpacing(input);
+  const aggregateSize = input.aggregateSize ?? 20;
+
+  const options = slabBarSizes.flatMap(diameter => slabBarSpacings
+    .filter(spacing => spacing - diameter >= getMinimumBarGap(diameter, aggregateSize) && spacing - diameter <= maxClearSpacing)
+    .map(spacing => ({ diameter, spacing, area: Math.round((1000 * Math.PI * diameter * diameter) / (4 * spacing)) })));
+  const bars = options
+    .filter(option => option.area >= input.requiredArea)
+    .sort((a, b) => a.area - b.area || b.spacing - a.spacing)[0];
+
+  const fabric = input.fabric
+    ? fabricMeshes
+      .filter(mesh => mesh.mainArea >= input.requiredArea && mesh.mainSpacing - mesh.mainDiameter <= maxClearSpacing)
+      .sort((a, b) => a.mainArea - b.mainArea)[0]
+    : undefined;
+
+  return { bars, maxClearSpacing, spacingRule, fabric };
+}
+
+export function describeSlabBars(selection: SlabBarSelection): string {
+  const { bars, fabric } = selection;
+  const text = bars
+    ? `T${bars.diameter}@${bars.spacing}mm c/c (${bars.area} mm²/m)`
+    : "No bar size and spacing within the limits - increase the slab depth";
+  return fabric ? `${text} or ${fabric.reference} fabric (${fabric.mainArea} mm²/m)` : text;
+}
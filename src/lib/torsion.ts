@@ -0,0 +1,227 @@
+// Torsion Design - BS 8110-2 Section 2.4
+// Torsional shear stress, Table 2.3 limits and additional closed links and longitudinal bars
+
+import type { CalculationStep } from "./beamCalculations";
+import type { SectionType } from "./flangedSection";
+
+export interface TorsionInput {
+  torsionalMoment: number; // kNm (ultimate)
+  sectionType: SectionType;
+  webWidth: number; // mm
+  overallDepth: number; // mm
+  flangeThickness: number; // mm (flanged sections only)
+  flangeWidth: number; // mm (effective flange width; equal to webWidth when the flange is ignored)
+  cover: number; // mm (to the links)
+  linkDiameter: number; // mm
+  effectiveDepth: number; // mm
+  shearStress: number; // N/mm² (flexural shear v)
+  vc: number; // N/mm²
+  fcu: number; // N/mm²
+  fy: number; // N/mm² (links and longitudinal bars)
+}
+
+export interface TorsionBars {
+  count: number;
+  diameter: number; // mm
+  area: number; // mm²
+  description: string;
+}
+
+export interface TorsionResult {
+  webTorsion: number; // kNm (share carried by the web rectangle)
+  torsionalStress: number; // N/mm² (vt)
+  vtMin: number; // N/mm²
+  vtu: number; // N/mm² (reduced for small sections)
+  torsionRequired: boolean;
+  linkAreaRatio: number; // mm²/mm (Asv/sv for torsion, two legs)
+  longitudinalSteel: number; // mm²
+  longitudinalBars?: TorsionBars;
+  linkSize: number; // mm (combined shear and torsion links)
+  linkSpacing: number; // mm
+  linksAdequate: boolean; // false when even T12 links would need sv < 75 mm
+  x1: number; // mm
+  y1: number; // mm
+  steps: CalculationStep[];
+  failureReasons: string[];
+}
+
+const longitudinalSizes = [
+  { dia: 12, area: 113 },
+  { dia: 16, area: 201 },
+  { dia: 20, area: 314 },
+  { dia: 25, area: 491 },
+  { dia: 32, area: 804 }
+];
+
+// BS8110-2 Table 2.3 - Minimum and maximum torsional shear stress
+export function getTorsionStressLimits(fcu: number): { vtMin: number; vtu: number } {
+  return {
+    vtMin: Math.min(0.067 * Math.sqrt(fcu), 0.4),
+    vtu: Math.min(0.8 * Math.sqrt(fcu), 5)
+  };
+}
+
+// BS8110-2 Cl. 2.4.4.1 - vt = 2T / [hmin²(hmax - hmin/3)] for a rectangle
+function rectangleStress(T_Nmm: number, a: number, b: number): number {
+  const hmin = Math.min(a, b);
+  const hmax = Math.max(a, b);
+  return (2 * T_Nmm) / (hmin * hmin * (hmax - hmin / 3));
+}
+
+// Bars around the link perimeter: one in each corner and no more than 300 mm apart (Cl. 2.4.9)
+function selectLongitudinalBars(area: number, x1: number, y1: number): TorsionBars {
+  const perimeter = 2 * (x1 + y1);
+  const count = Math.max(4, 2 * Math.ceil(perimeter / 600));
+  const bar = longitudinalSizes.find(size => count * size.area >= area) ?? longitudinalSizes[longitudinalSizes.length - 1];
+  return {
+    count,
+    diameter: bar.dia,
+    area: count * bar.area,
+    description: `${count}T${bar.dia} (${(count * bar.area).toFixed(0)} mm²)`
+  };
+}
+
+// Closed two-leg links providing the required Asv/sv at no more than the maximum spacing
+// (not adequate when even T12 links would be closer than 75 mm)
+function selectClosedLinks(AsvOverSv: number, maxSpacing: number): { size: number; spacing: number; adequate: boolean } {
+  const linkSizes = [8, 10, 12];
+  for (const dia of linkSizes) {
+    const Asv = 2 * Math.PI * Math.pow(dia / 2, 2);
+    const spacing = Math.min(Math.floor(Asv / AsvOverSv), Math.floor(maxSpacing));
+    if (spacing >= 75) {
+      return { size: dia, spacing, adequate: true };
+    }
+  }
+  return { size: 12, spacing: 75, adequate: false };
+}
+
+export function designTorsion(input: TorsionInput): TorsionResult {
+  const steps: CalculationStep[] = [];
+  const failureReasons: string[] = [];
+  const { webWidth: bw, overallDepth: h, flangeThickness: hf, fcu, fy } = input;
+  const T_Nmm = input.torsionalMoment * 1e6;
+
+  // Cl. 2.4.4.2 - T- and L-sections split into rectangles sharing T in proportion to hmin³·hmax
+  const outstands = input.sectionType === 'rectangular' || input.flangeWidth <= bw
+    ? []
+    : input.sectionType === 'T'
+      ? [(input.flangeWidth - bw) / 2, (input.flangeWidth - bw) / 2]
+      : [input.flangeWidth - bw];
+  const stiffness = (a: number, b: number) => Math.pow(Math.min(a, b), 3) * Math.max(a, b);
+  const webStiffness = stiffness(bw, h);
+  const totalStiffness = webStiffness + outstands.reduce((sum, width) => sum + stiffness(width, hf), 0);
+  const webShare = webStiffness / totalStiffness;
+  const webTorsion = input.torsionalMoment * webShare;
+  const torsionalStress = rectangleStress(T_Nmm * webShare, bw, h);
+
+  // Link centreline dimensions
+  const x1 = Math.min(bw, h) - 2 * input.cover - input.linkDiameter;
+  const y1 = Math.max(bw, h) - 2 * input.cover - input.linkDiameter;
+
+  // Table 2.3 and Cl. 2.4.6 - reduced vtu where y1 < 550 mm
+  const limits = getTorsionStressLimits(fcu);
+  const vtMin = limits.vtMin;
+  const vtu = y1 < 550 ? (limits.vtu * y1) / 550 : limits.vtu;
+  const combinedStress = input.shearStress + torsionalStress;
+  const stressOK = combinedStress <= limits.vtu && torsionalStress <= vtu;
+  const torsionRequired = torsionalStress > vtMin;
+
+  steps.push({
+    title: "Torsional Shear Stress",
+    formula: "vt = 2T / [hmin²(hmax - hmin/3)]; v + vt ≤ vtu",
+    substitution: `${outstands.length > 0 ? `Web share = ${(webShare * 100).toFixed(0)}% (Σhmin³hmax over web and flange outstands), Tweb = ${webTorsion.toFixed(2)} kN·m\n` : ''}vt = 2 × ${webTorsion.toFixed(2)} × 10⁶ / [${Math.min(bw, h)}² × (${Math.max(bw, h)} - ${Math.min(bw, h)}/3)] = ${torsionalStress.toFixed(2)} N/mm²
+vt,min = ${vtMin.toFixed(2)} N/mm², vtu = ${limits.vtu.toFixed(2)} N/mm²${y1 < 550 ? ` (× y1/550 = ${vtu.toFixed(2)} N/mm²)` : ''}
+v + vt = ${input.shearStress.toFixed(2)} + ${torsionalStress.toFixed(2)} = ${combinedStress.toFixed(2)} N/mm²`,
+    result: `vt = ${torsionalStress.toFixed(2)} N/mm² ${torsionRequired ? '>' : '≤'} vt,min = ${vtMin.toFixed(2)} N/mm²`,
+    isCheck: true,
+    checkPassed: stressOK,
+    status: !stressOK ? 'unsafe' : torsionRequired ? 'review' : 'safe',
+    explanation: !stressOK
+      ? "Combined shear and torsion stress exceeds vtu - increase the section size"
+      : torsionRequired
+        ? "vt > vt,min → Torsion reinforcement required (Table 2.4)"
+        : "vt ≤ vt,min → No torsion reinforcement required (Table 2.4)",
+    bsReference: "BS8110-2 Cl. 2.4.4 - 2.4.6, Table 2.3"
+  });
+
+  if (!stressOK) {
+    failureReasons.push(combinedStress > limits.vtu
+      ? `Combined shear and torsion stress (${combinedStress.toFixed(2)} N/mm²) exceeds vtu (${limits.vtu.toFixed(2)} N/mm²)`
+      : `Torsional shear stress (${torsionalStress.toFixed(2)} N/mm²) exceeds vtu·y1/550 (${vtu.toFixed(2)} N/mm²)`);
+  }
+
+  let linkAreaRatio = 0;
+  let longitudinalSteel = 0;
+  let longitudinalBars: TorsionBars | undefined;
+  let linkSize = 0;
+  let linkSpacing = 0;
+  let linksAdequate = true;
+
+  if (torsionRequired) {
+    // Cl. 2.4.7 - Asv/sv = T / [0.8x1·y1(0.87fyv)], As = (Asv/sv)(fyv/fy)(x1 + y1)
+    linkAreaRatio = (webTorsion * 1e6) / (0.8 * x1 * y1 * 0.87 * fy);
+    longitudinalSteel = linkAreaRatio * (x1 + y1);
+    longitudinalBars = selectLongitudinalBars(longitudinalSteel, x1, y1);
+
+    steps.push({
+      title: "Torsion Reinforcement",
+      formula: "Asv/sv = T / [0.8x1·y1(0.87fyv)], As = (Asv/sv)(fyv/fy)(x1 + y1)",
+      substitution: `x1 = ${x1.toFixed(0)} mm, y1 = ${y1.toFixed(0)} mm (link centrelines)
+Asv/sv = ${webTorsion.toFixed(2)} × 10⁶ / (0.8 × ${x1.toFixed(0)} × ${y1.toFixed(0)} × 0.87 × ${fy}) = ${linkAreaRatio.toFixed(3)} mm²/mm
+As = ${linkAreaRatio.toFixed(3)} × (${x1.toFixed(0)} + ${y1.toFixed(0)}) = ${longitudinalSteel.toFixed(0)} mm²`,
+      result: `Longitudinal: ${longitudinalBars.description} evenly around the link perimeter`,
+      explanation: "Longitudinal bars at each corner of the links and at no more than 300 mm centres",
+      bsReference: "BS8110-2 Cl. 2.4.7 - 2.4.9"
+    });
+
+    // Table 2.4 - designed torsion links added to the shear links (not less than minimum links)
+    const shearRatio = input.shearStress > input.vc ? (bw * (input.shearStress - input.vc)) / (0.87 * fy) : 0;
+    const minimumRatio = (0.4 * bw) / (0.87 * fy);
+    const totalRatio = Math.max(shearRatio + linkAreaRatio, minimumRatio);
+    const maxSpacing = Math.min(x1, y1 / 2, 200, 0.75 * input.effectiveDepth);
+    const links = selectClosedLinks(totalRatio, maxSpacing);
+    linkSize = links.size;
+    linkSpacing = links.spacing;
+    linksAdequate = links.adequate;
+    const t12Spacing = Math.min(Math.floor((2 * Math.PI * 36) / totalRatio), Math.floor(maxSpacing));
+
+    steps.push({
+      title: "Combined Shear and Torsion Links",
+      formula: "Asv/sv = bv(v - vc)/(0.87fyv) + T/[0.8x1·y1(0.87fyv)] ≥ 0.4bv/(0.87fyv); sv ≤ min(x1, y1/2, 200 mm)",
+      substitution: `Asv/sv = ${shearRatio.toFixed(3)} + ${linkAreaRatio.toFixed(3)} = ${(shearRatio + linkAreaRatio).toFixed(3)} mm²/mm (minimum ${minimumRatio.toFixed(3)})
+sv,max = min(${x1.toFixed(0)}, ${(y1 / 2).toFixed(0)}, 200, 0.75d) = ${maxSpacing.toFixed(0)} mm`,
+      result: linksAdequate
+        ? `Provide closed T${linkSize} links @ ${linkSpacing}mm c/c`
+        : `T12 links would need sv = ${t12Spacing} mm < 75 mm`,
+      isCheck: true,
+      checkPassed: linksAdequate,
+      status: linksAdequate ? 'safe' : 'unsafe',
+      explanation: linksAdequate
+        ? "Links must be closed with full anchorage laps (BS8110-2 Cl. 2.4.8)"
+        : "Torsion links cannot be provided at a practical spacing - increase the section",
+      bsReference: "BS8110-2 Table 2.4, Cl. 2.4.8"
+    });
+
+    if (!linksAdequate) {
+      failureReasons.push(`Torsion links cannot be provided (T12 links would need sv = ${t12Spacing} mm < 75 mm) - increase the section`);
+    }
+  }
+
+  return {
+    webTorsion,
+    torsionalStress,
+    vtMin,
+    vtu,
+    torsionRequired,
+    linkAreaRatio,
+    longitudinalSteel,
+    longitudinalBars,
+    linkSize,
+    linkSpacing,
+    linksAdequate,
+    x1,
+    y1,
+    steps,
+    failureReasons
+  };
+}
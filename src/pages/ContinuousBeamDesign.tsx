@@ -23,8 +23,8 @@ const ContinuousBeamDesign = () => {
             Continuous Beam Design
           </h2>
           <p className="text-muted-foreground max-w-2xl mx-auto">
-            Analyze multi-span continuous beams with automatic moment and shear distribution 
-            following BS8110 Table 3.5 coefficients.
+            Analyze multi-span continuous beams by the stiffness method, with each span 
+            solved for its own length and loading.
           </p>
         </div>
 
@@ -35,23 +35,23 @@ const ContinuousBeamDesign = () => {
             
             {/* Quick Reference */}
             <div className="mt-6 p-4 rounded-lg border border-border/50 bg-muted/20">
-              <h4 className="font-semibold text-sm mb-3 text-muted-foreground">BS8110 Table 3.5 Reference</h4>
+              <h4 className="font-semibold text-sm mb-3 text-muted-foreground">BS8110 Table 3.6 Reference (F = wL)</h4>
               <div className="space-y-2 text-xs font-mono text-muted-foreground">
                 <div className="flex justify-between">
-                  <span>2-span interior support</span>
-                  <span className="text-primary">-0.125</span>
+                  <span>Near middle of end span</span>
+                  <span className="text-primary">+0.090FL</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>3-span interior support</span>
-                  <span className="text-primary">-0.100</span>
+                  <span>First interior support</span>
+                  <span className="text-primary">-0.110FL</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>Mid-span (exterior)</span>
-                  <span className="text-primary">+0.080</span>
+                  <span>Middle interior spans</span>
+                  <span className="text-primary">+0.070FL</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>Mid-span (interior)</span>
-                  <span className="text-primary">+0.025</span>
+                  <span>Interior supports</span>
+                  <span className="text-primary">-0.080FL</span>
                 </div>
               </div>
             </div>
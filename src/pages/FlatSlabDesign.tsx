@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Header } from "@/components/Header";
+import { FlatSlabInputForm } from "@/components/FlatSlabInputForm";
+import { FlatSlabOutput } from "@/components/FlatSlabOutput";
+import { calculateFlatSlabDesign, type FlatSlabInput, type FlatSlabResult } from "@/lib/flatSlabCalculations";
+
+const FlatSlabDesign = () => {
+  const [result, setResult] = useState<FlatSlabResult | null>(null);
+
+  const handleCalculate = (input: FlatSlabInput) => {
+    setResult(calculateFlatSlabDesign(input));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      
+      <main className="container max-w-7xl mx-auto px-4 py-8">
+        {/* Hero Section */}
+        <div className="text-center mb-10 animate-fade-in">
+          <h2 className="text-3xl md:text-4xl font-bold mb-3 text-foreground">
+            Flat Slab Design
+          </h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Design column-supported flat slabs to BS8110: column and middle strip moments 
+            from the simplified coefficients, and punching shear at edge, corner and interior columns.
+          </p>
+        </div>
+
+        {/* Main Content Grid */}
+        <div className="grid lg:grid-cols-[400px_1fr] gap-6">
+          <div className="lg:sticky lg:top-20 lg:self-start space-y-4">
+            <FlatSlabInputForm onCalculate={handleCalculate} />
+            
+            {/* Quick Reference */}
+            <div className="p-4 rounded-xl border border-border bg-card card-shadow">
+              <h4 className="font-semibold text-sm mb-3 text-foreground">Quick Reference</h4>
+              <div className="space-y-2 text-xs font-mono text-muted-foreground">
+                <div className="flex justify-between">
+                  <span>Column strip width</span>
+                  <span className="text-primary font-medium">lx/2</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Column strip share (-/+)</span>
+                  <span className="text-primary font-medium">75% / 55%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Veff interior</span>
+                  <span className="text-primary font-medium">1.15Vt</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Veff corner / edge</span>
+                  <span className="text-primary font-medium">1.25Vt / 1.4Vt</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>First perimeter</span>
+                  <span className="text-primary font-medium">1.5d</span>
+                </div>
+              </div>
+            </div>
+          </div>
+          
+          <div className="space-y-6">
+            <FlatSlabOutput result={result} />
+          </div>
+        </div>
+
+        {/* Footer */}
+        <footer className="mt-12 pt-6 border-t border-border text-center text-xs text-muted-foreground">
+          <p>
+            Calculations based on BS8110-1:1997 • For educational purposes only • 
+            Always verify with qualified engineer
+          </p>
+        </footer>
+      </main>
+    </div>
+  );
+};
+
+export default FlatSlabDesign;
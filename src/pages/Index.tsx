@@ -1,17 +1,34 @@
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { Header } from "@/components/Header";
-import { BeamInputForm } from "@/components/BeamInputForm";
+import { BeamInputForm, type CalculationMode } from "@/components/BeamInputForm";
 import { CalculationOutput } from "@/components/CalculationOutput";
 import { DesignAdvisory } from "@/components/DesignAdvisory";
-import { calculateBeamDesign, type BeamInput, type BeamResult } from "@/lib/beamCalculations";
+import { ReinforcementDrawing } from "@/components/ReinforcementDrawing";
+import { calculateBeamCheck, calculateBeamDesign, type BeamCheckInput, type BeamInput, type BeamResult } from "@/lib/beamCalculations";
 import { analyzeBeamDesign, type AdvisoryResult } from "@/lib/designAdvisory";
+import { beamDrawings, type MemberDrawings } from "@/lib/reinforcementDrawing";
+
+const isPositive = (value: number) => Number.isFinite(value) && value > 0;
+
+// Preview only sections that can be designed - an emptied field reads as 0
+function isPreviewable(input: BeamInput | BeamCheckInput, mode: CalculationMode): boolean {
+  const { span, width, overallDepth, fcu, fy, cover, linkDiameter, aggregateSize } = input;
+  if (![span, width, overallDepth, fcu, fy, cover, linkDiameter, aggregateSize].every(isPositive)) return false;
+  if (mode === 'check') {
+    const { bottomBars, topBars, linkLegs, linkSpacing } = input as BeamCheckInput;
+    return [bottomBars.count, bottomBars.diameter, topBars.diameter, linkLegs, linkSpacing].every(isPositive)
+      && Number.isFinite(topBars.count) && topBars.count >= 0
+      && overallDepth - cover - linkDiameter - bottomBars.diameter / 2 > 0;
+  }
+  return isPositive(input.mainBarDiameter) && overallDepth - cover - linkDiameter - input.mainBarDiameter / 2 > 0;
+}
 
 const Index = () => {
   const [result, setResult] = useState<BeamResult | null>(null);
   const [advisory, setAdvisory] = useState<AdvisoryResult | null>(null);
+  const [drawings, setDrawings] = useState<MemberDrawings | null>(null);
 
-  const handleCalculate = (input: BeamInput) => {
-    const calculationResult = calculateBeamDesign(input);
+  const showResult = (input: BeamInput, calculationResult: BeamResult) => {
     setResult(calculationResult);
     
     // Calculate effective depth for advisory
@@ -24,7 +41,7 @@ const Index = () => {
       shearStress: calculationResult.summary.shearStress,
       maxShearStress: Math.min(0.8 * Math.sqrt(input.fcu), 5),
       actualSpanDepthRatio: (input.span * 1000) / effectiveDepth,
-      allowableSpanDepthRatio: 20 * 1.3, // Basic ratio × typical modification
+      allowableSpanDepthRatio: calculationResult.summary.basicSpanDepthRatio * 1.3, // Basic ratio × typical modification
       tensionSteel: calculationResult.summary.tensionSteel,
       width: input.width,
       depth: input.overallDepth,
@@ -36,6 +53,24 @@ const Index = () => {
     setAdvisory(advisoryResult);
   };
 
+  const handleCalculate = (input: BeamInput) => {
+    showResult(input, calculateBeamDesign(input));
+  };
+
+  const handleCheck = (input: BeamCheckInput) => {
+    showResult(input, calculateBeamCheck(input));
+  };
+
+  // Live drawing - the section is redesigned (or rechecked) as the inputs change
+  const handlePreview = useCallback((input: BeamInput | BeamCheckInput, mode: CalculationMode) => {
+    if (!isPreviewable(input, mode)) {
+      setDrawings(null);
+      return;
+    }
+    const preview = mode === 'check' ? calculateBeamCheck(input as BeamCheckInput) : calculateBeamDesign(input);
+    setDrawings(beamDrawings(input, preview));
+  }, []);
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -55,7 +90,15 @@ const Index = () => {
         {/* Main Content Grid */}
         <div className="grid lg:grid-cols-[420px_1fr] gap-6">
           <div className="lg:sticky lg:top-20 lg:self-start space-y-4">
-            <BeamInputForm onCalculate={handleCalculate} />
+            <BeamInputForm onCalculate={handleCalculate} onCheck={handleCheck} onPreview={handlePreview} />
+
+            {/* Live Reinforcement Drawing */}
+            {drawings && (
+              <div className="p-4 rounded-xl border border-border bg-card card-shadow">
+                <h4 className="font-semibold text-sm mb-3 text-foreground">Reinforcement Drawing</h4>
+                <ReinforcementDrawing drawings={drawings} />
+              </div>
+            )}
             
             {/* Quick Reference */}
             <div className="p-4 rounded-xl border border-border bg-card card-shadow">
@@ -15,7 +15,7 @@ const SlabDesign = () => {
     setResult(calculationResult);
     
     // Generate design advisory
-    const kValue = calculationResult.summary.shortSpanMoment * 1e6 / (1000 * Math.pow(calculationResult.summary.effectiveDepthShort, 2) * input.fcu);
+    const kValue = calculationResult.summary.kShort;
     const advisoryResult = analyzeSlabDesign({
       kValue,
       kPrime: 0.156,